@@ -0,0 +1,42 @@
+/**
+ * ProductRepository Unit Tests - owner matches in aggregation pipelines
+ */
+
+import { Types } from 'mongoose';
+import { ProductRepository } from '../../repositories/ProductRepository';
+import { Product } from '../../models/Product';
+
+// Aggregation does not cast, so an owner compared as a string matches no product
+const ownerMatch = (aggregate: jest.SpyInstance) => aggregate.mock.calls[0][0][0].$match.userId;
+
+describe('ProductRepository owner filters', () => {
+  const repository = new ProductRepository();
+  const userId = new Types.ObjectId().toString();
+  let aggregate: jest.SpyInstance;
+
+  beforeEach(() => {
+    aggregate = jest.spyOn(Product, 'aggregate').mockResolvedValue([] as any);
+  });
+
+  afterEach(() => aggregate.mockRestore());
+
+  it('should match stocked products of the owner by ObjectId', async () => {
+    await repository.countStocked(userId, undefined, true);
+
+    expect(ownerMatch(aggregate)).toEqual(new Types.ObjectId(userId));
+  });
+
+  it('should match quarantined, low stock and valued products of the owner by ObjectId', async () => {
+    const locationId = new Types.ObjectId().toString();
+    const categoryIds = [new Types.ObjectId().toString()];
+
+    await repository.getQuarantinedQuantity(userId, categoryIds);
+    await repository.findLowStock(userId, locationId, categoryIds);
+    await repository.getTotalValue(userId, locationId, categoryIds);
+
+    for (const [pipeline] of aggregate.mock.calls) {
+      expect(pipeline[0].$match.userId).toEqual(new Types.ObjectId(userId));
+    }
+    expect(aggregate).toHaveBeenCalledTimes(3);
+  });
+});
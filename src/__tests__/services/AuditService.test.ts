@@ -0,0 +1,137 @@
+/**
+ * AuditService Unit Tests - retention, exported rows and admin product actions
+ */
+
+import { Types } from 'mongoose';
+import { AuditService } from '../../services/AuditService';
+import { AuditAction, AuditOutcome, UserRole } from '../../types';
+
+jest.mock('../../repositories/AuditEventRepository');
+jest.mock('../../repositories/ProductRepository');
+
+describe('AuditService.retentionDays', () => {
+  it('should default to a year and accept whole days', () => {
+    expect(AuditService.retentionDays(undefined)).toBe(365);
+    expect(AuditService.retentionDays('')).toBe(365);
+    expect(AuditService.retentionDays('90')).toBe(90);
+    expect(AuditService.retentionDays('0')).toBe(0);
+  });
+
+  it('should reject negative or fractional periods', () => {
+    expect(() => AuditService.retentionDays('-1')).toThrow(
+      'Audit retention must be a whole number of days, or 0 to keep events forever'
+    );
+    expect(() => AuditService.retentionDays('1.5')).toThrow();
+    expect(() => AuditService.retentionDays('forever')).toThrow();
+  });
+});
+
+describe('AuditService.retentionCutoff', () => {
+  it('should count the retention period back from now', () => {
+    expect(AuditService.retentionCutoff(30, new Date('2026-03-31T12:00:00Z'))).toEqual(
+      new Date('2026-03-01T12:00:00Z')
+    );
+  });
+
+  it('should keep everything when the period is 0', () => {
+    expect(AuditService.retentionCutoff(0)).toBeNull();
+  });
+});
+
+describe('AuditService.outcomeForStatus', () => {
+  it('should treat error statuses as failures', () => {
+    expect(AuditService.outcomeForStatus(200)).toBe(AuditOutcome.SUCCESS);
+    expect(AuditService.outcomeForStatus(304)).toBe(AuditOutcome.SUCCESS);
+    expect(AuditService.outcomeForStatus(404)).toBe(AuditOutcome.FAILURE);
+    expect(AuditService.outcomeForStatus(500)).toBe(AuditOutcome.FAILURE);
+  });
+});
+
+describe('AuditService.toExportRecord', () => {
+  it('should spread the target over its own columns', () => {
+    const record = AuditService.toExportRecord({
+      _id: 'a1',
+      action: AuditAction.ADMIN_PRODUCT_ACTION,
+      outcome: AuditOutcome.SUCCESS,
+      actorId: 'u1',
+      target: { type: 'product', id: 'p1', label: 'SKU-1', ownerId: 'u2' },
+      details: { method: 'PUT', path: '/api/products/p1', statusCode: 200 },
+    });
+
+    expect(record).toMatchObject({
+      id: 'a1',
+      actorId: 'u1',
+      targetType: 'product',
+      targetId: 'p1',
+      targetLabel: 'SKU-1',
+      targetOwnerId: 'u2',
+    });
+  });
+
+  it('should leave the target columns empty for events without one', () => {
+    const record = AuditService.toExportRecord({
+      _id: 'a2',
+      action: AuditAction.LOGIN,
+      outcome: AuditOutcome.FAILURE,
+      actorEmail: 'someone@example.com',
+    });
+
+    expect(record.actorId).toBeUndefined();
+    expect(record.targetType).toBeUndefined();
+  });
+});
+
+describe('AuditService.recordAdminOperation', () => {
+  let service: AuditService;
+  let repos: any;
+  const adminId = new Types.ObjectId().toString();
+  const ownerId = new Types.ObjectId();
+  const products = [
+    { _id: new Types.ObjectId(), sku: 'OTHER-1', userId: ownerId },
+    { _id: new Types.ObjectId(), sku: 'OWN-1', userId: new Types.ObjectId(adminId) },
+  ];
+  const productIds = products.map(product => product._id.toString());
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new AuditService();
+    repos = service as any;
+    repos.productRepository.find.mockResolvedValue(products);
+  });
+
+  it("should record an admin's change to each product of another user", async () => {
+    await service.recordAdminOperation(
+      { actorId: adminId, actorRole: UserRole.ADMIN, ip: '10.0.0.1' },
+      [...productIds, productIds[0]],
+      { operation: 'scan_session', reference: 'SCN-000001' }
+    );
+
+    expect(repos.auditEventRepository.create).toHaveBeenCalledTimes(1);
+    expect(repos.auditEventRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: AuditAction.ADMIN_PRODUCT_ACTION,
+        outcome: AuditOutcome.SUCCESS,
+        ip: '10.0.0.1',
+        target: {
+          type: 'product',
+          id: productIds[0],
+          label: 'OTHER-1',
+          ownerId: ownerId.toString(),
+        },
+        details: { operation: 'scan_session', reference: 'SCN-000001' },
+      })
+    );
+  });
+
+  it('should leave changes by other roles or without a request out', async () => {
+    await service.recordAdminOperation(
+      { actorId: adminId, actorRole: UserRole.MANAGER },
+      productIds,
+      { operation: 'transfer_ship' }
+    );
+    await service.recordAdminOperation(undefined, productIds, { operation: 'product_import' });
+
+    expect(repos.productRepository.find).not.toHaveBeenCalled();
+    expect(repos.auditEventRepository.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * BarcodeService Unit Tests - check digits, barcode validation and rendering
+ */
+
+import { BarcodeService } from '../../services/BarcodeService';
+import { BarcodeType, CodeImageFormat } from '../../types';
+
+describe('BarcodeService.checkDigit', () => {
+  it('should compute GS1 check digits', () => {
+    expect(BarcodeService.checkDigit('400638133393')).toBe(1);
+    expect(BarcodeService.checkDigit('03600029145')).toBe(2);
+    expect(BarcodeService.checkDigit('978030640615')).toBe(7);
+  });
+});
+
+describe('BarcodeService.normalizeBarcode', () => {
+  it('should infer the type from the code', () => {
+    expect(BarcodeService.normalizeBarcode('4006381333931')).toEqual({
+      barcode: '4006381333931',
+      barcodeType: BarcodeType.EAN13,
+    });
+    expect(BarcodeService.normalizeBarcode(' 0 36000-29145 2 ')).toEqual({
+      barcode: '036000291452',
+      barcodeType: BarcodeType.UPCA,
+    });
+    expect(BarcodeService.normalizeBarcode('SKU-001/A')).toEqual({
+      barcode: 'SKU-001/A',
+      barcodeType: BarcodeType.CODE128,
+    });
+  });
+
+  it('should reject wrong check digits and lengths', () => {
+    expect(() => BarcodeService.normalizeBarcode('4006381333932')).toThrow(
+      'Invalid EAN-13 check digit, expected 1'
+    );
+    expect(() => BarcodeService.normalizeBarcode('12345', BarcodeType.UPCA)).toThrow(
+      'UPC-A barcodes have 12 digits'
+    );
+  });
+
+  it('should limit Code 128 to printable ASCII', () => {
+    expect(() => BarcodeService.normalizeBarcode('Café', BarcodeType.CODE128)).toThrow(
+      'Code 128 barcodes hold up to 80 printable ASCII characters'
+    );
+    expect(() => BarcodeService.normalizeBarcode('   ')).toThrow('Barcode cannot be empty');
+  });
+});
+
+describe('BarcodeService.normalizeAlternateCodes', () => {
+  it('should trim codes and drop blanks and repeats', () => {
+    expect(BarcodeService.normalizeAlternateCodes([' OLD-55 ', '', 'OLD-55', 'SUP 1001'])).toEqual([
+      'OLD-55',
+      'SUP 1001',
+    ]);
+  });
+
+  it('should reject codes that cannot be scanned', () => {
+    expect(() => BarcodeService.normalizeAlternateCodes('OLD-55')).toThrow(
+      'Alternate codes must be a list'
+    );
+    expect(() => BarcodeService.normalizeAlternateCodes(['Größe'])).toThrow(
+      'Alternate code "Größe" must be up to 80 printable ASCII characters'
+    );
+  });
+});
+
+describe('BarcodeService.productCode', () => {
+  it('should fall back to a Code 128 of the SKU', () => {
+    expect(BarcodeService.productCode({ sku: 'TV-55', barcode: null, barcodeType: null })).toEqual({
+      barcode: 'TV-55',
+      barcodeType: BarcodeType.CODE128,
+    });
+    expect(
+      BarcodeService.productCode({
+        sku: 'TV-55',
+        barcode: '4006381333931',
+        barcodeType: BarcodeType.EAN13,
+      })
+    ).toEqual({ barcode: '4006381333931', barcodeType: BarcodeType.EAN13 });
+  });
+});
+
+describe('BarcodeService rendering', () => {
+  it('should render PNG and SVG images', async () => {
+    const png = await BarcodeService.renderBarcode('4006381333931', BarcodeType.EAN13);
+    const svg = await BarcodeService.renderQrCode('TV-55', CodeImageFormat.SVG);
+
+    expect(png.subarray(1, 4).toString('ascii')).toBe('PNG');
+    expect(svg.toString()).toMatch(/^<svg /);
+  });
+});
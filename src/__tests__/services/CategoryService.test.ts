@@ -0,0 +1,132 @@
+/**
+ * CategoryService Unit Tests - slugs, the category tree and attribute definitions
+ */
+
+import { CategoryService } from '../../services/CategoryService';
+import { AttributeType } from '../../types';
+
+describe('CategoryService.slugify', () => {
+  it('should fold case, spacing and punctuation', () => {
+    expect(CategoryService.slugify('Electronics')).toBe('electronics');
+    expect(CategoryService.slugify('electronics ')).toBe('electronics');
+    expect(CategoryService.slugify('  Home & Garden ')).toBe('home-garden');
+  });
+
+  it('should strip accents', () => {
+    expect(CategoryService.slugify('Café Équipement')).toBe('cafe-equipement');
+  });
+
+  it('should return an empty slug when nothing usable remains', () => {
+    expect(CategoryService.slugify(' -- ')).toBe('');
+  });
+});
+
+describe('CategoryService.normalizeName', () => {
+  it('should trim and collapse whitespace', () => {
+    expect(CategoryService.normalizeName('  Home   Garden ')).toBe('Home Garden');
+  });
+});
+
+describe('CategoryService.buildTree', () => {
+  const categories = [
+    { _id: 'c1', name: 'Electronics', slug: 'electronics', parentId: null },
+    { _id: 'c2', name: 'Phones', slug: 'phones', parentId: 'c1' as any },
+    { _id: 'c3', name: 'Cases', slug: 'cases', parentId: 'c2' as any },
+    { _id: 'c4', name: 'Audio', slug: 'audio', parentId: 'c1' as any },
+    { _id: 'c5', name: 'Books', slug: 'books', parentId: null },
+  ];
+
+  it('should nest categories under their parents, sorted by name', () => {
+    const tree = CategoryService.buildTree(categories);
+
+    expect(tree.map(node => node.name)).toEqual(['Books', 'Electronics']);
+    expect(tree[1].children.map(node => node.name)).toEqual(['Audio', 'Phones']);
+    expect(tree[1].children[1].children.map(node => node.name)).toEqual(['Cases']);
+    expect(tree[1].stats).toBeUndefined();
+  });
+
+  it('should show categories with an unknown parent at the top level', () => {
+    const tree = CategoryService.buildTree([
+      { _id: 'c9', name: 'Orphan', slug: 'orphan', parentId: 'gone' as any },
+    ]);
+
+    expect(tree).toHaveLength(1);
+    expect(tree[0].parentId).toBe('gone');
+  });
+
+  it('should roll totals up through every ancestor', () => {
+    const totals = new Map([
+      ['c1', { productCount: 1, totalQuantity: 5, totalValue: 10.1 }],
+      ['c2', { productCount: 2, totalQuantity: 10, totalValue: 20.2 }],
+      ['c3', { productCount: 3, totalQuantity: 30, totalValue: 0.3 }],
+    ]);
+
+    const tree = CategoryService.buildTree(categories, totals);
+    const electronics = tree[1];
+    const phones = electronics.children[1];
+
+    expect(phones.children[0].stats).toEqual({
+      productCount: 3,
+      totalQuantity: 30,
+      totalValue: 0.3,
+    });
+    expect(phones.stats).toEqual({ productCount: 5, totalQuantity: 40, totalValue: 20.5 });
+    expect(electronics.stats).toEqual({ productCount: 6, totalQuantity: 45, totalValue: 30.6 });
+    expect(electronics.children[0].stats).toEqual({
+      productCount: 0,
+      totalQuantity: 0,
+      totalValue: 0,
+    });
+    expect(tree[0].stats).toEqual({ productCount: 0, totalQuantity: 0, totalValue: 0 });
+  });
+});
+
+describe('CategoryService.normalizeAttributeDefinitions', () => {
+  it('should default labels and keep options only for enums', () => {
+    expect(
+      CategoryService.normalizeAttributeDefinitions([
+        { key: 'voltage', type: AttributeType.NUMBER, unit: ' V ', required: true },
+        {
+          key: 'plug',
+          label: 'Plug type',
+          type: AttributeType.ENUM,
+          options: ['Type A', ' Type A', 'Type G', ''],
+        },
+        { key: 'finish', type: AttributeType.STRING, options: ['ignored'] },
+      ])
+    ).toEqual([
+      { key: 'voltage', label: 'voltage', type: 'number', required: true, unit: 'V' },
+      {
+        key: 'plug',
+        label: 'Plug type',
+        type: 'enum',
+        required: false,
+        options: ['Type A', 'Type G'],
+      },
+      { key: 'finish', label: 'finish', type: 'string', required: false },
+    ]);
+  });
+
+  it('should reject invalid or repeated keys', () => {
+    expect(() =>
+      CategoryService.normalizeAttributeDefinitions([
+        { key: 'shelf.life', type: AttributeType.NUMBER },
+      ])
+    ).toThrow('Invalid attribute key "shelf.life"');
+    expect(() =>
+      CategoryService.normalizeAttributeDefinitions([
+        { key: 'voltage', type: AttributeType.NUMBER },
+        { key: 'voltage', type: AttributeType.STRING },
+      ])
+    ).toThrow('Attribute "voltage" is defined more than once');
+  });
+
+  it('should require a valid type and enum options', () => {
+    expect(() =>
+      CategoryService.normalizeAttributeDefinitions([{ key: 'colour', type: 'color' as any }])
+    ).toThrow('Invalid type for attribute "colour"');
+    expect(() =>
+      CategoryService.normalizeAttributeDefinitions([{ key: 'plug', type: AttributeType.ENUM }])
+    ).toThrow('Enum attribute "plug" needs at least one option');
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * CostingService Unit Tests - cost layers and average cost
+ */
+
+import { Types } from 'mongoose';
+import { CostingService } from '../../services/CostingService';
+import { StockMovementReason, ValuationMethod } from '../../types';
+
+jest.mock('../../config/database', () => ({
+  __esModule: true,
+  default: { withTransaction: jest.fn((work: any, session?: any) => work(session || {})) },
+}));
+jest.mock('../../repositories/CostLayerRepository');
+jest.mock('../../repositories/ProductRepository');
+jest.mock('../../repositories/StockMovementRepository');
+
+describe('CostingService.resolveMethod', () => {
+  it('should default to FIFO', () => {
+    expect(CostingService.resolveMethod()).toBe(ValuationMethod.FIFO);
+    expect(CostingService.resolveMethod('')).toBe(ValuationMethod.FIFO);
+  });
+
+  it('should accept the supported methods', () => {
+    expect(CostingService.resolveMethod('weighted_average')).toBe(ValuationMethod.WEIGHTED_AVERAGE);
+    expect(CostingService.resolveMethod('standard')).toBe(ValuationMethod.STANDARD);
+  });
+
+  it('should reject unknown methods', () => {
+    expect(() => CostingService.resolveMethod('lifo')).toThrow('Unknown valuation method: lifo');
+  });
+});
+
+describe('CostingService.consumeFifo', () => {
+  const layers = [
+    { _id: 'a', quantityRemaining: 5, unitCost: 2 },
+    { _id: 'b', quantityRemaining: 0, unitCost: 9 },
+    { _id: 'c', quantityRemaining: 10, unitCost: 3 },
+  ];
+
+  it('should take from the oldest layers first', () => {
+    const result = CostingService.consumeFifo(layers, 8);
+
+    expect(result.consumptions).toEqual([
+      { layerId: 'a', quantity: 5, unitCost: 2 },
+      { layerId: 'c', quantity: 3, unitCost: 3 },
+    ]);
+    expect(result.cost).toBe(19);
+    expect(result.shortfall).toBe(0);
+  });
+
+  it('should report the quantity the layers cannot cover', () => {
+    const result = CostingService.consumeFifo(layers, 20);
+
+    expect(result.cost).toBe(40);
+    expect(result.shortfall).toBe(5);
+  });
+});
+
+describe('CostingService.nextAverageCost', () => {
+  it('should weight the receipt against the stock on the books', () => {
+    expect(CostingService.nextAverageCost(10, 10, 10, 20)).toBe(15);
+    expect(CostingService.nextAverageCost(2, 3, 1, 3)).toBe(2.25);
+  });
+
+  it('should use the receipt cost when nothing is on the books', () => {
+    expect(CostingService.nextAverageCost(10, 0, 5, 4)).toBe(4);
+    expect(CostingService.nextAverageCost(10, -2, 5, 4)).toBe(4);
+  });
+});
+
+describe('CostingService.seedOpeningLayers', () => {
+  let service: CostingService;
+  let repos: any;
+  const productId = new Types.ObjectId().toString();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new CostingService();
+    repos = service as any;
+    repos.productRepository.findWithoutCostLayers.mockResolvedValue([productId]);
+  });
+
+  it('should open one layer for uncosted stock and book its value', async () => {
+    repos.productRepository.findById.mockResolvedValue({
+      _id: productId,
+      quantity: 8,
+      averageCost: 0,
+      standardCost: 2.5,
+      inventoryValue: 0,
+    });
+
+    await expect(service.seedOpeningLayers()).resolves.toBe(1);
+
+    expect(repos.costLayerRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        productId,
+        quantityReceived: 8,
+        quantityRemaining: 8,
+        unitCost: 2.5,
+        reason: StockMovementReason.INITIAL,
+      }),
+      expect.anything()
+    );
+    expect(repos.productRepository.updateCosting).toHaveBeenCalledWith(
+      productId,
+      2.5,
+      20,
+      expect.anything()
+    );
+    expect(repos.stockMovementRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        productId,
+        quantityChange: 8,
+        quantityBefore: 0,
+        quantityAfter: 8,
+        reason: StockMovementReason.INITIAL,
+        valueChange: 20,
+      }),
+      expect.anything()
+    );
+  });
+
+  it('should keep the ledger valuation of seeded stock right after a sale', async () => {
+    const product: any = {
+      _id: new Types.ObjectId(productId),
+      quantity: 8,
+      averageCost: 0,
+      standardCost: 2.5,
+      inventoryValue: 0,
+    };
+    const layers: any[] = [];
+    const ledger: any[] = [];
+    repos.productRepository.findById.mockResolvedValue(product);
+    repos.costLayerRepository.create.mockImplementation(async (layer: any) => {
+      layers.push({ _id: new Types.ObjectId(), ...layer });
+    });
+    repos.costLayerRepository.findOpenLayers.mockImplementation(async () =>
+      layers.filter(layer => layer.quantityRemaining > 0)
+    );
+    repos.stockMovementRepository.create.mockImplementation(async (movement: any) => {
+      ledger.push(movement);
+    });
+
+    await service.seedOpeningLayers();
+    const sale = await service.applyChange(
+      { ...product, averageCost: 2.5, inventoryValue: 20 },
+      -2,
+      undefined,
+      { reason: StockMovementReason.SALE },
+      {} as any
+    );
+    ledger.push({ quantityAfter: 6, valueChange: sale.valueChange });
+
+    // What the valuation report takes from the ledger: the last balance and the value booked
+    expect(ledger[ledger.length - 1].quantityAfter).toBe(6);
+    expect(ledger.reduce((sum, movement) => sum + movement.valueChange, 0)).toBe(15);
+  });
+
+  it('should continue from the balance of stock already on the ledger', async () => {
+    repos.productRepository.findById.mockResolvedValue({
+      _id: productId,
+      quantity: 8,
+      averageCost: 3,
+      standardCost: null,
+      inventoryValue: 0,
+    });
+    repos.stockMovementRepository.findLatestByProduct.mockResolvedValue({ quantityAfter: 8 });
+
+    await service.seedOpeningLayers();
+
+    expect(repos.stockMovementRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        quantityChange: 0,
+        quantityBefore: 8,
+        quantityAfter: 8,
+        valueChange: 24,
+      }),
+      expect.anything()
+    );
+  });
+
+  it('should skip products whose stock is gone by the time they are seeded', async () => {
+    repos.productRepository.findById.mockResolvedValue({ _id: productId, quantity: 0 });
+
+    await expect(service.seedOpeningLayers()).resolves.toBe(0);
+    expect(repos.costLayerRepository.create).not.toHaveBeenCalled();
+    expect(repos.stockMovementRepository.create).not.toHaveBeenCalled();
+  });
+});
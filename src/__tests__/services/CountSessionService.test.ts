@@ -0,0 +1,62 @@
+/**
+ * CountSessionService Unit Tests - count variances and blind counts
+ */
+
+import { Types } from 'mongoose';
+import { CountSession } from '../../models/CountSession';
+import { CountSessionService } from '../../services/CountSessionService';
+import { UserRole } from '../../types';
+
+describe('CountSessionService.computeVariance', () => {
+  it('should be null until the product is counted', () => {
+    expect(
+      CountSessionService.computeVariance({ countedQuantity: null, quantityAtCount: null })
+    ).toBeNull();
+  });
+
+  it('should measure the count against the book quantity at count time', () => {
+    expect(CountSessionService.computeVariance({ countedQuantity: 7, quantityAtCount: 10 })).toBe(
+      -3
+    );
+    expect(CountSessionService.computeVariance({ countedQuantity: 12, quantityAtCount: 10 })).toBe(
+      2
+    );
+    expect(CountSessionService.computeVariance({ countedQuantity: 0, quantityAtCount: 0 })).toBe(0);
+  });
+});
+
+describe('CountSessionService.presentForRole', () => {
+  const buildSession = (blind: boolean) =>
+    new CountSession({
+      countNumber: 'CNT-000001',
+      blind,
+      userId: new Types.ObjectId(),
+      lines: [
+        {
+          productId: new Types.ObjectId(),
+          sku: 'SKU-1',
+          name: 'Widget',
+          expectedQuantity: 10,
+          countedQuantity: 8,
+          quantityAtCount: 9,
+        },
+      ],
+    });
+
+  it('should hide book quantities from counters on blind counts', () => {
+    const [line] = CountSessionService.presentForRole(buildSession(true), UserRole.USER).lines;
+
+    expect(line.countedQuantity).toBe(8);
+    expect(line).not.toHaveProperty('expectedQuantity');
+    expect(line).not.toHaveProperty('quantityAtCount');
+    expect(line).not.toHaveProperty('variance');
+  });
+
+  it('should show book quantities to managers and on open counts', () => {
+    const blind = buildSession(true);
+    const open = buildSession(false);
+
+    expect(CountSessionService.presentForRole(blind, UserRole.MANAGER)).toBe(blind);
+    expect(CountSessionService.presentForRole(open, UserRole.USER)).toBe(open);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * ExportService Unit Tests - column selection and streamed CSV/NDJSON/XLSX output
+ */
+
+import { PassThrough } from 'stream';
+import ExcelJS from 'exceljs';
+import { ExportService } from '../../services/ExportService';
+import { ExportFormat, ExportRecord } from '../../types';
+
+const collect = async (
+  format: ExportFormat,
+  columns: string[],
+  records: Iterable<ExportRecord> | AsyncIterable<ExportRecord>
+): Promise<Buffer> => {
+  const stream = new PassThrough();
+  const chunks: Buffer[] = [];
+  stream.on('data', chunk => chunks.push(chunk));
+  const finished = new Promise(resolve => stream.on('end', resolve));
+
+  await ExportService.write(stream, format, columns, records);
+  await finished;
+  return Buffer.concat(chunks);
+};
+
+describe('ExportService.parseFormat', () => {
+  it('should default to CSV and reject unknown formats', () => {
+    expect(ExportService.parseFormat(undefined)).toBe(ExportFormat.CSV);
+    expect(ExportService.parseFormat('XLSX')).toBe(ExportFormat.XLSX);
+    expect(ExportService.parseFormat('pdf')).toBeNull();
+  });
+});
+
+describe('ExportService.selectColumns', () => {
+  const available = ['sku', 'name', 'price'];
+
+  it('should use the defaults without a column list', () => {
+    expect(ExportService.selectColumns(undefined, available, ['sku'])).toEqual({
+      columns: ['sku'],
+      unknown: [],
+    });
+  });
+
+  it('should keep the requested order and report unknown columns', () => {
+    expect(ExportService.selectColumns('price, sku,price,cost', available)).toEqual({
+      columns: ['price', 'sku'],
+      unknown: ['cost'],
+    });
+  });
+
+  it('should accept attribute columns only when allowed', () => {
+    expect(
+      ExportService.selectColumns('sku,attributes.voltage', available, available, true).unknown
+    ).toEqual([]);
+    expect(ExportService.selectColumns('sku,attributes.voltage', available).unknown).toEqual([
+      'attributes.voltage',
+    ]);
+  });
+});
+
+describe('ExportService.toCsvLine', () => {
+  it('should quote cells holding commas, quotes or line breaks', () => {
+    expect(ExportService.toCsvLine(['A-1', 'Red, "large"', 'two\nlines', 9.5])).toBe(
+      'A-1,"Red, ""large""","two\nlines",9.5'
+    );
+  });
+
+  it('should flatten empty values, dates and lists', () => {
+    expect(
+      ExportService.toCsvLine([null, undefined, new Date('2024-01-02T00:00:00Z'), ['a', 'b']])
+    ).toBe(',,2024-01-02T00:00:00.000Z,a|b');
+  });
+});
+
+describe('ExportService.write', () => {
+  const records = [
+    { sku: 'A-1', price: 9.5, attributes: { voltage: 230 } },
+    { sku: 'A-2', price: 3, attributes: {} },
+  ];
+  const columns = ['sku', 'price', 'attributes.voltage'];
+
+  it('should write CSV with a header row', async () => {
+    expect((await collect(ExportFormat.CSV, columns, records)).toString()).toBe(
+      'sku,price,attributes.voltage\nA-1,9.5,230\nA-2,3,\n'
+    );
+  });
+
+  it('should write one JSON object per line from an async source', async () => {
+    async function* generate() {
+      yield* records;
+    }
+
+    const lines = (await collect(ExportFormat.NDJSON, columns, generate()))
+      .toString()
+      .trim()
+      .split('\n');
+
+    expect(lines.map(line => JSON.parse(line))).toEqual([
+      { sku: 'A-1', price: 9.5, 'attributes.voltage': 230 },
+      { sku: 'A-2', price: 3, 'attributes.voltage': null },
+    ]);
+  });
+
+  it('should write an XLSX workbook', async () => {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load((await collect(ExportFormat.XLSX, columns, records)) as any);
+
+    const sheet = workbook.worksheets[0];
+    expect(sheet.getRow(1).values).toEqual([undefined, 'sku', 'price', 'attributes.voltage']);
+    expect(sheet.getRow(2).values).toEqual([undefined, 'A-1', 9.5, 230]);
+    expect(sheet.rowCount).toBe(3);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * ImageService Unit Tests - upload validation, thumbnails and local storage
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { ImageService } from '../../services/ImageService';
+import { LocalStorageAdapter } from '../../storage/LocalStorageAdapter';
+import { ImageUpload } from '../../types';
+
+const createImage = async (width: number, height: number): Promise<Buffer> =>
+  await sharp({
+    create: { width, height, channels: 3, background: { r: 200, g: 30, b: 30 } },
+  })
+    .png()
+    .toBuffer();
+
+const upload = (buffer: Buffer, mimetype = 'image/png'): ImageUpload => ({
+  buffer,
+  mimetype,
+  originalname: 'photo.png',
+  size: buffer.length,
+});
+
+describe('ImageService.detectImageType', () => {
+  it('should recognise images by their leading bytes', async () => {
+    expect(ImageService.detectImageType(await createImage(4, 4))).toBe('image/png');
+    expect(ImageService.detectImageType(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe('image/jpeg');
+    expect(ImageService.detectImageType(Buffer.from('GIF89a...'))).toBe('image/gif');
+    expect(ImageService.detectImageType(Buffer.from('RIFF\0\0\0\0WEBPVP8 '))).toBe('image/webp');
+    expect(ImageService.detectImageType(Buffer.from('<svg></svg>'))).toBeNull();
+  });
+});
+
+describe('ImageService.validateUpload', () => {
+  it('should reject types other than JPEG, PNG, WebP and GIF', () => {
+    expect(() =>
+      ImageService.validateUpload(upload(Buffer.from('<svg></svg>'), 'image/svg+xml'))
+    ).toThrow('Only JPEG, PNG, WebP and GIF images are allowed');
+  });
+
+  it('should reject content that does not match the declared type', () => {
+    expect(() => ImageService.validateUpload(upload(Buffer.from('not an image')))).toThrow(
+      'photo.png is not a valid png image'
+    );
+  });
+
+  it('should reject empty and oversized files', () => {
+    expect(() => ImageService.validateUpload(upload(Buffer.alloc(0)))).toThrow(
+      'photo.png is empty'
+    );
+    expect(() =>
+      ImageService.validateUpload({ ...upload(Buffer.from('x')), size: 50 * 1024 * 1024 })
+    ).toThrow('photo.png exceeds the 5 MB limit');
+  });
+});
+
+describe('ImageService with local storage', () => {
+  let rootDir: string;
+  let imageService: ImageService;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'images-'));
+    imageService = new ImageService(
+      new LocalStorageAdapter(rootDir, 'http://localhost:5000/uploads/')
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('should store the image and a thumbnail that fits within 300px', async () => {
+    const stored = await imageService.storeImage(
+      upload(await createImage(1200, 600)),
+      'products/p1'
+    );
+
+    expect(stored.provider).toBe('local');
+    expect(stored.contentType).toBe('image/png');
+    expect(stored.key).toMatch(/^products\/p1\/[0-9a-f-]+\.png$/);
+    expect(stored.thumbnailKey).toMatch(/^products\/p1\/[0-9a-f-]+-thumb\.webp$/);
+    expect(stored.url).toBe(`http://localhost:5000/uploads/${stored.key}`);
+
+    const thumbnail = await sharp(path.join(rootDir, stored.thumbnailKey as string)).metadata();
+    expect(thumbnail.format).toBe('webp');
+    expect(thumbnail.width).toBe(300);
+    expect(thumbnail.height).toBe(150);
+  });
+
+  it('should remove both files of a stored image', async () => {
+    const stored = await imageService.storeImage(upload(await createImage(10, 10)), 'users/u1');
+
+    await imageService.removeImage(stored);
+
+    expect(await fs.readdir(path.join(rootDir, 'users/u1'))).toEqual([]);
+  });
+
+  it('should leave images hosted elsewhere alone', async () => {
+    await expect(
+      imageService.removeImage({ url: 'https://cdn.example.com/a.png' })
+    ).resolves.toBeUndefined();
+  });
+});
+
+describe('LocalStorageAdapter', () => {
+  it('should not write outside its directory', async () => {
+    const adapter = new LocalStorageAdapter(os.tmpdir(), 'http://localhost/uploads');
+
+    await expect(adapter.save('../escape.png', Buffer.from('x'))).rejects.toThrow(
+      'Invalid storage key'
+    );
+  });
+});
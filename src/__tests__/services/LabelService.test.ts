@@ -0,0 +1,84 @@
+/**
+ * LabelService Unit Tests - label sheet templates and label positions
+ */
+
+import { LabelService, LABEL_TEMPLATES } from '../../services/LabelService';
+
+describe('LabelService.resolveTemplate', () => {
+  const custom = {
+    pageWidth: 612,
+    pageHeight: 792,
+    columns: 2,
+    rows: 4,
+    labelWidth: 288,
+    labelHeight: 180,
+    marginTop: 18,
+    marginLeft: 12,
+    horizontalPitch: 300,
+    verticalPitch: 189,
+  };
+
+  it('should default to Avery 5160 and find templates by id', () => {
+    expect(LabelService.resolveTemplate().id).toBe('avery-5160');
+    expect(LabelService.resolveTemplate('AVERY-L7160').columns).toBe(3);
+    expect(() => LabelService.resolveTemplate('avery-9999')).toThrow(
+      'Unknown label template "avery-9999"'
+    );
+  });
+
+  it('should accept a custom layout that fits on the page', () => {
+    expect(LabelService.resolveTemplate(custom)).toEqual({
+      ...custom,
+      id: 'custom',
+      name: 'Custom',
+    });
+  });
+
+  it('should reject layouts that overlap or run off the page', () => {
+    expect(() => LabelService.resolveTemplate({ ...custom, horizontalPitch: 250 })).toThrow(
+      'Labels in a template cannot overlap'
+    );
+    expect(() => LabelService.resolveTemplate({ ...custom, rows: 5 })).toThrow(
+      'Labels in the template do not fit on the page'
+    );
+    expect(() => LabelService.resolveTemplate({ ...custom, columns: 1.5 })).toThrow(
+      'Label template columns and rows must be whole numbers'
+    );
+  });
+
+  it('should only ship templates that fit their page', () => {
+    for (const template of LABEL_TEMPLATES) {
+      const { id, name, ...layout } = template;
+      expect(() => LabelService.resolveTemplate(layout)).not.toThrow();
+    }
+  });
+});
+
+describe('LabelService.labelPositions', () => {
+  const template = LabelService.resolveTemplate('avery-5163');
+
+  it('should fill rows left to right and continue on the next page', () => {
+    const positions = LabelService.labelPositions(template, 12);
+
+    expect(positions[0]).toEqual({ page: 0, x: 11.25, y: 36 });
+    expect(positions[1]).toEqual({ page: 0, x: 312.75, y: 36 });
+    expect(positions[2]).toEqual({ page: 0, x: 11.25, y: 180 });
+    expect(positions[10]).toEqual({ page: 1, x: 11.25, y: 36 });
+  });
+
+  it('should start from a later position on a partly used sheet', () => {
+    const positions = LabelService.labelPositions(template, 2, 10);
+
+    expect(positions).toEqual([
+      { page: 0, x: 312.75, y: 612 },
+      { page: 1, x: 11.25, y: 36 },
+    ]);
+  });
+});
+
+describe('LabelService.formatPrice', () => {
+  it('should format in the given currency', () => {
+    expect(LabelService.formatPrice(1234.5, 'USD')).toBe('$1,234.50');
+    expect(() => LabelService.formatPrice(1, 'DOLLARS')).toThrow('Invalid currency "DOLLARS"');
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * LocationService Unit Tests - location codes, retiring locations and stock held per location
+ */
+
+import { Types } from 'mongoose';
+import { LocationService } from '../../services/LocationService';
+import { ProductService } from '../../services/ProductService';
+import { ProductRepository } from '../../repositories/ProductRepository';
+import { Location } from '../../models/Location';
+
+jest.mock('../../config/database', () => ({
+  __esModule: true,
+  default: { withTransaction: jest.fn((work: any, session?: any) => work(session || {})) },
+}));
+jest.mock('../../repositories/LocationRepository');
+jest.mock('../../repositories/StockLevelRepository');
+jest.mock('../../repositories/StockMovementRepository');
+jest.mock('../../repositories/ProductVersionRepository');
+jest.mock('../../services/LotService');
+jest.mock('../../services/SerialService');
+jest.mock('../../services/CostingService');
+jest.mock('../../services/CategoryService');
+jest.mock('../../services/ImageService');
+
+const makeLocation = (fields: Record<string, unknown> = {}): any => ({
+  _id: new Types.ObjectId(),
+  code: 'WH-1',
+  isActive: true,
+  ...fields,
+});
+
+describe('LocationService', () => {
+  let service: LocationService;
+  let repos: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new LocationService();
+    repos = service as any;
+  });
+
+  it('should refuse a code that is already taken', async () => {
+    repos.locationRepository.findByCode.mockResolvedValue(makeLocation());
+
+    await expect(
+      service.createLocation(new Types.ObjectId().toString(), { name: 'Main', code: 'wh-1' } as any)
+    ).rejects.toThrow('Location with this code already exists');
+    expect(repos.locationRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('should allow keeping the code on update but not taking another one', async () => {
+    const location = makeLocation();
+    repos.locationRepository.findById.mockResolvedValue(location);
+    repos.locationRepository.findByCode.mockResolvedValue(makeLocation({ code: 'WH-2' }));
+
+    await service.updateLocation(location._id.toString(), { code: 'wh-1', name: 'Renamed' });
+    expect(repos.locationRepository.findByCode).not.toHaveBeenCalled();
+
+    await expect(service.updateLocation(location._id.toString(), { code: 'WH-2' })).rejects.toThrow(
+      'Location with this code already exists'
+    );
+  });
+
+  it('should only update the editable location fields', async () => {
+    const location = makeLocation();
+    repos.locationRepository.findById.mockResolvedValue(location);
+
+    await service.updateLocation(location._id.toString(), {
+      name: 'Renamed',
+      address: '1 Dock Road',
+      userId: new Types.ObjectId().toString(),
+      isActive: false,
+    } as any);
+
+    expect(repos.locationRepository.update).toHaveBeenCalledWith(location._id.toString(), {
+      name: 'Renamed',
+      address: '1 Dock Road',
+    });
+  });
+
+  it('should only retire locations that hold no stock', async () => {
+    const location = makeLocation();
+    repos.locationRepository.findById.mockResolvedValue(location);
+    repos.stockLevelRepository.getLocationQuantity.mockResolvedValue(4);
+
+    await expect(service.deleteLocation(location._id.toString())).rejects.toThrow(
+      'Cannot delete a location that still holds stock'
+    );
+
+    repos.stockLevelRepository.getLocationQuantity.mockResolvedValue(0);
+    repos.locationRepository.update.mockResolvedValue({ ...location, isActive: false });
+    await expect(service.deleteLocation(location._id.toString())).resolves.toBe(true);
+    expect(repos.locationRepository.update).toHaveBeenCalledWith(location._id.toString(), {
+      isActive: false,
+    });
+  });
+
+  it('should treat retired locations as missing', async () => {
+    repos.locationRepository.findById.mockResolvedValue(makeLocation({ isActive: false }));
+
+    await expect(service.getLocationById(new Types.ObjectId().toString())).resolves.toBeNull();
+    await expect(service.getLocationStock(new Types.ObjectId().toString())).rejects.toThrow(
+      'Location not found'
+    );
+  });
+
+  it('should keep location codes unique in the database', () => {
+    expect(Location.schema.indexes()).toContainEqual([
+      { code: 1 },
+      expect.objectContaining({ unique: true }),
+    ]);
+  });
+});
+
+describe('ProductService stock at a location', () => {
+  let service: ProductService;
+  let repos: any;
+  const location = makeLocation();
+  const product: any = {
+    _id: new Types.ObjectId(),
+    userId: new Types.ObjectId(),
+    isActive: true,
+    quantity: 10,
+    reservedQuantity: 0,
+    expiredQuantity: 0,
+    components: [],
+    units: [],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(ProductRepository.prototype, 'findById').mockResolvedValue(product);
+    jest
+      .spyOn(ProductRepository.prototype, 'updateStock')
+      .mockImplementation(async (_id, quantity) => ({ ...product, quantity }));
+    service = new ProductService();
+    repos = service as any;
+    repos.locationRepository.findById.mockResolvedValue(location);
+    repos.costingService.applyChange.mockResolvedValue({ valueChange: 0 });
+  });
+
+  afterAll(() => jest.restoreAllMocks());
+
+  it('should change the stock at the location and move the product total with it', async () => {
+    repos.stockLevelRepository.findByProductAndLocation.mockResolvedValue({ quantity: 6 });
+
+    await service.adjustStock(product._id.toString(), -2, undefined, {
+      locationId: location._id.toString(),
+    });
+
+    expect(repos.stockLevelRepository.setQuantity).toHaveBeenCalledWith(
+      product._id.toString(),
+      location._id.toString(),
+      4,
+      expect.anything()
+    );
+    expect(repos.productRepository.updateStock).toHaveBeenCalledWith(
+      product._id.toString(),
+      8,
+      expect.anything()
+    );
+  });
+
+  it('should not take more than the location holds', async () => {
+    repos.stockLevelRepository.findByProductAndLocation.mockResolvedValue({ quantity: 1 });
+
+    await expect(
+      service.adjustStock(product._id.toString(), -2, undefined, {
+        locationId: location._id.toString(),
+      })
+    ).rejects.toThrow('Insufficient stock for this adjustment');
+  });
+
+  it('should refuse inactive locations', async () => {
+    repos.locationRepository.findById.mockResolvedValue(makeLocation({ isActive: false }));
+
+    await expect(
+      service.adjustStock(product._id.toString(), 1, undefined, {
+        locationId: location._id.toString(),
+      })
+    ).rejects.toThrow('Location not found or inactive');
+  });
+});
+
+describe('ProductRepository location stock', () => {
+  it('should report a malformed location id as an invalid id', async () => {
+    await expect(
+      new ProductRepository().findLowStock(undefined, 'not-an-id')
+    ).rejects.toMatchObject({ name: 'CastError' });
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * LotService Unit Tests - FEFO allocation
+ */
+
+import { LotService } from '../../services/LotService';
+
+describe('LotService.allocateFefo', () => {
+  const lots = [
+    { _id: 'lot-a', lotNumber: 'A', quantity: 5 },
+    { _id: 'lot-b', lotNumber: 'B', quantity: 3 },
+    { _id: 'lot-c', lotNumber: 'C', quantity: 10 },
+  ];
+
+  it('should take from the first lot when it covers the quantity', () => {
+    const { allocations, shortfall } = LotService.allocateFefo(lots, 4);
+
+    expect(allocations).toEqual([{ lotId: 'lot-a', lotNumber: 'A', quantity: -4 }]);
+    expect(shortfall).toBe(0);
+  });
+
+  it('should spill over into later lots in order', () => {
+    const { allocations, shortfall } = LotService.allocateFefo(lots, 9);
+
+    expect(allocations).toEqual([
+      { lotId: 'lot-a', lotNumber: 'A', quantity: -5 },
+      { lotId: 'lot-b', lotNumber: 'B', quantity: -3 },
+      { lotId: 'lot-c', lotNumber: 'C', quantity: -1 },
+    ]);
+    expect(shortfall).toBe(0);
+  });
+
+  it('should report the shortfall when lots run out', () => {
+    const { allocations, shortfall } = LotService.allocateFefo(lots, 20);
+
+    expect(allocations).toHaveLength(3);
+    expect(shortfall).toBe(2);
+  });
+
+  it('should skip empty lots', () => {
+    const { allocations } = LotService.allocateFefo(
+      [{ _id: 'empty', lotNumber: 'E', quantity: 0 }, ...lots],
+      1
+    );
+
+    expect(allocations).toEqual([{ lotId: 'lot-a', lotNumber: 'A', quantity: -1 }]);
+  });
+
+  it('should allocate nothing for a zero quantity', () => {
+    const { allocations, shortfall } = LotService.allocateFefo(lots, 0);
+
+    expect(allocations).toEqual([]);
+    expect(shortfall).toBe(0);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * ProductService Unit Tests - custom attributes
+ */
+
+import { ProductService } from '../../services/ProductService';
+import { AttributeType, IAttributeDefinition } from '../../types';
+
+const definitions: IAttributeDefinition[] = [
+  { key: 'voltage', label: 'Voltage', type: AttributeType.NUMBER, required: true, unit: 'V' },
+  {
+    key: 'plug',
+    label: 'Plug type',
+    type: AttributeType.ENUM,
+    required: false,
+    options: ['Type A', 'Type C', 'Type G'],
+  },
+  { key: 'dimmable', label: 'Dimmable', type: AttributeType.BOOLEAN, required: false },
+  { key: 'certifiedOn', label: 'Certified on', type: AttributeType.DATE, required: false },
+  { key: 'finish', label: 'Finish', type: AttributeType.STRING, required: false },
+];
+
+describe('ProductService.validateAttributes', () => {
+  it('should coerce values to their attribute type', () => {
+    const attributes = ProductService.validateAttributes(definitions, {
+      voltage: '230',
+      plug: 'type g',
+      dimmable: 'false',
+      certifiedOn: '2024-03-01',
+      finish: '  Matte black ',
+    });
+
+    expect(attributes).toEqual({
+      voltage: 230,
+      plug: 'Type G',
+      dimmable: false,
+      certifiedOn: new Date('2024-03-01'),
+      finish: 'Matte black',
+    });
+  });
+
+  it('should require required attributes and drop empty optional ones', () => {
+    expect(() => ProductService.validateAttributes(definitions, { plug: 'Type A' })).toThrow(
+      'Attribute "voltage" is required'
+    );
+    expect(
+      ProductService.validateAttributes(definitions, { voltage: 120, plug: null, finish: '' })
+    ).toEqual({ voltage: 120 });
+  });
+
+  it('should reject attributes the category does not define', () => {
+    expect(() =>
+      ProductService.validateAttributes(definitions, { voltage: 230, shelfLife: 12 })
+    ).toThrow('Unknown attribute "shelfLife" for this category');
+  });
+
+  it('should reject values of the wrong type', () => {
+    expect(() => ProductService.validateAttributes(definitions, { voltage: 'high' })).toThrow(
+      'Attribute "voltage" must be a number'
+    );
+    expect(() =>
+      ProductService.validateAttributes(definitions, { voltage: 230, plug: 'Type B' })
+    ).toThrow('Attribute "plug" must be one of: Type A, Type C, Type G');
+    expect(() =>
+      ProductService.validateAttributes(definitions, { voltage: 230, dimmable: 'yes' })
+    ).toThrow('Attribute "dimmable" must be true or false');
+    expect(() =>
+      ProductService.validateAttributes(definitions, { voltage: 230, certifiedOn: 'soon' })
+    ).toThrow('Attribute "certifiedOn" must be a date');
+  });
+});
+
+describe('ProductService.buildAttributeFilters', () => {
+  const byKey = new Map(definitions.map(definition => [definition.key, definition]));
+
+  it('should build typed equality and range filters', () => {
+    expect(
+      ProductService.buildAttributeFilters(byKey, {
+        plug: ['type a', 'Type C'],
+        voltage: { min: '100', max: '240' },
+        dimmable: 'true',
+      })
+    ).toEqual([
+      { key: 'plug', values: ['Type A', 'Type C'] },
+      { key: 'voltage', min: 100, max: 240 },
+      { key: 'dimmable', values: [true] },
+    ]);
+  });
+
+  it('should reject unknown attributes and ranges on non-numeric attributes', () => {
+    expect(() => ProductService.buildAttributeFilters(byKey, { colour: 'red' })).toThrow(
+      'Unknown attribute "colour"'
+    );
+    expect(() => ProductService.buildAttributeFilters(byKey, { finish: { min: 'a' } })).toThrow(
+      'Attribute "finish" cannot be filtered by range'
+    );
+    expect(() => ProductService.buildAttributeFilters(byKey, { voltage: {} })).toThrow(
+      'Attribute "voltage" needs a value, min or max'
+    );
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * ProductService Unit Tests - version snapshots, diffs and restores
+ */
+
+import { Types } from 'mongoose';
+import { ProductService } from '../../services/ProductService';
+
+const categoryId = new Types.ObjectId();
+const componentId = new Types.ObjectId();
+
+const product = (fields: Record<string, unknown> = {}) => ({
+  _id: new Types.ObjectId(),
+  name: 'Laptop',
+  sku: 'LAP001',
+  barcode: null,
+  category: 'Electronics',
+  categoryId,
+  price: 999,
+  quantity: 12,
+  minStockLevel: 5,
+  components: [{ _id: new Types.ObjectId(), productId: componentId, quantity: 2 }],
+  attributes: { voltage: 230, color: 'grey' },
+  isActive: true,
+  ...fields,
+});
+
+describe('ProductService.versionSnapshot', () => {
+  it('should keep only versioned fields as plain JSON', () => {
+    const snapshot = ProductService.versionSnapshot(product());
+
+    expect(snapshot.categoryId).toBe(categoryId.toString());
+    expect(snapshot.components).toEqual([{ productId: componentId.toString(), quantity: 2 }]);
+    expect(snapshot.description).toBeNull();
+    expect(snapshot).not.toHaveProperty('quantity');
+    expect(Object.keys(snapshot.attributes as object)).toEqual(['color', 'voltage']);
+  });
+});
+
+describe('ProductService.diffVersions', () => {
+  it('should list every field with a value for a new product', () => {
+    const changes = ProductService.diffVersions(null, ProductService.versionSnapshot(product()));
+
+    expect(changes.map(change => change.field)).toEqual([
+      'name',
+      'sku',
+      'category',
+      'categoryId',
+      'price',
+      'minStockLevel',
+      'components',
+      'attributes',
+      'isActive',
+    ]);
+    expect(changes[0]).toEqual({ field: 'name', from: null, to: 'Laptop' });
+  });
+
+  it('should ignore stock and the order of attribute keys', () => {
+    const before = ProductService.versionSnapshot(product());
+    const after = ProductService.versionSnapshot(
+      product({ price: 899, quantity: 3, attributes: { color: 'grey', voltage: 230 } })
+    );
+
+    expect(ProductService.diffVersions(before, after)).toEqual([
+      { field: 'price', from: 999, to: 899 },
+    ]);
+  });
+});
+
+describe('ProductService.restoreChanges', () => {
+  it('should send only the fields that differ from the earlier version', () => {
+    const earlier = ProductService.versionSnapshot(product({ barcode: '4006381333931' }));
+    const current = ProductService.versionSnapshot(
+      product({
+        name: 'Laptop Pro',
+        category: 'Computers',
+        attributes: { voltage: 110, weight: 2 },
+        isActive: true,
+      })
+    );
+
+    expect(ProductService.restoreChanges(current, earlier)).toEqual({
+      name: 'Laptop',
+      barcode: '4006381333931',
+      barcodeType: undefined,
+      attributes: { voltage: 230, weight: null, color: 'grey' },
+    });
+  });
+
+  it('should restore the category by name when the version has no category id', () => {
+    const earlier = ProductService.versionSnapshot(product({ categoryId: null }));
+    const current = ProductService.versionSnapshot(product({ category: 'Computers' }));
+
+    expect(ProductService.restoreChanges(current, earlier)).toEqual({
+      category: 'Electronics',
+    });
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * ProductImportService Unit Tests - reading files, mapping columns to products and checking barcodes
+ */
+
+import ExcelJS from 'exceljs';
+import { Types } from 'mongoose';
+import { ProductImportService } from '../../services/ProductImportService';
+
+jest.mock('../../repositories/ImportJobRepository');
+jest.mock('../../repositories/CounterRepository');
+jest.mock('../../repositories/ProductRepository');
+jest.mock('../../services/ProductService');
+jest.mock('../../services/CategoryService');
+
+describe('ProductImportService.parseCsv', () => {
+  it('should split rows and fields', () => {
+    expect(ProductImportService.parseCsv('sku,name\r\nA-1,Widget\nA-2,Gadget\n')).toEqual([
+      ['sku', 'name'],
+      ['A-1', 'Widget'],
+      ['A-2', 'Gadget'],
+    ]);
+  });
+
+  it('should keep delimiters, quotes and line breaks inside quoted fields', () => {
+    expect(ProductImportService.parseCsv('sku,description\nA-1,"Red, ""large""\nmodel"')).toEqual([
+      ['sku', 'description'],
+      ['A-1', 'Red, "large"\nmodel'],
+    ]);
+  });
+
+  it('should strip a byte order mark and detect semicolons', () => {
+    expect(ProductImportService.parseCsv('\uFEFFsku;price\nA-1;9,50')).toEqual([
+      ['sku', 'price'],
+      ['A-1', '9,50'],
+    ]);
+  });
+
+  it('should reject an unterminated quote', () => {
+    expect(() => ProductImportService.parseCsv('sku\n"A-1')).toThrow(
+      'The file has an unterminated quoted field'
+    );
+  });
+});
+
+describe('ProductImportService.mapColumns', () => {
+  it('should match headers loosely and report unknown ones', () => {
+    const { columns, ignoredColumns } = ProductImportService.mapColumns([
+      'SKU',
+      'Product Name',
+      'Min Stock Level',
+      'attr:voltage',
+      'Supplier notes',
+    ]);
+
+    expect(columns).toEqual([
+      { header: 'SKU', field: 'sku' },
+      { header: 'Product Name', field: 'name' },
+      { header: 'Min Stock Level', field: 'minStockLevel' },
+      { header: 'attr:voltage', attribute: 'voltage' },
+      { header: 'Supplier notes' },
+    ]);
+    expect(ignoredColumns).toEqual(['Supplier notes']);
+  });
+
+  it('should apply an explicit mapping', () => {
+    const { columns } = ProductImportService.mapColumns(['Code', 'Volts'], {
+      Code: 'sku',
+      Volts: 'attributes.voltage',
+    });
+
+    expect(columns).toEqual([
+      { header: 'Code', field: 'sku' },
+      { header: 'Volts', attribute: 'voltage' },
+    ]);
+  });
+
+  it('should reject unknown targets and two columns for one field', () => {
+    expect(() => ProductImportService.mapColumns(['Code'], { Code: 'supplierName' })).toThrow(
+      'Unknown product field "supplierName" in the column mapping'
+    );
+    expect(() => ProductImportService.mapColumns(['qty', 'Quantity'])).toThrow(
+      'Columns "qty" and "Quantity" both map to quantity'
+    );
+  });
+});
+
+describe('ProductImportService.parseRow', () => {
+  const { columns } = ProductImportService.mapColumns([
+    'sku',
+    'price',
+    'trackLots',
+    'images',
+    'attr:voltage',
+    'notes',
+  ]);
+
+  it('should convert cells to product fields and skip blanks', () => {
+    expect(
+      ProductImportService.parseRow(
+        ['A-1', ' 9.5 ', 'yes', 'a.jpg | b.jpg', '230', 'ignored'],
+        columns
+      )
+    ).toEqual({
+      data: {
+        sku: 'A-1',
+        price: 9.5,
+        trackLots: true,
+        images: ['a.jpg', 'b.jpg'],
+        attributes: { voltage: '230' },
+      },
+      errors: [],
+    });
+    expect(ProductImportService.parseRow(['A-2', '', '', ''], columns).data).toEqual({
+      sku: 'A-2',
+    });
+  });
+
+  it('should report cells that cannot be converted', () => {
+    expect(ProductImportService.parseRow(['A-1', 'cheap', 'maybe'], columns).errors).toEqual([
+      { field: 'price', message: 'price must be a number' },
+      { field: 'trackLots', message: 'trackLots must be yes or no' },
+    ]);
+  });
+});
+
+describe('ProductImportService.readSpreadsheet', () => {
+  it('should read the first sheet of an XLSX workbook as text', async () => {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('Products');
+    sheet.addRow(['sku', 'price', 'name']);
+    sheet.addRow(['A-1', 9.5, { richText: [{ text: 'Big ' }, { text: 'Widget' }] }]);
+    sheet.addRow([]);
+    sheet.addRow(['A-2', { formula: '2*3', result: 6 }, 'Gadget']);
+    const buffer = Buffer.from(await workbook.xlsx.writeBuffer());
+
+    const rows = await ProductImportService.readSpreadsheet({
+      buffer,
+      originalname: 'products.xlsx',
+      mimetype: 'application/octet-stream',
+    });
+
+    expect(rows).toEqual([
+      ['sku', 'price', 'name'],
+      ['A-1', '9.5', 'Big Widget'],
+      ['', '', ''],
+      ['A-2', '6', 'Gadget'],
+    ]);
+  });
+
+  it('should reject other file types', async () => {
+    await expect(
+      ProductImportService.readSpreadsheet({
+        buffer: Buffer.from('{}'),
+        originalname: 'products.json',
+        mimetype: 'application/json',
+      })
+    ).rejects.toThrow('Only CSV and XLSX files can be imported');
+  });
+});
+
+describe('ProductImportService barcode checks', () => {
+  let service: ProductImportService;
+  let repos: any;
+  const existing: any = {
+    _id: new Types.ObjectId(),
+    sku: 'A-1',
+    userId: new Types.ObjectId(),
+    isActive: true,
+    barcode: '4006381333931',
+    alternateCodes: [],
+  };
+
+  const preview = (rows: string[]) =>
+    service.previewImport(
+      {
+        buffer: Buffer.from(['sku,barcode', ...rows].join('\n')),
+        originalname: 'products.csv',
+        mimetype: 'text/csv',
+      },
+      undefined
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ProductImportService();
+    repos = service as any;
+    repos.productRepository.findBySku.mockImplementation(async (sku: string) =>
+      sku === existing.sku ? existing : null
+    );
+    repos.productRepository.findByCodes.mockResolvedValue([]);
+  });
+
+  it('should refuse a barcode another product scans as, even as an alternate code', async () => {
+    repos.productRepository.findByCodes.mockResolvedValue([
+      {
+        ...existing,
+        _id: new Types.ObjectId(),
+        sku: 'B-1',
+        barcode: null,
+        alternateCodes: ['4006381333931'],
+      },
+    ]);
+
+    const result = await preview(['A-1,4006381333931']);
+
+    expect(repos.productRepository.findByCodes).toHaveBeenCalledWith(['4006381333931']);
+    expect(result.errors).toEqual([
+      expect.objectContaining({
+        row: 2,
+        field: 'barcode',
+        message: 'Barcode is already used by product B-1',
+      }),
+    ]);
+  });
+
+  it("should accept a row keeping its own product's barcode", async () => {
+    repos.productRepository.findByCodes.mockResolvedValue([existing]);
+
+    const result = await preview(['A-1,4006381333931']);
+
+    expect(result.errors).toEqual([]);
+    expect(result.updateCount).toBe(1);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * ProductService Unit Tests - kit availability from component stock
+ */
+
+import { Types } from 'mongoose';
+import { Product } from '../../models/Product';
+import { ProductService } from '../../services/ProductService';
+
+describe('ProductService.computeKitAvailability', () => {
+  it('should be limited by the component that runs out first', () => {
+    const availability = ProductService.computeKitAvailability([
+      { productId: 'a', sku: 'CABLE', quantityPerKit: 2, availableQuantity: 9 },
+      { productId: 'b', sku: 'HUB', quantityPerKit: 1, availableQuantity: 3 },
+      { productId: 'c', sku: 'GUIDE', quantityPerKit: 1, availableQuantity: 50 },
+    ]);
+
+    expect(availability.buildableQuantity).toBe(3);
+    expect(availability.limitingComponent?.sku).toBe('HUB');
+  });
+
+  it('should only count whole kits', () => {
+    const availability = ProductService.computeKitAvailability([
+      { productId: 'a', sku: 'CABLE', quantityPerKit: 4, availableQuantity: 7 },
+    ]);
+
+    expect(availability.buildableQuantity).toBe(1);
+  });
+
+  it('should build nothing without components', () => {
+    expect(ProductService.computeKitAvailability([])).toEqual({
+      buildableQuantity: 0,
+      limitingComponent: null,
+    });
+  });
+});
+
+describe('Product kit stock status', () => {
+  const buildKit = () =>
+    new Product({
+      name: 'Starter Kit',
+      sku: 'KIT-1',
+      category: 'Kits',
+      price: 49,
+      quantity: 1,
+      minStockLevel: 2,
+      components: [{ productId: new Types.ObjectId(), quantity: 2 }],
+      userId: new Types.ObjectId(),
+    }) as any;
+
+  it('should add the kits the components can build to the available quantity', () => {
+    const kit = buildKit();
+    kit.$locals.kitAvailability = { buildableQuantity: 4, limitingComponent: null };
+
+    expect(kit.availableQuantity).toBe(5);
+    expect(kit.stockStatus).toBe('IN_STOCK');
+  });
+
+  it('should reflect the limiting component in the stock status', () => {
+    const kit = buildKit();
+    kit.quantity = 0;
+    kit.$locals.kitAvailability = { buildableQuantity: 0, limitingComponent: null };
+
+    expect(kit.stockStatus).toBe('OUT_OF_STOCK');
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * ProductService Unit Tests - units of measure and conversions
+ */
+
+import { ProductService } from '../../services/ProductService';
+
+describe('ProductService.convertToBaseUnit', () => {
+  const eaches = {
+    baseUnit: 'each',
+    fractionalQuantities: false,
+    units: [
+      { name: 'case', factor: 24 },
+      { name: 'half-case', factor: 12 },
+    ],
+  };
+
+  it('should keep quantities given in the base unit', () => {
+    expect(ProductService.convertToBaseUnit(eaches, 7)).toEqual({ quantity: 7, factor: 1 });
+    expect(ProductService.convertToBaseUnit(eaches, 7, 'Each')).toEqual({ quantity: 7, factor: 1 });
+  });
+
+  it('should convert alternate units with their factor', () => {
+    expect(ProductService.convertToBaseUnit(eaches, 2, 'CASE')).toEqual({
+      quantity: 48,
+      factor: 24,
+    });
+    expect(ProductService.convertToBaseUnit(eaches, -1, 'case').quantity).toBe(-24);
+  });
+
+  it('should reject units the product does not define', () => {
+    expect(() => ProductService.convertToBaseUnit(eaches, 1, 'pallet')).toThrow(
+      'Unknown unit "pallet"; use one of: each, case, half-case'
+    );
+  });
+
+  it('should only allow whole base units unless fractions are enabled', () => {
+    expect(() => ProductService.convertToBaseUnit(eaches, 1.5)).toThrow(
+      'Quantity must be a whole number of each'
+    );
+    expect(ProductService.convertToBaseUnit(eaches, 1.5, 'half-case').quantity).toBe(18);
+
+    const kilograms = {
+      baseUnit: 'kg',
+      fractionalQuantities: true,
+      units: [{ name: 'g', factor: 0.001 }],
+    };
+    expect(ProductService.convertToBaseUnit(kilograms, 0.1, 'kg').quantity).toBe(0.1);
+    expect(ProductService.convertToBaseUnit(kilograms, 250, 'g').quantity).toBe(0.25);
+  });
+});
+
+describe('ProductService.convertUnitCost', () => {
+  it('should express unit costs per base unit', () => {
+    expect(ProductService.convertUnitCost(48, 24)).toBe(2);
+    expect(ProductService.convertUnitCost(10, 3)).toBe(3.3333);
+    expect(ProductService.convertUnitCost(5, 1)).toBe(5);
+    expect(ProductService.convertUnitCost(undefined, 24)).toBeUndefined();
+  });
+});
+
+describe('ProductService.normalizeUnits', () => {
+  it('should default to eaches', () => {
+    expect(ProductService.normalizeUnits({})).toEqual({
+      baseUnit: 'each',
+      fractionalQuantities: false,
+      units: [],
+    });
+  });
+
+  it('should reject duplicate units and non-positive factors', () => {
+    expect(() =>
+      ProductService.normalizeUnits({ baseUnit: 'each', units: [{ name: ' Each ', factor: 1 }] })
+    ).toThrow('Duplicate unit: each');
+    expect(() => ProductService.normalizeUnits({ units: [{ name: 'case', factor: 0 }] })).toThrow(
+      'Conversion factor for case must be greater than zero'
+    );
+  });
+});
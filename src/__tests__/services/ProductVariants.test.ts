@@ -0,0 +1,143 @@
+/**
+ * ProductService Unit Tests - variant options, combinations, SKUs and categories
+ */
+
+import { Types } from 'mongoose';
+import { ProductService } from '../../services/ProductService';
+
+jest.mock('../../config/database', () => ({
+  __esModule: true,
+  default: { withTransaction: jest.fn((work: any, session?: any) => work(session || {})) },
+}));
+jest.mock('../../repositories/ProductRepository');
+jest.mock('../../repositories/StockMovementRepository');
+jest.mock('../../repositories/StockLevelRepository');
+jest.mock('../../repositories/ProductVersionRepository');
+jest.mock('../../repositories/LocationRepository');
+jest.mock('../../services/LotService');
+jest.mock('../../services/SerialService');
+jest.mock('../../services/CostingService');
+jest.mock('../../services/CategoryService');
+jest.mock('../../services/ImageService');
+
+describe('ProductService.normalizeVariantOptions', () => {
+  it('should trim names and drop duplicate values', () => {
+    expect(
+      ProductService.normalizeVariantOptions([{ name: ' Size ', values: ['S', ' M', 'm', ''] }])
+    ).toEqual([{ name: 'Size', values: ['S', 'M'] }]);
+  });
+
+  it('should reject duplicate option names and options without values', () => {
+    expect(() =>
+      ProductService.normalizeVariantOptions([
+        { name: 'Size', values: ['S'] },
+        { name: 'size', values: ['M'] },
+      ])
+    ).toThrow('Duplicate variant option: size');
+    expect(() => ProductService.normalizeVariantOptions([{ name: 'Size', values: [] }])).toThrow(
+      'Variant option Size must have at least one value'
+    );
+  });
+});
+
+describe('ProductService.expandVariantCombinations', () => {
+  it('should combine every value of every option', () => {
+    const combinations = ProductService.expandVariantCombinations([
+      { name: 'Colour', values: ['Red', 'Blue'] },
+      { name: 'Size', values: ['S', 'M', 'L'] },
+    ]);
+
+    expect(combinations).toHaveLength(6);
+    expect(combinations[0]).toEqual([
+      { name: 'Colour', value: 'Red' },
+      { name: 'Size', value: 'S' },
+    ]);
+    expect(combinations[5]).toEqual([
+      { name: 'Colour', value: 'Blue' },
+      { name: 'Size', value: 'L' },
+    ]);
+  });
+});
+
+describe('ProductService.resolveVariantAttributes', () => {
+  const options = [
+    { name: 'Colour', values: ['Red', 'Blue'] },
+    { name: 'Size', values: ['S', 'M'] },
+  ];
+
+  it('should map values onto the option axes in order', () => {
+    expect(ProductService.resolveVariantAttributes(options, { size: 'm', colour: 'RED' })).toEqual([
+      { name: 'Colour', value: 'Red' },
+      { name: 'Size', value: 'M' },
+    ]);
+  });
+
+  it('should require a valid value for every option', () => {
+    expect(() => ProductService.resolveVariantAttributes(options, { Colour: 'Red' })).toThrow(
+      'Variants must set a value for every option: Colour, Size'
+    );
+    expect(() =>
+      ProductService.resolveVariantAttributes(options, { Colour: 'Green', Size: 'S' })
+    ).toThrow('Invalid value "Green" for variant option Colour');
+  });
+});
+
+describe('ProductService.buildVariantSku', () => {
+  it('should append the option values to the parent SKU', () => {
+    expect(ProductService.buildVariantSku('TSHIRT', ['Red', 'M'])).toBe('TSHIRT-RED-M');
+    expect(ProductService.buildVariantSku('TSHIRT', ['Navy Blue', 'X/L'])).toBe(
+      'TSHIRT-NAVY-BLUE-X-L'
+    );
+  });
+});
+
+describe('ProductService variant category', () => {
+  let service: ProductService;
+  let repos: any;
+  const session = { id: 'parent-session' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ProductService();
+    repos = service as any;
+  });
+
+  it("should file variants under the parent's new category in the parent's transaction", async () => {
+    const categoryFields = { categoryId: new Types.ObjectId(), category: 'Shirts' };
+    const parent: any = {
+      _id: new Types.ObjectId(),
+      userId: new Types.ObjectId(),
+      isActive: true,
+      hasVariants: true,
+      quantity: 0,
+      units: [],
+      baseUnit: 'each',
+    };
+    const variant: any = { _id: new Types.ObjectId(), parentId: parent._id, isActive: true };
+    repos.productRepository.findById.mockResolvedValue(parent);
+    repos.productRepository.findVariants.mockResolvedValue([variant]);
+    repos.productRepository.update.mockImplementation(async (id: string, changes: any) => ({
+      ...(id === parent._id.toString() ? parent : variant),
+      ...changes,
+    }));
+    repos.categoryService.resolveForProduct.mockResolvedValue(categoryFields);
+    repos.categoryService.getAttributeDefinitions.mockResolvedValue([]);
+
+    await service.updateProduct(
+      parent._id.toString(),
+      parent.userId.toString(),
+      { category: 'Shirts' },
+      { session: session as any }
+    );
+
+    expect(repos.productRepository.update).toHaveBeenCalledWith(
+      variant._id.toString(),
+      categoryFields,
+      session
+    );
+    expect(repos.productVersionRepository.create).toHaveBeenCalledTimes(2);
+    for (const [, versionSession] of repos.productVersionRepository.create.mock.calls) {
+      expect(versionSession).toBe(session);
+    }
+  });
+});
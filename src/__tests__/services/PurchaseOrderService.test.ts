@@ -0,0 +1,174 @@
+/**
+ * PurchaseOrderService Unit Tests - supplier terms, receiving and over/under-receipts
+ */
+
+import { Types } from 'mongoose';
+import { PurchaseOrderService } from '../../services/PurchaseOrderService';
+import { PurchaseOrder } from '../../models/PurchaseOrder';
+import { PurchaseOrderStatus, StockMovementReason } from '../../types';
+
+jest.mock('../../config/database', () => ({
+  __esModule: true,
+  default: { withTransaction: jest.fn((work: any, session?: any) => work(session || {})) },
+}));
+jest.mock('../../repositories/PurchaseOrderRepository');
+jest.mock('../../repositories/CounterRepository');
+jest.mock('../../repositories/LocationRepository');
+jest.mock('../../repositories/SupplierRepository');
+jest.mock('../../repositories/ProductSupplierRepository');
+jest.mock('../../services/ProductService');
+
+const userId = new Types.ObjectId().toString();
+const productId = new Types.ObjectId();
+
+const makeOrder = (fields: Record<string, unknown> = {}) => {
+  const order = new PurchaseOrder({
+    poNumber: 'PO-000001',
+    vendor: { name: 'Acme' },
+    status: PurchaseOrderStatus.SUBMITTED,
+    lines: [{ productId, quantityOrdered: 10, quantityReceived: 0, unitCost: 2.5 }],
+    userId,
+    ...fields,
+  });
+  jest.spyOn(order, 'save').mockImplementation(async () => order);
+  return order;
+};
+
+describe('PurchaseOrderService', () => {
+  let service: PurchaseOrderService;
+  let repos: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new PurchaseOrderService();
+    repos = service as any;
+    repos.productService.getProductById.mockResolvedValue({ _id: productId, isActive: true });
+    repos.counterRepository.nextNumber.mockResolvedValue('PO-000001');
+    repos.purchaseOrderRepository.create.mockImplementation(async (data: any) => data);
+  });
+
+  it("should take vendor details and unit costs from the supplier's terms", async () => {
+    const supplierId = new Types.ObjectId().toString();
+    repos.supplierRepository.findById.mockResolvedValue({
+      name: 'Acme',
+      currency: 'EUR',
+      isActive: true,
+    });
+    repos.productSupplierRepository.findLink.mockResolvedValue({
+      unitCost: 3.2,
+      supplierSku: 'AC-1',
+    });
+
+    const order = await service.createPurchaseOrder(userId, {
+      supplierId,
+      lines: [{ productId: productId.toString(), quantity: 5 }],
+    });
+
+    expect(order).toMatchObject({ vendor: { name: 'Acme' }, currency: 'EUR' });
+    expect(order.lines).toEqual([
+      expect.objectContaining({
+        productId,
+        supplierSku: 'AC-1',
+        quantityOrdered: 5,
+        quantityReceived: 0,
+        unitCost: 3.2,
+      }),
+    ]);
+  });
+
+  it('should refuse lines without a unit cost', async () => {
+    await expect(
+      service.createPurchaseOrder(userId, {
+        vendor: { name: 'Walk-in' },
+        lines: [{ productId: productId.toString(), quantity: 5 }],
+      })
+    ).rejects.toThrow('Each line needs a unit cost of zero or greater');
+  });
+
+  it('should book received units into stock at the ordered cost', async () => {
+    const order = makeOrder();
+    repos.purchaseOrderRepository.findById.mockResolvedValue(order);
+
+    const received = await service.receivePurchaseOrder(order._id.toString(), userId, {
+      lines: [{ productId: productId.toString(), quantity: 4 }],
+    });
+
+    expect(repos.productService.adjustStock).toHaveBeenCalledWith(
+      productId.toString(),
+      4,
+      undefined,
+      expect.objectContaining({
+        reason: StockMovementReason.PURCHASE_RECEIPT,
+        reference: 'PO-000001',
+        unitCost: 2.5,
+      })
+    );
+    expect(received.status).toBe(PurchaseOrderStatus.PARTIALLY_RECEIVED);
+    expect(received.toJSON().lines[0]).toMatchObject({ quantityOutstanding: 6 });
+    expect(received.receipts).toHaveLength(1);
+  });
+
+  it('should accept more than was ordered and report it as an over-receipt', async () => {
+    const order = makeOrder();
+    repos.purchaseOrderRepository.findById.mockResolvedValue(order);
+
+    const received = await service.receivePurchaseOrder(order._id.toString(), userId, {
+      lines: [{ productId: productId.toString(), quantity: 12 }],
+    });
+
+    expect(received.status).toBe(PurchaseOrderStatus.RECEIVED);
+    expect(received.toJSON().lines[0]).toMatchObject({ quantityOverReceived: 2 });
+    expect(received.get('hasDiscrepancy')).toBe(true);
+  });
+
+  it('should receive everything outstanding when no lines are given', async () => {
+    const order = makeOrder({
+      status: PurchaseOrderStatus.PARTIALLY_RECEIVED,
+      lines: [{ productId, quantityOrdered: 10, quantityReceived: 7, unitCost: 2.5 }],
+    });
+    repos.purchaseOrderRepository.findById.mockResolvedValue(order);
+
+    const received = await service.receivePurchaseOrder(order._id.toString(), userId);
+
+    expect(repos.productService.adjustStock).toHaveBeenCalledWith(
+      productId.toString(),
+      3,
+      undefined,
+      expect.anything()
+    );
+    expect(received.status).toBe(PurchaseOrderStatus.RECEIVED);
+    expect(received.get('hasDiscrepancy')).toBe(false);
+    await expect(service.receivePurchaseOrder(order._id.toString(), userId)).rejects.toThrow(
+      'Only submitted purchase orders can be received'
+    );
+  });
+
+  it('should refuse receipts for drafts and products not on the order', async () => {
+    repos.purchaseOrderRepository.findById.mockResolvedValue(
+      makeOrder({ status: PurchaseOrderStatus.DRAFT })
+    );
+    await expect(
+      service.receivePurchaseOrder(new Types.ObjectId().toString(), userId)
+    ).rejects.toThrow('Only submitted purchase orders can be received');
+
+    repos.purchaseOrderRepository.findById.mockResolvedValue(makeOrder());
+    await expect(
+      service.receivePurchaseOrder(new Types.ObjectId().toString(), userId, {
+        lines: [{ productId: new Types.ObjectId().toString(), quantity: 1 }],
+      })
+    ).rejects.toThrow('Product is not part of this purchase order');
+    expect(repos.productService.adjustStock).not.toHaveBeenCalled();
+  });
+
+  it('should only cancel orders that have not been received', async () => {
+    repos.purchaseOrderRepository.findById.mockResolvedValue(
+      makeOrder({ status: PurchaseOrderStatus.PARTIALLY_RECEIVED })
+    );
+    await expect(service.cancelPurchaseOrder(new Types.ObjectId().toString())).rejects.toThrow(
+      'Cannot cancel a partially_received purchase order'
+    );
+
+    const closed = await service.closePurchaseOrder(new Types.ObjectId().toString());
+    expect(closed.status).toBe(PurchaseOrderStatus.CLOSED);
+  });
+});
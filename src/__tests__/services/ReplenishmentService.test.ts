@@ -0,0 +1,80 @@
+/**
+ * ReplenishmentService Unit Tests - suggested order quantities
+ */
+
+import { ReplenishmentService } from '../../services/ReplenishmentService';
+import { ReorderInput } from '../../types';
+
+describe('ReplenishmentService.computeSuggestedQuantity', () => {
+  const base: ReorderInput = {
+    availableQuantity: 4,
+    onOrderQuantity: 0,
+    reorderPoint: 5,
+    maxStockLevel: 20,
+    dailyUsage: 0,
+    leadTimeDays: 0,
+    minimumOrderQuantity: 1,
+    packSize: 1,
+  };
+
+  it('should not suggest anything above the reorder point', () => {
+    expect(ReplenishmentService.computeSuggestedQuantity({ ...base, availableQuantity: 6 })).toBe(
+      0
+    );
+  });
+
+  it('should order up to the max stock level', () => {
+    expect(ReplenishmentService.computeSuggestedQuantity(base)).toBe(16);
+  });
+
+  it('should count stock on order as available', () => {
+    expect(ReplenishmentService.computeSuggestedQuantity({ ...base, onOrderQuantity: 1 })).toBe(15);
+    expect(ReplenishmentService.computeSuggestedQuantity({ ...base, onOrderQuantity: 10 })).toBe(0);
+  });
+
+  it('should raise the reorder level to cover demand during the lead time', () => {
+    const input = { ...base, availableQuantity: 10, dailyUsage: 2, leadTimeDays: 7 };
+
+    // Reorder level becomes 14 units, target max(20, 14 + 14) = 28
+    expect(ReplenishmentService.computeSuggestedQuantity(input)).toBe(18);
+  });
+
+  it('should respect the minimum order quantity', () => {
+    expect(
+      ReplenishmentService.computeSuggestedQuantity({ ...base, minimumOrderQuantity: 50 })
+    ).toBe(50);
+  });
+
+  it('should round up to whole packs', () => {
+    expect(ReplenishmentService.computeSuggestedQuantity({ ...base, packSize: 12 })).toBe(24);
+  });
+
+  it('should order past the reorder point when no max stock level is set', () => {
+    expect(ReplenishmentService.computeSuggestedQuantity({ ...base, maxStockLevel: null })).toBe(2);
+  });
+});
+
+describe('ReplenishmentService.toCsv', () => {
+  it('should write a header row and escape values', () => {
+    const csv = ReplenishmentService.toCsv([
+      {
+        productId: 'p1',
+        sku: 'LAP-001',
+        name: 'Laptop, 15"',
+        availableQuantity: 1,
+        onOrderQuantity: 0,
+        reorderPoint: 5,
+        maxStockLevel: 10,
+        dailyUsage: 0.5,
+        leadTimeDays: 3,
+        minimumOrderQuantity: 1,
+        packSize: 1,
+        suggestedQuantity: 9,
+      },
+    ]);
+
+    const [header, row] = csv.split('\n');
+    expect(header.split(',')[0]).toBe('sku');
+    expect(row).toBe('LAP-001,"Laptop, 15""",1,0,5,10,0.5,3,1,1,9,,');
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * ReservationService Unit Tests - holding stock, releasing, committing and expiring reservations
+ */
+
+import { Types } from 'mongoose';
+import { ReservationService } from '../../services/ReservationService';
+import { ProductService } from '../../services/ProductService';
+import { SerialService } from '../../services/SerialService';
+import { Product } from '../../models/Product';
+import { ReservationStatus, StockMovementReason } from '../../types';
+
+jest.mock('../../config/database', () => ({
+  __esModule: true,
+  default: { withTransaction: jest.fn((work: any, session?: any) => work(session || {})) },
+}));
+jest.mock('../../repositories/ReservationRepository');
+jest.mock('../../repositories/ProductRepository');
+jest.mock('../../repositories/StockMovementRepository');
+jest.mock('../../repositories/StockLevelRepository');
+jest.mock('../../repositories/ProductVersionRepository');
+jest.mock('../../repositories/LocationRepository');
+jest.mock('../../services/LotService');
+jest.mock('../../services/SerialService');
+jest.mock('../../services/CostingService');
+jest.mock('../../services/CategoryService');
+jest.mock('../../services/ImageService');
+
+const makeProduct = (fields: Record<string, unknown> = {}): any => ({
+  _id: new Types.ObjectId(),
+  userId: new Types.ObjectId(),
+  isActive: true,
+  sku: 'WIDGET',
+  quantity: 10,
+  reservedQuantity: 0,
+  expiredQuantity: 0,
+  components: [],
+  units: [],
+  baseUnit: 'each',
+  ...fields,
+});
+
+const makeReservation = (fields: Record<string, unknown> = {}): any => ({
+  _id: new Types.ObjectId(),
+  productId: new Types.ObjectId(),
+  quantity: 3,
+  serials: [],
+  status: ReservationStatus.ACTIVE,
+  ...fields,
+});
+
+describe('ReservationService', () => {
+  let service: ReservationService;
+  let repos: any;
+  let adjustStock: jest.SpyInstance;
+  const product = makeProduct();
+  const productId = product._id.toString();
+  const actorId = new Types.ObjectId().toString();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ReservationService();
+    repos = service as any;
+    jest.spyOn(repos.productService, 'getProductById').mockResolvedValue(product);
+    adjustStock = jest.spyOn(repos.productService, 'adjustStock').mockResolvedValue(null);
+    repos.productRepository.updateReservedQuantity.mockResolvedValue(product);
+    repos.reservationRepository.create.mockImplementation(async (data: any) => data);
+    jest.mocked(SerialService.normalizeSerials).mockReturnValue([]);
+  });
+
+  afterAll(() => jest.restoreAllMocks());
+
+  it('should hold the quantity until the expiry time', async () => {
+    const before = Date.now();
+
+    const reservation = await service.createReservation(productId, actorId, {
+      quantity: 3,
+      expiresInMinutes: 15,
+    });
+
+    expect(repos.productRepository.updateReservedQuantity).toHaveBeenCalledWith(
+      productId,
+      3,
+      expect.anything()
+    );
+    expect(reservation.expiresAt.getTime()).toBeGreaterThanOrEqual(before + 15 * 60 * 1000);
+  });
+
+  it('should refuse to reserve more than is available', async () => {
+    repos.productRepository.updateReservedQuantity.mockResolvedValue(null);
+
+    await expect(service.createReservation(productId, actorId, { quantity: 11 })).rejects.toThrow(
+      'Insufficient available stock to reserve'
+    );
+    expect(repos.reservationRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('should validate the quantity and expiry', async () => {
+    await expect(service.createReservation(productId, actorId, { quantity: 1.5 })).rejects.toThrow(
+      'Reservation quantity must be a positive whole number'
+    );
+    await expect(
+      service.createReservation(productId, actorId, { quantity: 1, expiresInMinutes: 0 })
+    ).rejects.toThrow('Reservations must expire within');
+    for (const expiresInMinutes of ['soon', '30', NaN, null]) {
+      await expect(
+        service.createReservation(productId, actorId, {
+          quantity: 1,
+          expiresInMinutes: expiresInMinutes as any,
+        })
+      ).rejects.toThrow('Reservation expiry must be a number of minutes');
+    }
+    expect(repos.productRepository.updateReservedQuantity).not.toHaveBeenCalled();
+  });
+
+  it('should give released units back only once', async () => {
+    const reservation = makeReservation({ productId: product._id });
+    repos.reservationRepository.transitionStatus.mockResolvedValueOnce(reservation);
+
+    await service.releaseReservation(productId, reservation._id.toString());
+    expect(repos.productRepository.updateReservedQuantity).toHaveBeenCalledWith(
+      productId,
+      -3,
+      expect.anything()
+    );
+
+    repos.reservationRepository.transitionStatus.mockResolvedValueOnce(null);
+    await expect(service.releaseReservation(productId, reservation._id.toString())).rejects.toThrow(
+      'Reservation not found or no longer active'
+    );
+    expect(repos.productRepository.updateReservedQuantity).toHaveBeenCalledTimes(1);
+  });
+
+  it('should release the hold before taking the committed units out of stock', async () => {
+    const reservation = makeReservation({ productId: product._id, reference: 'ORDER-1' });
+    repos.reservationRepository.transitionStatus.mockResolvedValue(reservation);
+
+    await service.commitReservation(productId, reservation._id.toString(), actorId);
+
+    expect(repos.productRepository.updateReservedQuantity).toHaveBeenCalledWith(
+      productId,
+      -3,
+      expect.anything()
+    );
+    expect(adjustStock).toHaveBeenCalledWith(
+      productId,
+      -3,
+      undefined,
+      expect.objectContaining({
+        reason: StockMovementReason.RESERVATION_COMMIT,
+        reference: 'ORDER-1',
+      })
+    );
+    expect(repos.productRepository.updateReservedQuantity.mock.invocationCallOrder[0]).toBeLessThan(
+      adjustStock.mock.invocationCallOrder[0]
+    );
+  });
+
+  it('should expire stale reservations that are still active', async () => {
+    const stale = [makeReservation(), makeReservation({ quantity: 2 })];
+    repos.reservationRepository.findExpired.mockResolvedValue(stale);
+    // The second one was committed after being read
+    repos.reservationRepository.transitionStatus
+      .mockResolvedValueOnce({ ...stale[0], status: ReservationStatus.EXPIRED })
+      .mockResolvedValueOnce(null);
+
+    await expect(service.expireStaleReservations()).resolves.toBe(1);
+    expect(repos.productRepository.updateReservedQuantity).toHaveBeenCalledTimes(1);
+    expect(repos.productRepository.updateReservedQuantity).toHaveBeenCalledWith(
+      stale[0].productId.toString(),
+      -3,
+      expect.anything()
+    );
+  });
+});
+
+describe('Product available quantity', () => {
+  it('should leave reserved, expired and in-transit units out of available stock', () => {
+    const product = new Product({
+      quantity: 10,
+      reservedQuantity: 3,
+      expiredQuantity: 2,
+      inTransitQuantity: 1,
+      minStockLevel: 4,
+    });
+
+    expect(product.get('availableQuantity')).toBe(4);
+    expect(product.get('isLowStock')).toBe(true);
+  });
+});
+
+describe('ProductService updates', () => {
+  let service: ProductService;
+  let repos: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ProductService();
+    repos = service as any;
+  });
+
+  it('should ignore stock and costing fields sent with an update', async () => {
+    const product = makeProduct({ reservedQuantity: 2, averageCost: 5 });
+    repos.productRepository.findById.mockResolvedValue(product);
+    repos.productRepository.update.mockImplementation(async (_id: string, changes: any) => ({
+      ...product,
+      ...changes,
+    }));
+
+    const updated = await service.updateProduct(product._id.toString(), product.userId.toString(), {
+      name: 'Renamed',
+      reservedQuantity: 0,
+      averageCost: 99,
+      inventoryValue: 0,
+      parentId: new Types.ObjectId().toString(),
+    } as any);
+
+    const changes = repos.productRepository.update.mock.calls[0][1];
+    expect(changes.name).toBe('Renamed');
+    expect(changes).not.toHaveProperty('reservedQuantity');
+    expect(changes).not.toHaveProperty('averageCost');
+    expect(changes).not.toHaveProperty('inventoryValue');
+    expect(changes).not.toHaveProperty('parentId');
+    expect(updated).toMatchObject({ reservedQuantity: 2, averageCost: 5 });
+  });
+});
+
+describe('ProductService manual stock changes', () => {
+  let service: ProductService;
+  let repos: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ProductService();
+    repos = service as any;
+    repos.costingService.applyChange.mockResolvedValue({ valueChange: 0 });
+  });
+
+  it('should not set the quantity below what is reserved', async () => {
+    const product = makeProduct({ reservedQuantity: 6 });
+    repos.productRepository.findById.mockResolvedValue(product);
+
+    await expect(service.updateStock(product._id.toString(), 4)).rejects.toThrow(
+      'Insufficient available stock: remaining units are reserved'
+    );
+    await expect(
+      service.updateProduct(product._id.toString(), product.userId.toString(), { quantity: 5 })
+    ).rejects.toThrow('Insufficient available stock: remaining units are reserved');
+    expect(repos.productRepository.updateStock).not.toHaveBeenCalled();
+
+    repos.productRepository.updateStock.mockResolvedValue(product);
+    await service.updateStock(product._id.toString(), 6);
+    expect(repos.productRepository.updateStock).toHaveBeenCalledWith(
+      product._id.toString(),
+      6,
+      expect.anything()
+    );
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * RmaService Unit Tests - authorising, receiving and inspecting returns, and quarantine
+ */
+
+import { Types } from 'mongoose';
+import { RmaService } from '../../services/RmaService';
+import { SerialService } from '../../services/SerialService';
+import { RmaStatus, ReturnDisposition, ReturnReason, StockMovementReason } from '../../types';
+
+jest.mock('../../config/database', () => ({
+  __esModule: true,
+  default: { withTransaction: jest.fn((work: any, session?: any) => work(session || {})) },
+}));
+jest.mock('../../repositories/RmaRepository');
+jest.mock('../../repositories/CounterRepository');
+jest.mock('../../repositories/ProductRepository');
+jest.mock('../../services/ProductService');
+jest.mock('../../services/SerialService');
+
+const userId = new Types.ObjectId().toString();
+const productId = new Types.ObjectId();
+
+const makeRma = (fields: Record<string, unknown> = {}): any => {
+  const rma: any = {
+    _id: new Types.ObjectId(),
+    rmaNumber: 'RMA-000001',
+    status: RmaStatus.RECEIVED,
+    lines: [
+      {
+        productId,
+        quantity: 3,
+        quantityReceived: 3,
+        reason: ReturnReason.DEFECTIVE,
+        dispositions: [],
+      },
+    ],
+    ...fields,
+  };
+  rma.save = jest.fn(async () => rma);
+  return rma;
+};
+
+describe('RmaService', () => {
+  let service: RmaService;
+  let repos: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new RmaService();
+    repos = service as any;
+    repos.productService.getProductById.mockResolvedValue({ _id: productId, isActive: true });
+    repos.counterRepository.nextNumber.mockResolvedValue('RMA-000001');
+    repos.productRepository.updateQuarantinedQuantity.mockResolvedValue({});
+    jest.mocked(SerialService.normalizeSerials).mockReturnValue([]);
+  });
+
+  it("should only authorise returns of the owner's products", async () => {
+    repos.productService.getProductById.mockResolvedValue(null);
+
+    await expect(
+      service.createRma(
+        userId,
+        {
+          orderNumber: 'SO-1',
+          lines: [{ productId: productId.toString(), quantity: 1, reason: ReturnReason.DEFECTIVE }],
+        },
+        userId
+      )
+    ).rejects.toThrow('Product not found or access denied');
+    expect(repos.productService.getProductById).toHaveBeenCalledWith(productId.toString(), userId);
+    expect(repos.rmaRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('should not receive more than was authorised', async () => {
+    const rma = makeRma({ status: RmaStatus.OPEN });
+    rma.lines[0].quantityReceived = 0;
+    repos.rmaRepository.findById.mockResolvedValue(rma);
+
+    await expect(
+      service.receiveRma(rma._id.toString(), {
+        lines: [{ productId: productId.toString(), quantity: 4 }],
+      })
+    ).rejects.toThrow('Cannot receive more than the authorised return quantity');
+
+    const received = await service.receiveRma(rma._id.toString());
+    expect(received.status).toBe(RmaStatus.RECEIVED);
+    expect(received.lines[0].quantityReceived).toBe(3);
+    expect(repos.productService.adjustStock).not.toHaveBeenCalled();
+  });
+
+  it('should put restocked units back into stock as a return', async () => {
+    const rma = makeRma();
+    repos.rmaRepository.findById.mockResolvedValue(rma);
+
+    await service.inspectRma(rma._id.toString(), userId, {
+      lines: [
+        { productId: productId.toString(), disposition: ReturnDisposition.RESTOCK, quantity: 2 },
+      ],
+    });
+
+    expect(repos.productService.adjustStock).toHaveBeenCalledWith(
+      productId.toString(),
+      2,
+      undefined,
+      expect.objectContaining({ reason: StockMovementReason.RETURN, reference: 'RMA-000001' })
+    );
+    expect(repos.productRepository.updateQuarantinedQuantity).not.toHaveBeenCalled();
+    expect(rma.status).toBe(RmaStatus.RECEIVED);
+  });
+
+  it('should hold quarantined units outside stock and complete once all are inspected', async () => {
+    const rma = makeRma();
+    rma.lines[0].dispositions = [{ disposition: ReturnDisposition.RESTOCK, quantity: 2 }];
+    repos.rmaRepository.findById.mockResolvedValue(rma);
+
+    await service.inspectRma(rma._id.toString(), userId, {
+      lines: [
+        { productId: productId.toString(), disposition: ReturnDisposition.QUARANTINE, quantity: 1 },
+      ],
+    });
+
+    expect(repos.productRepository.updateQuarantinedQuantity).toHaveBeenCalledWith(
+      productId.toString(),
+      1,
+      expect.anything()
+    );
+    expect(repos.productService.adjustStock).not.toHaveBeenCalled();
+    expect(rma.status).toBe(RmaStatus.COMPLETED);
+  });
+
+  it('should not inspect more units than are awaiting inspection', async () => {
+    const rma = makeRma();
+    rma.lines[0].dispositions = [{ disposition: ReturnDisposition.SCRAP, quantity: 2 }];
+    repos.rmaRepository.findById.mockResolvedValue(rma);
+
+    await expect(
+      service.inspectRma(rma._id.toString(), userId, {
+        lines: [
+          { productId: productId.toString(), disposition: ReturnDisposition.RESTOCK, quantity: 2 },
+        ],
+      })
+    ).rejects.toThrow('Cannot disposition more units than are awaiting inspection');
+    expect(repos.productService.adjustStock).not.toHaveBeenCalled();
+  });
+
+  it('should restock released quarantine and leave scrapped units out of stock', async () => {
+    await service.releaseQuarantine(productId.toString(), userId, {
+      quantity: 1,
+      disposition: ReturnDisposition.RESTOCK,
+    });
+    expect(repos.productRepository.updateQuarantinedQuantity).toHaveBeenCalledWith(
+      productId.toString(),
+      -1,
+      expect.anything()
+    );
+    expect(repos.productService.adjustStock).toHaveBeenCalledWith(
+      productId.toString(),
+      1,
+      undefined,
+      expect.objectContaining({ reason: StockMovementReason.RETURN })
+    );
+
+    jest.clearAllMocks();
+    await service.releaseQuarantine(productId.toString(), userId, {
+      quantity: 1,
+      disposition: ReturnDisposition.SCRAP,
+    });
+    expect(repos.productService.adjustStock).not.toHaveBeenCalled();
+
+    repos.productRepository.updateQuarantinedQuantity.mockResolvedValue(null);
+    await expect(
+      service.releaseQuarantine(productId.toString(), userId, {
+        quantity: 5,
+        disposition: ReturnDisposition.RESTOCK,
+      })
+    ).rejects.toThrow('Not enough quarantined stock to release');
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * SalesOrderService Unit Tests - status transitions, pick planning, ownership and kits
+ */
+
+import { Types } from 'mongoose';
+import { SalesOrderService } from '../../services/SalesOrderService';
+import { SalesOrderStatus, StockMovementReason } from '../../types';
+
+jest.mock('../../config/database', () => ({
+  __esModule: true,
+  default: { withTransaction: jest.fn((work: any, session?: any) => work(session || {})) },
+}));
+jest.mock('../../repositories/SalesOrderRepository');
+jest.mock('../../repositories/CounterRepository');
+jest.mock('../../repositories/ProductRepository');
+jest.mock('../../repositories/StockLevelRepository');
+jest.mock('../../services/ProductService');
+
+describe('SalesOrderService.canTransition', () => {
+  it('should follow draft → confirmed → picking → shipped', () => {
+    expect(
+      SalesOrderService.canTransition(SalesOrderStatus.DRAFT, SalesOrderStatus.CONFIRMED)
+    ).toBe(true);
+    expect(
+      SalesOrderService.canTransition(SalesOrderStatus.CONFIRMED, SalesOrderStatus.PICKING)
+    ).toBe(true);
+    expect(
+      SalesOrderService.canTransition(SalesOrderStatus.PICKING, SalesOrderStatus.SHIPPED)
+    ).toBe(true);
+  });
+
+  it('should not skip picking', () => {
+    expect(
+      SalesOrderService.canTransition(SalesOrderStatus.CONFIRMED, SalesOrderStatus.SHIPPED)
+    ).toBe(false);
+  });
+
+  it('should only cancel orders that have not shipped', () => {
+    expect(
+      SalesOrderService.canTransition(SalesOrderStatus.PICKING, SalesOrderStatus.CANCELLED)
+    ).toBe(true);
+    expect(
+      SalesOrderService.canTransition(SalesOrderStatus.SHIPPED, SalesOrderStatus.CANCELLED)
+    ).toBe(false);
+    expect(
+      SalesOrderService.canTransition(SalesOrderStatus.CANCELLED, SalesOrderStatus.CONFIRMED)
+    ).toBe(false);
+  });
+});
+
+describe('SalesOrderService.planPicks', () => {
+  const sources = [
+    { locationId: 'loc-a', quantity: 6 },
+    { locationId: 'loc-b', quantity: 2 },
+    { locationId: null, quantity: 3 },
+  ];
+
+  it('should pick from a single source when it covers the quantity', () => {
+    expect(SalesOrderService.planPicks(sources, 4)).toEqual({
+      picks: [{ locationId: 'loc-a', quantity: 4 }],
+      shortfall: 0,
+    });
+  });
+
+  it('should spill over into later sources, including unassigned stock', () => {
+    expect(SalesOrderService.planPicks(sources, 10)).toEqual({
+      picks: [
+        { locationId: 'loc-a', quantity: 6 },
+        { locationId: 'loc-b', quantity: 2 },
+        { locationId: null, quantity: 2 },
+      ],
+      shortfall: 0,
+    });
+  });
+
+  it('should report the shortfall when sources run out', () => {
+    const { shortfall } = SalesOrderService.planPicks(sources, 15);
+
+    expect(shortfall).toBe(4);
+  });
+});
+
+describe('SalesOrderService orders', () => {
+  let service: SalesOrderService;
+  let repos: any;
+  const ownerId = new Types.ObjectId();
+  const component = {
+    _id: new Types.ObjectId(),
+    sku: 'BOLT',
+    quantity: 20,
+    availableQuantity: 20,
+    components: [],
+  };
+  const kit = {
+    _id: new Types.ObjectId(),
+    sku: 'KIT',
+    quantity: 1,
+    availableQuantity: 1,
+    components: [{ productId: component._id, quantity: 4 }],
+  };
+
+  const makeOrder = (fields: Record<string, unknown> = {}): any => {
+    const order: any = {
+      _id: new Types.ObjectId(),
+      orderNumber: 'SO-000001',
+      status: SalesOrderStatus.DRAFT,
+      userId: ownerId,
+      lines: [
+        {
+          productId: kit._id,
+          quantity: 3,
+          unitPrice: 10,
+          quantityAllocated: 0,
+          quantityFromComponents: 0,
+          quantityShipped: 0,
+        },
+      ],
+      pickList: [],
+      ...fields,
+    };
+    order.save = jest.fn(async () => order);
+    return order;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new SalesOrderService();
+    repos = service as any;
+    repos.productRepository.findById.mockImplementation(async (id: string) =>
+      [kit, component].find(product => product._id.toString() === id.toString())
+    );
+    repos.productRepository.updateReservedQuantity.mockResolvedValue({});
+    repos.stockLevelRepository.find.mockResolvedValue([]);
+    repos.stockLevelRepository.getAllocatedQuantity.mockResolvedValue(0);
+  });
+
+  it("should hide and refuse other users' orders", async () => {
+    const order = makeOrder();
+    repos.salesOrderRepository.findById.mockResolvedValue(order);
+    const otherUser = new Types.ObjectId().toString();
+
+    await expect(service.getSalesOrderById(order._id.toString(), otherUser)).resolves.toBeNull();
+    await expect(service.getSalesOrderById(order._id.toString())).resolves.toBe(order);
+    await expect(service.confirmSalesOrder(order._id.toString(), otherUser)).rejects.toThrow(
+      'Sales order not found or access denied'
+    );
+    await expect(service.cancelSalesOrder(order._id.toString(), otherUser)).rejects.toThrow(
+      'Sales order not found or access denied'
+    );
+    expect(repos.productRepository.updateReservedQuantity).not.toHaveBeenCalled();
+  });
+
+  it("should only order the owner's products", async () => {
+    repos.productService.getProductById.mockResolvedValue(null);
+
+    await expect(
+      service.createSalesOrder(
+        ownerId.toString(),
+        {
+          customer: { name: 'Dana' },
+          lines: [{ productId: kit._id.toString(), quantity: 1 }],
+        },
+        ownerId.toString()
+      )
+    ).rejects.toThrow('Product not found or access denied');
+    expect(repos.productService.getProductById).toHaveBeenCalledWith(
+      kit._id.toString(),
+      ownerId.toString()
+    );
+  });
+
+  it('should allocate kits from prebuilt stock first and the rest from components', async () => {
+    const order = makeOrder();
+    repos.salesOrderRepository.findById.mockResolvedValue(order);
+
+    await service.confirmSalesOrder(order._id.toString(), ownerId.toString());
+
+    expect(repos.productRepository.updateReservedQuantity).toHaveBeenCalledWith(
+      kit._id.toString(),
+      1,
+      expect.anything()
+    );
+    expect(repos.productRepository.updateReservedQuantity).toHaveBeenCalledWith(
+      component._id.toString(),
+      8,
+      expect.anything()
+    );
+    expect(order.lines[0]).toMatchObject({ quantityAllocated: 3, quantityFromComponents: 2 });
+    expect(order.status).toBe(SalesOrderStatus.CONFIRMED);
+  });
+
+  it('should fail the confirmation when the components run short', async () => {
+    const order = makeOrder();
+    repos.salesOrderRepository.findById.mockResolvedValue(order);
+    repos.productRepository.updateReservedQuantity
+      .mockResolvedValueOnce({})
+      .mockResolvedValueOnce(null);
+
+    await expect(service.confirmSalesOrder(order._id.toString())).rejects.toThrow(
+      `Insufficient available stock for product ${component._id}`
+    );
+  });
+
+  it('should pick assembled kits and take them through the kit stock on shipping', async () => {
+    const order = makeOrder({ status: SalesOrderStatus.CONFIRMED });
+    order.lines[0].quantityAllocated = 3;
+    order.lines[0].quantityFromComponents = 2;
+    repos.salesOrderRepository.findById.mockResolvedValue(order);
+
+    await service.startPicking(order._id.toString());
+    expect(order.pickList).toEqual([
+      { productId: kit._id, locationId: null, quantity: 1 },
+      { productId: kit._id, locationId: null, quantity: 2 },
+    ]);
+
+    const userId = new Types.ObjectId().toString();
+    await service.shipSalesOrder(order._id.toString(), userId);
+
+    expect(repos.productRepository.updateReservedQuantity).toHaveBeenCalledWith(
+      kit._id.toString(),
+      -1,
+      expect.anything()
+    );
+    expect(repos.productRepository.updateReservedQuantity).toHaveBeenCalledWith(
+      component._id.toString(),
+      -8,
+      expect.anything()
+    );
+    expect(repos.productService.adjustStock).toHaveBeenCalledTimes(2);
+    expect(repos.productService.adjustStock).toHaveBeenLastCalledWith(
+      kit._id.toString(),
+      -2,
+      undefined,
+      expect.objectContaining({ reason: StockMovementReason.SALE, reference: 'SO-000001' })
+    );
+    expect(order.lines[0].quantityShipped).toBe(3);
+    expect(order.status).toBe(SalesOrderStatus.SHIPPED);
+  });
+
+  it('should not plan picks from stock in transit between locations', async () => {
+    const order = makeOrder({ status: SalesOrderStatus.CONFIRMED });
+    order.lines[0].quantityAllocated = 3;
+    order.lines[0].quantityFromComponents = 2;
+    repos.salesOrderRepository.findById.mockResolvedValue(order);
+    const inTransit = (product: any, inTransitQuantity: number) => ({
+      ...product,
+      inTransitQuantity,
+    });
+
+    // The one prebuilt kit is on its way to another location
+    repos.productRepository.findById.mockImplementation(async (id: string) =>
+      id.toString() === kit._id.toString() ? inTransit(kit, 1) : component
+    );
+    await expect(service.startPicking(order._id.toString())).rejects.toThrow(
+      'Not enough stock on hand to pick product KIT'
+    );
+
+    // 13 of the 20 bolts are in transit, leaving 7 for the 8 the kits need
+    repos.productRepository.findById.mockImplementation(async (id: string) =>
+      id.toString() === kit._id.toString() ? kit : inTransit(component, 13)
+    );
+    await expect(service.startPicking(order._id.toString())).rejects.toThrow(
+      'Not enough stock on hand to pick product BOLT'
+    );
+    expect(order.status).toBe(SalesOrderStatus.CONFIRMED);
+  });
+
+  it('should refuse to pick kits whose components are held at locations', async () => {
+    const order = makeOrder({ status: SalesOrderStatus.CONFIRMED });
+    order.lines[0].quantityAllocated = 3;
+    order.lines[0].quantityFromComponents = 2;
+    repos.salesOrderRepository.findById.mockResolvedValue(order);
+    repos.stockLevelRepository.getAllocatedQuantity.mockResolvedValue(15);
+
+    await expect(service.startPicking(order._id.toString())).rejects.toThrow(
+      'Not enough stock on hand to pick product BOLT'
+    );
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * ScanService Unit Tests - matching scanned codes and netting scan events
+ */
+
+import { ScanService } from '../../services/ScanService';
+import { IProductDocument, ScanMatch } from '../../types';
+
+const product = (fields: Record<string, unknown>): IProductDocument =>
+  ({
+    barcode: null,
+    alternateCodes: [],
+    baseUnit: 'each',
+    fractionalQuantities: false,
+    units: [{ name: 'case', factor: 12 }],
+    hasVariants: false,
+    trackSerials: false,
+    ...fields,
+  }) as unknown as IProductDocument;
+
+describe('ScanService.matchCode', () => {
+  const widget = product({ _id: 'p1', sku: 'WID-1', barcode: '4006381333931' });
+  const gadget = product({ _id: 'p2', sku: '4006381333931', alternateCodes: ['old-7'] });
+
+  it('should prefer barcodes over SKUs and SKUs over alternate codes', () => {
+    expect(ScanService.matchCode('4006381333931', [gadget, widget])).toEqual({
+      product: widget,
+      matchedBy: ScanMatch.BARCODE,
+    });
+    expect(ScanService.matchCode('wid-1', [gadget, widget])?.matchedBy).toBe(ScanMatch.SKU);
+    expect(ScanService.matchCode('old-7', [gadget, widget])).toEqual({
+      product: gadget,
+      matchedBy: ScanMatch.ALTERNATE_CODE,
+    });
+  });
+
+  it('should match alternate codes exactly', () => {
+    expect(ScanService.matchCode('OLD-7', [gadget])).toBeNull();
+  });
+});
+
+describe('ScanService.netChanges', () => {
+  const widget = product({ _id: 'p1', sku: 'WID-1' });
+  const gadget = product({ _id: 'p2', sku: 'GAD-1' });
+
+  it('should add up scans per product in base units', () => {
+    const { changes, errors } = ScanService.netChanges([
+      { product: gadget, delta: -1 },
+      { product: null, delta: 5 },
+      { product: widget, delta: 1, unit: 'case' },
+      { product: gadget, delta: -2 },
+    ]);
+
+    expect(changes).toEqual([
+      { product: gadget, delta: -3, eventIndexes: [0, 3] },
+      { product: widget, delta: 12, eventIndexes: [2] },
+    ]);
+    expect(errors.size).toBe(0);
+  });
+
+  it('should leave out scans in units the product does not have', () => {
+    const { changes, errors } = ScanService.netChanges([
+      { product: widget, delta: 1, unit: 'pallet' },
+      { product: widget, delta: 1 },
+    ]);
+
+    expect(changes).toEqual([{ product: widget, delta: 1, eventIndexes: [1] }]);
+    expect(errors.get(0)).toBe('Unknown unit "pallet"; use one of: each, case');
+  });
+});
+
+describe('ScanService.scanConflict', () => {
+  it('should refuse variant parents and serialized products', () => {
+    expect(ScanService.scanConflict(product({ hasVariants: true }))).toBe(
+      'Stock of a product with variants is held by its variants'
+    );
+    expect(ScanService.scanConflict(product({ trackSerials: true }))).toMatch(/serial numbers/);
+    expect(ScanService.scanConflict(product({}))).toBeNull();
+  });
+});
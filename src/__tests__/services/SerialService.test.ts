@@ -0,0 +1,44 @@
+/**
+ * SerialService Unit Tests - serial normalization and outbound status
+ */
+
+import { SerialService } from '../../services/SerialService';
+import { SerialStatus, StockMovementReason } from '../../types';
+
+describe('SerialService.normalizeSerials', () => {
+  it('should trim and uppercase serial numbers', () => {
+    expect(SerialService.normalizeSerials([' sn-001 ', 'Sn-002'])).toEqual(['SN-001', 'SN-002']);
+  });
+
+  it('should return an empty list when no serials are given', () => {
+    expect(SerialService.normalizeSerials()).toEqual([]);
+  });
+
+  it('should reject blank serial numbers', () => {
+    expect(() => SerialService.normalizeSerials(['SN-001', '  '])).toThrow(
+      'Serial numbers cannot be blank'
+    );
+  });
+
+  it('should reject serials that only differ in case or whitespace', () => {
+    expect(() => SerialService.normalizeSerials(['sn-001', 'SN-001 '])).toThrow(
+      'Serial numbers must be unique'
+    );
+  });
+});
+
+describe('SerialService.outboundStatus', () => {
+  it('should mark sold units for sales and committed reservations', () => {
+    expect(SerialService.outboundStatus(StockMovementReason.SALE)).toBe(SerialStatus.SOLD);
+    expect(SerialService.outboundStatus(StockMovementReason.RESERVATION_COMMIT)).toBe(
+      SerialStatus.SOLD
+    );
+  });
+
+  it('should scrap units removed for any other reason', () => {
+    expect(SerialService.outboundStatus(StockMovementReason.DAMAGE)).toBe(SerialStatus.SCRAPPED);
+    expect(SerialService.outboundStatus(StockMovementReason.ADJUSTMENT)).toBe(
+      SerialStatus.SCRAPPED
+    );
+  });
+});
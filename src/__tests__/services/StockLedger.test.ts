@@ -0,0 +1,162 @@
+/**
+ * Stock ledger Unit Tests - movements recorded for stock changes and their immutability
+ */
+
+import { Types } from 'mongoose';
+import { ProductService } from '../../services/ProductService';
+import { StockMovement } from '../../models/StockMovement';
+import { StockMovementReason } from '../../types';
+
+jest.mock('../../config/database', () => ({
+  __esModule: true,
+  default: { withTransaction: jest.fn((work: any, session?: any) => work(session || {})) },
+}));
+jest.mock('../../repositories/ProductRepository');
+jest.mock('../../repositories/StockMovementRepository');
+jest.mock('../../repositories/StockLevelRepository');
+jest.mock('../../repositories/ProductVersionRepository');
+jest.mock('../../repositories/LocationRepository');
+jest.mock('../../services/LotService');
+jest.mock('../../services/SerialService');
+jest.mock('../../services/CostingService');
+jest.mock('../../services/CategoryService');
+jest.mock('../../services/ImageService');
+
+const makeProduct = (fields: Record<string, unknown> = {}): any => ({
+  _id: new Types.ObjectId(),
+  userId: new Types.ObjectId(),
+  isActive: true,
+  quantity: 10,
+  reservedQuantity: 0,
+  expiredQuantity: 0,
+  components: [],
+  units: [],
+  baseUnit: 'each',
+  ...fields,
+});
+
+describe('ProductService stock ledger', () => {
+  let service: ProductService;
+  let repos: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ProductService();
+    repos = service as any;
+    repos.stockLevelRepository.getAllocatedQuantity.mockResolvedValue(0);
+    repos.costingService.applyChange.mockResolvedValue({ valueChange: 0 });
+    repos.productRepository.updateStock.mockImplementation(async (id: string, quantity: number) =>
+      makeProduct({ _id: id, quantity })
+    );
+  });
+
+  it('should record an adjustment with the quantities before and after', async () => {
+    const product = makeProduct();
+    repos.productRepository.findById.mockResolvedValue(product);
+
+    await service.adjustStock(product._id.toString(), -3, undefined, {
+      reason: StockMovementReason.SALE,
+      reference: 'SO-1',
+      performedBy: product.userId.toString(),
+    });
+
+    expect(repos.productRepository.updateStock).toHaveBeenCalledWith(
+      product._id.toString(),
+      7,
+      expect.anything()
+    );
+    expect(repos.stockMovementRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        productId: product._id,
+        quantityChange: -3,
+        quantityBefore: 10,
+        quantityAfter: 7,
+        reason: StockMovementReason.SALE,
+        reference: 'SO-1',
+      }),
+      expect.anything()
+    );
+  });
+
+  it('should book adjustments and set quantities under their default reasons', async () => {
+    const product = makeProduct();
+    repos.productRepository.findById.mockResolvedValue(product);
+
+    await service.adjustStock(product._id.toString(), 5);
+    await service.updateStock(product._id.toString(), 4);
+
+    const reasons = repos.stockMovementRepository.create.mock.calls.map(([movement]: any[]) => [
+      movement.reason,
+      movement.quantityChange,
+    ]);
+    expect(reasons).toEqual([
+      [StockMovementReason.ADJUSTMENT, 5],
+      [StockMovementReason.MANUAL_SET, -6],
+    ]);
+  });
+
+  it('should write nothing when the quantity does not change', async () => {
+    const product = makeProduct();
+    repos.productRepository.findById.mockResolvedValue(product);
+
+    await service.updateStock(product._id.toString(), 10);
+
+    expect(repos.productRepository.updateStock).not.toHaveBeenCalled();
+    expect(repos.stockMovementRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('should refuse changes that would take stock below zero', async () => {
+    const product = makeProduct();
+    repos.productRepository.findById.mockResolvedValue(product);
+
+    await expect(service.adjustStock(product._id.toString(), -11)).rejects.toThrow(
+      'Insufficient stock for this adjustment'
+    );
+    await expect(service.updateStock(product._id.toString(), -1)).rejects.toThrow(
+      'Quantity cannot be negative'
+    );
+    expect(repos.stockMovementRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('should keep decreases without a location off stock assigned to locations', async () => {
+    const product = makeProduct();
+    repos.productRepository.findById.mockResolvedValue(product);
+    repos.stockLevelRepository.getAllocatedQuantity.mockResolvedValue(8);
+
+    await expect(service.adjustStock(product._id.toString(), -3)).rejects.toThrow(
+      'Quantity cannot drop below the stock assigned to locations; specify a locationId'
+    );
+    expect(repos.stockMovementRepository.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('StockMovement model', () => {
+  const movement = () =>
+    new StockMovement({
+      productId: new Types.ObjectId(),
+      quantityChange: 1,
+      quantityBefore: 0,
+      quantityAfter: 1,
+      reason: StockMovementReason.RESTOCK,
+    });
+
+  it('should only accept known reasons', async () => {
+    const invalid = movement();
+    invalid.set('reason', 'gift');
+
+    await expect(invalid.validate()).rejects.toThrow('Invalid stock movement reason');
+    await expect(movement().validate()).resolves.toBeUndefined();
+  });
+
+  it('should reject updates and deletes of recorded movements', async () => {
+    const message = 'Stock movements are append-only and cannot be modified';
+
+    await expect(StockMovement.updateOne({}, { quantityChange: 2 })).rejects.toThrow(message);
+    await expect(StockMovement.findOneAndUpdate({}, { note: 'x' })).rejects.toThrow(message);
+    await expect(StockMovement.deleteMany({})).rejects.toThrow(message);
+
+    const recorded = movement();
+    recorded.isNew = false;
+    await expect(recorded.save()).rejects.toThrow(message);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * SupplierService Unit Tests - supplier codes, ownership and product supplier terms
+ */
+
+import { Types } from 'mongoose';
+import { SupplierService } from '../../services/SupplierService';
+
+jest.mock('../../config/database', () => ({
+  __esModule: true,
+  default: { withTransaction: jest.fn((work: any, session?: any) => work(session || {})) },
+}));
+jest.mock('../../repositories/SupplierRepository');
+jest.mock('../../repositories/ProductSupplierRepository');
+jest.mock('../../services/ProductService');
+
+const ownerId = new Types.ObjectId();
+
+const makeSupplier = (fields: Record<string, unknown> = {}): any => ({
+  _id: new Types.ObjectId(),
+  code: 'ACME',
+  name: 'Acme',
+  userId: ownerId,
+  isActive: true,
+  ...fields,
+});
+
+describe('SupplierService', () => {
+  let service: SupplierService;
+  let repos: any;
+  const product: any = { _id: new Types.ObjectId(), userId: ownerId, isActive: true };
+  const productId = product._id.toString();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new SupplierService();
+    repos = service as any;
+    repos.productService.getProductById.mockResolvedValue(product);
+  });
+
+  it('should refuse a code that is already taken', async () => {
+    repos.supplierRepository.findByCode.mockResolvedValue(makeSupplier());
+
+    await expect(
+      service.createSupplier(ownerId.toString(), { code: 'acme', name: 'Acme again' } as any)
+    ).rejects.toThrow('Supplier with this code already exists');
+    expect(repos.supplierRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('should allow keeping the code on update but not taking another one', async () => {
+    const supplier = makeSupplier();
+    repos.supplierRepository.findById.mockResolvedValue(supplier);
+    repos.supplierRepository.findByCode.mockResolvedValue(makeSupplier({ code: 'OTHER' }));
+
+    await service.updateSupplier(supplier._id.toString(), undefined, { code: 'acme' });
+    expect(repos.supplierRepository.findByCode).not.toHaveBeenCalled();
+
+    await expect(
+      service.updateSupplier(supplier._id.toString(), undefined, { code: 'OTHER' })
+    ).rejects.toThrow('Supplier with this code already exists');
+  });
+
+  it("should hide other users' and deleted suppliers", async () => {
+    const supplier = makeSupplier();
+    repos.supplierRepository.findById.mockResolvedValue(supplier);
+
+    await expect(
+      service.getSupplierById(supplier._id.toString(), new Types.ObjectId().toString())
+    ).resolves.toBeNull();
+    await expect(service.getSupplierById(supplier._id.toString())).resolves.toBe(supplier);
+
+    repos.supplierRepository.findById.mockResolvedValue(makeSupplier({ isActive: false }));
+    await expect(service.deleteSupplier(supplier._id.toString())).rejects.toThrow(
+      'Supplier not found or access denied'
+    );
+  });
+
+  it('should keep a single preferred supplier per product', async () => {
+    const supplier = makeSupplier();
+    repos.supplierRepository.findById.mockResolvedValue(supplier);
+
+    await service.linkProduct(productId, supplier._id.toString(), {
+      unitCost: 4.5,
+      supplierSku: 'AC-1',
+      isPreferred: true,
+    });
+
+    expect(repos.productSupplierRepository.clearPreferred).toHaveBeenCalledWith(
+      productId,
+      supplier._id.toString(),
+      expect.anything()
+    );
+    expect(repos.productSupplierRepository.upsertLink).toHaveBeenCalledWith(
+      productId,
+      supplier._id.toString(),
+      expect.objectContaining({ unitCost: 4.5, supplierSku: 'AC-1', isPreferred: true }),
+      expect.anything()
+    );
+  });
+
+  it('should leave other preferences alone when linking a non-preferred supplier', async () => {
+    const supplier = makeSupplier();
+    repos.supplierRepository.findById.mockResolvedValue(supplier);
+
+    await service.linkProduct(productId, supplier._id.toString(), { unitCost: 0 });
+
+    expect(repos.productSupplierRepository.clearPreferred).not.toHaveBeenCalled();
+    expect(repos.productSupplierRepository.upsertLink).toHaveBeenCalled();
+  });
+
+  it('should refuse links without a valid cost or to inaccessible records', async () => {
+    const supplier = makeSupplier();
+    repos.supplierRepository.findById.mockResolvedValue(supplier);
+
+    await expect(
+      service.linkProduct(productId, supplier._id.toString(), { unitCost: -1 })
+    ).rejects.toThrow('Unit cost must be zero or greater');
+
+    await expect(
+      service.linkProduct(
+        productId,
+        supplier._id.toString(),
+        { unitCost: 1 },
+        new Types.ObjectId().toString()
+      )
+    ).rejects.toThrow('Supplier not found or access denied');
+
+    repos.productService.getProductById.mockResolvedValue(null);
+    await expect(
+      service.linkProduct(productId, supplier._id.toString(), { unitCost: 1 })
+    ).rejects.toThrow('Product not found or access denied');
+    expect(repos.productSupplierRepository.upsertLink).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,322 @@
+/**
+ * TransferService Unit Tests - shipping, receiving and cancelling stock moves between locations
+ */
+
+import { Types } from 'mongoose';
+import { TransferService } from '../../services/TransferService';
+import { ProductService } from '../../services/ProductService';
+import { StockMovementReason, TransferStatus, UserRole } from '../../types';
+
+jest.mock('../../config/database', () => ({
+  __esModule: true,
+  default: { withTransaction: jest.fn((work: any, session?: any) => work(session || {})) },
+}));
+jest.mock('../../repositories/TransferRepository');
+jest.mock('../../repositories/CounterRepository');
+jest.mock('../../repositories/LocationRepository');
+jest.mock('../../repositories/ProductRepository');
+jest.mock('../../repositories/StockMovementRepository');
+jest.mock('../../repositories/StockLevelRepository');
+jest.mock('../../repositories/ProductVersionRepository');
+jest.mock('../../services/LotService');
+jest.mock('../../services/SerialService');
+jest.mock('../../services/CostingService');
+jest.mock('../../services/CategoryService');
+jest.mock('../../services/ImageService');
+jest.mock('../../services/AuditService');
+
+const fromLocationId = new Types.ObjectId();
+const toLocationId = new Types.ObjectId();
+const userId = new Types.ObjectId().toString();
+
+const makeProduct = (fields: Record<string, unknown> = {}): any => ({
+  _id: new Types.ObjectId(),
+  userId: new Types.ObjectId(),
+  isActive: true,
+  quantity: 10,
+  reservedQuantity: 0,
+  expiredQuantity: 0,
+  inTransitQuantity: 0,
+  components: [],
+  units: [],
+  baseUnit: 'each',
+  ...fields,
+});
+
+const makeTransfer = (fields: Record<string, unknown> = {}): any => {
+  const transfer: any = {
+    _id: new Types.ObjectId(),
+    transferNumber: 'TRF-000001',
+    fromLocationId,
+    toLocationId,
+    status: TransferStatus.PENDING,
+    lines: [{ productId: new Types.ObjectId(), quantity: 5, quantityReceived: 0 }],
+    ...fields,
+  };
+  transfer.save = jest.fn(async () => transfer);
+  return transfer;
+};
+
+describe('TransferService', () => {
+  let service: TransferService;
+  let repos: any;
+  let adjustStock: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new TransferService();
+    repos = service as any;
+    repos.locationRepository.findById.mockResolvedValue({ isActive: true });
+    repos.counterRepository.nextNumber.mockResolvedValue('TRF-000001');
+    jest.spyOn(repos.productService, 'getProductById').mockResolvedValue(makeProduct());
+    adjustStock = jest.spyOn(repos.productService, 'adjustStock').mockResolvedValue(null);
+  });
+
+  afterAll(() => jest.restoreAllMocks());
+
+  const createTransfer = (lines: any[], to = toLocationId.toString()) =>
+    service.createTransfer(userId, {
+      fromLocationId: fromLocationId.toString(),
+      toLocationId: to,
+      lines,
+    });
+
+  it('should refuse transfers that stay at one location or repeat a product', async () => {
+    const productId = new Types.ObjectId().toString();
+
+    await expect(
+      createTransfer([{ productId, quantity: 1 }], fromLocationId.toString())
+    ).rejects.toThrow('Source and destination locations must differ');
+    await expect(
+      createTransfer([
+        { productId, quantity: 1 },
+        { productId, quantity: 2 },
+      ])
+    ).rejects.toThrow('Each product can only appear once per transfer');
+    await expect(createTransfer([{ productId, quantity: 1.5 }])).rejects.toThrow(
+      'Transfer quantities must be positive whole numbers'
+    );
+    expect(repos.transferRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('should refuse lot- and serial-tracked products', async () => {
+    const productId = new Types.ObjectId().toString();
+
+    for (const tracking of [{ trackLots: true }, { trackSerials: true }]) {
+      repos.productService.getProductById.mockResolvedValue(makeProduct(tracking));
+      await expect(createTransfer([{ productId, quantity: 1 }])).rejects.toThrow(
+        'Lot- and serial-tracked products cannot be transferred between locations'
+      );
+    }
+    expect(repos.transferRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('should take shipped units out of the source location', async () => {
+    const transfer = makeTransfer();
+    repos.transferRepository.findById.mockResolvedValue(transfer);
+
+    const shipped = await service.shipTransfer(transfer._id.toString(), userId);
+
+    expect(adjustStock).toHaveBeenCalledWith(
+      transfer.lines[0].productId.toString(),
+      -5,
+      undefined,
+      expect.objectContaining({
+        reason: StockMovementReason.TRANSFER_OUT,
+        reference: 'TRF-000001',
+        locationId: fromLocationId.toString(),
+      })
+    );
+    expect(shipped.status).toBe(TransferStatus.IN_TRANSIT);
+    await expect(service.shipTransfer(transfer._id.toString(), userId)).rejects.toThrow(
+      'Only pending transfers can be shipped'
+    );
+  });
+
+  it("should audit an admin's shipment once the stock has moved", async () => {
+    const transfer = makeTransfer();
+    const audit = { actorId: userId, actorRole: UserRole.ADMIN };
+    repos.transferRepository.findById.mockResolvedValue(transfer);
+
+    await service.shipTransfer(transfer._id.toString(), userId, audit);
+
+    expect(repos.auditService.recordAdminOperation).toHaveBeenCalledWith(
+      audit,
+      [transfer.lines[0].productId.toString()],
+      { operation: 'transfer_ship', reference: 'TRF-000001' }
+    );
+    expect(adjustStock.mock.invocationCallOrder[0]).toBeLessThan(
+      repos.auditService.recordAdminOperation.mock.invocationCallOrder[0]
+    );
+  });
+
+  it('should receive partially into the destination and refuse over-receipt', async () => {
+    const transfer = makeTransfer({ status: TransferStatus.IN_TRANSIT });
+    const productId = transfer.lines[0].productId.toString();
+    repos.transferRepository.findById.mockResolvedValue(transfer);
+
+    const partial = await service.receiveTransfer(transfer._id.toString(), userId, {
+      lines: [{ productId, quantity: 2 }],
+    });
+
+    expect(adjustStock).toHaveBeenCalledWith(
+      productId,
+      2,
+      undefined,
+      expect.objectContaining({
+        reason: StockMovementReason.TRANSFER_IN,
+        locationId: toLocationId.toString(),
+      })
+    );
+    expect(partial.status).toBe(TransferStatus.PARTIALLY_RECEIVED);
+    expect(partial.lines[0].quantityReceived).toBe(2);
+
+    await expect(
+      service.receiveTransfer(transfer._id.toString(), userId, {
+        lines: [{ productId, quantity: 4 }],
+      })
+    ).rejects.toThrow('Cannot receive more than the quantity in transit');
+
+    const received = await service.receiveTransfer(transfer._id.toString(), userId);
+    expect(adjustStock).toHaveBeenLastCalledWith(productId, 3, undefined, expect.anything());
+    expect(received.status).toBe(TransferStatus.RECEIVED);
+  });
+
+  it('should return what is still in transit to the source on cancellation', async () => {
+    const transfer = makeTransfer({ status: TransferStatus.PARTIALLY_RECEIVED });
+    transfer.lines[0].quantityReceived = 2;
+    repos.transferRepository.findById.mockResolvedValue(transfer);
+
+    const cancelled = await service.cancelTransfer(transfer._id.toString(), userId);
+
+    expect(adjustStock).toHaveBeenCalledWith(
+      transfer.lines[0].productId.toString(),
+      3,
+      undefined,
+      expect.objectContaining({
+        reason: StockMovementReason.TRANSFER_IN,
+        locationId: fromLocationId.toString(),
+      })
+    );
+    expect(cancelled.status).toBe(TransferStatus.CANCELLED);
+  });
+
+  it('should not move stock when cancelling a pending transfer', async () => {
+    const transfer = makeTransfer();
+    repos.transferRepository.findById.mockResolvedValue(transfer);
+
+    await service.cancelTransfer(transfer._id.toString(), userId);
+
+    expect(adjustStock).not.toHaveBeenCalled();
+  });
+});
+
+describe('ProductService stock in transit', () => {
+  let service: ProductService;
+  let repos: any;
+  const location = new Types.ObjectId().toString();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ProductService();
+    repos = service as any;
+    repos.locationRepository.findById.mockResolvedValue({ isActive: true });
+    repos.stockLevelRepository.findByProductAndLocation.mockResolvedValue({ quantity: 6 });
+    repos.stockLevelRepository.getAllocatedQuantity.mockResolvedValue(6);
+    repos.costingService.applyChange.mockResolvedValue({ valueChange: 0 });
+    repos.productRepository.updateStock.mockImplementation(async (id: string, quantity: number) =>
+      makeProduct({ _id: id, quantity })
+    );
+  });
+
+  it('should keep shipped units in the product total as in transit', async () => {
+    const product = makeProduct();
+    repos.productRepository.findById.mockResolvedValue(product);
+
+    await service.adjustStock(product._id.toString(), -4, undefined, {
+      reason: StockMovementReason.TRANSFER_OUT,
+      locationId: location,
+    });
+
+    expect(repos.stockLevelRepository.setQuantity).toHaveBeenCalledWith(
+      product._id.toString(),
+      location,
+      2,
+      expect.anything()
+    );
+    expect(repos.productRepository.updateStock).toHaveBeenCalledWith(
+      product._id.toString(),
+      10,
+      expect.anything()
+    );
+    expect(repos.productRepository.updateInTransitQuantity).toHaveBeenCalledWith(
+      product._id.toString(),
+      4,
+      expect.anything()
+    );
+    expect(repos.costingService.applyChange).not.toHaveBeenCalled();
+  });
+
+  it('should release in-transit units on receipt without changing the total', async () => {
+    const product = makeProduct({ inTransitQuantity: 4 });
+    repos.productRepository.findById.mockResolvedValue(product);
+
+    await service.adjustStock(product._id.toString(), 4, undefined, {
+      reason: StockMovementReason.TRANSFER_IN,
+      locationId: location,
+    });
+
+    expect(repos.productRepository.updateStock).toHaveBeenCalledWith(
+      product._id.toString(),
+      10,
+      expect.anything()
+    );
+    expect(repos.productRepository.updateInTransitQuantity).toHaveBeenCalledWith(
+      product._id.toString(),
+      -4,
+      expect.anything()
+    );
+  });
+
+  it('should add units shipped before in-transit tracking back to the total', async () => {
+    const product = makeProduct({ quantity: 6 });
+    repos.productRepository.findById.mockResolvedValue(product);
+
+    await service.adjustStock(product._id.toString(), 4, undefined, {
+      reason: StockMovementReason.TRANSFER_IN,
+      locationId: location,
+    });
+
+    expect(repos.productRepository.updateStock).toHaveBeenCalledWith(
+      product._id.toString(),
+      10,
+      expect.anything()
+    );
+    expect(repos.productRepository.updateInTransitQuantity).not.toHaveBeenCalled();
+  });
+
+  it('should not ship reserved units', async () => {
+    const product = makeProduct({ reservedQuantity: 8 });
+    repos.productRepository.findById.mockResolvedValue(product);
+
+    await expect(
+      service.adjustStock(product._id.toString(), -4, undefined, {
+        reason: StockMovementReason.TRANSFER_OUT,
+        locationId: location,
+      })
+    ).rejects.toThrow('Insufficient available stock: remaining units are reserved');
+  });
+
+  it('should refuse to move lot-tracked stock between locations', async () => {
+    const product = makeProduct({ trackLots: true });
+    repos.productRepository.findById.mockResolvedValue(product);
+
+    await expect(
+      service.adjustStock(product._id.toString(), -4, undefined, {
+        reason: StockMovementReason.TRANSFER_OUT,
+        locationId: location,
+      })
+    ).rejects.toThrow('Lot- and serial-tracked products cannot be transferred between locations');
+    expect(repos.lotService.applyChange).not.toHaveBeenCalled();
+  });
+});
@@ -5,6 +5,22 @@ import rateLimit from 'express-rate-limit';
 import { errorHandler } from './middleware/errorHandler';
 import authRoutes from './routes/authRoutes';
 import productRoutes from './routes/productRoutes';
+import locationRoutes from './routes/locationRoutes';
+import transferRoutes from './routes/transferRoutes';
+import serialRoutes from './routes/serialRoutes';
+import supplierRoutes from './routes/supplierRoutes';
+import purchaseOrderRoutes from './routes/purchaseOrderRoutes';
+import replenishmentRoutes from './routes/replenishmentRoutes';
+import salesOrderRoutes from './routes/salesOrderRoutes';
+import rmaRoutes from './routes/rmaRoutes';
+import reportRoutes from './routes/reportRoutes';
+import countSessionRoutes from './routes/countSessionRoutes';
+import categoryRoutes from './routes/categoryRoutes';
+import importRoutes from './routes/importRoutes';
+import labelRoutes from './routes/labelRoutes';
+import scanRoutes from './routes/scanRoutes';
+import auditRoutes from './routes/auditRoutes';
+import { getStorageDriver, getUploadDir } from './config/storage';
 import { ApiResponse } from './types';
 
 export class App {
@@ -100,9 +116,34 @@ export class App {
       });
     });
 
+    // Uploaded files, when they are kept on the local disk
+    if (getStorageDriver() === 'local') {
+      this.express.use(
+        '/uploads',
+        express.static(getUploadDir(), {
+          setHeaders: res => res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin'),
+        })
+      );
+    }
+
     // API routes
     this.express.use('/api/auth', authRoutes);
     this.express.use('/api/products', productRoutes);
+    this.express.use('/api/locations', locationRoutes);
+    this.express.use('/api/transfers', transferRoutes);
+    this.express.use('/api/serials', serialRoutes);
+    this.express.use('/api/suppliers', supplierRoutes);
+    this.express.use('/api/purchase-orders', purchaseOrderRoutes);
+    this.express.use('/api/replenishment', replenishmentRoutes);
+    this.express.use('/api/sales-orders', salesOrderRoutes);
+    this.express.use('/api/rmas', rmaRoutes);
+    this.express.use('/api/reports', reportRoutes);
+    this.express.use('/api/count-sessions', countSessionRoutes);
+    this.express.use('/api/categories', categoryRoutes);
+    this.express.use('/api/imports', importRoutes);
+    this.express.use('/api/labels', labelRoutes);
+    this.express.use('/api/scan', scanRoutes);
+    this.express.use('/api/audit', auditRoutes);
 
     // 404 handler for undefined routes
     this.express.use('*', (req, res) => {
@@ -68,6 +68,27 @@ export class Database {
     }
   }
 
+  // Run work inside a transaction, joining the caller's session when one is supplied
+  public async withTransaction<T>(
+    work: (session: mongoose.ClientSession) => Promise<T>,
+    session?: mongoose.ClientSession
+  ): Promise<T> {
+    if (session) {
+      return await work(session);
+    }
+
+    const ownSession = await mongoose.startSession();
+    try {
+      let result: T;
+      await ownSession.withTransaction(async () => {
+        result = await work(ownSession);
+      });
+      return result;
+    } finally {
+      await ownSession.endSession();
+    }
+  }
+
   public getConnection(): mongoose.Connection {
     return mongoose.connection;
   }
@@ -0,0 +1,29 @@
+import path from 'path';
+import { StorageAdapter } from '../storage/StorageAdapter';
+import { LocalStorageAdapter } from '../storage/LocalStorageAdapter';
+import { CloudinaryStorageAdapter } from '../storage/CloudinaryStorageAdapter';
+
+// STORAGE_DRIVER selects where uploads go: local (default) or cloudinary
+export const getStorageDriver = (): string => process.env.STORAGE_DRIVER || 'local';
+
+export const getUploadDir = (): string => path.resolve(process.env.UPLOAD_DIR || 'uploads');
+
+let adapter: StorageAdapter | null = null;
+
+// Created on first use, after the environment has been loaded
+export const getStorageAdapter = (): StorageAdapter => {
+  if (!adapter) {
+    adapter =
+      getStorageDriver() === 'cloudinary'
+        ? new CloudinaryStorageAdapter({
+            cloudName: process.env.CLOUDINARY_CLOUD_NAME || '',
+            apiKey: process.env.CLOUDINARY_API_KEY || '',
+            apiSecret: process.env.CLOUDINARY_API_SECRET || '',
+          })
+        : new LocalStorageAdapter(
+            getUploadDir(),
+            process.env.UPLOAD_BASE_URL || `http://localhost:${process.env.PORT || 5000}/uploads`
+          );
+  }
+  return adapter;
+};
@@ -0,0 +1,97 @@
+import { Request, Response } from 'express';
+import { AuditService, AUDIT_EXPORT_COLUMNS } from '../services/AuditService';
+import { ApiResponse, AuditAction, AuditOutcome, AuditQuery } from '../types';
+import { catchAsync } from '../middleware/errorHandler';
+import { sendExport } from './exportResponse';
+
+export class AuditController {
+  private auditService: AuditService;
+
+  constructor() {
+    this.auditService = new AuditService();
+  }
+
+  // Get audit events, newest first
+  getAuditEvents = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { query, error } = this.parseQuery(req);
+
+    if (!query) {
+      const response: ApiResponse = {
+        success: false,
+        message: error,
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const result = await this.auditService.getAuditEvents({
+      ...query,
+      page: req.query.page ? Math.max(1, Number(req.query.page)) : 1,
+      limit: req.query.limit ? Math.min(100, Math.max(1, Number(req.query.limit))) : 20,
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Audit events retrieved successfully',
+      data: result,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Download every audit event matching the filters as CSV, XLSX or NDJSON
+  exportAuditEvents = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { query, error } = this.parseQuery(req);
+
+    if (!query) {
+      const response: ApiResponse = {
+        success: false,
+        message: error,
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    await sendExport(
+      req,
+      res,
+      'audit-events',
+      AUDIT_EXPORT_COLUMNS,
+      AUDIT_EXPORT_COLUMNS,
+      false,
+      async () => this.auditService.exportAuditEvents(query)
+    );
+  });
+
+  // Filters shared by the list and the export
+  private parseQuery(req: Request): { query?: AuditQuery; error?: string } {
+    const { action, outcome, from, to } = req.query;
+
+    if (action !== undefined && !Object.values(AuditAction).includes(action as AuditAction)) {
+      return { error: `Action must be one of: ${Object.values(AuditAction).join(', ')}` };
+    }
+    if (outcome !== undefined && !Object.values(AuditOutcome).includes(outcome as AuditOutcome)) {
+      return { error: `Outcome must be one of: ${Object.values(AuditOutcome).join(', ')}` };
+    }
+    if (
+      (from !== undefined && isNaN(Date.parse(from as string))) ||
+      (to !== undefined && isNaN(Date.parse(to as string)))
+    ) {
+      return { error: 'From and to must be valid dates' };
+    }
+
+    return {
+      query: {
+        action: action as AuditAction,
+        outcome: outcome as AuditOutcome,
+        actorId: req.query.actorId as string,
+        actorEmail: req.query.actorEmail as string,
+        targetType: req.query.targetType as string,
+        targetId: req.query.targetId as string,
+        ip: req.query.ip as string,
+        from: from ? new Date(from as string) : undefined,
+        to: to ? new Date(to as string) : undefined,
+      },
+    };
+  }
+}
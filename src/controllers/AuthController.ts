@@ -1,7 +1,8 @@
 import { Request, Response } from 'express';
 import { AuthService } from '../services/AuthService';
-import { ApiResponse, LoginRequest, RegisterRequest } from '../types';
+import { ApiResponse, LoginRequest, RegisterRequest, UserRole } from '../types';
 import { catchAsync } from '../middleware/errorHandler';
+import { auditMiddleware } from '../middleware/audit';
 
 export class AuthController {
   private authService: AuthService;
@@ -14,7 +15,7 @@ export class AuthController {
   register = catchAsync(async (req: Request, res: Response): Promise<void> => {
     const userData: RegisterRequest = req.body;
 
-    const result = await this.authService.register(userData);
+    const result = await this.authService.register(userData, auditMiddleware.context(req));
 
     const response: ApiResponse = {
       success: true,
@@ -29,7 +30,7 @@ export class AuthController {
   login = catchAsync(async (req: Request, res: Response): Promise<void> => {
     const credentials: LoginRequest = req.body;
 
-    const result = await this.authService.login(credentials);
+    const result = await this.authService.login(credentials, auditMiddleware.context(req));
 
     const response: ApiResponse = {
       success: true,
@@ -111,7 +112,12 @@ export class AuthController {
       return;
     }
 
-    await this.authService.changePassword(userId, currentPassword, newPassword);
+    await this.authService.changePassword(
+      userId,
+      currentPassword,
+      newPassword,
+      auditMiddleware.context(req)
+    );
 
     const response: ApiResponse = {
       success: true,
@@ -135,7 +141,13 @@ export class AuthController {
       return;
     }
 
-    const updatedUser = await this.authService.updateProfile(userId, profileData);
+    // A multipart request may carry the image itself in the profileImage field
+    const updatedUser = await this.authService.updateProfile(
+      userId,
+      profileData,
+      req.file,
+      auditMiddleware.context(req)
+    );
 
     const response: ApiResponse = {
       success: true,
@@ -146,6 +158,31 @@ export class AuthController {
     res.status(200).json(response);
   });
 
+  // Change another user's role (admin only)
+  changeUserRole = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const { role } = req.body;
+
+    if (!Object.values(UserRole).includes(role)) {
+      const response: ApiResponse = {
+        success: false,
+        message: `Role must be one of: ${Object.values(UserRole).join(', ')}`,
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const user = await this.authService.changeUserRole(id, role, auditMiddleware.context(req));
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'User role updated successfully',
+      data: user,
+    };
+
+    res.status(200).json(response);
+  });
+
   // Logout (client-side token removal)
   logout = catchAsync(async (req: Request, res: Response): Promise<void> => {
     const response: ApiResponse = {
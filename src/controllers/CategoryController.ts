@@ -0,0 +1,210 @@
+import { Request, Response } from 'express';
+import { CategoryService } from '../services/CategoryService';
+import { ApiResponse, CreateCategoryRequest, UpdateCategoryRequest, UserRole } from '../types';
+import { catchAsync } from '../middleware/errorHandler';
+
+export class CategoryController {
+  private categoryService: CategoryService;
+
+  constructor() {
+    this.categoryService = new CategoryService();
+  }
+
+  // Create new category
+  createCategory = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const categoryData: CreateCategoryRequest = req.body;
+
+    const category = await this.categoryService.createCategory(categoryData);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Category created successfully',
+      data: category,
+    };
+
+    res.status(201).json(response);
+  });
+
+  // Get all active categories as a flat list
+  getCategories = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const categories = await this.categoryService.getCategories();
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Categories retrieved successfully',
+      data: categories,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Get the category tree, optionally with stock totals rolled up per subtree
+  getCategoryTree = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    // Admin can see all stock, users can only see their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const tree = await this.categoryService.getCategoryTree(
+      req.query.stats === 'true',
+      ownerUserId
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Category tree retrieved successfully',
+      data: tree,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Get category by ID
+  getCategoryById = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    const category = await this.categoryService.getCategoryById(id);
+
+    if (!category) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Category not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Category retrieved successfully',
+      data: category,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Update category name, slug or description
+  updateCategory = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const updateData: UpdateCategoryRequest = req.body;
+
+    const category = await this.categoryService.updateCategory(id, updateData);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Category updated successfully',
+      data: category,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Move category under another parent (or to the top level)
+  moveCategory = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const { parentId = null } = req.body;
+
+    const category = await this.categoryService.moveCategory(id, parentId);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Category moved successfully',
+      data: category,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Merge category into another one
+  mergeCategory = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const { targetId } = req.body;
+
+    if (!targetId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Target category ID is required',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const category = await this.categoryService.mergeCategory(id, targetId);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Category merged successfully',
+      data: category,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Get the attribute definitions that apply to a category, including inherited ones
+  getAttributeDefinitions = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    const definitions = await this.categoryService.getAttributeDefinitions(id);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Attribute definitions retrieved successfully',
+      data: definitions,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Replace the attribute definitions of a category
+  setAttributeDefinitions = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const { attributes } = req.body;
+
+    if (!Array.isArray(attributes)) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Attributes must be an array',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const category = await this.categoryService.setAttributeDefinitions(id, attributes);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Attribute definitions updated successfully',
+      data: category,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Delete category
+  deleteCategory = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    const success = await this.categoryService.deleteCategory(id);
+
+    const response: ApiResponse = {
+      success,
+      message: success ? 'Category deleted successfully' : 'Failed to delete category',
+    };
+
+    res.status(success ? 200 : 400).json(response);
+  });
+
+  // Link products that only carry a category name to categories
+  migrateProductCategories = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const result = await this.categoryService.migrateProductCategories();
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Product categories migrated successfully',
+      data: result,
+    };
+
+    res.status(200).json(response);
+  });
+}
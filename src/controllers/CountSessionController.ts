@@ -0,0 +1,179 @@
+import { Request, Response } from 'express';
+import { CountSessionService } from '../services/CountSessionService';
+import {
+  ApiResponse,
+  CreateCountSessionRequest,
+  SubmitCountsRequest,
+  CountSessionQuery,
+  CountSessionStatus,
+} from '../types';
+import { catchAsync } from '../middleware/errorHandler';
+import { auditMiddleware } from '../middleware/audit';
+
+export class CountSessionController {
+  private countSessionService: CountSessionService;
+
+  constructor() {
+    this.countSessionService = new CountSessionService();
+  }
+
+  // Open a count session and snapshot expected quantities
+  createCountSession = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.userId;
+    const sessionData: CreateCountSessionRequest = req.body;
+
+    if (!userId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const countSession = await this.countSessionService.createCountSession(userId, sessionData);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Count session created successfully',
+      data: countSession,
+    };
+
+    res.status(201).json(response);
+  });
+
+  // Get count sessions with filtering
+  getCountSessions = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const query: CountSessionQuery = {
+      status: req.query.status as CountSessionStatus,
+      locationId: req.query.locationId as string,
+      productId: req.query.productId as string,
+      page: req.query.page ? Math.max(1, Number(req.query.page)) : 1,
+      limit: req.query.limit ? Math.min(100, Math.max(1, Number(req.query.limit))) : 10,
+    };
+
+    const result = await this.countSessionService.getCountSessions(query);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Count sessions retrieved successfully',
+      data: {
+        ...result,
+        data: result.data.map(countSession =>
+          CountSessionService.presentForRole(countSession, req.user?.role)
+        ),
+      },
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Get count session by ID
+  getCountSessionById = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    const countSession = await this.countSessionService.getCountSessionById(id);
+
+    if (!countSession) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Count session not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Count session retrieved successfully',
+      data: CountSessionService.presentForRole(countSession, req.user?.role),
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Submit physical counts
+  submitCounts = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const countData: SubmitCountsRequest = req.body;
+
+    if (!userId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const countSession = await this.countSessionService.submitCounts(id, userId, countData);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Counts submitted successfully',
+      data: CountSessionService.presentForRole(countSession, req.user?.role),
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Get the variance of every line
+  getVariances = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    const variances = await this.countSessionService.getVariances(id);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Count variances retrieved successfully',
+      data: variances,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Approve the session and book the variances
+  approveCountSession = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const countSession = await this.countSessionService.approveCountSession(
+      id,
+      userId,
+      auditMiddleware.context(req)
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Count session approved successfully',
+      data: countSession,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Cancel count session
+  cancelCountSession = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    const countSession = await this.countSessionService.cancelCountSession(id);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Count session cancelled successfully',
+      data: countSession,
+    };
+
+    res.status(200).json(response);
+  });
+}
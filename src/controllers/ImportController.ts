@@ -0,0 +1,148 @@
+import { Request, Response } from 'express';
+import { ProductImportService } from '../services/ProductImportService';
+import { ApiResponse, ImportMode, ImportOptions, UserRole } from '../types';
+import { catchAsync } from '../middleware/errorHandler';
+import { auditMiddleware } from '../middleware/audit';
+
+export class ImportController {
+  private productImportService: ProductImportService;
+
+  constructor() {
+    this.productImportService = new ProductImportService();
+  }
+
+  // Validate a product file (dryRun=true) or start importing it
+  importProducts = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    if (!userId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    if (!req.file) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'An import file is required',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const mode = (req.body.mode || req.query.mode) as ImportMode | undefined;
+    if (mode && !Object.values(ImportMode).includes(mode)) {
+      const response: ApiResponse = {
+        success: false,
+        message: `Import mode must be one of: ${Object.values(ImportMode).join(', ')}`,
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    // Multipart fields are text, so the column mapping arrives as JSON
+    let mapping: Record<string, string> | undefined;
+    try {
+      mapping = req.body.mapping ? JSON.parse(req.body.mapping) : undefined;
+    } catch {
+      mapping = undefined;
+    }
+    if (req.body.mapping && (!mapping || typeof mapping !== 'object' || Array.isArray(mapping))) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Mapping must be a JSON object of column header to product field',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    // Admin can update any product by SKU, users only their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+    const options: ImportOptions = { mode, mapping };
+    const dryRun = [req.body.dryRun, req.query.dryRun].some(value => String(value) === 'true');
+
+    if (dryRun) {
+      const preview = await this.productImportService.previewImport(req.file, ownerUserId, options);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Import file validated successfully',
+        data: preview,
+      };
+
+      res.status(200).json(response);
+      return;
+    }
+
+    const importJob = await this.productImportService.startImport(
+      req.file,
+      userId,
+      ownerUserId,
+      options,
+      auditMiddleware.context(req)
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Import started',
+      data: importJob,
+    };
+
+    res.status(202).json(response);
+  });
+
+  // Get import jobs
+  getImportJobs = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    // Admin can see every import, users only their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const result = await this.productImportService.getImportJobs(
+      ownerUserId,
+      req.query.page ? Math.max(1, Number(req.query.page)) : 1,
+      req.query.limit ? Math.min(100, Math.max(1, Number(req.query.limit))) : 10
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Import jobs retrieved successfully',
+      data: result,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Get an import job and its progress
+  getImportJobById = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const importJob = await this.productImportService.getImportJob(id, ownerUserId);
+
+    if (!importJob) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Import job not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Import job retrieved successfully',
+      data: importJob,
+    };
+
+    res.status(200).json(response);
+  });
+}
@@ -0,0 +1,48 @@
+import { Request, Response } from 'express';
+import { LabelService, LABEL_TEMPLATES } from '../services/LabelService';
+import { ApiResponse, LabelSheetRequest, UserRole } from '../types';
+import { catchAsync } from '../middleware/errorHandler';
+
+export class LabelController {
+  private labelService: LabelService;
+
+  constructor() {
+    this.labelService = new LabelService();
+  }
+
+  // Render a PDF sheet of product labels
+  createLabelSheet = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+    const labelRequest: LabelSheetRequest = req.body;
+
+    if (!userId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    // Admin can print labels for any product, users only for their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const pdf = await this.labelService.renderLabelSheet(labelRequest, ownerUserId);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', 'attachment; filename="labels.pdf"');
+    res.status(200).send(pdf);
+  });
+
+  // Get the built-in label sheet templates
+  getTemplates = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const response: ApiResponse = {
+      success: true,
+      message: 'Label templates retrieved successfully',
+      data: LABEL_TEMPLATES,
+    };
+
+    res.status(200).json(response);
+  });
+}
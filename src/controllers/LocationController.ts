@@ -0,0 +1,119 @@
+import { Request, Response } from 'express';
+import { LocationService } from '../services/LocationService';
+import { ApiResponse, CreateLocationRequest, UpdateLocationRequest } from '../types';
+import { catchAsync } from '../middleware/errorHandler';
+
+export class LocationController {
+  private locationService: LocationService;
+
+  constructor() {
+    this.locationService = new LocationService();
+  }
+
+  // Create new location
+  createLocation = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.userId;
+    const locationData: CreateLocationRequest = req.body;
+
+    if (!userId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const location = await this.locationService.createLocation(userId, locationData);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Location created successfully',
+      data: location,
+    };
+
+    res.status(201).json(response);
+  });
+
+  // Get all active locations
+  getLocations = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const locations = await this.locationService.getLocations();
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Locations retrieved successfully',
+      data: locations,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Get location by ID
+  getLocationById = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    const location = await this.locationService.getLocationById(id);
+
+    if (!location) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Location not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Location retrieved successfully',
+      data: location,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Update location
+  updateLocation = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const updateData: UpdateLocationRequest = req.body;
+
+    const location = await this.locationService.updateLocation(id, updateData);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Location updated successfully',
+      data: location,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Delete location
+  deleteLocation = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    const success = await this.locationService.deleteLocation(id);
+
+    const response: ApiResponse = {
+      success,
+      message: success ? 'Location deleted successfully' : 'Failed to delete location',
+    };
+
+    res.status(success ? 200 : 400).json(response);
+  });
+
+  // Get stock held at a location
+  getLocationStock = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    const stockLevels = await this.locationService.getLocationStock(id);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Location stock retrieved successfully',
+      data: stockLevels,
+    };
+
+    res.status(200).json(response);
+  });
+}
@@ -1,13 +1,51 @@
 import { Request, Response } from 'express';
-import { ProductService } from '../services/ProductService';
+import {
+  ProductService,
+  PRODUCT_EXPORT_COLUMNS,
+  DEFAULT_PRODUCT_EXPORT_COLUMNS,
+} from '../services/ProductService';
+import { BarcodeService } from '../services/BarcodeService';
 import {
   ApiResponse,
   CreateProductRequest,
   UpdateProductRequest,
+  CreateVariantsRequest,
+  AssembleKitRequest,
+  AttributeQuery,
+  CodeImageFormat,
   ProductQuery,
+  SerialStatus,
   UserRole,
 } from '../types';
 import { catchAsync } from '../middleware/errorHandler';
+import { sendExport } from './exportResponse';
+
+// Most products whose stock can be set in one request
+const MAX_BULK_STOCK_UPDATES = 500;
+
+// Low-stock rows come straight from the database, without computed fields
+const LOW_STOCK_EXPORT_COLUMNS = [
+  'id',
+  'sku',
+  'name',
+  'category',
+  'price',
+  'quantity',
+  'reservedQuantity',
+  'minStockLevel',
+  'reorderPoint',
+  'maxStockLevel',
+  'leadTimeDays',
+  'baseUnit',
+];
+
+const STATS_EXPORT_COLUMNS = [
+  'totalProducts',
+  'totalValue',
+  'lowStockCount',
+  'outOfStockCount',
+  'quarantinedQuantity',
+];
 
 export class ProductController {
   private productService: ProductService;
@@ -50,6 +88,12 @@ export class ProductController {
       maxPrice: req.query.maxPrice ? Number(req.query.maxPrice) : undefined,
       inStock:
         req.query.inStock === 'true' ? true : req.query.inStock === 'false' ? false : undefined,
+      locationId: req.query.locationId as string,
+      supplierId: req.query.supplierId as string,
+      variantView: req.query.variantView === 'variants' ? 'variants' : 'parents',
+      parentId: req.query.parentId as string,
+      attributes:
+        typeof req.query.attr === 'object' ? (req.query.attr as AttributeQuery) : undefined,
       page: req.query.page ? Math.max(1, Number(req.query.page)) : 1,
       limit: req.query.limit ? Math.min(100, Math.max(1, Number(req.query.limit))) : 10,
       sortBy: (req.query.sortBy as string) || 'createdAt',
@@ -111,10 +155,16 @@ export class ProductController {
       return;
     }
 
+    // Parents carry the stock figures rolled up from their variants
     const response: ApiResponse = {
       success: true,
       message: 'Product retrieved successfully',
-      data: product,
+      data: product.hasVariants
+        ? {
+            ...product.toJSON(),
+            variantSummary: await this.productService.getVariantSummary(id),
+          }
+        : product,
     };
 
     res.status(200).json(response);
@@ -139,7 +189,9 @@ export class ProductController {
     // Admin can update any product, users can only update their own
     const ownerUserId = userRole === UserRole.ADMIN ? '' : userId;
 
-    const product = await this.productService.updateProduct(id, ownerUserId, updateData);
+    const product = await this.productService.updateProduct(id, ownerUserId, updateData, {
+      performedBy: userId,
+    });
 
     const response: ApiResponse = {
       success: true,
@@ -168,7 +220,7 @@ export class ProductController {
     // Admin can delete any product, users can only delete their own
     const ownerUserId = userRole === UserRole.ADMIN ? '' : userId;
 
-    const success = await this.productService.deleteProduct(id, ownerUserId);
+    const success = await this.productService.deleteProduct(id, ownerUserId, userId);
 
     const response: ApiResponse = {
       success,
@@ -178,10 +230,170 @@ export class ProductController {
     res.status(success ? 200 : 400).json(response);
   });
 
+  // Get soft-deleted products
+  getDeletedProducts = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    // Admin can see every deleted product, users can only see their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const result = await this.productService.getDeletedProducts(ownerUserId, {
+      page: req.query.page ? Math.max(1, Number(req.query.page)) : 1,
+      limit: req.query.limit ? Math.min(100, Math.max(1, Number(req.query.limit))) : 20,
+      sortBy: 'updatedAt',
+      sortOrder: 'desc',
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Deleted products retrieved successfully',
+      data: result,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Restore a soft-deleted product
+  restoreDeletedProduct = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    if (!userId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    // Admin can restore any product, users can only restore their own
+    const ownerUserId = userRole === UserRole.ADMIN ? '' : userId;
+
+    const product = await this.productService.restoreDeletedProduct(id, ownerUserId, userId);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Product restored successfully',
+      data: product,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Get the edit history of a product
+  getProductHistory = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    // Admin can see any product history, users can only see their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const result = await this.productService.getProductHistory(id, ownerUserId, {
+      page: req.query.page ? Math.max(1, Number(req.query.page)) : 1,
+      limit: req.query.limit ? Math.min(100, Math.max(1, Number(req.query.limit))) : 20,
+      sortOrder: (req.query.sortOrder as 'asc' | 'desc') || 'desc',
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Product history retrieved successfully',
+      data: result,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Get a product as it was at one version
+  getProductVersion = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const version = Number(req.params.version);
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    if (!Number.isInteger(version) || version < 1) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Version must be a whole number from 1',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const productVersion = await this.productService.getProductVersion(id, version, ownerUserId);
+
+    if (!productVersion) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Version not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Product version retrieved successfully',
+      data: productVersion,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Set a product's fields back to an earlier version
+  restoreProductVersion = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const version = Number(req.params.version);
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    if (!userId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    if (!Number.isInteger(version) || version < 1) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Version must be a whole number from 1',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    // Admin can restore any product, users can only restore their own
+    const ownerUserId = userRole === UserRole.ADMIN ? '' : userId;
+
+    const product = await this.productService.restoreProductVersion(
+      id,
+      version,
+      ownerUserId,
+      userId
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      message: `Product restored to version ${version}`,
+      data: product,
+    };
+
+    res.status(200).json(response);
+  });
+
   // Update stock quantity
   updateStock = catchAsync(async (req: Request, res: Response): Promise<void> => {
     const { id } = req.params;
-    const { quantity } = req.body;
+    const { quantity, unit, reason, reference, note, locationId, lot, serials, unitCost } =
+      req.body;
     const userId = req.user?.userId;
     const userRole = req.user?.role;
 
@@ -197,7 +409,17 @@ export class ProductController {
     // Admin can update any product stock, users can only update their own
     const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
 
-    const product = await this.productService.updateStock(id, quantity, ownerUserId);
+    const product = await this.productService.updateStock(id, quantity, ownerUserId, {
+      reason,
+      reference,
+      note,
+      locationId,
+      lot,
+      serials,
+      unitCost,
+      unit,
+      performedBy: userId,
+    });
 
     const response: ApiResponse = {
       success: true,
@@ -208,6 +430,87 @@ export class ProductController {
     res.status(200).json(response);
   });
 
+  // Set the stock of several products in one request
+  bulkUpdateStock = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { updates, reason, reference, note, locationId } = req.body;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    if (!userId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    if (
+      !Array.isArray(updates) ||
+      updates.length === 0 ||
+      updates.length > MAX_BULK_STOCK_UPDATES ||
+      updates.some(
+        update =>
+          !update || typeof update.productId !== 'string' || typeof update.quantity !== 'number'
+      )
+    ) {
+      const response: ApiResponse = {
+        success: false,
+        message: `Updates must be a list of 1 to ${MAX_BULK_STOCK_UPDATES} { productId, quantity } entries`,
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    // Admin can update any product stock, users can only update their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    await this.productService.bulkUpdateStock(updates, ownerUserId, {
+      reason,
+      reference,
+      note,
+      locationId,
+      performedBy: userId,
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      message: `Stock updated for ${updates.length} products`,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Download every product matching the filters as CSV, XLSX or NDJSON
+  exportProducts = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const query: ProductQuery = {
+      search: req.query.search as string,
+      category: req.query.category as string,
+      minPrice: req.query.minPrice ? Number(req.query.minPrice) : undefined,
+      maxPrice: req.query.maxPrice ? Number(req.query.maxPrice) : undefined,
+      inStock:
+        req.query.inStock === 'true' ? true : req.query.inStock === 'false' ? false : undefined,
+      locationId: req.query.locationId as string,
+      supplierId: req.query.supplierId as string,
+      variantView: req.query.variantView === 'variants' ? 'variants' : 'parents',
+      parentId: req.query.parentId as string,
+      attributes:
+        typeof req.query.attr === 'object' ? (req.query.attr as AttributeQuery) : undefined,
+      sortBy: (req.query.sortBy as string) || 'createdAt',
+      sortOrder: (req.query.sortOrder as 'asc' | 'desc') || 'desc',
+    };
+
+    await sendExport(
+      req,
+      res,
+      'products',
+      PRODUCT_EXPORT_COLUMNS,
+      DEFAULT_PRODUCT_EXPORT_COLUMNS,
+      true,
+      () => this.productService.exportProducts(query)
+    );
+  });
+
   // Get products by category
   getProductsByCategory = catchAsync(async (req: Request, res: Response): Promise<void> => {
     const { category } = req.params;
@@ -231,7 +534,31 @@ export class ProductController {
     // Admin can see all low stock products, users can only see their own
     const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
 
-    const products = await this.productService.getLowStockProducts(ownerUserId);
+    if (req.query.format) {
+      await sendExport(
+        req,
+        res,
+        'low-stock',
+        LOW_STOCK_EXPORT_COLUMNS,
+        ['sku', 'name', 'category', 'quantity', 'minStockLevel', 'reorderPoint'],
+        true,
+        async () =>
+          (
+            await this.productService.getLowStockProducts(
+              ownerUserId,
+              req.query.locationId as string,
+              req.query.category as string
+            )
+          ).map(product => ProductService.toExportRecord(product))
+      );
+      return;
+    }
+
+    const products = await this.productService.getLowStockProducts(
+      ownerUserId,
+      req.query.locationId as string,
+      req.query.category as string
+    );
 
     const response: ApiResponse = {
       success: true,
@@ -263,7 +590,24 @@ export class ProductController {
     // Admin can see all stats, users can only see their own
     const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
 
-    const stats = await this.productService.getInventoryStats(ownerUserId);
+    const stats = await this.productService.getInventoryStats(
+      ownerUserId,
+      req.query.locationId as string,
+      req.query.category as string
+    );
+
+    if (req.query.format) {
+      await sendExport(
+        req,
+        res,
+        'inventory-stats',
+        STATS_EXPORT_COLUMNS,
+        STATS_EXPORT_COLUMNS,
+        false,
+        async () => [stats]
+      );
+      return;
+    }
 
     const response: ApiResponse = {
       success: true,
@@ -283,6 +627,12 @@ export class ProductController {
       maxPrice: req.query.maxPrice ? Number(req.query.maxPrice) : undefined,
       inStock:
         req.query.inStock === 'true' ? true : req.query.inStock === 'false' ? false : undefined,
+      locationId: req.query.locationId as string,
+      supplierId: req.query.supplierId as string,
+      variantView: req.query.variantView === 'variants' ? 'variants' : 'parents',
+      parentId: req.query.parentId as string,
+      attributes:
+        typeof req.query.attr === 'object' ? (req.query.attr as AttributeQuery) : undefined,
       page: req.query.page ? Math.max(1, Number(req.query.page)) : 1,
       limit: req.query.limit ? Math.min(100, Math.max(1, Number(req.query.limit))) : 10,
       sortBy: (req.query.sortBy as string) || 'createdAt',
@@ -303,7 +653,8 @@ export class ProductController {
   // Adjust stock (add/subtract)
   adjustStock = catchAsync(async (req: Request, res: Response): Promise<void> => {
     const { id } = req.params;
-    const { adjustment } = req.body;
+    const { adjustment, unit, reason, reference, note, locationId, lot, serials, unitCost } =
+      req.body;
     const userId = req.user?.userId;
     const userRole = req.user?.role;
 
@@ -319,7 +670,17 @@ export class ProductController {
     // Admin can adjust any product stock, users can only adjust their own
     const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
 
-    const product = await this.productService.adjustStock(id, adjustment, ownerUserId);
+    const product = await this.productService.adjustStock(id, adjustment, ownerUserId, {
+      reason,
+      reference,
+      note,
+      locationId,
+      lot,
+      serials,
+      unitCost,
+      unit,
+      performedBy: userId,
+    });
 
     const response: ApiResponse = {
       success: true,
@@ -329,4 +690,426 @@ export class ProductController {
 
     res.status(200).json(response);
   });
+
+  // Get stock movement history for a product
+  getStockMovements = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    // Admin can see any product history, users can only see their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const result = await this.productService.getStockMovements(
+      id,
+      {
+        page: req.query.page ? Math.max(1, Number(req.query.page)) : 1,
+        limit: req.query.limit ? Math.min(100, Math.max(1, Number(req.query.limit))) : 20,
+        sortBy: 'createdAt',
+        sortOrder: (req.query.sortOrder as 'asc' | 'desc') || 'desc',
+      },
+      ownerUserId
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Stock movements retrieved successfully',
+      data: result,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Get lots for a product
+  getProductLots = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    // Admin can see any product lots, users can only see their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const lots = await this.productService.getProductLots(id, ownerUserId);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Lots retrieved successfully',
+      data: lots,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Get serialized units of a product, optionally filtered by status
+  getProductSerials = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+    const status = req.query.status as SerialStatus | undefined;
+
+    // Admin can see any product serials, users can only see their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const serials = await this.productService.getProductSerials(id, status, ownerUserId);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Serial numbers retrieved successfully',
+      data: serials,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Register serial numbers for units already in stock
+  registerSerials = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const { serials } = req.body;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    if (!userId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    // Admin can register serials on any product, users can only register their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const units = await this.productService.registerSerials(id, serials, userId, ownerUserId);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Serial numbers registered successfully',
+      data: units,
+    };
+
+    res.status(201).json(response);
+  });
+
+  // Get the variants of a parent product with their rolled-up stock
+  getVariants = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    // Admin can see all variants, users can only see their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const result = await this.productService.getVariants(id, ownerUserId);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Product variants retrieved successfully',
+      data: result,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Create variants of a parent product
+  createVariants = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+    const variantsData: CreateVariantsRequest = req.body;
+
+    if (!userId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    // Admin can add variants to any product, users can only add to their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const variants = await this.productService.createVariants(
+      id,
+      ownerUserId,
+      userId,
+      variantsData
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Product variants created successfully',
+      data: variants,
+    };
+
+    res.status(201).json(response);
+  });
+
+  // Assemble kits from their components
+  assembleKit = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+    const assembleData: AssembleKitRequest = req.body;
+
+    if (!userId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    // Admin can assemble any kit, users can only assemble their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const product = await this.productService.assembleKit(id, ownerUserId, userId, assembleData);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Kits assembled successfully',
+      data: product,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Upload product images (multipart, field "images")
+  uploadImages = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    if (!userId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    // Admin can add images to any product, users only to their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const files = Array.isArray(req.files) ? req.files : [];
+    const product = await this.productService.addProductImages(id, ownerUserId, files);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Images uploaded successfully',
+      data: product,
+    };
+
+    res.status(201).json(response);
+  });
+
+  // Reorder product images
+  reorderImages = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+    const { imageIds } = req.body;
+
+    if (!userId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    // Admin can reorder any product's images, users only their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const product = await this.productService.reorderProductImages(id, ownerUserId, imageIds);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Images reordered successfully',
+      data: product,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Delete a product image
+  deleteImage = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id, imageId } = req.params;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    if (!userId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    // Admin can delete any product's images, users only their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const product = await this.productService.deleteProductImage(id, ownerUserId, imageId);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Image deleted successfully',
+      data: product,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Get the product's barcode (a Code 128 of its SKU when it has none) as an image
+  getBarcodeImage = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    const format = BarcodeService.parseImageFormat(req.query.format);
+    if (!format) {
+      const response: ApiResponse = {
+        success: false,
+        message: `Format must be one of: ${Object.values(CodeImageFormat).join(', ')}`,
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    // Admin can see all products, users can only see their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const product = await this.productService.getProductById(id, ownerUserId);
+
+    if (!product) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Product not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const { barcode, barcodeType } = BarcodeService.productCode(product);
+    const image = await BarcodeService.renderBarcode(barcode, barcodeType, format);
+
+    res.setHeader('Content-Type', BarcodeService.contentType(format));
+    res.status(200).send(image);
+  });
+
+  // Get a QR code of the product's SKU as an image
+  getQrCodeImage = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    const format = BarcodeService.parseImageFormat(req.query.format);
+    if (!format) {
+      const response: ApiResponse = {
+        success: false,
+        message: `Format must be one of: ${Object.values(CodeImageFormat).join(', ')}`,
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    // Admin can see all products, users can only see their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const product = await this.productService.getProductById(id, ownerUserId);
+
+    if (!product) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Product not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const image = await BarcodeService.renderQrCode(product.sku, format);
+
+    res.setHeader('Content-Type', BarcodeService.contentType(format));
+    res.status(200).send(image);
+  });
+
+  // Get lots expiring within the given number of days
+  getExpiringLots = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+    const withinDays = req.query.withinDays ? Number(req.query.withinDays) : 30;
+
+    // Admin can see all expiring lots, users can only see their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const lots = await this.productService.getExpiringLots(withinDays, ownerUserId);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Expiring lots retrieved successfully',
+      data: lots,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Get per-location stock levels for a product
+  getStockLevels = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    // Admin can see any product stock, users can only see their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const stockLevels = await this.productService.getStockLevels(id, ownerUserId);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Stock levels retrieved successfully',
+      data: stockLevels,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Set the minimum stock level for a product at a location
+  setLocationMinStockLevel = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id, locationId } = req.params;
+    const { minStockLevel } = req.body;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    if (!userId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    // Admin can update any product stock, users can only update their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const stockLevel = await this.productService.setLocationMinStockLevel(
+      id,
+      locationId,
+      minStockLevel ?? null,
+      ownerUserId
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Location stock level updated successfully',
+      data: stockLevel,
+    };
+
+    res.status(200).json(response);
+  });
 }
@@ -0,0 +1,180 @@
+import { Request, Response } from 'express';
+import { PurchaseOrderService } from '../services/PurchaseOrderService';
+import {
+  ApiResponse,
+  CreatePurchaseOrderRequest,
+  UpdatePurchaseOrderRequest,
+  ReceivePurchaseOrderRequest,
+  PurchaseOrderQuery,
+  PurchaseOrderStatus,
+} from '../types';
+import { catchAsync } from '../middleware/errorHandler';
+
+export class PurchaseOrderController {
+  private purchaseOrderService: PurchaseOrderService;
+
+  constructor() {
+    this.purchaseOrderService = new PurchaseOrderService();
+  }
+
+  // Create new purchase order
+  createPurchaseOrder = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.userId;
+    const orderData: CreatePurchaseOrderRequest = req.body;
+
+    if (!userId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const purchaseOrder = await this.purchaseOrderService.createPurchaseOrder(userId, orderData);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Purchase order created successfully',
+      data: purchaseOrder,
+    };
+
+    res.status(201).json(response);
+  });
+
+  // Get purchase orders with filtering
+  getPurchaseOrders = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const query: PurchaseOrderQuery = {
+      status: req.query.status as PurchaseOrderStatus,
+      supplierId: req.query.supplierId as string,
+      productId: req.query.productId as string,
+      page: req.query.page ? Math.max(1, Number(req.query.page)) : 1,
+      limit: req.query.limit ? Math.min(100, Math.max(1, Number(req.query.limit))) : 10,
+    };
+
+    const result = await this.purchaseOrderService.getPurchaseOrders(query);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Purchase orders retrieved successfully',
+      data: result,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Get purchase order by ID
+  getPurchaseOrderById = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    const purchaseOrder = await this.purchaseOrderService.getPurchaseOrderById(id);
+
+    if (!purchaseOrder) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Purchase order not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Purchase order retrieved successfully',
+      data: purchaseOrder,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Update a draft purchase order
+  updatePurchaseOrder = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const updateData: UpdatePurchaseOrderRequest = req.body;
+
+    const purchaseOrder = await this.purchaseOrderService.updatePurchaseOrder(id, updateData);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Purchase order updated successfully',
+      data: purchaseOrder,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Submit purchase order to the vendor
+  submitPurchaseOrder = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    const purchaseOrder = await this.purchaseOrderService.submitPurchaseOrder(id);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Purchase order submitted successfully',
+      data: purchaseOrder,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Receive goods against a purchase order, fully or partially
+  receivePurchaseOrder = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const receiveData: ReceivePurchaseOrderRequest = req.body;
+
+    if (!userId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const purchaseOrder = await this.purchaseOrderService.receivePurchaseOrder(
+      id,
+      userId,
+      receiveData
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Purchase order received successfully',
+      data: purchaseOrder,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Close purchase order
+  closePurchaseOrder = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    const purchaseOrder = await this.purchaseOrderService.closePurchaseOrder(id);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Purchase order closed successfully',
+      data: purchaseOrder,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Cancel purchase order
+  cancelPurchaseOrder = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    const purchaseOrder = await this.purchaseOrderService.cancelPurchaseOrder(id);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Purchase order cancelled successfully',
+      data: purchaseOrder,
+    };
+
+    res.status(200).json(response);
+  });
+}
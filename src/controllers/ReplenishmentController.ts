@@ -0,0 +1,92 @@
+import { Request, Response } from 'express';
+import { ReplenishmentService } from '../services/ReplenishmentService';
+import { ApiResponse, AcceptRestockPlanRequest, ReplenishmentQuery, UserRole } from '../types';
+import { catchAsync } from '../middleware/errorHandler';
+
+export class ReplenishmentController {
+  private replenishmentService: ReplenishmentService;
+
+  constructor() {
+    this.replenishmentService = new ReplenishmentService();
+  }
+
+  // Get reorder suggestions, as JSON or as a CSV download
+  getSuggestions = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    // Admin can see suggestions for all products, users can only see their own
+    const query: ReplenishmentQuery = {
+      userId: userRole === UserRole.ADMIN ? undefined : userId,
+      supplierId: req.query.supplierId as string,
+    };
+
+    const suggestions = await this.replenishmentService.getSuggestions(query);
+
+    if (req.query.format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', 'attachment; filename="reorder-suggestions.csv"');
+      res.status(200).send(ReplenishmentService.toCsv(suggestions));
+      return;
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Reorder suggestions retrieved successfully',
+      data: suggestions,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Get reorder suggestions grouped by preferred supplier
+  getRestockPlan = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    // Admin can plan for all products, users can only plan their own
+    const query: ReplenishmentQuery = {
+      userId: userRole === UserRole.ADMIN ? undefined : userId,
+      supplierId: req.query.supplierId as string,
+    };
+
+    const plan = await this.replenishmentService.getRestockPlan(query);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Restock plan retrieved successfully',
+      data: plan,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Accept the restock plan, creating draft purchase orders
+  acceptRestockPlan = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+    const request: AcceptRestockPlanRequest = req.body;
+
+    if (!userId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    // Admin can accept the plan for all products, users only for their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const result = await this.replenishmentService.acceptRestockPlan(userId, request, ownerUserId);
+
+    const response: ApiResponse = {
+      success: true,
+      message: `${result.purchaseOrders.length} draft purchase order(s) created`,
+      data: result,
+    };
+
+    res.status(201).json(response);
+  });
+}
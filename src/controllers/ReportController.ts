@@ -0,0 +1,45 @@
+import { Request, Response } from 'express';
+import { ReportService } from '../services/ReportService';
+import { ApiResponse } from '../types';
+import { catchAsync } from '../middleware/errorHandler';
+
+export class ReportController {
+  private reportService: ReportService;
+
+  constructor() {
+    this.reportService = new ReportService();
+  }
+
+  // Get inventory valuation by category as of a date
+  getValuation = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const asOf = req.query.asOf ? new Date(req.query.asOf as string) : new Date();
+
+    const report = await this.reportService.getValuation(asOf);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Valuation report generated successfully',
+      data: report,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Get cost of goods sold by category for a period (defaults to the last 30 days)
+  getCostOfGoodsSold = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const to = req.query.to ? new Date(req.query.to as string) : new Date();
+    const from = req.query.from
+      ? new Date(req.query.from as string)
+      : new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+    const report = await this.reportService.getCostOfGoodsSold(from, to);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Cost of goods sold report generated successfully',
+      data: report,
+    };
+
+    res.status(200).json(response);
+  });
+}
@@ -0,0 +1,136 @@
+import { Request, Response } from 'express';
+import { ReservationService } from '../services/ReservationService';
+import { ApiResponse, CreateReservationRequest, UserRole } from '../types';
+import { catchAsync } from '../middleware/errorHandler';
+
+export class ReservationController {
+  private reservationService: ReservationService;
+
+  constructor() {
+    this.reservationService = new ReservationService();
+  }
+
+  // Reserve stock for a product
+  createReservation = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+    const reservationData: CreateReservationRequest = req.body;
+
+    if (!userId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    // Admin can reserve any product, users can only reserve their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const reservation = await this.reservationService.createReservation(
+      id,
+      userId,
+      reservationData,
+      ownerUserId
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Stock reserved successfully',
+      data: reservation,
+    };
+
+    res.status(201).json(response);
+  });
+
+  // Get active reservations for a product
+  getReservations = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    // Admin can see all reservations, users can only see their own products
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const reservations = await this.reservationService.getActiveReservations(id, ownerUserId);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Reservations retrieved successfully',
+      data: reservations,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Release a reservation back to available stock
+  releaseReservation = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id, reservationId } = req.params;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    if (!userId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    // Admin can release any reservation, users can only release their own products
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const reservation = await this.reservationService.releaseReservation(
+      id,
+      reservationId,
+      ownerUserId
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Reservation released successfully',
+      data: reservation,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Commit a reservation, deducting the held stock
+  commitReservation = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id, reservationId } = req.params;
+    const { serials } = req.body;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    if (!userId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    // Admin can commit any reservation, users can only commit their own products
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const reservation = await this.reservationService.commitReservation(
+      id,
+      reservationId,
+      userId,
+      ownerUserId,
+      serials
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Reservation committed successfully',
+      data: reservation,
+    };
+
+    res.status(200).json(response);
+  });
+}
@@ -0,0 +1,182 @@
+import { Request, Response } from 'express';
+import { RmaService } from '../services/RmaService';
+import {
+  ApiResponse,
+  CreateRmaRequest,
+  ReceiveRmaRequest,
+  InspectRmaRequest,
+  ReleaseQuarantineRequest,
+  RmaQuery,
+  RmaStatus,
+  UserRole,
+} from '../types';
+import { catchAsync } from '../middleware/errorHandler';
+
+export class RmaController {
+  private rmaService: RmaService;
+
+  constructor() {
+    this.rmaService = new RmaService();
+  }
+
+  // Create new RMA
+  createRma = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+    const rmaData: CreateRmaRequest = req.body;
+
+    if (!userId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    // Admin can authorise returns of any product, users only of their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const rma = await this.rmaService.createRma(userId, rmaData, ownerUserId);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'RMA created successfully',
+      data: rma,
+    };
+
+    res.status(201).json(response);
+  });
+
+  // Get RMAs with filtering
+  getRmas = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const query: RmaQuery = {
+      status: req.query.status as RmaStatus,
+      orderNumber: req.query.orderNumber as string,
+      productId: req.query.productId as string,
+      page: req.query.page ? Math.max(1, Number(req.query.page)) : 1,
+      limit: req.query.limit ? Math.min(100, Math.max(1, Number(req.query.limit))) : 10,
+    };
+
+    const result = await this.rmaService.getRmas(query);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'RMAs retrieved successfully',
+      data: result,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Get RMA by ID
+  getRmaById = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    const rma = await this.rmaService.getRmaById(id);
+
+    if (!rma) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'RMA not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'RMA retrieved successfully',
+      data: rma,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Record the returned units that arrived
+  receiveRma = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const receiveData: ReceiveRmaRequest = req.body;
+
+    const rma = await this.rmaService.receiveRma(id, receiveData);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'RMA received successfully',
+      data: rma,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Record the disposition of inspected units
+  inspectRma = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const inspectData: InspectRmaRequest = req.body;
+
+    if (!userId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const rma = await this.rmaService.inspectRma(id, userId, inspectData);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'RMA inspected successfully',
+      data: rma,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Cancel RMA
+  cancelRma = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    const rma = await this.rmaService.cancelRma(id);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'RMA cancelled successfully',
+      data: rma,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Release quarantined units of a product
+  releaseQuarantine = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+    const releaseData: ReleaseQuarantineRequest = req.body;
+
+    if (!userId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    // Admin can release any product's quarantine, users can only release their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const product = await this.rmaService.releaseQuarantine(id, userId, releaseData, ownerUserId);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Quarantined stock released successfully',
+      data: product,
+    };
+
+    res.status(200).json(response);
+  });
+}
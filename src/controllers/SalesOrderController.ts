@@ -0,0 +1,218 @@
+import { Request, Response } from 'express';
+import { SalesOrderService } from '../services/SalesOrderService';
+import {
+  ApiResponse,
+  CreateSalesOrderRequest,
+  UpdateSalesOrderRequest,
+  ShipSalesOrderRequest,
+  SalesOrderQuery,
+  SalesOrderStatus,
+  UserRole,
+} from '../types';
+import { catchAsync } from '../middleware/errorHandler';
+import { auditMiddleware } from '../middleware/audit';
+
+export class SalesOrderController {
+  private salesOrderService: SalesOrderService;
+
+  constructor() {
+    this.salesOrderService = new SalesOrderService();
+  }
+
+  // Create new sales order
+  createSalesOrder = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+    const orderData: CreateSalesOrderRequest = req.body;
+
+    if (!userId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    // Admin can order any product, users can only order their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const salesOrder = await this.salesOrderService.createSalesOrder(
+      userId,
+      orderData,
+      ownerUserId
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Sales order created successfully',
+      data: salesOrder,
+    };
+
+    res.status(201).json(response);
+  });
+
+  // Get sales orders with filtering
+  getSalesOrders = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    // Admin can see all sales orders, users can only see their own
+    const query: SalesOrderQuery = {
+      userId: userRole === UserRole.ADMIN ? undefined : userId,
+      status: req.query.status as SalesOrderStatus,
+      customer: req.query.customer as string,
+      productId: req.query.productId as string,
+      page: req.query.page ? Math.max(1, Number(req.query.page)) : 1,
+      limit: req.query.limit ? Math.min(100, Math.max(1, Number(req.query.limit))) : 10,
+    };
+
+    const result = await this.salesOrderService.getSalesOrders(query);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Sales orders retrieved successfully',
+      data: result,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Get sales order by ID
+  getSalesOrderById = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    // Admin can see any sales order, users can only see their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const salesOrder = await this.salesOrderService.getSalesOrderById(id, ownerUserId);
+
+    if (!salesOrder) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Sales order not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Sales order retrieved successfully',
+      data: salesOrder,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Update a draft sales order
+  updateSalesOrder = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const updateData: UpdateSalesOrderRequest = req.body;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    // Admin can update any sales order, users can only update their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const salesOrder = await this.salesOrderService.updateSalesOrder(id, updateData, ownerUserId);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Sales order updated successfully',
+      data: salesOrder,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Confirm sales order, allocating its stock
+  confirmSalesOrder = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    // Admin can confirm any sales order, users can only confirm their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const salesOrder = await this.salesOrderService.confirmSalesOrder(id, ownerUserId);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Sales order confirmed successfully',
+      data: salesOrder,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Generate the pick list for a confirmed order
+  startPicking = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    // Fulfilment is for managers and admins, who pick any user's orders
+    const salesOrder = await this.salesOrderService.startPicking(id);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Pick list generated successfully',
+      data: salesOrder,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Ship sales order, deducting the picked stock
+  shipSalesOrder = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const shipData: ShipSalesOrderRequest = req.body;
+
+    if (!userId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    // Fulfilment is for managers and admins, who ship any user's orders
+    const salesOrder = await this.salesOrderService.shipSalesOrder(
+      id,
+      userId,
+      shipData,
+      auditMiddleware.context(req)
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Sales order shipped successfully',
+      data: salesOrder,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Cancel sales order, releasing allocated stock
+  cancelSalesOrder = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    // Admin can cancel any sales order, users can only cancel their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const salesOrder = await this.salesOrderService.cancelSalesOrder(id, ownerUserId);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Sales order cancelled successfully',
+      data: salesOrder,
+    };
+
+    res.status(200).json(response);
+  });
+}
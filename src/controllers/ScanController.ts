@@ -0,0 +1,150 @@
+import { Request, Response } from 'express';
+import { ScanService, MAX_SCAN_EVENTS } from '../services/ScanService';
+import { ApiResponse, ScanSessionQuery, ScanSessionRequest, UserRole } from '../types';
+import { catchAsync } from '../middleware/errorHandler';
+import { auditMiddleware } from '../middleware/audit';
+
+export class ScanController {
+  private scanService: ScanService;
+
+  constructor() {
+    this.scanService = new ScanService();
+  }
+
+  // Resolve a scanned barcode, SKU or alternate code to a product
+  lookupCode = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { code } = req.params;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    // Admin can scan any product, users can only scan their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const result = await this.scanService.lookup(code, ownerUserId);
+
+    if (!result) {
+      const response: ApiResponse = {
+        success: false,
+        message: `No product matches code ${code}`,
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Product found',
+      data: result,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Apply a batch of scans as one stock change
+  createScanSession = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+    const sessionData: ScanSessionRequest = req.body;
+
+    if (!userId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const { events } = sessionData;
+    if (
+      !Array.isArray(events) ||
+      events.length === 0 ||
+      events.length > MAX_SCAN_EVENTS ||
+      events.some(
+        event =>
+          !event ||
+          typeof event.code !== 'string' ||
+          typeof event.delta !== 'number' ||
+          !isFinite(event.delta) ||
+          (event.scannedAt !== undefined && isNaN(Date.parse(event.scannedAt)))
+      )
+    ) {
+      const response: ApiResponse = {
+        success: false,
+        message: `Events must be a list of 1 to ${MAX_SCAN_EVENTS} { code, delta } entries`,
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    // Admin can change any product stock, users can only change their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const scanSession = await this.scanService.createScanSession(
+      userId,
+      ownerUserId,
+      sessionData,
+      auditMiddleware.context(req)
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      message: `Scan session recorded: ${scanSession.appliedCount} applied, ${scanSession.unknownCount} unknown, ${scanSession.conflictCount} in conflict`,
+      data: scanSession,
+    };
+
+    res.status(201).json(response);
+  });
+
+  // Get scan sessions
+  getScanSessions = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    // Admin can see every session, users can only see their own
+    const query: ScanSessionQuery = {
+      userId: userRole === UserRole.ADMIN ? (req.query.userId as string) : userId,
+      locationId: req.query.locationId as string,
+      page: req.query.page ? Math.max(1, Number(req.query.page)) : 1,
+      limit: req.query.limit ? Math.min(100, Math.max(1, Number(req.query.limit))) : 10,
+    };
+
+    const result = await this.scanService.getScanSessions(query);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Scan sessions retrieved successfully',
+      data: result,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Get scan session by ID
+  getScanSessionById = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const scanSession = await this.scanService.getScanSessionById(id, ownerUserId);
+
+    if (!scanSession) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Scan session not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Scan session retrieved successfully',
+      data: scanSession,
+    };
+
+    res.status(200).json(response);
+  });
+}
@@ -0,0 +1,41 @@
+import { Request, Response } from 'express';
+import { ProductService } from '../services/ProductService';
+import { ApiResponse, UserRole } from '../types';
+import { catchAsync } from '../middleware/errorHandler';
+
+export class SerialController {
+  private productService: ProductService;
+
+  constructor() {
+    this.productService = new ProductService();
+  }
+
+  // Look up a serial number along with its product, location and history
+  lookupSerial = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { serial } = req.params;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    // Admin can look up any serial, users can only look up their own products
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const units = await this.productService.lookupSerial(serial, ownerUserId);
+
+    if (units.length === 0) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Serial number not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Serial number retrieved successfully',
+      data: units,
+    };
+
+    res.status(200).json(response);
+  });
+}
@@ -0,0 +1,253 @@
+import { Request, Response } from 'express';
+import { SupplierService } from '../services/SupplierService';
+import {
+  ApiResponse,
+  CreateSupplierRequest,
+  UpdateSupplierRequest,
+  ProductSupplierRequest,
+  SupplierQuery,
+  UserRole,
+} from '../types';
+import { catchAsync } from '../middleware/errorHandler';
+
+export class SupplierController {
+  private supplierService: SupplierService;
+
+  constructor() {
+    this.supplierService = new SupplierService();
+  }
+
+  // Create new supplier
+  createSupplier = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.userId;
+    const supplierData: CreateSupplierRequest = req.body;
+
+    if (!userId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const supplier = await this.supplierService.createSupplier(userId, supplierData);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Supplier created successfully',
+      data: supplier,
+    };
+
+    res.status(201).json(response);
+  });
+
+  // Get suppliers with search and pagination
+  getSuppliers = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    // Admin can see all suppliers, users can only see their own
+    const query: SupplierQuery = {
+      search: req.query.search as string,
+      userId: userRole === UserRole.ADMIN ? undefined : userId,
+      page: req.query.page ? Math.max(1, Number(req.query.page)) : 1,
+      limit: req.query.limit ? Math.min(100, Math.max(1, Number(req.query.limit))) : 10,
+    };
+
+    const result = await this.supplierService.getSuppliers(query);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Suppliers retrieved successfully',
+      data: result,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Get supplier by ID
+  getSupplierById = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    // Admin can see all suppliers, users can only see their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const supplier = await this.supplierService.getSupplierById(id, ownerUserId);
+
+    if (!supplier) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Supplier not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Supplier retrieved successfully',
+      data: supplier,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Update supplier
+  updateSupplier = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+    const updateData: UpdateSupplierRequest = req.body;
+
+    if (!userId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    // Admin can update any supplier, users can only update their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const supplier = await this.supplierService.updateSupplier(id, ownerUserId, updateData);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Supplier updated successfully',
+      data: supplier,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Delete supplier
+  deleteSupplier = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    if (!userId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    // Admin can delete any supplier, users can only delete their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const success = await this.supplierService.deleteSupplier(id, ownerUserId);
+
+    const response: ApiResponse = {
+      success,
+      message: success ? 'Supplier deleted successfully' : 'Failed to delete supplier',
+    };
+
+    res.status(success ? 200 : 400).json(response);
+  });
+
+  // Get the products a supplier provides
+  getSupplierProducts = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    // Admin can see any supplier, users can only see their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const products = await this.supplierService.getSupplierProducts(id, ownerUserId);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Supplier products retrieved successfully',
+      data: products,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Get the suppliers of a product with their terms
+  getProductSuppliers = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    // Admin can see any product, users can only see their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const suppliers = await this.supplierService.getProductSuppliers(id, ownerUserId);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Product suppliers retrieved successfully',
+      data: suppliers,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Link a supplier to a product, or update the existing terms
+  linkProductSupplier = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id, supplierId } = req.params;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+    const terms: ProductSupplierRequest = req.body;
+
+    if (!userId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    // Admin can link any product, users can only link their own products and suppliers
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const link = await this.supplierService.linkProduct(id, supplierId, terms, ownerUserId);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Product supplier saved successfully',
+      data: link,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Remove a supplier from a product
+  unlinkProductSupplier = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id, supplierId } = req.params;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    if (!userId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    // Admin can unlink any product, users can only unlink their own
+    const ownerUserId = userRole === UserRole.ADMIN ? undefined : userId;
+
+    const success = await this.supplierService.unlinkProduct(id, supplierId, ownerUserId);
+
+    const response: ApiResponse = {
+      success,
+      message: success ? 'Product supplier removed successfully' : 'Product supplier not found',
+    };
+
+    res.status(success ? 200 : 404).json(response);
+  });
+}
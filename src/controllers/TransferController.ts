@@ -0,0 +1,178 @@
+import { Request, Response } from 'express';
+import { TransferService } from '../services/TransferService';
+import {
+  ApiResponse,
+  CreateTransferRequest,
+  ReceiveTransferRequest,
+  TransferQuery,
+  TransferStatus,
+} from '../types';
+import { catchAsync } from '../middleware/errorHandler';
+import { auditMiddleware } from '../middleware/audit';
+
+export class TransferController {
+  private transferService: TransferService;
+
+  constructor() {
+    this.transferService = new TransferService();
+  }
+
+  // Create new transfer
+  createTransfer = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.userId;
+    const transferData: CreateTransferRequest = req.body;
+
+    if (!userId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const transfer = await this.transferService.createTransfer(userId, transferData);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Transfer created successfully',
+      data: transfer,
+    };
+
+    res.status(201).json(response);
+  });
+
+  // Get transfers with filtering
+  getTransfers = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const query: TransferQuery = {
+      status: req.query.status as TransferStatus,
+      locationId: req.query.locationId as string,
+      productId: req.query.productId as string,
+      page: req.query.page ? Math.max(1, Number(req.query.page)) : 1,
+      limit: req.query.limit ? Math.min(100, Math.max(1, Number(req.query.limit))) : 10,
+    };
+
+    const result = await this.transferService.getTransfers(query);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Transfers retrieved successfully',
+      data: result,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Get transfer by ID
+  getTransferById = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    const transfer = await this.transferService.getTransferById(id);
+
+    if (!transfer) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Transfer not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Transfer retrieved successfully',
+      data: transfer,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Ship transfer (stock leaves the source location)
+  shipTransfer = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const transfer = await this.transferService.shipTransfer(
+      id,
+      userId,
+      auditMiddleware.context(req)
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Transfer shipped successfully',
+      data: transfer,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Receive transfer, fully or partially
+  receiveTransfer = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+    const receiveData: ReceiveTransferRequest = req.body;
+
+    if (!userId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const transfer = await this.transferService.receiveTransfer(
+      id,
+      userId,
+      receiveData,
+      auditMiddleware.context(req)
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Transfer received successfully',
+      data: transfer,
+    };
+
+    res.status(200).json(response);
+  });
+
+  // Cancel transfer
+  cancelTransfer = catchAsync(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not authenticated',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const transfer = await this.transferService.cancelTransfer(
+      id,
+      userId,
+      auditMiddleware.context(req)
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Transfer cancelled successfully',
+      data: transfer,
+    };
+
+    res.status(200).json(response);
+  });
+}
@@ -0,0 +1,57 @@
+import { Request, Response } from 'express';
+import { ExportService } from '../services/ExportService';
+import { ApiResponse, ExportFormat, ExportRecord } from '../types';
+
+// Validates format and columns, then streams the records as a download
+export const sendExport = async (
+  req: Request,
+  res: Response,
+  name: string,
+  available: string[],
+  defaults: string[],
+  allowAttributes: boolean,
+  getRecords: () => Promise<Iterable<ExportRecord> | AsyncIterable<ExportRecord>>
+): Promise<void> => {
+  const format = ExportService.parseFormat(req.query.format);
+  if (!format) {
+    const response: ApiResponse = {
+      success: false,
+      message: `Format must be one of: ${Object.values(ExportFormat).join(', ')}`,
+    };
+    res.status(400).json(response);
+    return;
+  }
+
+  const { columns, unknown } = ExportService.selectColumns(
+    req.query.columns,
+    available,
+    defaults,
+    allowAttributes
+  );
+  if (unknown.length > 0 || columns.length === 0) {
+    const response: ApiResponse = {
+      success: false,
+      message:
+        unknown.length > 0
+          ? `Unknown columns: ${unknown.join(', ')}`
+          : 'At least one column is required',
+    };
+    res.status(400).json(response);
+    return;
+  }
+
+  const records = await getRecords();
+
+  res.setHeader('Content-Type', ExportService.contentType(format));
+  res.setHeader('Content-Disposition', `attachment; filename="${name}.${format}"`);
+  res.status(200);
+
+  try {
+    await ExportService.write(res, format, columns, records, name);
+  } catch (error) {
+    // Once rows have been sent the status can no longer change; cut the download short
+    if (!res.headersSent) throw error;
+    console.error(`Export of ${name} failed:`, error);
+    res.destroy();
+  }
+};
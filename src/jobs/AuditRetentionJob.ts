@@ -0,0 +1,24 @@
+import { IntervalJob } from './IntervalJob';
+import { AuditService } from '../services/AuditService';
+
+// Periodically removes audit events older than AUDIT_RETENTION_DAYS
+export class AuditRetentionJob extends IntervalJob {
+  private auditService: AuditService;
+
+  constructor() {
+    super(
+      'Audit retention job',
+      parseInt(process.env.AUDIT_RETENTION_INTERVAL_MS || '86400000', 10)
+    );
+    this.auditService = new AuditService();
+  }
+
+  protected async run(): Promise<void> {
+    const purged = await this.auditService.purgeExpiredEvents();
+    if (purged > 0) {
+      console.log(`⏰ Removed ${purged} expired audit event(s)`);
+    }
+  }
+}
+
+export default new AuditRetentionJob();
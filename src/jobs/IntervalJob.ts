@@ -0,0 +1,39 @@
+// Runs a task on a fixed interval, skipping ticks while a previous run is still going
+export abstract class IntervalJob {
+  protected readonly name: string;
+  private intervalMs: number;
+  private timer: any = null;
+  private running = false;
+
+  constructor(name: string, intervalMs: number) {
+    this.name = name;
+    this.intervalMs = intervalMs;
+  }
+
+  public start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.tick(), this.intervalMs);
+    console.log(`⏰ ${this.name} running every ${this.intervalMs / 1000}s`);
+  }
+
+  public stop(): void {
+    if (!this.timer) return;
+    clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  public async tick(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      await this.run();
+    } catch (error) {
+      console.error(`❌ ${this.name} failed:`, error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  protected abstract run(): Promise<void>;
+}
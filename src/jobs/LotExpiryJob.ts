@@ -0,0 +1,21 @@
+import { IntervalJob } from './IntervalJob';
+import { LotService } from '../services/LotService';
+
+// Periodically flags lots past their expiry date so their stock stops being available
+export class LotExpiryJob extends IntervalJob {
+  private lotService: LotService;
+
+  constructor() {
+    super('Lot expiry job', parseInt(process.env.LOT_EXPIRY_INTERVAL_MS || '3600000', 10));
+    this.lotService = new LotService();
+  }
+
+  protected async run(): Promise<void> {
+    const expired = await this.lotService.expireLots();
+    if (expired > 0) {
+      console.log(`⏰ Marked ${expired} lot(s) as expired`);
+    }
+  }
+}
+
+export default new LotExpiryJob();
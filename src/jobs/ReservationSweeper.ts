@@ -0,0 +1,24 @@
+import { IntervalJob } from './IntervalJob';
+import { ReservationService } from '../services/ReservationService';
+
+// Periodically expires stale reservations so held stock returns to availability
+export class ReservationSweeper extends IntervalJob {
+  private reservationService: ReservationService;
+
+  constructor() {
+    super(
+      'Reservation sweeper',
+      parseInt(process.env.RESERVATION_SWEEP_INTERVAL_MS || '60000', 10)
+    );
+    this.reservationService = new ReservationService();
+  }
+
+  protected async run(): Promise<void> {
+    const expired = await this.reservationService.expireStaleReservations();
+    if (expired > 0) {
+      console.log(`⏰ Expired ${expired} stale reservation(s)`);
+    }
+  }
+}
+
+export default new ReservationSweeper();
@@ -0,0 +1,68 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuditService } from '../services/AuditService';
+import { AuditContext, UserRole } from '../types';
+
+// Methods that only read and are left out of the audit log
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+export class AuditMiddleware {
+  private auditService: AuditService;
+
+  constructor() {
+    this.auditService = new AuditService();
+  }
+
+  // Who made the request and from where. Behind the proxy the app trusts, the IP is
+  // the client's rather than the proxy's.
+  context = (req: Request): AuditContext => ({
+    actorId: req.user?.userId,
+    actorEmail: req.user?.email,
+    actorRole: req.user?.role,
+    ip: req.ip,
+    userAgent: req.get('user-agent'),
+  });
+
+  // Handler for the :id route parameter of product routes: records changes admins
+  // make to products owned by other users
+  adminProductAction = (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+    productId: string
+  ): void => {
+    this.watchAdminRequest(req, res, () => [productId]);
+    next();
+  };
+
+  // Same for requests naming their products in a body list of { productId } entries
+  adminBulkProductAction = (req: Request, res: Response, next: NextFunction): void => {
+    this.watchAdminRequest(req, res, () =>
+      Array.isArray(req.body?.updates)
+        ? req.body.updates
+            .map((update: any) => update?.productId)
+            .filter((productId: unknown) => typeof productId === 'string')
+        : []
+    );
+    next();
+  };
+
+  // The event is recorded once the response is sent, its status deciding the outcome
+  private watchAdminRequest(req: Request, res: Response, getProductIds: () => string[]): void {
+    if (req.user?.role !== UserRole.ADMIN || READ_METHODS.includes(req.method)) {
+      return;
+    }
+
+    const context = this.context(req);
+    const path = req.originalUrl.split('?')[0];
+    res.on('finish', () => {
+      void this.auditService.recordAdminProductAction(context, getProductIds(), {
+        method: req.method,
+        path,
+        statusCode: res.statusCode,
+      });
+    });
+  }
+}
+
+// Export singleton instance
+export const auditMiddleware = new AuditMiddleware();
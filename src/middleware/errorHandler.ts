@@ -34,6 +34,10 @@ export class ErrorHandler {
       statusCode = 401;
       message = 'Token expired';
       isOperational = true;
+    } else if (error.name === 'MulterError') {
+      // Upload limits (file size, file count, unexpected field)
+      statusCode = 400;
+      isOperational = true;
     }
 
     const response: ApiResponse = {
@@ -0,0 +1,25 @@
+import multer from 'multer';
+import { MAX_IMAGE_SIZE } from '../services/ImageService';
+
+// Most images accepted in one upload request
+export const MAX_IMAGES_PER_UPLOAD = 10;
+
+// Files are kept in memory; ImageService validates them before anything is stored
+export const imageUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_IMAGE_SIZE,
+    files: MAX_IMAGES_PER_UPLOAD,
+  },
+});
+
+// Largest spreadsheet accepted for a product import
+export const MAX_IMPORT_FILE_SIZE = 10 * 1024 * 1024;
+
+export const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_IMPORT_FILE_SIZE,
+    files: 1,
+  },
+});
@@ -0,0 +1,88 @@
+// @ts-nocheck
+import { Schema, model } from 'mongoose';
+import { AuditAction, AuditOutcome, IAuditEventDocument, UserRole } from '../types';
+
+const auditTargetSchema = new Schema(
+  {
+    type: {
+      type: String,
+      enum: ['user', 'product'],
+      required: [true, 'Target type is required'],
+    },
+    id: String,
+    label: String,
+    ownerId: String,
+  },
+  { _id: false }
+);
+
+const auditEventSchema = new Schema<IAuditEventDocument>(
+  {
+    action: {
+      type: String,
+      enum: Object.values(AuditAction),
+      required: [true, 'Action is required'],
+    },
+    outcome: {
+      type: String,
+      enum: Object.values(AuditOutcome),
+      required: [true, 'Outcome is required'],
+    },
+    // Unset for failed logins; the attempted email is kept instead
+    actorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    actorEmail: {
+      type: String,
+      lowercase: true,
+      trim: true,
+    },
+    actorRole: {
+      type: String,
+      enum: Object.values(UserRole),
+    },
+    ip: String,
+    userAgent: {
+      type: String,
+      maxlength: [500, 'User agent cannot exceed 500 characters'],
+    },
+    target: auditTargetSchema,
+    message: String,
+    details: Schema.Types.Mixed,
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    toJSON: {
+      transform: function (doc, ret) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes for the audit search; createdAt also serves the retention job
+auditEventSchema.index({ createdAt: -1 });
+auditEventSchema.index({ action: 1, createdAt: -1 });
+auditEventSchema.index({ actorId: 1, createdAt: -1 });
+auditEventSchema.index({ actorEmail: 1, createdAt: -1 });
+auditEventSchema.index({ 'target.type': 1, 'target.id': 1, createdAt: -1 });
+
+// The audit log is append-only: reject any attempt to rewrite or remove an event.
+// Expired events are purged by the retention job directly on the collection.
+const rejectMutation = function (next) {
+  next(new Error('Audit events are append-only and cannot be modified'));
+};
+
+auditEventSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace'],
+  rejectMutation
+);
+auditEventSchema.pre(['deleteOne', 'deleteMany', 'findOneAndDelete'], rejectMutation);
+auditEventSchema.pre('save', function (next) {
+  if (!this.isNew) return rejectMutation(next);
+  next();
+});
+
+export const AuditEvent = model<IAuditEventDocument>('AuditEvent', auditEventSchema);
@@ -0,0 +1,93 @@
+// @ts-nocheck
+import { Schema, model } from 'mongoose';
+import { AttributeType, ICategoryDocument } from '../types';
+
+const categorySchema = new Schema<ICategoryDocument>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Category name is required'],
+      trim: true,
+      maxlength: [50, 'Category name cannot exceed 50 characters'],
+    },
+    slug: {
+      type: String,
+      required: [true, 'Category slug is required'],
+      unique: true,
+      lowercase: true,
+      trim: true,
+      maxlength: [120, 'Category slug cannot exceed 120 characters'],
+    },
+    parentId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Category',
+      default: null,
+    },
+    ancestors: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: 'Category',
+      },
+    ],
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Description cannot exceed 500 characters'],
+    },
+    attributes: [
+      {
+        _id: false,
+        key: {
+          type: String,
+          required: [true, 'Attribute key is required'],
+          trim: true,
+          maxlength: [40, 'Attribute key cannot exceed 40 characters'],
+        },
+        label: {
+          type: String,
+          required: [true, 'Attribute label is required'],
+          trim: true,
+          maxlength: [60, 'Attribute label cannot exceed 60 characters'],
+        },
+        type: {
+          type: String,
+          enum: {
+            values: Object.values(AttributeType),
+            message: 'Invalid attribute type',
+          },
+          required: [true, 'Attribute type is required'],
+        },
+        required: {
+          type: Boolean,
+          default: false,
+        },
+        unit: {
+          type: String,
+          trim: true,
+          maxlength: [20, 'Attribute unit cannot exceed 20 characters'],
+        },
+        options: [String],
+      },
+    ],
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: function (doc, ret) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes for better query performance
+categorySchema.index({ parentId: 1 });
+categorySchema.index({ ancestors: 1 });
+categorySchema.index({ isActive: 1 });
+
+export const Category = model<ICategoryDocument>('Category', categorySchema);
@@ -0,0 +1,51 @@
+// @ts-nocheck
+import { Schema, model } from 'mongoose';
+import { ICostLayerDocument, StockMovementReason } from '../types';
+
+const costLayerSchema = new Schema<ICostLayerDocument>(
+  {
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: [true, 'Product ID is required'],
+    },
+    quantityReceived: {
+      type: Number,
+      required: [true, 'Received quantity is required'],
+      min: [1, 'Received quantity must be at least 1'],
+    },
+    quantityRemaining: {
+      type: Number,
+      required: [true, 'Remaining quantity is required'],
+      min: [0, 'Remaining quantity cannot be negative'],
+    },
+    unitCost: {
+      type: Number,
+      required: [true, 'Unit cost is required'],
+      min: [0, 'Unit cost cannot be negative'],
+    },
+    reason: {
+      type: String,
+      enum: Object.values(StockMovementReason),
+      required: [true, 'Reason is required'],
+    },
+    reference: {
+      type: String,
+      trim: true,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: function (doc, ret) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Open layers of a product in receipt order
+costLayerSchema.index({ productId: 1, quantityRemaining: 1, createdAt: 1 });
+
+export const CostLayer = model<ICostLayerDocument>('CostLayer', costLayerSchema);
@@ -0,0 +1,131 @@
+// @ts-nocheck
+import { Schema, model } from 'mongoose';
+import { ICountSessionDocument, CountSessionStatus } from '../types';
+
+const countLineSchema = new Schema(
+  {
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: [true, 'Product ID is required'],
+    },
+    sku: {
+      type: String,
+      required: [true, 'SKU is required'],
+    },
+    name: {
+      type: String,
+      required: [true, 'Product name is required'],
+    },
+    expectedQuantity: {
+      type: Number,
+      required: [true, 'Expected quantity is required'],
+      min: [0, 'Expected quantity cannot be negative'],
+    },
+    countedQuantity: {
+      type: Number,
+      min: [0, 'Counted quantity cannot be negative'],
+      default: null,
+    },
+    quantityAtCount: {
+      type: Number,
+      min: [0, 'Quantity at count cannot be negative'],
+      default: null,
+    },
+    lot: {
+      lotNumber: String,
+      manufactureDate: Date,
+      expiryDate: Date,
+    },
+    serials: [String],
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Note cannot exceed 500 characters'],
+    },
+    countedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    countedAt: Date,
+  },
+  { _id: false }
+);
+
+// Difference between the physical count and the book quantity at the time of counting
+countLineSchema.virtual('variance').get(function () {
+  if (this.countedQuantity === null || this.countedQuantity === undefined) {
+    return null;
+  }
+  return this.countedQuantity - this.quantityAtCount;
+});
+
+countLineSchema.set('toJSON', { virtuals: true });
+
+const countSessionSchema = new Schema<ICountSessionDocument>(
+  {
+    countNumber: {
+      type: String,
+      required: [true, 'Count number is required'],
+      unique: true,
+    },
+    category: {
+      type: String,
+      trim: true,
+    },
+    locationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Location',
+    },
+    blind: {
+      type: Boolean,
+      default: false,
+    },
+    lines: {
+      type: [countLineSchema],
+      validate: {
+        validator: function (lines: any[]) {
+          return lines.length > 0;
+        },
+        message: 'Count session must contain at least one product',
+      },
+    },
+    status: {
+      type: String,
+      enum: Object.values(CountSessionStatus),
+      default: CountSessionStatus.OPEN,
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Note cannot exceed 500 characters'],
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    approvedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    approvedAt: Date,
+    cancelledAt: Date,
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: function (doc, ret) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes for better query performance
+countSessionSchema.index({ status: 1, createdAt: -1 });
+countSessionSchema.index({ locationId: 1 });
+countSessionSchema.index({ 'lines.productId': 1 });
+
+export const CountSession = model<ICountSessionDocument>('CountSession', countSessionSchema);
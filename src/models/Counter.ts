@@ -0,0 +1,20 @@
+// @ts-nocheck
+import { Schema, model } from 'mongoose';
+import { ICounterDocument } from '../types';
+
+// Document numbers are generated from named counters keyed by their _id
+const counterSchema = new Schema<ICounterDocument>(
+  {
+    _id: {
+      type: String,
+      required: true,
+    },
+    seq: {
+      type: Number,
+      default: 0,
+    },
+  },
+  { versionKey: false }
+);
+
+export const Counter = model<ICounterDocument>('Counter', counterSchema);
@@ -0,0 +1,91 @@
+// @ts-nocheck
+import { Schema, model } from 'mongoose';
+import { IImportJobDocument, ImportJobStatus, ImportMode } from '../types';
+
+const importJobSchema = new Schema<IImportJobDocument>(
+  {
+    importNumber: {
+      type: String,
+      required: [true, 'Import number is required'],
+      unique: true,
+    },
+    status: {
+      type: String,
+      enum: {
+        values: Object.values(ImportJobStatus),
+        message: 'Invalid import status',
+      },
+      default: ImportJobStatus.PENDING,
+    },
+    mode: {
+      type: String,
+      enum: {
+        values: Object.values(ImportMode),
+        message: 'Invalid import mode',
+      },
+      default: ImportMode.UPSERT,
+    },
+    fileName: {
+      type: String,
+      trim: true,
+      maxlength: [255, 'File name cannot exceed 255 characters'],
+    },
+    totalRows: {
+      type: Number,
+      default: 0,
+    },
+    processedRows: {
+      type: Number,
+      default: 0,
+    },
+    createdCount: {
+      type: Number,
+      default: 0,
+    },
+    updatedCount: {
+      type: Number,
+      default: 0,
+    },
+    failedCount: {
+      type: Number,
+      default: 0,
+    },
+    rowErrors: [
+      {
+        _id: false,
+        row: Number,
+        sku: String,
+        field: String,
+        message: String,
+      },
+    ],
+    // Only needed while the job runs, so left out of reads by default
+    rows: {
+      type: [Schema.Types.Mixed],
+      select: false,
+    },
+    startedAt: Date,
+    completedAt: Date,
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: function (doc, ret) {
+        delete ret.rows;
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes for better query performance
+importJobSchema.index({ userId: 1, createdAt: -1 });
+importJobSchema.index({ status: 1 });
+
+export const ImportJob = model<IImportJobDocument>('ImportJob', importJobSchema);
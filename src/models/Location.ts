@@ -0,0 +1,58 @@
+// @ts-nocheck
+import { Schema, model } from 'mongoose';
+import { ILocationDocument, LocationType } from '../types';
+
+const locationSchema = new Schema<ILocationDocument>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Location name is required'],
+      trim: true,
+      maxlength: [100, 'Location name cannot exceed 100 characters'],
+    },
+    code: {
+      type: String,
+      required: [true, 'Location code is required'],
+      uppercase: true,
+      trim: true,
+      maxlength: [20, 'Location code cannot exceed 20 characters'],
+    },
+    type: {
+      type: String,
+      enum: {
+        values: Object.values(LocationType),
+        message: 'Invalid location type',
+      },
+      default: LocationType.WAREHOUSE,
+    },
+    address: {
+      type: String,
+      trim: true,
+      maxlength: [300, 'Address cannot exceed 300 characters'],
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: function (doc, ret) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes for better query performance; codes identify a location, deleted or not
+locationSchema.index({ code: 1 }, { unique: true });
+locationSchema.index({ isActive: 1 });
+
+export const Location = model<ILocationDocument>('Location', locationSchema);
@@ -0,0 +1,70 @@
+// @ts-nocheck
+import { Schema, model } from 'mongoose';
+import { ILotDocument } from '../types';
+
+const lotSchema = new Schema<ILotDocument>(
+  {
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: [true, 'Product ID is required'],
+    },
+    lotNumber: {
+      type: String,
+      required: [true, 'Lot number is required'],
+      uppercase: true,
+      trim: true,
+      maxlength: [50, 'Lot number cannot exceed 50 characters'],
+    },
+    manufactureDate: Date,
+    expiryDate: Date,
+    quantity: {
+      type: Number,
+      required: [true, 'Quantity is required'],
+      min: [0, 'Quantity cannot be negative'],
+      default: 0,
+    },
+    receivedQuantity: {
+      type: Number,
+      min: [0, 'Received quantity cannot be negative'],
+      default: 0,
+    },
+    // Set once the expiry date has passed and the lot's stock stops being available
+    isExpired: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: function (doc, ret) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// One lot per lot number per product
+lotSchema.index({ productId: 1, lotNumber: 1 }, { unique: true });
+lotSchema.index({ productId: 1, isExpired: 1, expiryDate: 1 });
+lotSchema.index({ isExpired: 1, expiryDate: 1 });
+
+lotSchema.pre('validate', function (next) {
+  if (this.manufactureDate && this.expiryDate && this.manufactureDate > this.expiryDate) {
+    return next(new Error('Manufacture date cannot be after the expiry date'));
+  }
+  next();
+});
+
+// Virtual for days left until expiry (negative once expired)
+lotSchema.virtual('daysUntilExpiry').get(function () {
+  if (!this.expiryDate) return null;
+  return Math.ceil((this.expiryDate.getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+});
+
+// Ensure virtuals are included in JSON
+lotSchema.set('toJSON', { virtuals: true });
+
+export const Lot = model<ILotDocument>('Lot', lotSchema);
@@ -1,6 +1,6 @@
 // @ts-nocheck
 import { Schema, model } from 'mongoose';
-import { IProductDocument } from '../types';
+import { BarcodeType, IProductDocument } from '../types';
 
 const productSchema = new Schema<IProductDocument>(
   {
@@ -22,12 +22,37 @@ const productSchema = new Schema<IProductDocument>(
       trim: true,
       maxlength: [50, 'SKU cannot exceed 50 characters'],
     },
+    // Check digits and uniqueness are enforced by the service
+    barcode: {
+      type: String,
+      trim: true,
+      maxlength: [80, 'Barcode cannot exceed 80 characters'],
+      default: null,
+    },
+    barcodeType: {
+      type: String,
+      enum: {
+        values: [...Object.values(BarcodeType), null],
+        message: 'Invalid barcode type',
+      },
+      default: null,
+    },
+    // Uniqueness against barcodes and other products' codes is enforced by the service
+    alternateCodes: {
+      type: [{ type: String, trim: true, maxlength: [80, 'Codes cannot exceed 80 characters'] }],
+      default: [],
+    },
     category: {
       type: String,
       required: [true, 'Category is required'],
       trim: true,
       maxlength: [50, 'Category cannot exceed 50 characters'],
     },
+    categoryId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Category',
+      default: null,
+    },
     price: {
       type: Number,
       required: [true, 'Price is required'],
@@ -45,24 +70,198 @@ const productSchema = new Schema<IProductDocument>(
       min: [0, 'Quantity cannot be negative'],
       default: 0,
     },
+    // Units held by active reservations; still on hand but not available
+    reservedQuantity: {
+      type: Number,
+      min: [0, 'Reserved quantity cannot be negative'],
+      default: 0,
+    },
+    // Units held in expired lots; still on hand but not available
+    expiredQuantity: {
+      type: Number,
+      min: [0, 'Expired quantity cannot be negative'],
+      default: 0,
+    },
+    // Units on transfers between locations; still part of quantity but not available
+    inTransitQuantity: {
+      type: Number,
+      min: [0, 'In-transit quantity cannot be negative'],
+      default: 0,
+    },
+    // Returned units held for inspection; kept out of quantity until restocked
+    quarantinedQuantity: {
+      type: Number,
+      min: [0, 'Quarantined quantity cannot be negative'],
+      default: 0,
+    },
+    // Cost used for valuation under the standard cost method
+    standardCost: {
+      type: Number,
+      min: [0, 'Standard cost cannot be negative'],
+      default: null,
+    },
+    // Moving weighted average cost of the units on the books
+    averageCost: {
+      type: Number,
+      min: [0, 'Average cost cannot be negative'],
+      default: 0,
+    },
+    // Book value of the product's stock under the configured valuation method
+    inventoryValue: {
+      type: Number,
+      default: 0,
+    },
+    // Lot-tracked products receive stock into lots and consume them FEFO
+    trackLots: {
+      type: Boolean,
+      default: false,
+    },
+    // Serialized products require a serial number for every unit moved
+    trackSerials: {
+      type: Boolean,
+      default: false,
+    },
     minStockLevel: {
       type: Number,
       required: [true, 'Minimum stock level is required'],
       min: [0, 'Minimum stock level cannot be negative'],
       default: 5,
     },
+    reorderPoint: {
+      type: Number,
+      min: [0, 'Reorder point cannot be negative'],
+      default: null,
+    },
+    maxStockLevel: {
+      type: Number,
+      min: [0, 'Maximum stock level cannot be negative'],
+      default: null,
+    },
+    leadTimeDays: {
+      type: Number,
+      min: [0, 'Lead time cannot be negative'],
+      default: null,
+    },
+    packSize: {
+      type: Number,
+      min: [1, 'Pack size must be at least 1'],
+      default: 1,
+    },
     images: [
       {
-        type: String,
-        validate: {
-          validator: function (value: string) {
-            // Basic URL validation
-            return /^https?:\/\/.+/.test(value);
+        url: {
+          type: String,
+          required: [true, 'Image URL is required'],
+          validate: {
+            validator: function (value: string) {
+              // Basic URL validation
+              return /^https?:\/\/.+/.test(value);
+            },
+            message: 'Image must be a valid URL',
+          },
+        },
+        thumbnailUrl: String,
+        // Storage keys of uploaded images, used to delete the files
+        key: String,
+        thumbnailKey: String,
+        provider: String,
+        contentType: String,
+        size: Number,
+      },
+    ],
+    // Variants point at their parent product
+    parentId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      default: null,
+    },
+    // Parents group variants and hold no stock of their own
+    hasVariants: {
+      type: Boolean,
+      default: false,
+    },
+    variantOptions: [
+      {
+        _id: false,
+        name: {
+          type: String,
+          required: [true, 'Option name is required'],
+          trim: true,
+          maxlength: [30, 'Option name cannot exceed 30 characters'],
+        },
+        values: [
+          {
+            type: String,
+            trim: true,
+            maxlength: [30, 'Option value cannot exceed 30 characters'],
+          },
+        ],
+      },
+    ],
+    variantAttributes: [
+      {
+        _id: false,
+        name: { type: String, required: true, trim: true },
+        value: { type: String, required: true, trim: true },
+      },
+    ],
+    // Products with components are kits built from them
+    components: [
+      {
+        _id: false,
+        productId: {
+          type: Schema.Types.ObjectId,
+          ref: 'Product',
+          required: [true, 'Component product ID is required'],
+        },
+        quantity: {
+          type: Number,
+          required: [true, 'Component quantity is required'],
+          min: [1, 'Component quantity must be at least 1'],
+        },
+      },
+    ],
+    // Unit quantities are stored in; stock changes may use any of the alternate units
+    baseUnit: {
+      type: String,
+      trim: true,
+      lowercase: true,
+      maxlength: [20, 'Unit name cannot exceed 20 characters'],
+      default: 'each',
+    },
+    // Weight and volume units may hold fractional quantities
+    fractionalQuantities: {
+      type: Boolean,
+      default: false,
+    },
+    units: [
+      {
+        _id: false,
+        name: {
+          type: String,
+          required: [true, 'Unit name is required'],
+          trim: true,
+          lowercase: true,
+          maxlength: [20, 'Unit name cannot exceed 20 characters'],
+        },
+        // Base units in one of this unit
+        factor: {
+          type: Number,
+          required: [true, 'Conversion factor is required'],
+          validate: {
+            validator: function (value: number) {
+              return value > 0;
+            },
+            message: 'Conversion factor must be greater than zero',
           },
-          message: 'Image must be a valid URL',
         },
       },
     ],
+    // Validated against the category's attribute definitions by ProductService
+    attributes: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
     isActive: {
       type: Boolean,
       default: true,
@@ -87,21 +286,52 @@ const productSchema = new Schema<IProductDocument>(
 // Indexes for better query performance
 productSchema.index({ name: 'text', description: 'text' }); // Text search
 productSchema.index({ sku: 1 });
+productSchema.index(
+  { barcode: 1 },
+  { unique: true, partialFilterExpression: { barcode: { $type: 'string' } } }
+);
+productSchema.index({ alternateCodes: 1 });
 productSchema.index({ category: 1 });
+productSchema.index({ categoryId: 1 });
 productSchema.index({ price: 1 });
 productSchema.index({ userId: 1 });
 productSchema.index({ isActive: 1 });
 productSchema.index({ quantity: 1 });
+productSchema.index({ parentId: 1 });
+productSchema.index({ 'components.productId': 1 });
+productSchema.index({ 'attributes.$**': 1 }); // Attribute filters and sorting
+
+// Virtual for quantity that is on hand, not reserved and not expired. Kits add the
+// kits their components can build once the service has worked that out.
+productSchema.virtual('availableQuantity').get(function () {
+  const onHand = Math.max(
+    0,
+    this.quantity -
+      (this.reservedQuantity || 0) -
+      (this.expiredQuantity || 0) -
+      (this.inTransitQuantity || 0)
+  );
+  return onHand + (this.$locals.kitAvailability?.buildableQuantity || 0);
+});
+
+// Virtuals for kits: kits buildable from component stock and the component limiting them
+productSchema.virtual('buildableQuantity').get(function () {
+  return this.$locals.kitAvailability?.buildableQuantity;
+});
+
+productSchema.virtual('limitingComponent').get(function () {
+  return this.$locals.kitAvailability?.limitingComponent;
+});
 
 // Virtual for low stock check
 productSchema.virtual('isLowStock').get(function () {
-  return this.quantity <= this.minStockLevel;
+  return this.availableQuantity <= this.minStockLevel;
 });
 
 // Virtual for stock status
 productSchema.virtual('stockStatus').get(function () {
-  if (this.quantity === 0) return 'OUT_OF_STOCK';
-  if (this.quantity <= this.minStockLevel) return 'LOW_STOCK';
+  if (this.availableQuantity === 0) return 'OUT_OF_STOCK';
+  if (this.availableQuantity <= this.minStockLevel) return 'LOW_STOCK';
   return 'IN_STOCK';
 });
 
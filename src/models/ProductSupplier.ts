@@ -0,0 +1,56 @@
+// @ts-nocheck
+import { Schema, model } from 'mongoose';
+import { IProductSupplierDocument } from '../types';
+
+const productSupplierSchema = new Schema<IProductSupplierDocument>(
+  {
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: [true, 'Product ID is required'],
+    },
+    supplierId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Supplier',
+      required: [true, 'Supplier ID is required'],
+    },
+    supplierSku: {
+      type: String,
+      uppercase: true,
+      trim: true,
+      maxlength: [50, 'Supplier SKU cannot exceed 50 characters'],
+    },
+    unitCost: {
+      type: Number,
+      required: [true, 'Unit cost is required'],
+      min: [0, 'Unit cost cannot be negative'],
+    },
+    minimumOrderQuantity: {
+      type: Number,
+      min: [1, 'Minimum order quantity must be at least 1'],
+      default: 1,
+    },
+    isPreferred: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: function (doc, ret) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// One set of terms per product per supplier
+productSupplierSchema.index({ productId: 1, supplierId: 1 }, { unique: true });
+productSupplierSchema.index({ supplierId: 1 });
+
+export const ProductSupplier = model<IProductSupplierDocument>(
+  'ProductSupplier',
+  productSupplierSchema
+);
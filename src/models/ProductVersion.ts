@@ -0,0 +1,81 @@
+// @ts-nocheck
+import { Schema, model } from 'mongoose';
+import { IProductVersionDocument, ProductVersionAction } from '../types';
+
+const fieldChangeSchema = new Schema(
+  {
+    field: {
+      type: String,
+      required: [true, 'Field is required'],
+    },
+    from: Schema.Types.Mixed,
+    to: Schema.Types.Mixed,
+  },
+  { _id: false, minimize: false }
+);
+
+const productVersionSchema = new Schema<IProductVersionDocument>(
+  {
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: [true, 'Product ID is required'],
+    },
+    version: {
+      type: Number,
+      required: [true, 'Version is required'],
+      min: [1, 'Versions are counted from 1'],
+    },
+    action: {
+      type: String,
+      enum: Object.values(ProductVersionAction),
+      required: [true, 'Action is required'],
+    },
+    changes: [fieldChangeSchema],
+    snapshot: {
+      type: Schema.Types.Mixed,
+      required: [true, 'Snapshot is required'],
+    },
+    restoredFrom: Number,
+    viaParent: Boolean,
+    performedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    // Empty attribute maps are part of the snapshot
+    minimize: false,
+    toJSON: {
+      transform: function (doc, ret) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes for history lookups; the unique pair keeps version numbers from repeating
+productVersionSchema.index({ productId: 1, version: -1 }, { unique: true });
+productVersionSchema.index({ performedBy: 1, createdAt: -1 });
+
+// History is append-only: reject any attempt to rewrite or remove a version
+const rejectMutation = function (next) {
+  next(new Error('Product versions are append-only and cannot be modified'));
+};
+
+productVersionSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace'],
+  rejectMutation
+);
+productVersionSchema.pre(['deleteOne', 'deleteMany', 'findOneAndDelete'], rejectMutation);
+productVersionSchema.pre('save', function (next) {
+  if (!this.isNew) return rejectMutation(next);
+  next();
+});
+
+export const ProductVersion = model<IProductVersionDocument>(
+  'ProductVersion',
+  productVersionSchema
+);
@@ -0,0 +1,186 @@
+// @ts-nocheck
+import { Schema, model } from 'mongoose';
+import { IPurchaseOrderDocument, PurchaseOrderStatus } from '../types';
+
+const purchaseOrderLineSchema = new Schema(
+  {
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: [true, 'Product ID is required'],
+    },
+    supplierSku: {
+      type: String,
+      trim: true,
+    },
+    quantityOrdered: {
+      type: Number,
+      required: [true, 'Ordered quantity is required'],
+      min: [1, 'Ordered quantity must be at least 1'],
+    },
+    quantityReceived: {
+      type: Number,
+      min: [0, 'Received quantity cannot be negative'],
+      default: 0,
+    },
+    unitCost: {
+      type: Number,
+      required: [true, 'Unit cost is required'],
+      min: [0, 'Unit cost cannot be negative'],
+    },
+  },
+  { _id: false }
+);
+
+// Units still expected on the line (the under-receipt once the order is closed)
+purchaseOrderLineSchema.virtual('quantityOutstanding').get(function () {
+  return Math.max(0, this.quantityOrdered - this.quantityReceived);
+});
+
+// Units received beyond what was ordered
+purchaseOrderLineSchema.virtual('quantityOverReceived').get(function () {
+  return Math.max(0, this.quantityReceived - this.quantityOrdered);
+});
+
+purchaseOrderLineSchema.set('toJSON', { virtuals: true });
+
+const purchaseOrderReceiptSchema = new Schema(
+  {
+    lines: [
+      {
+        _id: false,
+        productId: { type: Schema.Types.ObjectId, ref: 'Product' },
+        quantity: Number,
+        lotNumber: String,
+        serials: [String],
+      },
+    ],
+    locationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Location',
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Note cannot exceed 500 characters'],
+    },
+    receivedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    receivedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+const purchaseOrderSchema = new Schema<IPurchaseOrderDocument>(
+  {
+    poNumber: {
+      type: String,
+      required: [true, 'Purchase order number is required'],
+      unique: true,
+    },
+    supplierId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Supplier',
+    },
+    vendor: {
+      name: {
+        type: String,
+        required: [true, 'Vendor name is required'],
+        trim: true,
+        maxlength: [100, 'Vendor name cannot exceed 100 characters'],
+      },
+      contactName: {
+        type: String,
+        trim: true,
+        maxlength: [100, 'Contact name cannot exceed 100 characters'],
+      },
+      email: {
+        type: String,
+        lowercase: true,
+        trim: true,
+      },
+      phone: {
+        type: String,
+        trim: true,
+      },
+    },
+    locationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Location',
+    },
+    lines: {
+      type: [purchaseOrderLineSchema],
+      validate: {
+        validator: function (lines: any[]) {
+          return lines.length > 0;
+        },
+        message: 'Purchase order must contain at least one line',
+      },
+    },
+    receipts: [purchaseOrderReceiptSchema],
+    status: {
+      type: String,
+      enum: Object.values(PurchaseOrderStatus),
+      default: PurchaseOrderStatus.DRAFT,
+    },
+    currency: {
+      type: String,
+      uppercase: true,
+      trim: true,
+      match: [/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO code'],
+      default: 'USD',
+    },
+    expectedDate: Date,
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Note cannot exceed 500 characters'],
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    submittedAt: Date,
+    receivedAt: Date,
+    closedAt: Date,
+    cancelledAt: Date,
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: function (doc, ret) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes for better query performance
+purchaseOrderSchema.index({ status: 1, createdAt: -1 });
+purchaseOrderSchema.index({ supplierId: 1 });
+purchaseOrderSchema.index({ 'lines.productId': 1 });
+
+// Virtual for the total value of the order
+purchaseOrderSchema.virtual('totalCost').get(function () {
+  return this.lines.reduce((sum, line) => sum + line.quantityOrdered * line.unitCost, 0);
+});
+
+// Virtual flagging orders whose receipts differ from what was ordered
+purchaseOrderSchema.virtual('hasDiscrepancy').get(function () {
+  if (this.status !== PurchaseOrderStatus.RECEIVED && this.status !== PurchaseOrderStatus.CLOSED) {
+    return false;
+  }
+  return this.lines.some(line => line.quantityReceived !== line.quantityOrdered);
+});
+
+// Ensure virtuals are included in JSON
+purchaseOrderSchema.set('toJSON', { virtuals: true });
+
+export const PurchaseOrder = model<IPurchaseOrderDocument>('PurchaseOrder', purchaseOrderSchema);
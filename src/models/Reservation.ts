@@ -0,0 +1,62 @@
+// @ts-nocheck
+import { Schema, model } from 'mongoose';
+import { IReservationDocument, ReservationStatus } from '../types';
+
+const reservationSchema = new Schema<IReservationDocument>(
+  {
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: [true, 'Product ID is required'],
+    },
+    quantity: {
+      type: Number,
+      required: [true, 'Quantity is required'],
+      min: [1, 'Quantity must be at least 1'],
+    },
+    status: {
+      type: String,
+      enum: Object.values(ReservationStatus),
+      default: ReservationStatus.ACTIVE,
+    },
+    reference: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Reference cannot exceed 100 characters'],
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiry date is required'],
+    },
+    // Specific units held for serialized products
+    serials: [
+      {
+        type: String,
+        uppercase: true,
+        trim: true,
+      },
+    ],
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    releasedAt: Date,
+    committedAt: Date,
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: function (doc, ret) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes for the expiry sweeper and per-product lookups
+reservationSchema.index({ status: 1, expiresAt: 1 });
+reservationSchema.index({ productId: 1, status: 1 });
+
+export const Reservation = model<IReservationDocument>('Reservation', reservationSchema);
@@ -0,0 +1,162 @@
+// @ts-nocheck
+import { Schema, model } from 'mongoose';
+import { IRmaDocument, RmaStatus, ReturnReason, ReturnDisposition } from '../types';
+
+const rmaDispositionSchema = new Schema(
+  {
+    disposition: {
+      type: String,
+      enum: {
+        values: Object.values(ReturnDisposition),
+        message: 'Invalid disposition',
+      },
+      required: [true, 'Disposition is required'],
+    },
+    quantity: {
+      type: Number,
+      required: [true, 'Quantity is required'],
+      min: [1, 'Quantity must be at least 1'],
+    },
+    serials: [String],
+    locationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Location',
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Note cannot exceed 500 characters'],
+    },
+    inspectedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    inspectedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+const rmaLineSchema = new Schema(
+  {
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: [true, 'Product ID is required'],
+    },
+    quantity: {
+      type: Number,
+      required: [true, 'Quantity is required'],
+      min: [1, 'Quantity must be at least 1'],
+    },
+    reason: {
+      type: String,
+      enum: {
+        values: Object.values(ReturnReason),
+        message: 'Invalid return reason',
+      },
+      required: [true, 'Return reason is required'],
+    },
+    reasonNote: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Reason note cannot exceed 500 characters'],
+    },
+    quantityReceived: {
+      type: Number,
+      min: [0, 'Received quantity cannot be negative'],
+      default: 0,
+    },
+    dispositions: [rmaDispositionSchema],
+  },
+  { _id: false }
+);
+
+// Units received but not yet given a disposition
+rmaLineSchema.virtual('quantityPendingInspection').get(function () {
+  const inspected = this.dispositions.reduce((sum, entry) => sum + entry.quantity, 0);
+  return Math.max(0, this.quantityReceived - inspected);
+});
+
+rmaLineSchema.set('toJSON', { virtuals: true });
+
+const rmaSchema = new Schema<IRmaDocument>(
+  {
+    rmaNumber: {
+      type: String,
+      required: [true, 'RMA number is required'],
+      unique: true,
+    },
+    orderNumber: {
+      type: String,
+      required: [true, 'Order number is required'],
+      trim: true,
+      maxlength: [100, 'Order number cannot exceed 100 characters'],
+    },
+    customer: {
+      name: {
+        type: String,
+        trim: true,
+        maxlength: [100, 'Customer name cannot exceed 100 characters'],
+      },
+      email: {
+        type: String,
+        lowercase: true,
+        trim: true,
+      },
+      phone: {
+        type: String,
+        trim: true,
+      },
+      externalId: {
+        type: String,
+        trim: true,
+      },
+    },
+    lines: {
+      type: [rmaLineSchema],
+      validate: {
+        validator: function (lines: any[]) {
+          return lines.length > 0;
+        },
+        message: 'RMA must contain at least one line',
+      },
+    },
+    status: {
+      type: String,
+      enum: Object.values(RmaStatus),
+      default: RmaStatus.OPEN,
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Note cannot exceed 500 characters'],
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    receivedAt: Date,
+    completedAt: Date,
+    cancelledAt: Date,
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: function (doc, ret) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes for better query performance
+rmaSchema.index({ status: 1, createdAt: -1 });
+rmaSchema.index({ orderNumber: 1 });
+rmaSchema.index({ 'lines.productId': 1 });
+
+export const Rma = model<IRmaDocument>('Rma', rmaSchema);
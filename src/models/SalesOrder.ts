@@ -0,0 +1,149 @@
+// @ts-nocheck
+import { Schema, model } from 'mongoose';
+import { ISalesOrderDocument, SalesOrderStatus } from '../types';
+
+const salesOrderLineSchema = new Schema(
+  {
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: [true, 'Product ID is required'],
+    },
+    quantity: {
+      type: Number,
+      required: [true, 'Quantity is required'],
+      min: [1, 'Quantity must be at least 1'],
+    },
+    unitPrice: {
+      type: Number,
+      required: [true, 'Unit price is required'],
+      min: [0, 'Unit price cannot be negative'],
+    },
+    quantityAllocated: {
+      type: Number,
+      min: [0, 'Allocated quantity cannot be negative'],
+      default: 0,
+    },
+    // Kit units allocated from component stock; they are assembled when shipped
+    quantityFromComponents: {
+      type: Number,
+      min: [0, 'Quantity from components cannot be negative'],
+      default: 0,
+    },
+    quantityShipped: {
+      type: Number,
+      min: [0, 'Shipped quantity cannot be negative'],
+      default: 0,
+    },
+  },
+  { _id: false }
+);
+
+const salesOrderSchema = new Schema<ISalesOrderDocument>(
+  {
+    orderNumber: {
+      type: String,
+      required: [true, 'Order number is required'],
+      unique: true,
+    },
+    customer: {
+      name: {
+        type: String,
+        required: [true, 'Customer name is required'],
+        trim: true,
+        maxlength: [100, 'Customer name cannot exceed 100 characters'],
+      },
+      email: {
+        type: String,
+        lowercase: true,
+        trim: true,
+      },
+      phone: {
+        type: String,
+        trim: true,
+      },
+      externalId: {
+        type: String,
+        trim: true,
+        maxlength: [100, 'Customer reference cannot exceed 100 characters'],
+      },
+    },
+    shippingAddress: {
+      type: String,
+      trim: true,
+      maxlength: [300, 'Shipping address cannot exceed 300 characters'],
+    },
+    lines: {
+      type: [salesOrderLineSchema],
+      validate: {
+        validator: function (lines: any[]) {
+          return lines.length > 0;
+        },
+        message: 'Sales order must contain at least one line',
+      },
+    },
+    pickList: [
+      {
+        _id: false,
+        productId: { type: Schema.Types.ObjectId, ref: 'Product' },
+        locationId: { type: Schema.Types.ObjectId, ref: 'Location', default: null },
+        quantity: Number,
+      },
+    ],
+    status: {
+      type: String,
+      enum: Object.values(SalesOrderStatus),
+      default: SalesOrderStatus.DRAFT,
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Note cannot exceed 500 characters'],
+    },
+    carrier: {
+      type: String,
+      trim: true,
+    },
+    trackingNumber: {
+      type: String,
+      trim: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    confirmedAt: Date,
+    pickingAt: Date,
+    shippedAt: Date,
+    shippedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    cancelledAt: Date,
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: function (doc, ret) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes for better query performance
+salesOrderSchema.index({ status: 1, createdAt: -1 });
+salesOrderSchema.index({ 'customer.externalId': 1 });
+salesOrderSchema.index({ 'lines.productId': 1 });
+
+// Virtual for the total value of the order
+salesOrderSchema.virtual('totalAmount').get(function () {
+  return this.lines.reduce((sum, line) => sum + line.quantity * line.unitPrice, 0);
+});
+
+// Ensure virtuals are included in JSON
+salesOrderSchema.set('toJSON', { virtuals: true });
+
+export const SalesOrder = model<ISalesOrderDocument>('SalesOrder', salesOrderSchema);
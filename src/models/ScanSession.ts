@@ -0,0 +1,124 @@
+// @ts-nocheck
+import { Schema, model } from 'mongoose';
+import { IScanSessionDocument, ScanEventStatus, ScanMatch, StockMovementReason } from '../types';
+
+const scanEventSchema = new Schema(
+  {
+    code: {
+      type: String,
+      required: [true, 'Code is required'],
+    },
+    delta: {
+      type: Number,
+      required: [true, 'Delta is required'],
+    },
+    unit: String,
+    scannedAt: Date,
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      default: null,
+    },
+    matchedBy: {
+      type: String,
+      enum: [...Object.values(ScanMatch), null],
+      default: null,
+    },
+    status: {
+      type: String,
+      enum: Object.values(ScanEventStatus),
+      required: [true, 'Status is required'],
+    },
+    message: String,
+  },
+  { _id: false }
+);
+
+const scanLineSchema = new Schema(
+  {
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: [true, 'Product ID is required'],
+    },
+    sku: {
+      type: String,
+      required: [true, 'SKU is required'],
+    },
+    name: {
+      type: String,
+      required: [true, 'Product name is required'],
+    },
+    delta: {
+      type: Number,
+      required: [true, 'Delta is required'],
+    },
+    quantityAfter: {
+      type: Number,
+      required: [true, 'Quantity after is required'],
+    },
+  },
+  { _id: false }
+);
+
+const scanSessionSchema = new Schema<IScanSessionDocument>(
+  {
+    sessionNumber: {
+      type: String,
+      required: [true, 'Session number is required'],
+      unique: true,
+    },
+    locationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Location',
+    },
+    reason: {
+      type: String,
+      enum: Object.values(StockMovementReason),
+      required: [true, 'Reason is required'],
+    },
+    reference: {
+      type: String,
+      trim: true,
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Note cannot exceed 500 characters'],
+    },
+    events: [scanEventSchema],
+    lines: [scanLineSchema],
+    appliedCount: {
+      type: Number,
+      default: 0,
+    },
+    unknownCount: {
+      type: Number,
+      default: 0,
+    },
+    conflictCount: {
+      type: Number,
+      default: 0,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: function (doc, ret) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes for better query performance
+scanSessionSchema.index({ userId: 1, createdAt: -1 });
+scanSessionSchema.index({ locationId: 1 });
+
+export const ScanSession = model<IScanSessionDocument>('ScanSession', scanSessionSchema);
@@ -0,0 +1,71 @@
+// @ts-nocheck
+import { Schema, model } from 'mongoose';
+import { ISerialNumberDocument, SerialStatus } from '../types';
+
+const serialEventSchema = new Schema(
+  {
+    status: {
+      type: String,
+      enum: Object.values(SerialStatus),
+      required: true,
+    },
+    reason: String,
+    reference: String,
+    locationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Location',
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    at: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+const serialNumberSchema = new Schema<ISerialNumberDocument>(
+  {
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: [true, 'Product ID is required'],
+    },
+    serial: {
+      type: String,
+      required: [true, 'Serial number is required'],
+      uppercase: true,
+      trim: true,
+      maxlength: [100, 'Serial number cannot exceed 100 characters'],
+    },
+    status: {
+      type: String,
+      enum: Object.values(SerialStatus),
+      default: SerialStatus.IN_STOCK,
+    },
+    locationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Location',
+    },
+    history: [serialEventSchema],
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: function (doc, ret) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// A serial number identifies one unit of a product
+serialNumberSchema.index({ productId: 1, serial: 1 }, { unique: true });
+serialNumberSchema.index({ serial: 1 });
+serialNumberSchema.index({ productId: 1, status: 1 });
+
+export const SerialNumber = model<ISerialNumberDocument>('SerialNumber', serialNumberSchema);
@@ -0,0 +1,70 @@
+// @ts-nocheck
+import { Schema, model } from 'mongoose';
+import { IStockLevelDocument } from '../types';
+
+const stockLevelSchema = new Schema<IStockLevelDocument>(
+  {
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: [true, 'Product ID is required'],
+    },
+    locationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Location',
+      required: [true, 'Location ID is required'],
+    },
+    quantity: {
+      type: Number,
+      required: [true, 'Quantity is required'],
+      min: [0, 'Quantity cannot be negative'],
+      default: 0,
+    },
+    // Overrides the product's minStockLevel at this location when set
+    minStockLevel: {
+      type: Number,
+      min: [0, 'Minimum stock level cannot be negative'],
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: function (doc, ret) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// One stock record per product per location
+stockLevelSchema.index({ productId: 1, locationId: 1 }, { unique: true });
+stockLevelSchema.index({ locationId: 1, quantity: 1 });
+
+// Effective minimum stock level, falling back to the (populated) product's threshold
+stockLevelSchema.virtual('effectiveMinStockLevel').get(function () {
+  if (this.minStockLevel !== null && this.minStockLevel !== undefined) {
+    return this.minStockLevel;
+  }
+  return this.productId && this.productId.minStockLevel !== undefined
+    ? this.productId.minStockLevel
+    : 0;
+});
+
+// Virtual for low stock check at this location
+stockLevelSchema.virtual('isLowStock').get(function () {
+  return this.quantity <= this.effectiveMinStockLevel;
+});
+
+// Virtual for stock status at this location
+stockLevelSchema.virtual('stockStatus').get(function () {
+  if (this.quantity === 0) return 'OUT_OF_STOCK';
+  if (this.quantity <= this.effectiveMinStockLevel) return 'LOW_STOCK';
+  return 'IN_STOCK';
+});
+
+// Ensure virtuals are included in JSON
+stockLevelSchema.set('toJSON', { virtuals: true });
+
+export const StockLevel = model<IStockLevelDocument>('StockLevel', stockLevelSchema);
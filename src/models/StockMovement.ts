@@ -0,0 +1,100 @@
+// @ts-nocheck
+import { Schema, model } from 'mongoose';
+import { IStockMovementDocument, StockMovementReason } from '../types';
+
+const stockMovementSchema = new Schema<IStockMovementDocument>(
+  {
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: [true, 'Product ID is required'],
+    },
+    locationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Location',
+    },
+    quantityChange: {
+      type: Number,
+      required: [true, 'Quantity change is required'],
+    },
+    quantityBefore: {
+      type: Number,
+      required: [true, 'Quantity before is required'],
+      min: [0, 'Quantity before cannot be negative'],
+    },
+    quantityAfter: {
+      type: Number,
+      required: [true, 'Quantity after is required'],
+      min: [0, 'Quantity after cannot be negative'],
+    },
+    reason: {
+      type: String,
+      enum: {
+        values: Object.values(StockMovementReason),
+        message: 'Invalid stock movement reason',
+      },
+      required: [true, 'Reason is required'],
+    },
+    reference: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Reference cannot exceed 100 characters'],
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Note cannot exceed 500 characters'],
+    },
+    lots: [
+      {
+        _id: false,
+        lotId: { type: Schema.Types.ObjectId, ref: 'Lot' },
+        lotNumber: String,
+        quantity: Number,
+      },
+    ],
+    serials: [String],
+    // Cost of each unit received (increases only)
+    unitCost: Number,
+    // Cost of the units taken out (decreases only)
+    costOfGoods: Number,
+    // Change in book value caused by this movement
+    valueChange: Number,
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    toJSON: {
+      transform: function (doc, ret) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes for ledger lookups
+stockMovementSchema.index({ productId: 1, createdAt: -1 });
+stockMovementSchema.index({ locationId: 1, createdAt: -1 });
+stockMovementSchema.index({ userId: 1 });
+stockMovementSchema.index({ reason: 1 });
+
+// The ledger is append-only: reject any attempt to rewrite or remove history
+const rejectMutation = function (next) {
+  next(new Error('Stock movements are append-only and cannot be modified'));
+};
+
+stockMovementSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace'],
+  rejectMutation
+);
+stockMovementSchema.pre(['deleteOne', 'deleteMany', 'findOneAndDelete'], rejectMutation);
+stockMovementSchema.pre('save', function (next) {
+  if (!this.isNew) return rejectMutation(next);
+  next();
+});
+
+export const StockMovement = model<IStockMovementDocument>('StockMovement', stockMovementSchema);
@@ -0,0 +1,90 @@
+// @ts-nocheck
+import { Schema, model } from 'mongoose';
+import { ISupplierDocument } from '../types';
+
+const supplierSchema = new Schema<ISupplierDocument>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Supplier name is required'],
+      trim: true,
+      maxlength: [100, 'Supplier name cannot exceed 100 characters'],
+    },
+    code: {
+      type: String,
+      required: [true, 'Supplier code is required'],
+      uppercase: true,
+      trim: true,
+      maxlength: [20, 'Supplier code cannot exceed 20 characters'],
+    },
+    contact: {
+      name: {
+        type: String,
+        trim: true,
+        maxlength: [100, 'Contact name cannot exceed 100 characters'],
+      },
+      email: {
+        type: String,
+        lowercase: true,
+        trim: true,
+        match: [/^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,3})+$/, 'Please enter a valid email'],
+      },
+      phone: {
+        type: String,
+        trim: true,
+        maxlength: [30, 'Phone cannot exceed 30 characters'],
+      },
+    },
+    address: {
+      type: String,
+      trim: true,
+      maxlength: [300, 'Address cannot exceed 300 characters'],
+    },
+    leadTimeDays: {
+      type: Number,
+      min: [0, 'Lead time cannot be negative'],
+      default: 0,
+    },
+    paymentTerms: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Payment terms cannot exceed 100 characters'],
+    },
+    currency: {
+      type: String,
+      uppercase: true,
+      trim: true,
+      match: [/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO code'],
+      default: 'USD',
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'Notes cannot exceed 1000 characters'],
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: function (doc, ret) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes for better query performance
+supplierSchema.index({ code: 1 });
+supplierSchema.index({ userId: 1, isActive: 1 });
+
+export const Supplier = model<ISupplierDocument>('Supplier', supplierSchema);
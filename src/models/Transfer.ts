@@ -0,0 +1,113 @@
+// @ts-nocheck
+import { Schema, model } from 'mongoose';
+import { ITransferDocument, TransferStatus } from '../types';
+
+const transferLineSchema = new Schema(
+  {
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: [true, 'Product ID is required'],
+    },
+    quantity: {
+      type: Number,
+      required: [true, 'Quantity is required'],
+      min: [1, 'Quantity must be at least 1'],
+    },
+    quantityReceived: {
+      type: Number,
+      min: [0, 'Received quantity cannot be negative'],
+      default: 0,
+    },
+  },
+  { _id: false }
+);
+
+const transferSchema = new Schema<ITransferDocument>(
+  {
+    transferNumber: {
+      type: String,
+      required: [true, 'Transfer number is required'],
+      unique: true,
+    },
+    fromLocationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Location',
+      required: [true, 'Source location is required'],
+    },
+    toLocationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Location',
+      required: [true, 'Destination location is required'],
+    },
+    lines: {
+      type: [transferLineSchema],
+      validate: {
+        validator: function (lines: any[]) {
+          return lines.length > 0;
+        },
+        message: 'Transfer must contain at least one line',
+      },
+    },
+    status: {
+      type: String,
+      enum: Object.values(TransferStatus),
+      default: TransferStatus.PENDING,
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Note cannot exceed 500 characters'],
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    shippedAt: Date,
+    shippedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    receivedAt: Date,
+    cancelledAt: Date,
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: function (doc, ret) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes for better query performance
+transferSchema.index({ status: 1, createdAt: -1 });
+transferSchema.index({ fromLocationId: 1 });
+transferSchema.index({ toLocationId: 1 });
+transferSchema.index({ 'lines.productId': 1 });
+
+transferSchema.pre('validate', function (next) {
+  if (this.fromLocationId && this.fromLocationId.equals(this.toLocationId)) {
+    return next(new Error('Source and destination locations must differ'));
+  }
+  next();
+});
+
+// Virtual for units shipped but not yet received
+transferSchema.virtual('quantityInTransit').get(function () {
+  if (
+    this.status !== TransferStatus.IN_TRANSIT &&
+    this.status !== TransferStatus.PARTIALLY_RECEIVED
+  ) {
+    return 0;
+  }
+  return this.lines.reduce((sum, line) => sum + line.quantity - line.quantityReceived, 0);
+});
+
+// Ensure virtuals are included in JSON
+transferSchema.set('toJSON', { virtuals: true });
+
+export const Transfer = model<ITransferDocument>('Transfer', transferSchema);
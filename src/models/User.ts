@@ -42,12 +42,30 @@ const userSchema = new Schema<IUserDocument>(
       type: String,
       default: null,
     },
+    profileThumbnail: {
+      type: String,
+      default: null,
+    },
+    profileImageFile: {
+      type: {
+        _id: false,
+        url: String,
+        thumbnailUrl: String,
+        key: String,
+        thumbnailKey: String,
+        provider: String,
+        contentType: String,
+        size: Number,
+      },
+      default: null,
+    },
   },
   {
     timestamps: true,
     toJSON: {
       transform: function (doc, ret) {
         delete ret.password;
+        delete ret.profileImageFile;
         delete ret.__v;
         return ret;
       },
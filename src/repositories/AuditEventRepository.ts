@@ -0,0 +1,91 @@
+import { Cursor, FilterQuery } from 'mongoose';
+import { BaseRepository } from './BaseRepository';
+import { AuditEvent } from '../models/AuditEvent';
+import { AuditQuery, IAuditEventDocument, PaginatedResponse } from '../types';
+
+// Documents fetched per round trip when streaming an export
+const STREAM_BATCH_SIZE = 500;
+
+export interface IAuditEventRepository extends BaseRepository<IAuditEventDocument> {
+  searchAuditEvents(query: AuditQuery): Promise<PaginatedResponse<IAuditEventDocument>>;
+  streamAuditEvents(query: AuditQuery): Cursor<IAuditEventDocument, any>;
+  purgeBefore(date: Date): Promise<number>;
+}
+
+export class AuditEventRepository
+  extends BaseRepository<IAuditEventDocument>
+  implements IAuditEventRepository
+{
+  constructor() {
+    super(AuditEvent);
+  }
+
+  async searchAuditEvents(query: AuditQuery): Promise<PaginatedResponse<IAuditEventDocument>> {
+    const { page = 1, limit = 20 } = query;
+
+    return await this.findWithPagination(this.buildFilter(query), {
+      page,
+      limit,
+      sortBy: 'createdAt',
+      sortOrder: 'desc',
+    });
+  }
+
+  // Every event matching the filters, newest first, read in batches rather than pages
+  streamAuditEvents(query: AuditQuery): Cursor<IAuditEventDocument, any> {
+    return this.model
+      .find(this.buildFilter(query))
+      .sort({ createdAt: -1, _id: -1 })
+      .batchSize(STREAM_BATCH_SIZE)
+      .cursor();
+  }
+
+  // Removes events older than the date. Goes to the collection directly, past the
+  // model's append-only guard, which is only meant to stop changes made by the app.
+  async purgeBefore(date: Date): Promise<number> {
+    const result = await this.model.collection.deleteMany({ createdAt: { $lt: date } });
+    return result.deletedCount;
+  }
+
+  private buildFilter(query: AuditQuery): FilterQuery<IAuditEventDocument> {
+    const { action, outcome, actorId, actorEmail, targetType, targetId, ip, from, to } = query;
+
+    const filter: FilterQuery<IAuditEventDocument> = {};
+
+    if (action) {
+      filter.action = action;
+    }
+
+    if (outcome) {
+      filter.outcome = outcome;
+    }
+
+    if (actorId) {
+      filter.actorId = actorId;
+    }
+
+    if (actorEmail) {
+      filter.actorEmail = actorEmail.trim().toLowerCase();
+    }
+
+    if (targetType) {
+      filter['target.type'] = targetType;
+    }
+
+    if (targetId) {
+      filter['target.id'] = targetId;
+    }
+
+    if (ip) {
+      filter.ip = ip;
+    }
+
+    if (from || to) {
+      filter.createdAt = {};
+      if (from) filter.createdAt.$gte = from;
+      if (to) filter.createdAt.$lte = to;
+    }
+
+    return filter;
+  }
+}
@@ -1,16 +1,16 @@
-import { Document, Model, FilterQuery, UpdateQuery, QueryOptions } from 'mongoose';
+import { ClientSession, Document, Model, FilterQuery, UpdateQuery, QueryOptions } from 'mongoose';
 import { PaginationOptions, PaginatedResponse } from '../types';
 
 export interface IBaseRepository<T extends Document> {
-  create(data: any): Promise<T>;
-  findById(id: string): Promise<T | null>;
+  create(data: any, session?: ClientSession): Promise<T>;
+  findById(id: string, session?: ClientSession): Promise<T | null>;
   findOne(filter: FilterQuery<T>): Promise<T | null>;
   find(filter: FilterQuery<T>, options?: QueryOptions): Promise<T[]>;
   findWithPagination(
     filter: FilterQuery<T>,
     paginationOptions: PaginationOptions
   ): Promise<PaginatedResponse<T>>;
-  update(id: string, data: UpdateQuery<T>): Promise<T | null>;
+  update(id: string, data: UpdateQuery<T>, session?: ClientSession): Promise<T | null>;
   delete(id: string): Promise<boolean>;
   deleteMany(filter: FilterQuery<T>): Promise<number>;
   count(filter: FilterQuery<T>): Promise<number>;
@@ -24,13 +24,13 @@ export abstract class BaseRepository<T extends Document> implements IBaseReposit
     this.model = model;
   }
 
-  async create(data: any): Promise<T> {
+  async create(data: any, session?: ClientSession): Promise<T> {
     const document = new this.model(data);
-    return await document.save();
+    return await document.save({ session });
   }
 
-  async findById(id: string): Promise<T | null> {
-    return await this.model.findById(id);
+  async findById(id: string, session?: ClientSession): Promise<T | null> {
+    return await this.model.findById(id).session(session || null);
   }
 
   async findOne(filter: FilterQuery<T>): Promise<T | null> {
@@ -71,10 +71,11 @@ export abstract class BaseRepository<T extends Document> implements IBaseReposit
     };
   }
 
-  async update(id: string, data: UpdateQuery<T>): Promise<T | null> {
+  async update(id: string, data: UpdateQuery<T>, session?: ClientSession): Promise<T | null> {
     return await this.model.findByIdAndUpdate(id, data, {
       new: true,
       runValidators: true,
+      session,
     });
   }
 
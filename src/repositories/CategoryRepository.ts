@@ -0,0 +1,69 @@
+import { ClientSession, Types } from 'mongoose';
+import { BaseRepository } from './BaseRepository';
+import { Category } from '../models/Category';
+import { ICategoryDocument } from '../types';
+
+export interface ICategoryRepository extends BaseRepository<ICategoryDocument> {
+  findBySlug(slug: string, session?: ClientSession): Promise<ICategoryDocument | null>;
+  findActive(): Promise<ICategoryDocument[]>;
+  findChildren(parentId: string, session?: ClientSession): Promise<ICategoryDocument[]>;
+  findDescendants(categoryId: string, session?: ClientSession): Promise<ICategoryDocument[]>;
+  getSubtreeIds(categoryId: string): Promise<string[]>;
+  setAncestors(
+    categoryId: string,
+    parentId: Types.ObjectId | null,
+    ancestors: Types.ObjectId[],
+    session?: ClientSession
+  ): Promise<ICategoryDocument | null>;
+}
+
+export class CategoryRepository
+  extends BaseRepository<ICategoryDocument>
+  implements ICategoryRepository
+{
+  constructor() {
+    super(Category);
+  }
+
+  async findBySlug(slug: string, session?: ClientSession): Promise<ICategoryDocument | null> {
+    return await this.model.findOne({ slug: slug.toLowerCase() }).session(session || null);
+  }
+
+  async findActive(): Promise<ICategoryDocument[]> {
+    return await this.model.find({ isActive: true }).sort({ name: 1 });
+  }
+
+  async findChildren(parentId: string, session?: ClientSession): Promise<ICategoryDocument[]> {
+    return await this.model
+      .find({ parentId, isActive: true })
+      .sort({ name: 1 })
+      .session(session || null);
+  }
+
+  async findDescendants(categoryId: string, session?: ClientSession): Promise<ICategoryDocument[]> {
+    return await this.model
+      .find({ ancestors: categoryId, isActive: true })
+      .session(session || null);
+  }
+
+  // The category itself and every active category below it
+  async getSubtreeIds(categoryId: string): Promise<string[]> {
+    const descendants = await this.model
+      .find({ ancestors: categoryId, isActive: true })
+      .select('_id');
+    return [categoryId, ...descendants.map(category => category._id.toString())];
+  }
+
+  async setAncestors(
+    categoryId: string,
+    parentId: Types.ObjectId | null,
+    ancestors: Types.ObjectId[],
+    session?: ClientSession
+  ): Promise<ICategoryDocument | null> {
+    return await this.model.findByIdAndUpdate(
+      categoryId,
+      { $set: { parentId, ancestors } },
+      { new: true, session }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { ClientSession } from 'mongoose';
+import { BaseRepository } from './BaseRepository';
+import { CostLayer } from '../models/CostLayer';
+import { ICostLayerDocument } from '../types';
+
+export interface ICostLayerRepository extends BaseRepository<ICostLayerDocument> {
+  findOpenLayers(productId: string, session?: ClientSession): Promise<ICostLayerDocument[]>;
+  getRemainingQuantity(productId: string, session?: ClientSession): Promise<number>;
+  consume(
+    layerId: string,
+    quantity: number,
+    session?: ClientSession
+  ): Promise<ICostLayerDocument | null>;
+}
+
+export class CostLayerRepository
+  extends BaseRepository<ICostLayerDocument>
+  implements ICostLayerRepository
+{
+  constructor() {
+    super(CostLayer);
+  }
+
+  // Oldest first, the order FIFO consumes them in
+  async findOpenLayers(productId: string, session?: ClientSession): Promise<ICostLayerDocument[]> {
+    return await this.model
+      .find({ productId, quantityRemaining: { $gt: 0 } })
+      .sort({ createdAt: 1, _id: 1 })
+      .session(session || null);
+  }
+
+  async getRemainingQuantity(productId: string, session?: ClientSession): Promise<number> {
+    const layers = await this.findOpenLayers(productId, session);
+    return layers.reduce((sum, layer) => sum + layer.quantityRemaining, 0);
+  }
+
+  async consume(
+    layerId: string,
+    quantity: number,
+    session?: ClientSession
+  ): Promise<ICostLayerDocument | null> {
+    return await this.model.findOneAndUpdate(
+      { _id: layerId, quantityRemaining: { $gte: quantity } },
+      { $inc: { quantityRemaining: -quantity } },
+      { new: true, session }
+    );
+  }
+}
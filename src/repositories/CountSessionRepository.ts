@@ -0,0 +1,65 @@
+import { FilterQuery } from 'mongoose';
+import { BaseRepository } from './BaseRepository';
+import { CountSession } from '../models/CountSession';
+import {
+  CountSessionQuery,
+  CountSessionStatus,
+  ICountSessionDocument,
+  PaginatedResponse,
+} from '../types';
+
+export interface ICountSessionRepository extends BaseRepository<ICountSessionDocument> {
+  searchCountSessions(query: CountSessionQuery): Promise<PaginatedResponse<ICountSessionDocument>>;
+  findOpenForProducts(
+    productIds: string[],
+    locationId?: string
+  ): Promise<ICountSessionDocument | null>;
+}
+
+export class CountSessionRepository
+  extends BaseRepository<ICountSessionDocument>
+  implements ICountSessionRepository
+{
+  constructor() {
+    super(CountSession);
+  }
+
+  async searchCountSessions(
+    query: CountSessionQuery
+  ): Promise<PaginatedResponse<ICountSessionDocument>> {
+    const { status, locationId, productId, page = 1, limit = 10 } = query;
+
+    const filter: FilterQuery<ICountSessionDocument> = {};
+
+    if (status) {
+      filter.status = status;
+    }
+
+    if (locationId) {
+      filter.locationId = locationId;
+    }
+
+    if (productId) {
+      filter['lines.productId'] = productId;
+    }
+
+    return await this.findWithPagination(filter, {
+      page,
+      limit,
+      sortBy: 'createdAt',
+      sortOrder: 'desc',
+    });
+  }
+
+  // Open session already counting any of the products at the same location
+  async findOpenForProducts(
+    productIds: string[],
+    locationId?: string
+  ): Promise<ICountSessionDocument | null> {
+    return await this.model.findOne({
+      status: CountSessionStatus.OPEN,
+      locationId: locationId || null,
+      'lines.productId': { $in: productIds },
+    });
+  }
+}
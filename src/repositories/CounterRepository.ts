@@ -0,0 +1,33 @@
+import { ClientSession } from 'mongoose';
+import { BaseRepository } from './BaseRepository';
+import { Counter } from '../models/Counter';
+import { ICounterDocument } from '../types';
+
+export interface ICounterRepository extends BaseRepository<ICounterDocument> {
+  nextSequence(name: string, session?: ClientSession): Promise<number>;
+  nextNumber(name: string, prefix: string, session?: ClientSession): Promise<string>;
+}
+
+export class CounterRepository
+  extends BaseRepository<ICounterDocument>
+  implements ICounterRepository
+{
+  constructor() {
+    super(Counter);
+  }
+
+  async nextSequence(name: string, session?: ClientSession): Promise<number> {
+    const counter = await this.model.findByIdAndUpdate(
+      name,
+      { $inc: { seq: 1 } },
+      { new: true, upsert: true, session }
+    );
+    return counter.seq;
+  }
+
+  // Formats the next value of a counter as e.g. TRF-000042
+  async nextNumber(name: string, prefix: string, session?: ClientSession): Promise<string> {
+    const seq = await this.nextSequence(name, session);
+    return `${prefix}-${String(seq).padStart(6, '0')}`;
+  }
+}
@@ -0,0 +1,95 @@
+import { FilterQuery } from 'mongoose';
+import { BaseRepository } from './BaseRepository';
+import { ImportJob } from '../models/ImportJob';
+import { IImportJobDocument, ImportJobStatus, ImportRowError, PaginatedResponse } from '../types';
+
+// Row errors kept on a job; the counts still cover every failed row
+const MAX_STORED_ERRORS = 1000;
+
+export interface IImportJobRepository extends BaseRepository<IImportJobDocument> {
+  findWithRows(importJobId: string): Promise<IImportJobDocument | null>;
+  findForUser(
+    userId: string | undefined,
+    page: number,
+    limit: number
+  ): Promise<PaginatedResponse<IImportJobDocument>>;
+  recordProgress(
+    importJobId: string,
+    counts: Pick<
+      IImportJobDocument,
+      'processedRows' | 'createdCount' | 'updatedCount' | 'failedCount'
+    >,
+    rowErrors: ImportRowError[]
+  ): Promise<void>;
+  finish(importJobId: string, status: ImportJobStatus): Promise<IImportJobDocument | null>;
+  failInterrupted(): Promise<number>;
+}
+
+export class ImportJobRepository
+  extends BaseRepository<IImportJobDocument>
+  implements IImportJobRepository
+{
+  constructor() {
+    super(ImportJob);
+  }
+
+  async findWithRows(importJobId: string): Promise<IImportJobDocument | null> {
+    return await this.model.findById(importJobId).select('+rows');
+  }
+
+  async findForUser(
+    userId: string | undefined,
+    page: number,
+    limit: number
+  ): Promise<PaginatedResponse<IImportJobDocument>> {
+    const filter: FilterQuery<IImportJobDocument> = {};
+    if (userId) {
+      filter.userId = userId;
+    }
+
+    return await this.findWithPagination(filter, {
+      page,
+      limit,
+      sortBy: 'createdAt',
+      sortOrder: 'desc',
+    });
+  }
+
+  async recordProgress(
+    importJobId: string,
+    counts: Pick<
+      IImportJobDocument,
+      'processedRows' | 'createdCount' | 'updatedCount' | 'failedCount'
+    >,
+    rowErrors: ImportRowError[]
+  ): Promise<void> {
+    await this.model.updateOne(
+      { _id: importJobId },
+      {
+        $set: counts,
+        $push: { rowErrors: { $each: rowErrors, $slice: MAX_STORED_ERRORS } },
+      }
+    );
+  }
+
+  // Marks the job done and drops the rows it no longer needs
+  async finish(importJobId: string, status: ImportJobStatus): Promise<IImportJobDocument | null> {
+    return await this.model.findByIdAndUpdate(
+      importJobId,
+      { $set: { status, completedAt: new Date(), rows: [] } },
+      { new: true }
+    );
+  }
+
+  // Jobs cut off by a restart are not resumed
+  async failInterrupted(): Promise<number> {
+    const result = await this.model.updateMany(
+      { status: { $in: [ImportJobStatus.PENDING, ImportJobStatus.RUNNING] } },
+      {
+        $set: { status: ImportJobStatus.FAILED, completedAt: new Date(), rows: [] },
+        $push: { rowErrors: { row: 0, message: 'Import was interrupted by a server restart' } },
+      }
+    );
+    return result.modifiedCount;
+  }
+}
@@ -0,0 +1,25 @@
+import { BaseRepository } from './BaseRepository';
+import { Location } from '../models/Location';
+import { ILocationDocument } from '../types';
+
+export interface ILocationRepository extends BaseRepository<ILocationDocument> {
+  findByCode(code: string): Promise<ILocationDocument | null>;
+  findActive(): Promise<ILocationDocument[]>;
+}
+
+export class LocationRepository
+  extends BaseRepository<ILocationDocument>
+  implements ILocationRepository
+{
+  constructor() {
+    super(Location);
+  }
+
+  async findByCode(code: string): Promise<ILocationDocument | null> {
+    return await this.model.findOne({ code: code.toUpperCase() });
+  }
+
+  async findActive(): Promise<ILocationDocument[]> {
+    return await this.model.find({ isActive: true }).sort({ name: 1 });
+  }
+}
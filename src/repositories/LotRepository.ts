@@ -0,0 +1,118 @@
+import { ClientSession } from 'mongoose';
+import { BaseRepository } from './BaseRepository';
+import { Lot } from '../models/Lot';
+import { ILotDocument } from '../types';
+
+export interface ILotRepository extends BaseRepository<ILotDocument> {
+  findByProduct(productId: string): Promise<ILotDocument[]>;
+  findByLotNumber(
+    productId: string,
+    lotNumber: string,
+    session?: ClientSession
+  ): Promise<ILotDocument | null>;
+  findConsumable(productId: string, asOf: Date, session?: ClientSession): Promise<ILotDocument[]>;
+  findExpiring(cutoff: Date, productIds?: string[]): Promise<ILotDocument[]>;
+  findNewlyExpired(asOf: Date, limit?: number): Promise<ILotDocument[]>;
+  getTotalQuantity(productId: string, session?: ClientSession): Promise<number>;
+  changeQuantity(
+    lotId: string,
+    delta: number,
+    session?: ClientSession
+  ): Promise<ILotDocument | null>;
+  markExpired(lotId: string, session?: ClientSession): Promise<ILotDocument | null>;
+}
+
+export class LotRepository extends BaseRepository<ILotDocument> implements ILotRepository {
+  constructor() {
+    super(Lot);
+  }
+
+  async findByProduct(productId: string): Promise<ILotDocument[]> {
+    return await this.model.find({ productId }).sort({ expiryDate: 1, createdAt: 1 });
+  }
+
+  async findByLotNumber(
+    productId: string,
+    lotNumber: string,
+    session?: ClientSession
+  ): Promise<ILotDocument | null> {
+    return await this.model
+      .findOne({ productId, lotNumber: lotNumber.trim().toUpperCase() })
+      .session(session || null);
+  }
+
+  // Unexpired lots with stock left, in first-expired-first-out order. Lots without
+  // an expiry date come last.
+  async findConsumable(
+    productId: string,
+    asOf: Date,
+    session?: ClientSession
+  ): Promise<ILotDocument[]> {
+    const lots = await this.model
+      .find({
+        productId,
+        isExpired: false,
+        quantity: { $gt: 0 },
+        $or: [{ expiryDate: { $gt: asOf } }, { expiryDate: null }],
+      })
+      .sort({ createdAt: 1 })
+      .session(session || null);
+
+    return lots.sort((a, b) => {
+      if (!a.expiryDate) return b.expiryDate ? 1 : 0;
+      if (!b.expiryDate) return -1;
+      return a.expiryDate.getTime() - b.expiryDate.getTime();
+    });
+  }
+
+  // Lots with stock left that expire on or before the cutoff (including expired ones)
+  async findExpiring(cutoff: Date, productIds?: string[]): Promise<ILotDocument[]> {
+    const filter: any = { quantity: { $gt: 0 }, expiryDate: { $lte: cutoff } };
+    if (productIds) {
+      filter.productId = { $in: productIds };
+    }
+
+    return await this.model
+      .find(filter)
+      .sort({ expiryDate: 1 })
+      .populate('productId', 'name sku category');
+  }
+
+  async findNewlyExpired(asOf: Date, limit: number = 100): Promise<ILotDocument[]> {
+    return await this.model
+      .find({ isExpired: false, expiryDate: { $lte: asOf } })
+      .sort({ expiryDate: 1 })
+      .limit(limit);
+  }
+
+  async getTotalQuantity(productId: string, session?: ClientSession): Promise<number> {
+    const lots = await this.model.find({ productId }).session(session || null);
+    return lots.reduce((sum, lot) => sum + lot.quantity, 0);
+  }
+
+  // Adds or removes stock from a lot; removal fails (null) if the lot has too little
+  async changeQuantity(
+    lotId: string,
+    delta: number,
+    session?: ClientSession
+  ): Promise<ILotDocument | null> {
+    const update: any = { $inc: { quantity: delta } };
+    if (delta > 0) {
+      update.$inc.receivedQuantity = delta;
+    }
+
+    return await this.model.findOneAndUpdate(
+      { _id: lotId, quantity: { $gte: delta < 0 ? -delta : 0 } },
+      update,
+      { new: true, session }
+    );
+  }
+
+  async markExpired(lotId: string, session?: ClientSession): Promise<ILotDocument | null> {
+    return await this.model.findOneAndUpdate(
+      { _id: lotId, isExpired: false },
+      { isExpired: true },
+      { new: true, session }
+    );
+  }
+}
@@ -1,17 +1,113 @@
-import { FilterQuery } from 'mongoose';
+import { ClientSession, FilterQuery, Cursor, Error as MongooseError, Types } from 'mongoose';
 import { BaseRepository } from './BaseRepository';
 import { Product } from '../models/Product';
-import { IProductDocument, ProductQuery, PaginatedResponse } from '../types';
+import { StockLevel } from '../models/StockLevel';
+import { ProductSupplier } from '../models/ProductSupplier';
+import { CostLayer } from '../models/CostLayer';
+import {
+  CategoryStats,
+  IProductDocument,
+  ProductQuery,
+  PaginatedResponse,
+  PaginationOptions,
+  VariantSummary,
+} from '../types';
+
+// Documents fetched per round trip when streaming products
+const STREAM_BATCH_SIZE = 500;
+
+// Units counted in quantity that cannot be used: reserved, expired and in transit
+const UNAVAILABLE_QUANTITY = {
+  $add: [
+    { $ifNull: ['$reservedQuantity', 0] },
+    { $ifNull: ['$expiredQuantity', 0] },
+    { $ifNull: ['$inTransitQuantity', 0] },
+  ],
+};
+
+// Stock that can be used, computed like the availableQuantity virtual
+const availableQuantity = (quantity: string) => ({
+  $max: [0, { $subtract: [quantity, UNAVAILABLE_QUANTITY] }],
+});
 
 export interface IProductRepository extends BaseRepository<IProductDocument> {
   findBySku(sku: string): Promise<IProductDocument | null>;
+  findByBarcode(barcode: string): Promise<IProductDocument | null>;
+  findByCodes(codes: string[]): Promise<IProductDocument[]>;
   findByUserId(userId: string): Promise<IProductDocument[]>;
-  findByCategory(category: string): Promise<IProductDocument[]>;
-  findLowStock(userId?: string): Promise<IProductDocument[]>;
+  findByCategoryIds(categoryIds: string[]): Promise<IProductDocument[]>;
+  findLowStock(
+    userId?: string,
+    locationId?: string,
+    categoryIds?: string[]
+  ): Promise<IProductDocument[]>;
   searchProducts(query: ProductQuery): Promise<PaginatedResponse<IProductDocument>>;
-  updateStock(productId: string, quantity: number): Promise<IProductDocument | null>;
-  getCategories(): Promise<string[]>;
-  getTotalValue(userId?: string): Promise<number>;
+  streamProducts(query: ProductQuery): Promise<Cursor<IProductDocument, any>>;
+  updateStock(
+    productId: string,
+    quantity: number,
+    session?: ClientSession
+  ): Promise<IProductDocument | null>;
+  updateReservedQuantity(
+    productId: string,
+    delta: number,
+    session?: ClientSession
+  ): Promise<IProductDocument | null>;
+  updateExpiredQuantity(
+    productId: string,
+    delta: number,
+    session?: ClientSession
+  ): Promise<IProductDocument | null>;
+  updateInTransitQuantity(
+    productId: string,
+    delta: number,
+    session?: ClientSession
+  ): Promise<IProductDocument | null>;
+  updateQuarantinedQuantity(
+    productId: string,
+    delta: number,
+    session?: ClientSession
+  ): Promise<IProductDocument | null>;
+  getQuarantinedQuantity(userId?: string, categoryIds?: string[]): Promise<number>;
+  updateCosting(
+    productId: string,
+    averageCost: number,
+    valueChange: number,
+    session?: ClientSession
+  ): Promise<IProductDocument | null>;
+  getTotalValue(userId?: string, locationId?: string, categoryIds?: string[]): Promise<number>;
+  countStocked(
+    userId?: string,
+    locationId?: string,
+    outOfStockOnly?: boolean,
+    categoryIds?: string[]
+  ): Promise<number>;
+  findWithoutCostLayers(): Promise<string[]>;
+  findUnlinkedCategories(): Promise<string[]>;
+  linkCategory(
+    legacyName: string,
+    categoryId: string,
+    name: string,
+    session?: ClientSession
+  ): Promise<number>;
+  reassignCategory(
+    fromCategoryId: string,
+    toCategoryId: string,
+    name: string,
+    session?: ClientSession
+  ): Promise<number>;
+  renameCategory(categoryId: string, name: string, session?: ClientSession): Promise<number>;
+  getCategoryTotals(
+    userId?: string
+  ): Promise<Array<CategoryStats & { categoryId: Types.ObjectId | null }>>;
+  findVariants(parentId: string): Promise<IProductDocument[]>;
+  findDeletedVariants(parentId: string): Promise<IProductDocument[]>;
+  findDeleted(
+    userId: string | undefined,
+    paginationOptions: PaginationOptions
+  ): Promise<PaginatedResponse<IProductDocument>>;
+  convertLegacyImages(): Promise<number>;
+  getVariantSummary(parentId: string): Promise<VariantSummary>;
 }
 
 export class ProductRepository
@@ -26,38 +122,448 @@ export class ProductRepository
     return await this.model.findOne({ sku: sku.toUpperCase() });
   }
 
+  async findByBarcode(barcode: string): Promise<IProductDocument | null> {
+    return await this.model.findOne({ barcode });
+  }
+
+  // Products, deleted or not, whose barcode, SKU or one of whose alternate codes is
+  // among the codes
+  async findByCodes(codes: string[]): Promise<IProductDocument[]> {
+    if (codes.length === 0) {
+      return [];
+    }
+
+    return await this.model.find({
+      $or: [
+        { barcode: { $in: codes } },
+        { sku: { $in: codes.map(code => code.toUpperCase()) } },
+        { alternateCodes: { $in: codes } },
+      ],
+    });
+  }
+
   async findByUserId(userId: string): Promise<IProductDocument[]> {
     return await this.model.find({ userId, isActive: true });
   }
 
-  async findByCategory(category: string): Promise<IProductDocument[]> {
-    return await this.model.find({ category, isActive: true });
+  async findByCategoryIds(categoryIds: string[]): Promise<IProductDocument[]> {
+    return await this.model.find({ categoryId: { $in: categoryIds }, isActive: true });
   }
 
-  async findLowStock(userId?: string): Promise<IProductDocument[]> {
-    const matchConditions: any = { isActive: true };
+  async findLowStock(
+    userId?: string,
+    locationId?: string,
+    categoryIds?: string[]
+  ): Promise<IProductDocument[]> {
+    // Variant parents hold no stock, so only their variants can run low
+    const matchConditions: any = {
+      isActive: true,
+      hasVariants: { $ne: true },
+      ...this.categoryMatch(categoryIds),
+    };
     if (userId) {
-      matchConditions.userId = userId;
+      matchConditions.userId = new Types.ObjectId(userId);
     }
 
     return await this.model.aggregate([
       { $match: matchConditions },
-      { $addFields: { isLowStock: { $lte: ['$quantity', '$minStockLevel'] } } },
+      ...this.locationStockStages(locationId),
+      ...this.availableStockStages(locationId),
+      { $addFields: { isLowStock: { $lte: ['$availableQuantity', '$minStockLevel'] } } },
       { $match: { isLowStock: true } },
     ]);
   }
 
   async searchProducts(query: ProductQuery): Promise<PaginatedResponse<IProductDocument>> {
+    const { page = 1, limit = 10, sortBy = 'createdAt', sortOrder = 'desc' } = query;
+
+    return await this.findWithPagination(await this.buildSearchFilter(query), {
+      page,
+      limit,
+      sortBy,
+      sortOrder,
+    });
+  }
+
+  // Every product matching the search filters, read in batches rather than pages
+  async streamProducts(query: ProductQuery): Promise<Cursor<IProductDocument, any>> {
+    const { sortBy = 'createdAt', sortOrder = 'desc' } = query;
+    const direction = sortOrder === 'asc' ? 1 : -1;
+
+    return this.model
+      .find(await this.buildSearchFilter(query))
+      .sort({ [sortBy]: direction, _id: direction })
+      .batchSize(STREAM_BATCH_SIZE)
+      .cursor();
+  }
+
+  async updateStock(
+    productId: string,
+    quantity: number,
+    session?: ClientSession
+  ): Promise<IProductDocument | null> {
+    return await this.model.findByIdAndUpdate(
+      productId,
+      { quantity },
+      { new: true, runValidators: true, session }
+    );
+  }
+
+  // Atomically changes the reserved quantity. Reserving requires enough available
+  // (unreserved, unexpired, not in transit) stock and releasing cannot take the
+  // reserved quantity below zero; null is returned when the guard fails.
+  async updateReservedQuantity(
+    productId: string,
+    delta: number,
+    session?: ClientSession
+  ): Promise<IProductDocument | null> {
+    const guard =
+      delta > 0
+        ? {
+            $expr: {
+              $gte: [{ $subtract: ['$quantity', UNAVAILABLE_QUANTITY] }, delta],
+            },
+          }
+        : { reservedQuantity: { $gte: -delta } };
+
+    return await this.model.findOneAndUpdate(
+      { _id: productId, ...guard },
+      { $inc: { reservedQuantity: delta } },
+      { new: true, session }
+    );
+  }
+
+  async updateExpiredQuantity(
+    productId: string,
+    delta: number,
+    session?: ClientSession
+  ): Promise<IProductDocument | null> {
+    return await this.model.findByIdAndUpdate(
+      productId,
+      { $inc: { expiredQuantity: delta } },
+      { new: true, session }
+    );
+  }
+
+  async updateInTransitQuantity(
+    productId: string,
+    delta: number,
+    session?: ClientSession
+  ): Promise<IProductDocument | null> {
+    return await this.model.findByIdAndUpdate(
+      productId,
+      { $inc: { inTransitQuantity: delta } },
+      { new: true, session }
+    );
+  }
+
+  // Atomically changes the quarantined quantity; null is returned when a release would
+  // take it below zero
+  async updateQuarantinedQuantity(
+    productId: string,
+    delta: number,
+    session?: ClientSession
+  ): Promise<IProductDocument | null> {
+    const guard = delta < 0 ? { quarantinedQuantity: { $gte: -delta } } : {};
+
+    return await this.model.findOneAndUpdate(
+      { _id: productId, ...guard },
+      { $inc: { quarantinedQuantity: delta } },
+      { new: true, session }
+    );
+  }
+
+  async getQuarantinedQuantity(userId?: string, categoryIds?: string[]): Promise<number> {
+    const matchConditions: any = { isActive: true, ...this.categoryMatch(categoryIds) };
+    if (userId) {
+      matchConditions.userId = new Types.ObjectId(userId);
+    }
+
+    const result = await this.model.aggregate([
+      { $match: matchConditions },
+      { $group: { _id: null, quarantined: { $sum: '$quarantinedQuantity' } } },
+    ]);
+
+    return result.length > 0 ? result[0].quarantined : 0;
+  }
+
+  async updateCosting(
+    productId: string,
+    averageCost: number,
+    valueChange: number,
+    session?: ClientSession
+  ): Promise<IProductDocument | null> {
+    return await this.model.findByIdAndUpdate(
+      productId,
+      { $set: { averageCost }, $inc: { inventoryValue: valueChange } },
+      { new: true, session }
+    );
+  }
+
+  // Book value of the stock at cost. The per-unit book value is taken before the location
+  // stages replace quantity, so per-location values use the product's unit cost.
+  async getTotalValue(
+    userId?: string,
+    locationId?: string,
+    categoryIds?: string[]
+  ): Promise<number> {
+    const matchConditions: any = { isActive: true, ...this.categoryMatch(categoryIds) };
+    if (userId) {
+      matchConditions.userId = new Types.ObjectId(userId);
+    }
+
+    const result = await this.model.aggregate([
+      { $match: matchConditions },
+      {
+        $addFields: {
+          unitValue: {
+            $cond: [
+              { $gt: ['$quantity', 0] },
+              { $divide: [{ $ifNull: ['$inventoryValue', 0] }, '$quantity'] },
+              0,
+            ],
+          },
+        },
+      },
+      ...this.locationStockStages(locationId),
+      {
+        $group: {
+          _id: null,
+          totalValue: {
+            $sum: { $multiply: ['$unitValue', '$quantity'] },
+          },
+        },
+      },
+    ]);
+
+    return result.length > 0 ? result[0].totalValue : 0;
+  }
+
+  async countStocked(
+    userId?: string,
+    locationId?: string,
+    outOfStockOnly: boolean = false,
+    categoryIds?: string[]
+  ): Promise<number> {
+    const matchConditions: any = {
+      isActive: true,
+      hasVariants: { $ne: true },
+      ...this.categoryMatch(categoryIds),
+    };
+    if (userId) {
+      matchConditions.userId = new Types.ObjectId(userId);
+    }
+
+    const result = await this.model.aggregate([
+      { $match: matchConditions },
+      ...this.locationStockStages(locationId),
+      ...(outOfStockOnly
+        ? [...this.availableStockStages(locationId), { $match: { availableQuantity: 0 } }]
+        : []),
+      { $count: 'count' },
+    ]);
+
+    return result.length > 0 ? result[0].count : 0;
+  }
+
+  async findVariants(parentId: string): Promise<IProductDocument[]> {
+    return await this.model.find({ parentId, isActive: true }).sort({ sku: 1 });
+  }
+
+  async findDeletedVariants(parentId: string): Promise<IProductDocument[]> {
+    return await this.model.find({ parentId, isActive: false }).sort({ sku: 1 });
+  }
+
+  // Soft-deleted products, leaving out variants whose parent is deleted too; those
+  // come back with their parent
+  async findDeleted(
+    userId: string | undefined,
+    paginationOptions: PaginationOptions
+  ): Promise<PaginatedResponse<IProductDocument>> {
+    const owner = userId ? { userId } : {};
+    const deletedParents = await this.model.distinct('_id', {
+      ...owner,
+      isActive: false,
+      hasVariants: true,
+    });
+
+    return await this.findWithPagination(
+      { ...owner, isActive: false, parentId: { $nin: deletedParents } },
+      paginationOptions
+    );
+  }
+
+  async getVariantSummary(parentId: string): Promise<VariantSummary> {
+    const result = await this.model.aggregate([
+      { $match: { parentId: new Types.ObjectId(parentId), isActive: true } },
+      {
+        $addFields: {
+          available: availableQuantity('$quantity'),
+        },
+      },
+      {
+        $group: {
+          _id: null,
+          variantCount: { $sum: 1 },
+          quantity: { $sum: '$quantity' },
+          reservedQuantity: { $sum: { $ifNull: ['$reservedQuantity', 0] } },
+          availableQuantity: { $sum: '$available' },
+          inventoryValue: { $sum: { $ifNull: ['$inventoryValue', 0] } },
+          minPrice: { $min: '$price' },
+          maxPrice: { $max: '$price' },
+          lowStockCount: {
+            $sum: { $cond: [{ $lte: ['$available', '$minStockLevel'] }, 1, 0] },
+          },
+          outOfStockCount: { $sum: { $cond: [{ $eq: ['$available', 0] }, 1, 0] } },
+        },
+      },
+      { $project: { _id: 0 } },
+    ]);
+
+    return result.length > 0
+      ? result[0]
+      : {
+          variantCount: 0,
+          quantity: 0,
+          reservedQuantity: 0,
+          availableQuantity: 0,
+          inventoryValue: 0,
+          minPrice: null,
+          maxPrice: null,
+          lowStockCount: 0,
+          outOfStockCount: 0,
+        };
+  }
+
+  // Ids of products holding stock that has never been costed (booked before cost layers
+  // were recorded)
+  async findWithoutCostLayers(): Promise<string[]> {
+    const products = await this.model.aggregate([
+      { $match: { quantity: { $gt: 0 } } },
+      {
+        $lookup: {
+          from: CostLayer.collection.name,
+          let: { productId: '$_id' },
+          pipeline: [
+            { $match: { $expr: { $eq: ['$productId', '$$productId'] } } },
+            { $limit: 1 },
+            { $project: { _id: 1 } },
+          ],
+          as: 'costLayers',
+        },
+      },
+      { $match: { costLayers: { $size: 0 } } },
+      { $project: { _id: 1 } },
+    ]);
+
+    return products.map(product => product._id.toString());
+  }
+
+  // Category strings of products not yet linked to a Category
+  async findUnlinkedCategories(): Promise<string[]> {
+    return await this.model.distinct('category', { categoryId: null });
+  }
+
+  async linkCategory(
+    legacyName: string,
+    categoryId: string,
+    name: string,
+    session?: ClientSession
+  ): Promise<number> {
+    const result = await this.model.updateMany(
+      { category: legacyName, categoryId: null },
+      { $set: { categoryId, category: name } },
+      { session }
+    );
+    return result.modifiedCount;
+  }
+
+  async reassignCategory(
+    fromCategoryId: string,
+    toCategoryId: string,
+    name: string,
+    session?: ClientSession
+  ): Promise<number> {
+    const result = await this.model.updateMany(
+      { categoryId: fromCategoryId },
+      { $set: { categoryId: toCategoryId, category: name } },
+      { session }
+    );
+    return result.modifiedCount;
+  }
+
+  async renameCategory(categoryId: string, name: string, session?: ClientSession): Promise<number> {
+    const result = await this.model.updateMany(
+      { categoryId },
+      { $set: { category: name } },
+      { session }
+    );
+    return result.modifiedCount;
+  }
+
+  // Products, quantity and stock value held directly in each category
+  async getCategoryTotals(
+    userId?: string
+  ): Promise<Array<CategoryStats & { categoryId: Types.ObjectId | null }>> {
+    const matchConditions: any = { isActive: true, hasVariants: { $ne: true } };
+    if (userId) {
+      matchConditions.userId = new Types.ObjectId(userId);
+    }
+
+    return await this.model.aggregate([
+      { $match: matchConditions },
+      {
+        $group: {
+          _id: '$categoryId',
+          productCount: { $sum: 1 },
+          totalQuantity: { $sum: '$quantity' },
+          totalValue: { $sum: { $ifNull: ['$inventoryValue', 0] } },
+        },
+      },
+      {
+        $project: {
+          _id: 0,
+          categoryId: '$_id',
+          productCount: 1,
+          totalQuantity: 1,
+          totalValue: 1,
+        },
+      },
+    ]);
+  }
+
+  // Images used to be stored as plain URL strings; turns them into image entries.
+  // Runs on the raw collection because the old values no longer fit the schema.
+  async convertLegacyImages(): Promise<number> {
+    const collection = this.model.collection;
+    const legacy = await collection
+      .find({ images: { $type: 'string' } }, { projection: { images: 1 } })
+      .toArray();
+
+    for (const product of legacy) {
+      const images = (product.images as unknown[]).map(image =>
+        typeof image === 'string' ? { _id: new Types.ObjectId(), url: image } : image
+      );
+      await collection.updateOne({ _id: product._id }, { $set: { images } });
+    }
+
+    return legacy.length;
+  }
+
+  // Aggregations do not cast ids, so category filters are converted up front
+  private async buildSearchFilter(query: ProductQuery): Promise<FilterQuery<IProductDocument>> {
     const {
       search,
       category,
+      categoryIds,
       minPrice,
       maxPrice,
       inStock,
-      page = 1,
-      limit = 10,
-      sortBy = 'createdAt',
-      sortOrder = 'desc',
+      locationId,
+      supplierId,
+      variantView = 'parents',
+      parentId,
+      attributeFilters = [],
     } = query;
 
     // Build filter query
@@ -71,7 +577,9 @@ export class ProductRepository
       ];
     }
 
-    if (category) {
+    if (categoryIds) {
+      filter.categoryId = { $in: categoryIds };
+    } else if (category) {
       filter.category = category;
     }
 
@@ -81,53 +589,136 @@ export class ProductRepository
       if (maxPrice !== undefined) filter.price.$lte = maxPrice;
     }
 
-    if (inStock !== undefined) {
-      if (inStock) {
-        filter.quantity = { $gt: 0 };
-      } else {
-        filter.quantity = { $eq: 0 };
+    // Attribute keys are checked against the category definitions by the service
+    for (const { key, values, min, max } of attributeFilters) {
+      const condition: any = {};
+      if (values) condition.$in = values;
+      if (min !== undefined) condition.$gte = min;
+      if (max !== undefined) condition.$lte = max;
+      filter[`attributes.${key}`] = condition;
+    }
+
+    if (parentId) {
+      filter.parentId = parentId;
+    } else if (variantView === 'variants') {
+      filter.hasVariants = { $ne: true };
+    } else {
+      filter.parentId = null;
+    }
+
+    const productIdFilters: FilterQuery<IProductDocument>[] = [];
+    if (locationId) {
+      // Restrict to products stocked at the location, evaluating inStock there
+      const levelFilter: any = { locationId };
+      if (inStock !== undefined) {
+        levelFilter.quantity = inStock ? { $gt: 0 } : { $eq: 0 };
       }
+      const stockedIds = await StockLevel.distinct('productId', levelFilter);
+      productIdFilters.push({
+        _id: { $in: [...stockedIds, ...(await this.findParentIds({ _id: { $in: stockedIds } }))] },
+      });
+    } else if (inStock !== undefined) {
+      // Parents are in stock when any of their variants is
+      const stockedParentIds = await this.findParentIds({ quantity: { $gt: 0 } });
+      productIdFilters.push({
+        $or: inStock
+          ? [
+              { hasVariants: { $ne: true }, quantity: { $gt: 0 } },
+              { _id: { $in: stockedParentIds } },
+            ]
+          : [
+              { hasVariants: { $ne: true }, quantity: { $eq: 0 } },
+              { hasVariants: true, _id: { $nin: stockedParentIds } },
+            ],
+      });
     }
 
-    return await this.findWithPagination(filter, {
-      page,
-      limit,
-      sortBy,
-      sortOrder,
-    });
+    if (supplierId) {
+      // Restrict to products the supplier provides
+      productIdFilters.push({
+        _id: { $in: await ProductSupplier.distinct('productId', { supplierId }) },
+      });
+    }
+
+    if (productIdFilters.length > 0) {
+      filter.$and = productIdFilters;
+    }
+
+    return filter;
   }
 
-  async updateStock(productId: string, quantity: number): Promise<IProductDocument | null> {
-    return await this.model.findByIdAndUpdate(
-      productId,
-      { quantity },
-      { new: true, runValidators: true }
-    );
+  private categoryMatch(categoryIds?: string[]): any {
+    if (!categoryIds) {
+      return {};
+    }
+    return { categoryId: { $in: categoryIds.map(id => new Types.ObjectId(id)) } };
   }
 
-  async getCategories(): Promise<string[]> {
-    const categories = await this.model.distinct('category', { isActive: true });
-    return categories.sort();
+  // Parents of the active variants matching the filter
+  private async findParentIds(filter: FilterQuery<IProductDocument>): Promise<Types.ObjectId[]> {
+    return await this.model.distinct('parentId', {
+      ...filter,
+      isActive: true,
+      parentId: { $ne: null },
+    });
   }
 
-  async getTotalValue(userId?: string): Promise<number> {
-    const matchConditions: any = { isActive: true };
-    if (userId) {
-      matchConditions.userId = userId;
+  // Replace quantity/minStockLevel with the values held at a location so the
+  // downstream stock stages evaluate per location. Products without a stock
+  // record at the location are dropped.
+  private locationStockStages(locationId?: string): any[] {
+    if (!locationId) {
+      return [];
+    }
+    // Reported like any other malformed id instead of failing inside the pipeline
+    if (!Types.ObjectId.isValid(locationId)) {
+      throw new MongooseError.CastError('ObjectId', locationId, 'locationId');
     }
 
-    const result = await this.model.aggregate([
-      { $match: matchConditions },
+    return [
       {
-        $group: {
-          _id: null,
-          totalValue: {
-            $sum: { $multiply: ['$price', '$quantity'] },
-          },
+        $lookup: {
+          from: StockLevel.collection.name,
+          let: { productId: '$_id' },
+          pipeline: [
+            {
+              $match: {
+                $expr: {
+                  $and: [
+                    { $eq: ['$productId', '$$productId'] },
+                    { $eq: ['$locationId', new Types.ObjectId(locationId)] },
+                  ],
+                },
+              },
+            },
+          ],
+          as: 'stockLevel',
         },
       },
-    ]);
+      { $unwind: '$stockLevel' },
+      {
+        $addFields: {
+          totalQuantity: '$quantity',
+          quantity: '$stockLevel.quantity',
+          minStockLevel: { $ifNull: ['$stockLevel.minStockLevel', '$minStockLevel'] },
+          locationId: '$stockLevel.locationId',
+        },
+      },
+      { $project: { stockLevel: 0 } },
+    ];
+  }
 
-    return result.length > 0 ? result[0].totalValue : 0;
+  // Adds availableQuantity. Reserved, expired and in-transit units are tracked for the
+  // product as a whole, so at a location it is capped by what the product has available.
+  private availableStockStages(locationId?: string): any[] {
+    return [
+      {
+        $addFields: {
+          availableQuantity: locationId
+            ? { $min: ['$quantity', availableQuantity('$totalQuantity')] }
+            : availableQuantity('$quantity'),
+        },
+      },
+    ];
   }
 }
@@ -0,0 +1,94 @@
+import { ClientSession } from 'mongoose';
+import { BaseRepository } from './BaseRepository';
+import { ProductSupplier } from '../models/ProductSupplier';
+import { IProductSupplierDocument, ProductSupplierRequest } from '../types';
+
+export interface IProductSupplierRepository extends BaseRepository<IProductSupplierDocument> {
+  findByProduct(productId: string): Promise<IProductSupplierDocument[]>;
+  findBySupplier(supplierId: string): Promise<IProductSupplierDocument[]>;
+  findPreferred(productId: string): Promise<IProductSupplierDocument | null>;
+  findLink(productId: string, supplierId: string): Promise<IProductSupplierDocument | null>;
+  findPreferredForProducts(productIds: string[]): Promise<IProductSupplierDocument[]>;
+  upsertLink(
+    productId: string,
+    supplierId: string,
+    terms: ProductSupplierRequest,
+    session?: ClientSession
+  ): Promise<IProductSupplierDocument | null>;
+  clearPreferred(
+    productId: string,
+    exceptSupplierId: string,
+    session?: ClientSession
+  ): Promise<number>;
+  removeLink(productId: string, supplierId: string): Promise<boolean>;
+}
+
+export class ProductSupplierRepository
+  extends BaseRepository<IProductSupplierDocument>
+  implements IProductSupplierRepository
+{
+  constructor() {
+    super(ProductSupplier);
+  }
+
+  async findByProduct(productId: string): Promise<IProductSupplierDocument[]> {
+    return await this.model
+      .find({ productId })
+      .populate('supplierId', 'name code leadTimeDays currency isActive')
+      .sort({ isPreferred: -1, unitCost: 1 });
+  }
+
+  async findBySupplier(supplierId: string): Promise<IProductSupplierDocument[]> {
+    return await this.model
+      .find({ supplierId })
+      .populate('productId', 'name sku category quantity isActive');
+  }
+
+  async findPreferred(productId: string): Promise<IProductSupplierDocument | null> {
+    return await this.model.findOne({ productId, isPreferred: true });
+  }
+
+  async findPreferredForProducts(productIds: string[]): Promise<IProductSupplierDocument[]> {
+    return await this.model
+      .find({ productId: { $in: productIds }, isPreferred: true })
+      .populate('supplierId', 'name code leadTimeDays currency isActive');
+  }
+
+  async findLink(productId: string, supplierId: string): Promise<IProductSupplierDocument | null> {
+    return await this.model.findOne({ productId, supplierId });
+  }
+
+  async upsertLink(
+    productId: string,
+    supplierId: string,
+    terms: ProductSupplierRequest,
+    session?: ClientSession
+  ): Promise<IProductSupplierDocument | null> {
+    return await this.model.findOneAndUpdate({ productId, supplierId }, terms, {
+      new: true,
+      upsert: true,
+      runValidators: true,
+      setDefaultsOnInsert: true,
+      session,
+    });
+  }
+
+  // A product has at most one preferred supplier
+  async clearPreferred(
+    productId: string,
+    exceptSupplierId: string,
+    session?: ClientSession
+  ): Promise<number> {
+    const result = await this.model.updateMany(
+      { productId, supplierId: { $ne: exceptSupplierId }, isPreferred: true },
+      { isPreferred: false },
+      { session }
+    );
+    return result.modifiedCount;
+  }
+
+  async removeLink(productId: string, supplierId: string): Promise<boolean> {
+    const result = await this.model.findOneAndDelete({ productId, supplierId });
+    return result !== null;
+  }
+}
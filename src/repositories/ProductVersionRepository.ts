@@ -0,0 +1,69 @@
+import { ClientSession } from 'mongoose';
+import { BaseRepository } from './BaseRepository';
+import { ProductVersion } from '../models/ProductVersion';
+import { IProductVersionDocument, PaginatedResponse, PaginationOptions } from '../types';
+
+export interface IProductVersionRepository extends BaseRepository<IProductVersionDocument> {
+  findByProduct(
+    productId: string,
+    paginationOptions: PaginationOptions
+  ): Promise<PaginatedResponse<IProductVersionDocument>>;
+  findVersion(productId: string, version: number): Promise<IProductVersionDocument | null>;
+  findLatest(productId: string, session?: ClientSession): Promise<IProductVersionDocument | null>;
+}
+
+export class ProductVersionRepository
+  extends BaseRepository<IProductVersionDocument>
+  implements IProductVersionRepository
+{
+  constructor() {
+    super(ProductVersion);
+  }
+
+  // Versions newest first by default, without their snapshots
+  async findByProduct(
+    productId: string,
+    paginationOptions: PaginationOptions
+  ): Promise<PaginatedResponse<IProductVersionDocument>> {
+    const { page, limit, sortOrder = 'desc' } = paginationOptions;
+    const filter = { productId };
+
+    const [data, total] = await Promise.all([
+      this.model
+        .find(filter)
+        .select('-snapshot')
+        .sort({ version: sortOrder === 'asc' ? 1 : -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      this.model.countDocuments(filter),
+    ]);
+
+    const pages = Math.ceil(total / limit);
+
+    return {
+      data,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages,
+        hasNext: page < pages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  async findVersion(productId: string, version: number): Promise<IProductVersionDocument | null> {
+    return await this.model.findOne({ productId, version });
+  }
+
+  async findLatest(
+    productId: string,
+    session?: ClientSession
+  ): Promise<IProductVersionDocument | null> {
+    return await this.model
+      .findOne({ productId })
+      .sort({ version: -1 })
+      .session(session || null);
+  }
+}
@@ -0,0 +1,82 @@
+import { FilterQuery, Types } from 'mongoose';
+import { BaseRepository } from './BaseRepository';
+import { PurchaseOrder } from '../models/PurchaseOrder';
+import {
+  IPurchaseOrderDocument,
+  PaginatedResponse,
+  PurchaseOrderQuery,
+  PurchaseOrderStatus,
+} from '../types';
+
+// Orders whose outstanding units are still expected to arrive
+const OPEN_STATUSES = [
+  PurchaseOrderStatus.DRAFT,
+  PurchaseOrderStatus.SUBMITTED,
+  PurchaseOrderStatus.PARTIALLY_RECEIVED,
+];
+
+export interface IPurchaseOrderRepository extends BaseRepository<IPurchaseOrderDocument> {
+  searchPurchaseOrders(
+    query: PurchaseOrderQuery
+  ): Promise<PaginatedResponse<IPurchaseOrderDocument>>;
+  getOnOrderQuantities(productIds: string[]): Promise<Map<string, number>>;
+}
+
+export class PurchaseOrderRepository
+  extends BaseRepository<IPurchaseOrderDocument>
+  implements IPurchaseOrderRepository
+{
+  constructor() {
+    super(PurchaseOrder);
+  }
+
+  async searchPurchaseOrders(
+    query: PurchaseOrderQuery
+  ): Promise<PaginatedResponse<IPurchaseOrderDocument>> {
+    const { status, supplierId, productId, page = 1, limit = 10 } = query;
+
+    const filter: FilterQuery<IPurchaseOrderDocument> = {};
+
+    if (status) {
+      filter.status = status;
+    }
+
+    if (supplierId) {
+      filter.supplierId = supplierId;
+    }
+
+    if (productId) {
+      filter['lines.productId'] = productId;
+    }
+
+    return await this.findWithPagination(filter, {
+      page,
+      limit,
+      sortBy: 'createdAt',
+      sortOrder: 'desc',
+    });
+  }
+
+  // Outstanding units per product across open purchase orders
+  async getOnOrderQuantities(productIds: string[]): Promise<Map<string, number>> {
+    const objectIds = productIds.map(id => new Types.ObjectId(id));
+
+    const totals = await this.model.aggregate([
+      { $match: { status: { $in: OPEN_STATUSES }, 'lines.productId': { $in: objectIds } } },
+      { $unwind: '$lines' },
+      { $match: { 'lines.productId': { $in: objectIds } } },
+      {
+        $group: {
+          _id: '$lines.productId',
+          onOrder: {
+            $sum: {
+              $max: [0, { $subtract: ['$lines.quantityOrdered', '$lines.quantityReceived'] }],
+            },
+          },
+        },
+      },
+    ]);
+
+    return new Map(totals.map(total => [total._id.toString(), total.onOrder]));
+  }
+}
@@ -0,0 +1,61 @@
+import { ClientSession } from 'mongoose';
+import { BaseRepository } from './BaseRepository';
+import { Reservation } from '../models/Reservation';
+import { IReservationDocument, ReservationStatus } from '../types';
+
+export interface IReservationRepository extends BaseRepository<IReservationDocument> {
+  findActiveByProduct(productId: string): Promise<IReservationDocument[]>;
+  findExpired(asOf: Date, limit?: number): Promise<IReservationDocument[]>;
+  transitionStatus(
+    reservationId: string,
+    from: ReservationStatus,
+    to: ReservationStatus,
+    filter?: Record<string, any>,
+    session?: ClientSession
+  ): Promise<IReservationDocument | null>;
+}
+
+export class ReservationRepository
+  extends BaseRepository<IReservationDocument>
+  implements IReservationRepository
+{
+  constructor() {
+    super(Reservation);
+  }
+
+  async findActiveByProduct(productId: string): Promise<IReservationDocument[]> {
+    return await this.model
+      .find({ productId, status: ReservationStatus.ACTIVE })
+      .sort({ expiresAt: 1 });
+  }
+
+  async findExpired(asOf: Date, limit: number = 100): Promise<IReservationDocument[]> {
+    return await this.model
+      .find({ status: ReservationStatus.ACTIVE, expiresAt: { $lte: asOf } })
+      .sort({ expiresAt: 1 })
+      .limit(limit);
+  }
+
+  // Moves a reservation between states only if it is still in the expected state,
+  // so a reservation can never be released, committed or expired twice
+  async transitionStatus(
+    reservationId: string,
+    from: ReservationStatus,
+    to: ReservationStatus,
+    filter: Record<string, any> = {},
+    session?: ClientSession
+  ): Promise<IReservationDocument | null> {
+    const timestamps: Record<string, Date> = {};
+    if (to === ReservationStatus.COMMITTED) {
+      timestamps.committedAt = new Date();
+    } else if (to !== ReservationStatus.ACTIVE) {
+      timestamps.releasedAt = new Date();
+    }
+
+    return await this.model.findOneAndUpdate(
+      { ...filter, _id: reservationId, status: from },
+      { status: to, ...timestamps },
+      { new: true, session }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { FilterQuery } from 'mongoose';
+import { BaseRepository } from './BaseRepository';
+import { Rma } from '../models/Rma';
+import { IRmaDocument, PaginatedResponse, RmaQuery } from '../types';
+
+export interface IRmaRepository extends BaseRepository<IRmaDocument> {
+  searchRmas(query: RmaQuery): Promise<PaginatedResponse<IRmaDocument>>;
+}
+
+export class RmaRepository extends BaseRepository<IRmaDocument> implements IRmaRepository {
+  constructor() {
+    super(Rma);
+  }
+
+  async searchRmas(query: RmaQuery): Promise<PaginatedResponse<IRmaDocument>> {
+    const { status, orderNumber, productId, page = 1, limit = 10 } = query;
+
+    const filter: FilterQuery<IRmaDocument> = {};
+
+    if (status) {
+      filter.status = status;
+    }
+
+    if (orderNumber) {
+      filter.orderNumber = orderNumber;
+    }
+
+    if (productId) {
+      filter['lines.productId'] = productId;
+    }
+
+    return await this.findWithPagination(filter, {
+      page,
+      limit,
+      sortBy: 'createdAt',
+      sortOrder: 'desc',
+    });
+  }
+}
@@ -0,0 +1,50 @@
+import { FilterQuery } from 'mongoose';
+import { BaseRepository } from './BaseRepository';
+import { SalesOrder } from '../models/SalesOrder';
+import { ISalesOrderDocument, PaginatedResponse, SalesOrderQuery } from '../types';
+
+export interface ISalesOrderRepository extends BaseRepository<ISalesOrderDocument> {
+  searchSalesOrders(query: SalesOrderQuery): Promise<PaginatedResponse<ISalesOrderDocument>>;
+}
+
+export class SalesOrderRepository
+  extends BaseRepository<ISalesOrderDocument>
+  implements ISalesOrderRepository
+{
+  constructor() {
+    super(SalesOrder);
+  }
+
+  async searchSalesOrders(query: SalesOrderQuery): Promise<PaginatedResponse<ISalesOrderDocument>> {
+    const { userId, status, customer, productId, page = 1, limit = 10 } = query;
+
+    const filter: FilterQuery<ISalesOrderDocument> = {};
+
+    if (userId) {
+      filter.userId = userId;
+    }
+
+    if (status) {
+      filter.status = status;
+    }
+
+    if (customer) {
+      filter.$or = [
+        { 'customer.name': { $regex: customer, $options: 'i' } },
+        { 'customer.email': { $regex: customer, $options: 'i' } },
+        { 'customer.externalId': customer },
+      ];
+    }
+
+    if (productId) {
+      filter['lines.productId'] = productId;
+    }
+
+    return await this.findWithPagination(filter, {
+      page,
+      limit,
+      sortBy: 'createdAt',
+      sortOrder: 'desc',
+    });
+  }
+}
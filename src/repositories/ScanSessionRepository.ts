@@ -0,0 +1,40 @@
+import { FilterQuery } from 'mongoose';
+import { BaseRepository } from './BaseRepository';
+import { ScanSession } from '../models/ScanSession';
+import { IScanSessionDocument, PaginatedResponse, ScanSessionQuery } from '../types';
+
+export interface IScanSessionRepository extends BaseRepository<IScanSessionDocument> {
+  searchScanSessions(query: ScanSessionQuery): Promise<PaginatedResponse<IScanSessionDocument>>;
+}
+
+export class ScanSessionRepository
+  extends BaseRepository<IScanSessionDocument>
+  implements IScanSessionRepository
+{
+  constructor() {
+    super(ScanSession);
+  }
+
+  async searchScanSessions(
+    query: ScanSessionQuery
+  ): Promise<PaginatedResponse<IScanSessionDocument>> {
+    const { userId, locationId, page = 1, limit = 10 } = query;
+
+    const filter: FilterQuery<IScanSessionDocument> = {};
+
+    if (userId) {
+      filter.userId = userId;
+    }
+
+    if (locationId) {
+      filter.locationId = locationId;
+    }
+
+    return await this.findWithPagination(filter, {
+      page,
+      limit,
+      sortBy: 'createdAt',
+      sortOrder: 'desc',
+    });
+  }
+}
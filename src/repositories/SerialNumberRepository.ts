@@ -0,0 +1,87 @@
+import { ClientSession } from 'mongoose';
+import { BaseRepository } from './BaseRepository';
+import { SerialNumber } from '../models/SerialNumber';
+import { ISerialEvent, ISerialNumberDocument, SerialStatus } from '../types';
+
+export interface ISerialNumberRepository extends BaseRepository<ISerialNumberDocument> {
+  findBySerial(serial: string): Promise<ISerialNumberDocument[]>;
+  findByProduct(productId: string, status?: SerialStatus): Promise<ISerialNumberDocument[]>;
+  findByProductAndSerials(
+    productId: string,
+    serials: string[],
+    session?: ClientSession
+  ): Promise<ISerialNumberDocument[]>;
+  countByStatus(
+    productId: string,
+    statuses: SerialStatus[],
+    session?: ClientSession
+  ): Promise<number>;
+  transitionStatus(
+    serialId: string,
+    from: SerialStatus[],
+    event: ISerialEvent,
+    session?: ClientSession
+  ): Promise<ISerialNumberDocument | null>;
+}
+
+export class SerialNumberRepository
+  extends BaseRepository<ISerialNumberDocument>
+  implements ISerialNumberRepository
+{
+  constructor() {
+    super(SerialNumber);
+  }
+
+  async findBySerial(serial: string): Promise<ISerialNumberDocument[]> {
+    return await this.model
+      .find({ serial: serial.trim().toUpperCase() })
+      .populate('productId', 'name sku category userId')
+      .populate('locationId', 'name code')
+      .populate('history.userId', 'firstName lastName email');
+  }
+
+  async findByProduct(productId: string, status?: SerialStatus): Promise<ISerialNumberDocument[]> {
+    const filter: any = { productId };
+    if (status) {
+      filter.status = status;
+    }
+    return await this.model.find(filter).sort({ serial: 1 });
+  }
+
+  async findByProductAndSerials(
+    productId: string,
+    serials: string[],
+    session?: ClientSession
+  ): Promise<ISerialNumberDocument[]> {
+    return await this.model.find({ productId, serial: { $in: serials } }).session(session || null);
+  }
+
+  async countByStatus(
+    productId: string,
+    statuses: SerialStatus[],
+    session?: ClientSession
+  ): Promise<number> {
+    return await this.model
+      .countDocuments({ productId, status: { $in: statuses } })
+      .session(session || null);
+  }
+
+  // Moves a unit to the event's status and appends the event to its history, only
+  // if the unit is still in one of the expected states
+  async transitionStatus(
+    serialId: string,
+    from: SerialStatus[],
+    event: ISerialEvent,
+    session?: ClientSession
+  ): Promise<ISerialNumberDocument | null> {
+    const update: any = { $set: { status: event.status }, $push: { history: event } };
+    if (event.locationId) {
+      update.$set.locationId = event.locationId;
+    }
+
+    return await this.model.findOneAndUpdate({ _id: serialId, status: { $in: from } }, update, {
+      new: true,
+      session,
+    });
+  }
+}
@@ -0,0 +1,93 @@
+import { ClientSession } from 'mongoose';
+import { BaseRepository } from './BaseRepository';
+import { StockLevel } from '../models/StockLevel';
+import { IStockLevelDocument } from '../types';
+
+export interface IStockLevelRepository extends BaseRepository<IStockLevelDocument> {
+  findByProduct(productId: string): Promise<IStockLevelDocument[]>;
+  findByLocation(locationId: string): Promise<IStockLevelDocument[]>;
+  findByProductAndLocation(
+    productId: string,
+    locationId: string,
+    session?: ClientSession
+  ): Promise<IStockLevelDocument | null>;
+  setQuantity(
+    productId: string,
+    locationId: string,
+    quantity: number,
+    session?: ClientSession
+  ): Promise<IStockLevelDocument | null>;
+  setMinStockLevel(
+    productId: string,
+    locationId: string,
+    minStockLevel: number | null
+  ): Promise<IStockLevelDocument | null>;
+  getAllocatedQuantity(productId: string, session?: ClientSession): Promise<number>;
+  getLocationQuantity(locationId: string): Promise<number>;
+}
+
+export class StockLevelRepository
+  extends BaseRepository<IStockLevelDocument>
+  implements IStockLevelRepository
+{
+  constructor() {
+    super(StockLevel);
+  }
+
+  async findByProduct(productId: string): Promise<IStockLevelDocument[]> {
+    return await this.model
+      .find({ productId })
+      .populate('locationId', 'name code type isActive')
+      .populate('productId', 'minStockLevel');
+  }
+
+  async findByLocation(locationId: string): Promise<IStockLevelDocument[]> {
+    return await this.model
+      .find({ locationId })
+      .populate('productId', 'name sku category price minStockLevel isActive');
+  }
+
+  async findByProductAndLocation(
+    productId: string,
+    locationId: string,
+    session?: ClientSession
+  ): Promise<IStockLevelDocument | null> {
+    return await this.model.findOne({ productId, locationId }).session(session || null);
+  }
+
+  async setQuantity(
+    productId: string,
+    locationId: string,
+    quantity: number,
+    session?: ClientSession
+  ): Promise<IStockLevelDocument | null> {
+    return await this.model.findOneAndUpdate(
+      { productId, locationId },
+      { quantity },
+      { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true, session }
+    );
+  }
+
+  async setMinStockLevel(
+    productId: string,
+    locationId: string,
+    minStockLevel: number | null
+  ): Promise<IStockLevelDocument | null> {
+    return await this.model.findOneAndUpdate(
+      { productId, locationId },
+      { minStockLevel },
+      { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+    );
+  }
+
+  // Sum of the product's stock that is assigned to a location
+  async getAllocatedQuantity(productId: string, session?: ClientSession): Promise<number> {
+    const levels = await this.model.find({ productId }).session(session || null);
+    return levels.reduce((sum, level) => sum + level.quantity, 0);
+  }
+
+  async getLocationQuantity(locationId: string): Promise<number> {
+    const levels = await this.model.find({ locationId });
+    return levels.reduce((sum, level) => sum + level.quantity, 0);
+  }
+}
@@ -0,0 +1,187 @@
+import { ClientSession, Types } from 'mongoose';
+import { BaseRepository } from './BaseRepository';
+import { StockMovement } from '../models/StockMovement';
+import { Product } from '../models/Product';
+import {
+  CogsCategory,
+  IStockMovementDocument,
+  ValuationCategory,
+  PaginationOptions,
+  PaginatedResponse,
+  StockMovementReason,
+} from '../types';
+
+export interface IStockMovementRepository extends BaseRepository<IStockMovementDocument> {
+  findByProduct(
+    productId: string,
+    paginationOptions: PaginationOptions
+  ): Promise<PaginatedResponse<IStockMovementDocument>>;
+  findLatestByProduct(
+    productId: string,
+    session?: ClientSession
+  ): Promise<IStockMovementDocument | null>;
+  getConsumption(
+    productIds: string[],
+    since: Date,
+    reasons: StockMovementReason[]
+  ): Promise<Map<string, number>>;
+  getValuationByCategory(asOf: Date): Promise<ValuationCategory[]>;
+  getCogsByCategory(
+    from: Date,
+    to: Date,
+    salesReasons: StockMovementReason[],
+    excludedReasons?: StockMovementReason[]
+  ): Promise<CogsCategory[]>;
+}
+
+export class StockMovementRepository
+  extends BaseRepository<IStockMovementDocument>
+  implements IStockMovementRepository
+{
+  constructor() {
+    super(StockMovement);
+  }
+
+  async findByProduct(
+    productId: string,
+    paginationOptions: PaginationOptions
+  ): Promise<PaginatedResponse<IStockMovementDocument>> {
+    return await this.findWithPagination({ productId }, paginationOptions);
+  }
+
+  // The product's most recent movement, whose quantityAfter is its balance on the ledger
+  async findLatestByProduct(
+    productId: string,
+    session?: ClientSession
+  ): Promise<IStockMovementDocument | null> {
+    return await this.model
+      .findOne({ productId })
+      .sort({ createdAt: -1, _id: -1 })
+      .session(session || null);
+  }
+
+  // Units taken out of stock per product since the given date for the given reasons
+  async getConsumption(
+    productIds: string[],
+    since: Date,
+    reasons: StockMovementReason[]
+  ): Promise<Map<string, number>> {
+    const totals = await this.model.aggregate([
+      {
+        $match: {
+          productId: { $in: productIds.map(id => new Types.ObjectId(id)) },
+          reason: { $in: reasons },
+          quantityChange: { $lt: 0 },
+          createdAt: { $gte: since },
+        },
+      },
+      { $group: { _id: '$productId', consumed: { $sum: { $multiply: ['$quantityChange', -1] } } } },
+    ]);
+
+    return new Map(totals.map(total => [total._id.toString(), total.consumed]));
+  }
+
+  // Replays the ledger up to asOf: each product's quantity is the balance after its last
+  // movement and its value the sum of the value changes booked so far
+  async getValuationByCategory(asOf: Date): Promise<ValuationCategory[]> {
+    return await this.model.aggregate([
+      { $match: { createdAt: { $lte: asOf } } },
+      { $sort: { createdAt: 1, _id: 1 } },
+      {
+        $group: {
+          _id: '$productId',
+          quantity: { $last: '$quantityAfter' },
+          value: { $sum: { $ifNull: ['$valueChange', 0] } },
+        },
+      },
+      { $match: { $or: [{ quantity: { $ne: 0 } }, { value: { $ne: 0 } }] } },
+      ...this.categoryStages(),
+      {
+        $group: {
+          _id: '$category',
+          quantity: { $sum: '$quantity' },
+          value: { $sum: '$value' },
+          productCount: { $sum: 1 },
+        },
+      },
+      {
+        $project: {
+          _id: 0,
+          category: '$_id',
+          quantity: 1,
+          value: { $round: ['$value', 2] },
+          productCount: 1,
+        },
+      },
+      { $sort: { category: 1 } },
+    ]);
+  }
+
+  // Cost of the units sold in the period, with other decrements reported as write-offs
+  async getCogsByCategory(
+    from: Date,
+    to: Date,
+    salesReasons: StockMovementReason[],
+    excludedReasons: StockMovementReason[] = []
+  ): Promise<CogsCategory[]> {
+    return await this.model.aggregate([
+      {
+        $match: {
+          createdAt: { $gte: from, $lte: to },
+          costOfGoods: { $gt: 0 },
+          reason: { $nin: excludedReasons },
+        },
+      },
+      {
+        $addFields: {
+          isSale: { $in: ['$reason', salesReasons] },
+        },
+      },
+      {
+        $group: {
+          _id: '$productId',
+          quantitySold: {
+            $sum: { $cond: ['$isSale', { $multiply: ['$quantityChange', -1] }, 0] },
+          },
+          costOfGoods: { $sum: { $cond: ['$isSale', '$costOfGoods', 0] } },
+          writeOffCost: { $sum: { $cond: ['$isSale', 0, '$costOfGoods'] } },
+        },
+      },
+      ...this.categoryStages(),
+      {
+        $group: {
+          _id: '$category',
+          quantitySold: { $sum: '$quantitySold' },
+          costOfGoods: { $sum: '$costOfGoods' },
+          writeOffCost: { $sum: '$writeOffCost' },
+        },
+      },
+      {
+        $project: {
+          _id: 0,
+          category: '$_id',
+          quantitySold: 1,
+          costOfGoods: { $round: ['$costOfGoods', 2] },
+          writeOffCost: { $round: ['$writeOffCost', 2] },
+        },
+      },
+      { $sort: { category: 1 } },
+    ]);
+  }
+
+  // Attaches the category of the product grouped under _id
+  private categoryStages(): any[] {
+    return [
+      {
+        $lookup: {
+          from: Product.collection.name,
+          localField: '_id',
+          foreignField: '_id',
+          as: 'product',
+        },
+      },
+      { $unwind: '$product' },
+      { $addFields: { category: '$product.category' } },
+    ];
+  }
+}
@@ -0,0 +1,47 @@
+import { FilterQuery } from 'mongoose';
+import { BaseRepository } from './BaseRepository';
+import { Supplier } from '../models/Supplier';
+import { ISupplierDocument, PaginatedResponse, SupplierQuery } from '../types';
+
+export interface ISupplierRepository extends BaseRepository<ISupplierDocument> {
+  findByCode(code: string): Promise<ISupplierDocument | null>;
+  searchSuppliers(query: SupplierQuery): Promise<PaginatedResponse<ISupplierDocument>>;
+}
+
+export class SupplierRepository
+  extends BaseRepository<ISupplierDocument>
+  implements ISupplierRepository
+{
+  constructor() {
+    super(Supplier);
+  }
+
+  async findByCode(code: string): Promise<ISupplierDocument | null> {
+    return await this.model.findOne({ code: code.toUpperCase() });
+  }
+
+  async searchSuppliers(query: SupplierQuery): Promise<PaginatedResponse<ISupplierDocument>> {
+    const { search, userId, page = 1, limit = 10 } = query;
+
+    const filter: FilterQuery<ISupplierDocument> = { isActive: true };
+
+    if (userId) {
+      filter.userId = userId;
+    }
+
+    if (search) {
+      filter.$or = [
+        { name: { $regex: search, $options: 'i' } },
+        { code: { $regex: search, $options: 'i' } },
+        { 'contact.name': { $regex: search, $options: 'i' } },
+      ];
+    }
+
+    return await this.findWithPagination(filter, {
+      page,
+      limit,
+      sortBy: 'name',
+      sortOrder: 'asc',
+    });
+  }
+}
@@ -0,0 +1,42 @@
+import { FilterQuery } from 'mongoose';
+import { BaseRepository } from './BaseRepository';
+import { Transfer } from '../models/Transfer';
+import { ITransferDocument, PaginatedResponse, TransferQuery } from '../types';
+
+export interface ITransferRepository extends BaseRepository<ITransferDocument> {
+  searchTransfers(query: TransferQuery): Promise<PaginatedResponse<ITransferDocument>>;
+}
+
+export class TransferRepository
+  extends BaseRepository<ITransferDocument>
+  implements ITransferRepository
+{
+  constructor() {
+    super(Transfer);
+  }
+
+  async searchTransfers(query: TransferQuery): Promise<PaginatedResponse<ITransferDocument>> {
+    const { status, locationId, productId, page = 1, limit = 10 } = query;
+
+    const filter: FilterQuery<ITransferDocument> = {};
+
+    if (status) {
+      filter.status = status;
+    }
+
+    if (locationId) {
+      filter.$or = [{ fromLocationId: locationId }, { toLocationId: locationId }];
+    }
+
+    if (productId) {
+      filter['lines.productId'] = productId;
+    }
+
+    return await this.findWithPagination(filter, {
+      page,
+      limit,
+      sortBy: 'createdAt',
+      sortOrder: 'desc',
+    });
+  }
+}
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { AuditController } from '../controllers/AuditController';
+import { authMiddleware } from '../middleware/auth';
+
+const router = Router();
+const auditController = new AuditController();
+
+// The audit log is for admins only
+router.use(authMiddleware.authenticate);
+router.use(authMiddleware.adminOnly);
+
+router.get('/', auditController.getAuditEvents);
+router.get('/export', auditController.exportAuditEvents);
+
+export default router;
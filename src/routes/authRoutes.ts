@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { AuthController } from '../controllers/AuthController';
 import { authMiddleware } from '../middleware/auth';
+import { imageUpload } from '../middleware/upload';
 
 const router = Router();
 const authController = new AuthController();
@@ -15,7 +16,10 @@ router.use(authMiddleware.authenticate); // Apply auth middleware to all routes
 router.get('/me', authController.getCurrentUser);
 router.post('/refresh', authController.refreshToken);
 router.put('/change-password', authController.changePassword);
-router.put('/profile', authController.updateProfile);
+router.put('/profile', imageUpload.single('profileImage'), authController.updateProfile);
 router.post('/logout', authController.logout);
 
+// Admin routes
+router.put('/users/:id/role', authMiddleware.adminOnly, authController.changeUserRole);
+
 export default router;
@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import { CategoryController } from '../controllers/CategoryController';
+import { authMiddleware } from '../middleware/auth';
+
+const router = Router();
+const categoryController = new CategoryController();
+
+// Apply authentication to all routes
+router.use(authMiddleware.authenticate);
+
+router.get('/', categoryController.getCategories);
+router.get('/tree', categoryController.getCategoryTree);
+router.get('/:id', categoryController.getCategoryById);
+router.get('/:id/attributes', categoryController.getAttributeDefinitions);
+
+// Managing the category tree is restricted to managers and admins
+router.post('/', authMiddleware.managerOrAdmin, categoryController.createCategory);
+router.post('/migrate', authMiddleware.adminOnly, categoryController.migrateProductCategories);
+router.put('/:id', authMiddleware.managerOrAdmin, categoryController.updateCategory);
+router.post('/:id/move', authMiddleware.managerOrAdmin, categoryController.moveCategory);
+router.post('/:id/merge', authMiddleware.managerOrAdmin, categoryController.mergeCategory);
+router.delete('/:id', authMiddleware.managerOrAdmin, categoryController.deleteCategory);
+
+// Attribute definitions change what every product in the subtree must carry
+router.put('/:id/attributes', authMiddleware.adminOnly, categoryController.setAttributeDefinitions);
+
+export default router;
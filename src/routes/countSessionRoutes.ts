@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import { CountSessionController } from '../controllers/CountSessionController';
+import { authMiddleware } from '../middleware/auth';
+
+const router = Router();
+const countSessionController = new CountSessionController();
+
+// Apply authentication to all routes
+router.use(authMiddleware.authenticate);
+
+router.get('/', countSessionController.getCountSessions);
+router.get('/:id', countSessionController.getCountSessionById);
+router.post('/:id/counts', countSessionController.submitCounts);
+
+// Opening, reviewing and booking counts is limited to managers and admins
+router.post('/', authMiddleware.managerOrAdmin, countSessionController.createCountSession);
+router.get('/:id/variances', authMiddleware.managerOrAdmin, countSessionController.getVariances);
+router.post(
+  '/:id/approve',
+  authMiddleware.managerOrAdmin,
+  countSessionController.approveCountSession
+);
+router.post(
+  '/:id/cancel',
+  authMiddleware.managerOrAdmin,
+  countSessionController.cancelCountSession
+);
+
+export default router;
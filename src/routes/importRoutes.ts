@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { ImportController } from '../controllers/ImportController';
+import { authMiddleware } from '../middleware/auth';
+import { importUpload } from '../middleware/upload';
+
+const router = Router();
+const importController = new ImportController();
+
+// Bulk imports are restricted to managers and admins
+router.use(authMiddleware.authenticate);
+router.use(authMiddleware.managerOrAdmin);
+
+router.post('/products', importUpload.single('file'), importController.importProducts);
+router.get('/', importController.getImportJobs);
+router.get('/:id', importController.getImportJobById);
+
+export default router;
@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { LabelController } from '../controllers/LabelController';
+import { authMiddleware } from '../middleware/auth';
+
+const router = Router();
+const labelController = new LabelController();
+
+// Apply authentication to all routes
+router.use(authMiddleware.authenticate);
+
+router.get('/templates', labelController.getTemplates);
+router.post('/', labelController.createLabelSheet);
+
+export default router;
@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { LocationController } from '../controllers/LocationController';
+import { authMiddleware } from '../middleware/auth';
+
+const router = Router();
+const locationController = new LocationController();
+
+// Apply authentication to all routes
+router.use(authMiddleware.authenticate);
+
+router.get('/', locationController.getLocations);
+router.get('/:id', locationController.getLocationById);
+router.get('/:id/stock', locationController.getLocationStock);
+
+// Managing locations is restricted to managers and admins
+router.post('/', authMiddleware.managerOrAdmin, locationController.createLocation);
+router.put('/:id', authMiddleware.managerOrAdmin, locationController.updateLocation);
+router.delete('/:id', authMiddleware.managerOrAdmin, locationController.deleteLocation);
+
+export default router;
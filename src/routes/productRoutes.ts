@@ -1,28 +1,95 @@
 import { Router } from 'express';
 import { ProductController } from '../controllers/ProductController';
+import { ReservationController } from '../controllers/ReservationController';
+import { SupplierController } from '../controllers/SupplierController';
+import { RmaController } from '../controllers/RmaController';
 import { authMiddleware } from '../middleware/auth';
+import { auditMiddleware } from '../middleware/audit';
+import { imageUpload, MAX_IMAGES_PER_UPLOAD } from '../middleware/upload';
 
 const router = Router();
 const productController = new ProductController();
+const reservationController = new ReservationController();
+const supplierController = new SupplierController();
+const rmaController = new RmaController();
 
 // Apply authentication to all routes
 router.use(authMiddleware.authenticate);
 
+// Admin changes to other users' products go to the audit log
+router.param('id', auditMiddleware.adminProductAction);
+
 // Product CRUD operations
 router.post('/', productController.createProduct);
 router.get('/', productController.getAllProducts);
 router.get('/my-products', productController.getUserProducts);
 router.get('/search', productController.searchProducts);
+router.get('/export', productController.exportProducts);
 router.get('/categories', productController.getCategories);
 router.get('/low-stock', productController.getLowStockProducts);
 router.get('/stats', productController.getInventoryStats);
+router.get('/expiring', productController.getExpiringLots);
+router.get('/trash', productController.getDeletedProducts);
 router.get('/category/:category', productController.getProductsByCategory);
+router.post(
+  '/bulk-stock',
+  auditMiddleware.adminBulkProductAction,
+  productController.bulkUpdateStock
+);
 router.get('/:id', productController.getProductById);
 router.put('/:id', productController.updateProduct);
 router.delete('/:id', productController.deleteProduct);
+router.post('/:id/restore', productController.restoreDeletedProduct);
+
+// Edit history
+router.get('/:id/history', productController.getProductHistory);
+router.get('/:id/history/:version', productController.getProductVersion);
+router.post('/:id/history/:version/restore', productController.restoreProductVersion);
 
 // Stock management
 router.put('/:id/stock', productController.updateStock);
 router.post('/:id/adjust-stock', productController.adjustStock);
+router.get('/:id/movements', productController.getStockMovements);
+router.get('/:id/stock-levels', productController.getStockLevels);
+router.get('/:id/lots', productController.getProductLots);
+router.get('/:id/serials', productController.getProductSerials);
+router.post('/:id/serials', productController.registerSerials);
+router.put('/:id/stock-levels/:locationId', productController.setLocationMinStockLevel);
+router.post(
+  '/:id/quarantine/release',
+  authMiddleware.managerOrAdmin,
+  rmaController.releaseQuarantine
+);
+
+// Product images
+router.post(
+  '/:id/images',
+  imageUpload.array('images', MAX_IMAGES_PER_UPLOAD),
+  productController.uploadImages
+);
+router.put('/:id/images/order', productController.reorderImages);
+router.delete('/:id/images/:imageId', productController.deleteImage);
+
+// Barcode and QR code images
+router.get('/:id/barcode', productController.getBarcodeImage);
+router.get('/:id/qrcode', productController.getQrCodeImage);
+
+// Product variants
+router.get('/:id/variants', productController.getVariants);
+router.post('/:id/variants', productController.createVariants);
+
+// Kits
+router.post('/:id/assemble', productController.assembleKit);
+
+// Stock reservations
+router.post('/:id/reservations', reservationController.createReservation);
+router.get('/:id/reservations', reservationController.getReservations);
+router.post('/:id/reservations/:reservationId/release', reservationController.releaseReservation);
+router.post('/:id/reservations/:reservationId/commit', reservationController.commitReservation);
+
+// Product suppliers
+router.get('/:id/suppliers', supplierController.getProductSuppliers);
+router.put('/:id/suppliers/:supplierId', supplierController.linkProductSupplier);
+router.delete('/:id/suppliers/:supplierId', supplierController.unlinkProductSupplier);
 
 export default router;
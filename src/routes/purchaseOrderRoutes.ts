@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { PurchaseOrderController } from '../controllers/PurchaseOrderController';
+import { authMiddleware } from '../middleware/auth';
+
+const router = Router();
+const purchaseOrderController = new PurchaseOrderController();
+
+// Purchasing commits spend and brings stock in, so it is limited to managers and admins
+router.use(authMiddleware.authenticate);
+router.use(authMiddleware.managerOrAdmin);
+
+router.post('/', purchaseOrderController.createPurchaseOrder);
+router.get('/', purchaseOrderController.getPurchaseOrders);
+router.get('/:id', purchaseOrderController.getPurchaseOrderById);
+router.put('/:id', purchaseOrderController.updatePurchaseOrder);
+router.post('/:id/submit', purchaseOrderController.submitPurchaseOrder);
+router.post('/:id/receive', purchaseOrderController.receivePurchaseOrder);
+router.post('/:id/close', purchaseOrderController.closePurchaseOrder);
+router.post('/:id/cancel', purchaseOrderController.cancelPurchaseOrder);
+
+export default router;
@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { ReplenishmentController } from '../controllers/ReplenishmentController';
+import { authMiddleware } from '../middleware/auth';
+
+const router = Router();
+const replenishmentController = new ReplenishmentController();
+
+// Apply authentication to all routes
+router.use(authMiddleware.authenticate);
+
+router.get('/suggestions', replenishmentController.getSuggestions);
+router.get('/plan', replenishmentController.getRestockPlan);
+
+// Accepting the plan raises purchase orders, which is restricted to managers and admins
+router.post(
+  '/plan/accept',
+  authMiddleware.managerOrAdmin,
+  replenishmentController.acceptRestockPlan
+);
+
+export default router;
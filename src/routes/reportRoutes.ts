@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { ReportController } from '../controllers/ReportController';
+import { authMiddleware } from '../middleware/auth';
+
+const router = Router();
+const reportController = new ReportController();
+
+// Financial reports cover all products, so they are limited to managers and admins
+router.use(authMiddleware.authenticate);
+router.use(authMiddleware.managerOrAdmin);
+
+router.get('/valuation', reportController.getValuation);
+router.get('/cogs', reportController.getCostOfGoodsSold);
+
+export default router;
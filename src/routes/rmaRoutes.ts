@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { RmaController } from '../controllers/RmaController';
+import { authMiddleware } from '../middleware/auth';
+
+const router = Router();
+const rmaController = new RmaController();
+
+// Apply authentication to all routes
+router.use(authMiddleware.authenticate);
+
+router.post('/', rmaController.createRma);
+router.get('/', rmaController.getRmas);
+router.get('/:id', rmaController.getRmaById);
+router.post('/:id/cancel', rmaController.cancelRma);
+
+// Receiving and inspecting returns changes stock, so it is limited to managers and admins
+router.post('/:id/receive', authMiddleware.managerOrAdmin, rmaController.receiveRma);
+router.post('/:id/inspect', authMiddleware.managerOrAdmin, rmaController.inspectRma);
+
+export default router;
@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { SalesOrderController } from '../controllers/SalesOrderController';
+import { authMiddleware } from '../middleware/auth';
+
+const router = Router();
+const salesOrderController = new SalesOrderController();
+
+// Apply authentication to all routes
+router.use(authMiddleware.authenticate);
+
+router.post('/', salesOrderController.createSalesOrder);
+router.get('/', salesOrderController.getSalesOrders);
+router.get('/:id', salesOrderController.getSalesOrderById);
+router.put('/:id', salesOrderController.updateSalesOrder);
+router.post('/:id/confirm', salesOrderController.confirmSalesOrder);
+router.post('/:id/cancel', salesOrderController.cancelSalesOrder);
+
+// Picking and shipping are warehouse operations, restricted to managers and admins
+router.post('/:id/pick', authMiddleware.managerOrAdmin, salesOrderController.startPicking);
+router.post('/:id/ship', authMiddleware.managerOrAdmin, salesOrderController.shipSalesOrder);
+
+export default router;
@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { ScanController } from '../controllers/ScanController';
+import { authMiddleware } from '../middleware/auth';
+
+const router = Router();
+const scanController = new ScanController();
+
+// Apply authentication to all routes
+router.use(authMiddleware.authenticate);
+
+// Scan sessions come first so "sessions" is never read as a code
+router.get('/sessions', scanController.getScanSessions);
+router.get('/sessions/:id', scanController.getScanSessionById);
+router.post('/sessions', scanController.createScanSession);
+
+router.get('/:code', scanController.lookupCode);
+
+export default router;
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { SerialController } from '../controllers/SerialController';
+import { authMiddleware } from '../middleware/auth';
+
+const router = Router();
+const serialController = new SerialController();
+
+// Apply authentication to all routes
+router.use(authMiddleware.authenticate);
+
+router.get('/:serial', serialController.lookupSerial);
+
+export default router;
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { SupplierController } from '../controllers/SupplierController';
+import { authMiddleware } from '../middleware/auth';
+
+const router = Router();
+const supplierController = new SupplierController();
+
+// Apply authentication to all routes
+router.use(authMiddleware.authenticate);
+
+// Supplier CRUD operations
+router.post('/', supplierController.createSupplier);
+router.get('/', supplierController.getSuppliers);
+router.get('/:id', supplierController.getSupplierById);
+router.put('/:id', supplierController.updateSupplier);
+router.delete('/:id', supplierController.deleteSupplier);
+router.get('/:id/products', supplierController.getSupplierProducts);
+
+export default router;
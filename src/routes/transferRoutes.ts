@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { TransferController } from '../controllers/TransferController';
+import { authMiddleware } from '../middleware/auth';
+
+const router = Router();
+const transferController = new TransferController();
+
+// Transfers move stock between locations, so they are limited to managers and admins
+router.use(authMiddleware.authenticate);
+router.use(authMiddleware.managerOrAdmin);
+
+router.post('/', transferController.createTransfer);
+router.get('/', transferController.getTransfers);
+router.get('/:id', transferController.getTransferById);
+router.post('/:id/ship', transferController.shipTransfer);
+router.post('/:id/receive', transferController.receiveTransfer);
+router.post('/:id/cancel', transferController.cancelTransfer);
+
+export default router;
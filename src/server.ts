@@ -4,6 +4,14 @@ dotenv.config();
 
 import app from './app';
 import database from './config/database';
+import reservationSweeper from './jobs/ReservationSweeper';
+import lotExpiryJob from './jobs/LotExpiryJob';
+import auditRetentionJob from './jobs/AuditRetentionJob';
+import { CategoryService } from './services/CategoryService';
+import { ProductService } from './services/ProductService';
+import { ProductImportService } from './services/ProductImportService';
+import { AuditService } from './services/AuditService';
+import { CostingService } from './services/CostingService';
 
 class Server {
   private port: number;
@@ -17,6 +25,43 @@ class Server {
   private async initializeDatabase(): Promise<void> {
     try {
       await database.connect();
+
+      // Link products created before the category tree existed
+      const migration = await new CategoryService().migrateProductCategories();
+      if (migration.productsLinked > 0) {
+        console.log(
+          `🗂️ Linked ${migration.productsLinked} products to ${migration.categoriesCreated} new categories`
+        );
+      }
+
+      // Open cost layers for stock booked before costing was recorded
+      const openingLayers = await new CostingService().seedOpeningLayers();
+      if (openingLayers > 0) {
+        console.log(`💰 Opened cost layers for the stock of ${openingLayers} products`);
+      }
+
+      // Convert product images stored as plain URLs
+      const convertedImages = await new ProductService().convertLegacyImages();
+      if (convertedImages > 0) {
+        console.log(`🖼️ Converted images of ${convertedImages} products`);
+      }
+
+      // Imports cut off by a restart cannot resume; mark them failed
+      const interruptedImports = await new ProductImportService().failInterruptedImports();
+      if (interruptedImports > 0) {
+        console.log(`📥 Marked ${interruptedImports} interrupted imports as failed`);
+      }
+
+      // The retention job first runs a full interval after start; purge expired audit
+      // events now so restarts never postpone it
+      const expiredAuditEvents = await new AuditService().purgeExpiredEvents();
+      if (expiredAuditEvents > 0) {
+        console.log(`🧾 Removed ${expiredAuditEvents} expired audit events`);
+      }
+
+      reservationSweeper.start();
+      lotExpiryJob.start();
+      auditRetentionJob.start();
     } catch (error) {
       console.error('Failed to initialize database:', error);
       process.exit(1);
@@ -33,6 +78,9 @@ class Server {
     // Graceful shutdown
     const gracefulShutdown = async (signal: string) => {
       console.log(`\n⚠️ Received ${signal}. Shutting down gracefully...`);
+      reservationSweeper.stop();
+      lotExpiryJob.stop();
+      auditRetentionJob.stop();
 
       server.close(async () => {
         console.log('🔌 HTTP server closed');
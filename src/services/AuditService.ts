@@ -0,0 +1,223 @@
+import { Types } from 'mongoose';
+import { AuditEventRepository } from '../repositories/AuditEventRepository';
+import { ProductRepository } from '../repositories/ProductRepository';
+import {
+  AuditAction,
+  AuditContext,
+  AuditEventInput,
+  AuditOutcome,
+  AuditQuery,
+  ExportRecord,
+  IAuditEventDocument,
+  PaginatedResponse,
+  UserRole,
+} from '../types';
+
+export const AUDIT_EXPORT_COLUMNS = [
+  'id',
+  'createdAt',
+  'action',
+  'outcome',
+  'actorId',
+  'actorEmail',
+  'actorRole',
+  'ip',
+  'userAgent',
+  'targetType',
+  'targetId',
+  'targetLabel',
+  'targetOwnerId',
+  'message',
+  'details',
+];
+
+// Kept when AUDIT_RETENTION_DAYS is not set
+const DEFAULT_RETENTION_DAYS = 365;
+
+const MAX_USER_AGENT_LENGTH = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Request behind an admin product action
+export interface AuditedRequest {
+  method: string;
+  path: string;
+  statusCode: number;
+}
+
+// Workflow step behind an admin product action, such as a scan session or a shipment
+export interface AuditedOperation {
+  operation: string;
+  reference?: string;
+}
+
+export class AuditService {
+  private auditEventRepository: AuditEventRepository;
+  private productRepository: ProductRepository;
+
+  constructor() {
+    this.auditEventRepository = new AuditEventRepository();
+    this.productRepository = new ProductRepository();
+  }
+
+  // Days events are kept for; 0 keeps them forever
+  static retentionDays(value: unknown = process.env.AUDIT_RETENTION_DAYS): number {
+    if (value === undefined || value === '') {
+      return DEFAULT_RETENTION_DAYS;
+    }
+
+    const days = Number(value);
+    if (!Number.isInteger(days) || days < 0) {
+      throw new Error(
+        'Audit retention must be a whole number of days, or 0 to keep events forever'
+      );
+    }
+    return days;
+  }
+
+  // Events created before the cutoff are past retention; null when nothing expires
+  static retentionCutoff(retentionDays: number, now: Date = new Date()): Date | null {
+    return retentionDays > 0 ? new Date(now.getTime() - retentionDays * DAY_MS) : null;
+  }
+
+  static outcomeForStatus(statusCode: number): AuditOutcome {
+    return statusCode < 400 ? AuditOutcome.SUCCESS : AuditOutcome.FAILURE;
+  }
+
+  // Flat copy of an event for exports, with the target spread over its own columns
+  static toExportRecord(event: IAuditEventDocument | Record<string, any>): ExportRecord {
+    const record =
+      typeof event.toJSON === 'function' ? event.toJSON() : (event as Record<string, any>);
+    const target = record.target || {};
+    return {
+      ...record,
+      id: String(record._id),
+      actorId: record.actorId ? String(record.actorId) : undefined,
+      targetType: target.type,
+      targetId: target.id,
+      targetLabel: target.label,
+      targetOwnerId: target.ownerId,
+    };
+  }
+
+  // Stores an event. Auditing never fails the action being audited, so an event that
+  // cannot be stored is logged instead.
+  async record(event: AuditEventInput): Promise<void> {
+    try {
+      await this.auditEventRepository.create({
+        ...event,
+        actorId: event.actorId && Types.ObjectId.isValid(event.actorId) ? event.actorId : undefined,
+        userAgent: event.userAgent?.slice(0, MAX_USER_AGENT_LENGTH),
+      });
+    } catch (error) {
+      console.error(`❌ Failed to record ${event.action} audit event:`, error);
+    }
+  }
+
+  // Runs an action and records its outcome; a failure is recorded with its message
+  // before the error is passed on. `describe` adds what is only known once the action
+  // has succeeded, such as the user who just logged in.
+  async track<T>(
+    event: Omit<AuditEventInput, 'outcome'>,
+    work: () => Promise<T>,
+    describe?: (result: T) => Partial<AuditEventInput>
+  ): Promise<T> {
+    let result: T;
+    try {
+      result = await work();
+    } catch (error: any) {
+      await this.record({ ...event, outcome: AuditOutcome.FAILURE, message: error.message });
+      throw error;
+    }
+
+    await this.record({
+      ...event,
+      ...(describe ? describe(result) : {}),
+      outcome: AuditOutcome.SUCCESS,
+    });
+    return result;
+  }
+
+  // Records an admin's request once for each product it touched that belongs to
+  // another user. Ids that match no product are left out.
+  async recordAdminProductAction(
+    context: AuditContext,
+    productIds: string[],
+    request: AuditedRequest
+  ): Promise<void> {
+    await this.recordForOtherOwners(
+      context,
+      productIds,
+      AuditService.outcomeForStatus(request.statusCode),
+      { ...request }
+    );
+  }
+
+  // Same for stock an admin changed through a workflow outside the product routes
+  // (scan sessions, shipments, transfers, count approvals, imports). Services call it
+  // once the change has been committed; actions of other roles are not recorded.
+  async recordAdminOperation(
+    context: AuditContext | undefined,
+    productIds: string[],
+    operation: AuditedOperation
+  ): Promise<void> {
+    if (!context || context.actorRole !== UserRole.ADMIN) return;
+
+    await this.recordForOtherOwners(context, productIds, AuditOutcome.SUCCESS, {
+      ...operation,
+    });
+  }
+
+  private async recordForOtherOwners(
+    context: AuditContext,
+    productIds: string[],
+    outcome: AuditOutcome,
+    details: Record<string, unknown>
+  ): Promise<void> {
+    try {
+      const ids = [...new Set(productIds)].filter(id => Types.ObjectId.isValid(id));
+      if (ids.length === 0) return;
+
+      const products = await this.productRepository.find({ _id: { $in: ids } });
+      for (const product of products) {
+        const ownerId = product.userId.toString();
+        if (ownerId === context.actorId) continue;
+
+        await this.record({
+          ...context,
+          action: AuditAction.ADMIN_PRODUCT_ACTION,
+          outcome,
+          target: { type: 'product', id: product._id.toString(), label: product.sku, ownerId },
+          details,
+        });
+      }
+    } catch (error) {
+      console.error('❌ Failed to record admin product action:', error);
+    }
+  }
+
+  async getAuditEvents(query: AuditQuery): Promise<PaginatedResponse<IAuditEventDocument>> {
+    return await this.auditEventRepository.searchAuditEvents(query);
+  }
+
+  // Every event matching the query, newest first, read from a cursor as it is consumed
+  async *exportAuditEvents(query: AuditQuery): AsyncGenerator<ExportRecord> {
+    const cursor = this.auditEventRepository.streamAuditEvents(query);
+    try {
+      for await (const event of cursor) {
+        yield AuditService.toExportRecord(event);
+      }
+    } finally {
+      await cursor.close();
+    }
+  }
+
+  // Removes events older than the retention period
+  async purgeExpiredEvents(
+    retentionDays: number = AuditService.retentionDays(),
+    now: Date = new Date()
+  ): Promise<number> {
+    const cutoff = AuditService.retentionCutoff(retentionDays, now);
+    return cutoff ? await this.auditEventRepository.purgeBefore(cutoff) : 0;
+  }
+}
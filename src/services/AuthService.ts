@@ -1,75 +1,110 @@
 import jwt from 'jsonwebtoken';
 import { UserRepository } from '../repositories/UserRepository';
+import { ImageService } from './ImageService';
+import { AuditService } from './AuditService';
 import {
+  AuditAction,
+  AuditContext,
   LoginRequest,
   RegisterRequest,
   AuthResponse,
   IJWTPayload,
   IUserDocument,
+  ImageUpload,
   UserRole,
 } from '../types';
 
 export class AuthService {
   private userRepository: UserRepository;
+  private imageService: ImageService;
+  private auditService: AuditService;
   private jwtSecret: string;
   private jwtExpiresIn: string;
 
   constructor() {
     this.userRepository = new UserRepository();
+    this.imageService = new ImageService();
+    this.auditService = new AuditService();
     this.jwtSecret = process.env.JWT_SECRET || 'default-secret-key';
     this.jwtExpiresIn = process.env.JWT_EXPIRES_IN || '7d';
   }
 
-  async register(userData: RegisterRequest): Promise<AuthResponse> {
-    // Check if user already exists
-    const existingUser = await this.userRepository.findByEmail(userData.email);
-    if (existingUser) {
-      throw new Error('User already exists with this email');
-    }
+  async register(userData: RegisterRequest, context: AuditContext = {}): Promise<AuthResponse> {
+    const role = userData.role || UserRole.USER;
 
-    // Create new user
-    const newUser = await this.userRepository.create({
-      ...userData,
-      role: userData.role || UserRole.USER,
-    });
+    return await this.auditService.track(
+      {
+        ...context,
+        action: AuditAction.REGISTER,
+        actorEmail: userData.email,
+        target: { type: 'user', label: userData.email },
+        details: { role },
+      },
+      async () => {
+        // Check if user already exists
+        const existingUser = await this.userRepository.findByEmail(userData.email);
+        if (existingUser) {
+          throw new Error('User already exists with this email');
+        }
 
-    // Generate token
-    const token = this.generateToken(newUser);
+        // Create new user
+        const newUser = await this.userRepository.create({
+          ...userData,
+          role,
+        });
 
-    return {
-      user: this.sanitizeUser(newUser),
-      token,
-    };
+        // Generate token
+        const token = this.generateToken(newUser);
+
+        return {
+          user: this.sanitizeUser(newUser),
+          token,
+        };
+      },
+      result => AuthService.auditedUser(result.user)
+    );
   }
 
-  async login(credentials: LoginRequest): Promise<AuthResponse> {
-    // Find user with password
-    const user = await this.userRepository.findByEmailWithPassword(credentials.email);
-    if (!user) {
-      throw new Error('Invalid email or password');
-    }
+  // Failed attempts are recorded against the email that was tried
+  async login(credentials: LoginRequest, context: AuditContext = {}): Promise<AuthResponse> {
+    return await this.auditService.track(
+      {
+        ...context,
+        action: AuditAction.LOGIN,
+        actorEmail: credentials.email,
+        target: { type: 'user', label: credentials.email },
+      },
+      async () => {
+        // Find user with password
+        const user = await this.userRepository.findByEmailWithPassword(credentials.email);
+        if (!user) {
+          throw new Error('Invalid email or password');
+        }
 
-    // Check if user is active
-    if (!user.isActive) {
-      throw new Error('Account is deactivated. Please contact support');
-    }
+        // Check if user is active
+        if (!user.isActive) {
+          throw new Error('Account is deactivated. Please contact support');
+        }
 
-    // Verify password
-    const isPasswordValid = await user.comparePassword(credentials.password);
-    if (!isPasswordValid) {
-      throw new Error('Invalid email or password');
-    }
+        // Verify password
+        const isPasswordValid = await user.comparePassword(credentials.password);
+        if (!isPasswordValid) {
+          throw new Error('Invalid email or password');
+        }
 
-    // Update last login
-    await this.userRepository.updateLastLogin((user._id as any).toString());
+        // Update last login
+        await this.userRepository.updateLastLogin((user._id as any).toString());
 
-    // Generate token
-    const token = this.generateToken(user);
+        // Generate token
+        const token = this.generateToken(user);
 
-    return {
-      user: this.sanitizeUser(user),
-      token,
-    };
+        return {
+          user: this.sanitizeUser(user),
+          token,
+        };
+      },
+      result => AuthService.auditedUser(result.user)
+    );
   }
 
   async getCurrentUser(userId: string): Promise<IUserDocument | null> {
@@ -116,27 +151,51 @@ export class AuthService {
     return userObj;
   }
 
+  // Actor and target of an event about a user who was only known once the action
+  // succeeded
+  private static auditedUser(user: { _id?: any; email: string; role: UserRole }) {
+    const userId = String(user._id);
+    return {
+      actorId: userId,
+      actorEmail: user.email,
+      actorRole: user.role,
+      target: { type: 'user' as const, id: userId, label: user.email },
+    };
+  }
+
   async changePassword(
     userId: string,
     currentPassword: string,
-    newPassword: string
+    newPassword: string,
+    context: AuditContext = {}
   ): Promise<void> {
-    const user = await this.userRepository.findByEmailWithPassword('');
-    if (!user) {
-      throw new Error('User not found');
-    }
+    await this.auditService.track(
+      {
+        ...context,
+        action: AuditAction.PASSWORD_CHANGE,
+        target: { type: 'user', id: userId, label: context.actorEmail },
+      },
+      async () => {
+        const user = await this.userRepository.findByEmailWithPassword('');
+        if (!user) {
+          throw new Error('User not found');
+        }
 
-    const isCurrentPasswordValid = await user.comparePassword(currentPassword);
-    if (!isCurrentPasswordValid) {
-      throw new Error('Current password is incorrect');
-    }
+        const isCurrentPasswordValid = await user.comparePassword(currentPassword);
+        if (!isCurrentPasswordValid) {
+          throw new Error('Current password is incorrect');
+        }
 
-    await this.userRepository.update(userId, { password: newPassword });
+        await this.userRepository.update(userId, { password: newPassword });
+      }
+    );
   }
 
   async updateProfile(
     userId: string,
-    profileData: Partial<IUserDocument>
+    profileData: Partial<IUserDocument>,
+    profileImage?: ImageUpload,
+    context: AuditContext = {}
   ): Promise<IUserDocument | null> {
     // Remove sensitive fields
     const allowedFields = ['firstName', 'lastName', 'profileImage'];
@@ -148,6 +207,82 @@ export class AuthService {
       }
     }
 
-    return await this.userRepository.update(userId, filteredData);
+    // Only the names of the changed fields are logged, not their values
+    const fields = Object.keys(filteredData);
+    if (profileImage && !fields.includes('profileImage')) {
+      fields.push('profileImage');
+    }
+
+    return await this.auditService.track(
+      {
+        ...context,
+        action: AuditAction.PROFILE_UPDATE,
+        target: { type: 'user', id: userId, label: context.actorEmail },
+        details: { fields },
+      },
+      async () => {
+        if (!profileImage && filteredData.profileImage === undefined) {
+          return await this.userRepository.update(userId, filteredData);
+        }
+
+        // An uploaded image takes precedence over a linked one; either replaces the
+        // previously uploaded file
+        const existingUser = await this.userRepository.findById(userId);
+        const stored = profileImage
+          ? await this.imageService.storeImage(profileImage, `users/${userId}`)
+          : null;
+        filteredData.profileImage = stored ? stored.url : filteredData.profileImage;
+        filteredData.profileThumbnail = stored ? stored.thumbnailUrl : null;
+        filteredData.profileImageFile = stored;
+
+        try {
+          const updatedUser = await this.userRepository.update(userId, filteredData);
+          await this.imageService.removeImage(existingUser?.profileImageFile);
+          return updatedUser;
+        } catch (error) {
+          await this.imageService.removeImage(stored);
+          throw error;
+        }
+      }
+    );
+  }
+
+  // Admins change other users' roles; their own is left alone so the last admin
+  // cannot lock everyone out
+  async changeUserRole(
+    userId: string,
+    role: UserRole,
+    context: AuditContext = {}
+  ): Promise<IUserDocument> {
+    let previousRole: UserRole | undefined;
+
+    return await this.auditService.track(
+      {
+        ...context,
+        action: AuditAction.ROLE_CHANGE,
+        target: { type: 'user', id: userId },
+        details: { to: role },
+      },
+      async () => {
+        if (userId === context.actorId) {
+          throw new Error('You cannot change your own role');
+        }
+
+        const user = await this.userRepository.findById(userId);
+        if (!user) {
+          throw new Error('User not found');
+        }
+        previousRole = user.role;
+        if (user.role === role) {
+          return user;
+        }
+
+        return (await this.userRepository.update(userId, { role })) as IUserDocument;
+      },
+      user => ({
+        target: { type: 'user', id: userId, label: user.email },
+        details: { from: previousRole, to: role },
+      })
+    );
   }
 }
@@ -0,0 +1,182 @@
+import bwipjs from 'bwip-js';
+import { BarcodeType, CodeImageFormat, IProductDocument } from '../types';
+
+// Symbology names used by the renderer
+const SYMBOLOGIES: Record<BarcodeType, string> = {
+  [BarcodeType.EAN13]: 'ean13',
+  [BarcodeType.UPCA]: 'upca',
+  [BarcodeType.CODE128]: 'code128',
+};
+
+const TYPE_NAMES: Record<BarcodeType, string> = {
+  [BarcodeType.EAN13]: 'EAN-13',
+  [BarcodeType.UPCA]: 'UPC-A',
+  [BarcodeType.CODE128]: 'Code 128',
+};
+
+const CONTENT_TYPES: Record<CodeImageFormat, string> = {
+  [CodeImageFormat.PNG]: 'image/png',
+  [CodeImageFormat.SVG]: 'image/svg+xml',
+};
+
+// Longest code accepted for Code 128
+const MAX_CODE128_LENGTH = 80;
+
+// Most alternate codes a product can carry
+const MAX_ALTERNATE_CODES = 20;
+
+export class BarcodeService {
+  // GS1 check digit (EAN-13, UPC-A) for the digits that precede it: weights
+  // alternate 3 and 1, starting with 3 on the rightmost digit
+  static checkDigit(digits: string): number {
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+      const digit = Number(digits[digits.length - 1 - i]);
+      sum += i % 2 === 0 ? digit * 3 : digit;
+    }
+    return (10 - (sum % 10)) % 10;
+  }
+
+  // Validates a barcode, working out its type when none is given: 13 digits are
+  // EAN-13, 12 digits UPC-A and anything else Code 128. Spaces and hyphens in
+  // numeric codes are dropped.
+  static normalizeBarcode(
+    value: string,
+    type?: BarcodeType
+  ): { barcode: string; barcodeType: BarcodeType } {
+    if (type && !Object.values(BarcodeType).includes(type)) {
+      throw new Error(`Barcode type must be one of: ${Object.values(BarcodeType).join(', ')}`);
+    }
+
+    const code = String(value).trim();
+    if (!code) {
+      throw new Error('Barcode cannot be empty');
+    }
+
+    const digits = code.replace(/[\s-]/g, '');
+    const barcodeType =
+      type ||
+      (/^\d{13}$/.test(digits)
+        ? BarcodeType.EAN13
+        : /^\d{12}$/.test(digits)
+          ? BarcodeType.UPCA
+          : BarcodeType.CODE128);
+
+    if (barcodeType === BarcodeType.CODE128) {
+      // Code 128 encodes printable ASCII
+      if (code.length > MAX_CODE128_LENGTH || !/^[\x20-\x7e]+$/.test(code)) {
+        throw new Error(
+          `Code 128 barcodes hold up to ${MAX_CODE128_LENGTH} printable ASCII characters`
+        );
+      }
+      return { barcode: code, barcodeType };
+    }
+
+    const length = barcodeType === BarcodeType.EAN13 ? 13 : 12;
+    if (!new RegExp(`^\\d{${length}}$`).test(digits)) {
+      throw new Error(`${TYPE_NAMES[barcodeType]} barcodes have ${length} digits`);
+    }
+
+    const expected = BarcodeService.checkDigit(digits.slice(0, -1));
+    if (Number(digits[length - 1]) !== expected) {
+      throw new Error(`Invalid ${TYPE_NAMES[barcodeType]} check digit, expected ${expected}`);
+    }
+
+    return { barcode: digits, barcodeType };
+  }
+
+  // Trims alternate codes and drops blanks and repeats. Codes are matched exactly as
+  // scanned, so they are limited to printable ASCII like Code 128.
+  static normalizeAlternateCodes(codes: unknown): string[] {
+    if (!Array.isArray(codes)) {
+      throw new Error('Alternate codes must be a list');
+    }
+
+    const normalized = [
+      ...new Set(codes.map(code => String(code ?? '').trim()).filter(code => code.length > 0)),
+    ];
+    if (normalized.length > MAX_ALTERNATE_CODES) {
+      throw new Error(`A product can have at most ${MAX_ALTERNATE_CODES} alternate codes`);
+    }
+
+    const invalid = normalized.find(
+      code => code.length > MAX_CODE128_LENGTH || !/^[\x20-\x7e]+$/.test(code)
+    );
+    if (invalid) {
+      throw new Error(
+        `Alternate code "${invalid}" must be up to ${MAX_CODE128_LENGTH} printable ASCII characters`
+      );
+    }
+
+    return normalized;
+  }
+
+  // The code printed for a product: its barcode, or a Code 128 of its SKU
+  static productCode(product: Pick<IProductDocument, 'sku' | 'barcode' | 'barcodeType'>): {
+    barcode: string;
+    barcodeType: BarcodeType;
+  } {
+    return product.barcode
+      ? { barcode: product.barcode, barcodeType: product.barcodeType || BarcodeType.CODE128 }
+      : { barcode: product.sku, barcodeType: BarcodeType.CODE128 };
+  }
+
+  static parseImageFormat(value: unknown): CodeImageFormat | null {
+    const format = value === undefined ? CodeImageFormat.PNG : String(value).toLowerCase();
+    return Object.values(CodeImageFormat).includes(format as CodeImageFormat)
+      ? (format as CodeImageFormat)
+      : null;
+  }
+
+  static contentType(format: CodeImageFormat): string {
+    return CONTENT_TYPES[format];
+  }
+
+  // Bars with the code printed underneath
+  static async renderBarcode(
+    barcode: string,
+    type: BarcodeType,
+    format: CodeImageFormat = CodeImageFormat.PNG
+  ): Promise<Buffer> {
+    return await BarcodeService.render(
+      {
+        bcid: SYMBOLOGIES[type],
+        text: barcode,
+        scale: 3,
+        height: 12,
+        includetext: true,
+        textxalign: 'center',
+        backgroundcolor: 'FFFFFF',
+      },
+      format
+    );
+  }
+
+  static async renderQrCode(
+    text: string,
+    format: CodeImageFormat = CodeImageFormat.PNG
+  ): Promise<Buffer> {
+    return await BarcodeService.render(
+      {
+        bcid: 'qrcode',
+        text,
+        scale: 4,
+        backgroundcolor: 'FFFFFF',
+      },
+      format
+    );
+  }
+
+  private static async render(
+    options: bwipjs.RenderOptions,
+    format: CodeImageFormat
+  ): Promise<Buffer> {
+    try {
+      return format === CodeImageFormat.SVG
+        ? Buffer.from(bwipjs.toSVG(options))
+        : await bwipjs.toBuffer(options);
+    } catch (error: any) {
+      throw new Error(`Cannot render code: ${error.message || error}`);
+    }
+  }
+}
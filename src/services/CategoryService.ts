@@ -0,0 +1,534 @@
+import { ClientSession, Types } from 'mongoose';
+import database from '../config/database';
+import { CategoryRepository } from '../repositories/CategoryRepository';
+import { ProductRepository } from '../repositories/ProductRepository';
+import {
+  AttributeDefinitionRequest,
+  AttributeType,
+  CategoryMigrationResult,
+  CategoryStats,
+  CategoryTreeNode,
+  CreateCategoryRequest,
+  IAttributeDefinition,
+  ICategoryDocument,
+  UpdateCategoryRequest,
+} from '../types';
+
+export class CategoryService {
+  private categoryRepository: CategoryRepository;
+  private productRepository: ProductRepository;
+
+  constructor() {
+    this.categoryRepository = new CategoryRepository();
+    this.productRepository = new ProductRepository();
+  }
+
+  // "  Home & Garden " -> "home-garden"
+  static slugify(value: string): string {
+    return value
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+  }
+
+  static normalizeName(name: string): string {
+    return name.trim().replace(/\s+/g, ' ');
+  }
+
+  static normalizeAttributeDefinitions(
+    definitions: AttributeDefinitionRequest[] = []
+  ): IAttributeDefinition[] {
+    const keys = new Set<string>();
+
+    return definitions.map(definition => {
+      const key = (definition.key || '').trim();
+      // Keys become field paths on products, so they are kept to plain identifiers
+      if (!/^[a-zA-Z][a-zA-Z0-9_]{0,39}$/.test(key)) {
+        throw new Error(
+          `Invalid attribute key "${key}"; use letters, digits and underscores, starting with a letter`
+        );
+      }
+      if (keys.has(key)) {
+        throw new Error(`Attribute "${key}" is defined more than once`);
+      }
+      keys.add(key);
+
+      if (!Object.values(AttributeType).includes(definition.type)) {
+        throw new Error(`Invalid type for attribute "${key}"`);
+      }
+
+      const normalized: IAttributeDefinition = {
+        key,
+        label: (definition.label || '').trim() || key,
+        type: definition.type,
+        required: definition.required === true,
+      };
+
+      const unit = (definition.unit || '').trim();
+      if (unit) {
+        normalized.unit = unit;
+      }
+
+      if (definition.type === AttributeType.ENUM) {
+        const options = [
+          ...new Set((definition.options || []).map(option => String(option).trim())),
+        ].filter(option => option.length > 0);
+        if (options.length === 0) {
+          throw new Error(`Enum attribute "${key}" needs at least one option`);
+        }
+        normalized.options = options;
+      }
+
+      return normalized;
+    });
+  }
+
+  // Nests the categories under their parents and, when totals are given, adds each
+  // node's own totals to every ancestor so a node's stats cover its whole subtree
+  static buildTree(
+    categories: Array<Pick<ICategoryDocument, 'name' | 'slug' | 'parentId'> & { _id: any }>,
+    totals?: Map<string, CategoryStats>
+  ): CategoryTreeNode[] {
+    const nodes = new Map<string, CategoryTreeNode>();
+    for (const category of categories) {
+      const id = category._id.toString();
+      nodes.set(id, {
+        _id: id,
+        name: category.name,
+        slug: category.slug,
+        parentId: category.parentId ? category.parentId.toString() : null,
+        ...(totals ? { stats: { productCount: 0, totalQuantity: 0, totalValue: 0 } } : {}),
+        children: [],
+      });
+    }
+
+    // A node whose parent is not in the list is shown at the top level
+    const roots: CategoryTreeNode[] = [];
+    for (const node of nodes.values()) {
+      const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+      if (parent) {
+        parent.children.push(node);
+      } else {
+        roots.push(node);
+      }
+    }
+
+    if (totals) {
+      const rollUp = (node: CategoryTreeNode): CategoryStats => {
+        const own = totals.get(node._id);
+        const stats = node.stats as CategoryStats;
+        stats.productCount = own?.productCount || 0;
+        stats.totalQuantity = own?.totalQuantity || 0;
+        stats.totalValue = own?.totalValue || 0;
+        for (const child of node.children) {
+          const childStats = rollUp(child);
+          stats.productCount += childStats.productCount;
+          stats.totalQuantity += childStats.totalQuantity;
+          stats.totalValue += childStats.totalValue;
+        }
+        stats.totalValue = Math.round(stats.totalValue * 100) / 100;
+        return stats;
+      };
+      roots.forEach(rollUp);
+    }
+
+    const sortChildren = (list: CategoryTreeNode[]) => {
+      list.sort((a, b) => a.name.localeCompare(b.name));
+      list.forEach(node => sortChildren(node.children));
+    };
+    sortChildren(roots);
+
+    return roots;
+  }
+
+  async createCategory(
+    categoryData: CreateCategoryRequest,
+    session?: ClientSession
+  ): Promise<ICategoryDocument> {
+    const name = CategoryService.normalizeName(categoryData.name || '');
+    if (!name) {
+      throw new Error('Category name is required');
+    }
+
+    const parent = categoryData.parentId
+      ? await this.getActiveCategory(categoryData.parentId, session)
+      : null;
+
+    // Without an explicit slug, a clash with another branch is resolved by
+    // prefixing the parent's slug ("phones" under "accessories" -> "accessories-phones")
+    let slug = CategoryService.slugify(categoryData.slug || name);
+    if (!slug) {
+      throw new Error('Category slug cannot be empty');
+    }
+    if (!categoryData.slug && parent && (await this.categoryRepository.findBySlug(slug, session))) {
+      slug = `${parent.slug}-${slug}`;
+    }
+    if (await this.categoryRepository.findBySlug(slug, session)) {
+      throw new Error('Category with this slug already exists');
+    }
+
+    return await this.categoryRepository.create(
+      {
+        name,
+        slug,
+        parentId: parent ? parent._id : null,
+        ancestors: parent ? [...parent.ancestors, parent._id] : [],
+        description: categoryData.description,
+      },
+      session
+    );
+  }
+
+  async getCategories(): Promise<ICategoryDocument[]> {
+    return await this.categoryRepository.findActive();
+  }
+
+  async getCategoryById(categoryId: string): Promise<ICategoryDocument | null> {
+    if (!Types.ObjectId.isValid(categoryId)) {
+      return null;
+    }
+
+    const category = await this.categoryRepository.findById(categoryId);
+    if (!category || !category.isActive) {
+      return null;
+    }
+
+    return category;
+  }
+
+  async getCategoryTree(withStats: boolean = false, userId?: string): Promise<CategoryTreeNode[]> {
+    const categories = await this.categoryRepository.findActive();
+    if (!withStats) {
+      return CategoryService.buildTree(categories);
+    }
+
+    const totals = new Map<string, CategoryStats>();
+    for (const row of await this.productRepository.getCategoryTotals(userId)) {
+      if (row.categoryId) {
+        totals.set(row.categoryId.toString(), row);
+      }
+    }
+
+    return CategoryService.buildTree(categories, totals);
+  }
+
+  async updateCategory(
+    categoryId: string,
+    updateData: UpdateCategoryRequest
+  ): Promise<ICategoryDocument | null> {
+    const existingCategory = await this.getActiveCategory(categoryId);
+
+    const changes: any = {};
+    if (updateData.description !== undefined) {
+      changes.description = updateData.description;
+    }
+    if (updateData.name !== undefined) {
+      changes.name = CategoryService.normalizeName(updateData.name);
+      if (!changes.name) {
+        throw new Error('Category name is required');
+      }
+    }
+    if (updateData.slug !== undefined) {
+      changes.slug = CategoryService.slugify(updateData.slug);
+      if (!changes.slug) {
+        throw new Error('Category slug cannot be empty');
+      }
+      if (changes.slug !== existingCategory.slug) {
+        const slugTaken = await this.categoryRepository.findBySlug(changes.slug);
+        if (slugTaken) {
+          throw new Error('Category with this slug already exists');
+        }
+      }
+    }
+
+    // Products keep a copy of the name, so a rename is applied to them as well
+    return await database.withTransaction(async session => {
+      const category = await this.categoryRepository.update(categoryId, changes, session);
+      if (changes.name && changes.name !== existingCategory.name) {
+        await this.productRepository.renameCategory(categoryId, changes.name, session);
+      }
+      return category;
+    });
+  }
+
+  // Moves a category (and everything below it) under a new parent, or to the top
+  // level when parentId is null
+  async moveCategory(categoryId: string, parentId: string | null): Promise<ICategoryDocument> {
+    const category = await this.getActiveCategory(categoryId);
+    const parent = parentId ? await this.getActiveCategory(parentId) : null;
+    this.assertNotWithin(category, parent);
+
+    return await database.withTransaction(async session => {
+      return await this.relocate(category, parent, session);
+    });
+  }
+
+  // Moves the products of source to target, reparents source's children under
+  // target and retires source
+  async mergeCategory(sourceId: string, targetId: string): Promise<ICategoryDocument> {
+    if (sourceId === targetId) {
+      throw new Error('Cannot merge a category into itself');
+    }
+
+    const source = await this.getActiveCategory(sourceId);
+    const target = await this.getActiveCategory(targetId);
+    this.assertNotWithin(source, target);
+
+    return await database.withTransaction(async session => {
+      await this.productRepository.reassignCategory(sourceId, targetId, target.name, session);
+
+      for (const child of await this.categoryRepository.findChildren(sourceId, session)) {
+        await this.relocate(child, target, session);
+      }
+
+      await this.categoryRepository.update(sourceId, { isActive: false }, session);
+      return target;
+    });
+  }
+
+  async deleteCategory(categoryId: string): Promise<boolean> {
+    await this.getActiveCategory(categoryId);
+
+    // Children and products must be moved (or merged) elsewhere first
+    const children = await this.categoryRepository.findChildren(categoryId);
+    if (children.length > 0) {
+      throw new Error('Cannot delete a category that has subcategories');
+    }
+
+    const hasProducts = await this.productRepository.exists({ categoryId, isActive: true });
+    if (hasProducts) {
+      throw new Error('Cannot delete a category that still has products');
+    }
+
+    const result = await this.categoryRepository.update(categoryId, { isActive: false });
+    return result !== null;
+  }
+
+  // Replaces the attribute definitions of a category. A key means the same thing
+  // everywhere: it must keep one type across categories and cannot be repeated
+  // along a branch, since subcategories inherit their ancestors' definitions.
+  async setAttributeDefinitions(
+    categoryId: string,
+    definitions: AttributeDefinitionRequest[]
+  ): Promise<ICategoryDocument | null> {
+    const category = await this.getActiveCategory(categoryId);
+    const attributes = CategoryService.normalizeAttributeDefinitions(definitions);
+
+    const branchIds = new Set([
+      ...category.ancestors.map(ancestor => ancestor.toString()),
+      ...(await this.categoryRepository.getSubtreeIds(categoryId)),
+    ]);
+
+    for (const other of await this.categoryRepository.findActive()) {
+      if (other._id.toString() === categoryId) {
+        continue;
+      }
+
+      for (const existing of other.attributes || []) {
+        const attribute = attributes.find(definition => definition.key === existing.key);
+        if (!attribute) {
+          continue;
+        }
+        if (branchIds.has(other._id.toString())) {
+          throw new Error(`Attribute "${attribute.key}" is already defined by ${other.name}`);
+        }
+        if (attribute.type !== existing.type) {
+          throw new Error(
+            `Attribute "${attribute.key}" is a ${existing.type} in ${other.name} and must keep that type`
+          );
+        }
+      }
+    }
+
+    return await this.categoryRepository.update(categoryId, { attributes });
+  }
+
+  // Definitions that apply to products in a category: its ancestors' first, then its own
+  async getAttributeDefinitions(
+    categoryId: string,
+    session?: ClientSession
+  ): Promise<IAttributeDefinition[]> {
+    const category = await this.getActiveCategory(categoryId, session);
+    const ancestors = await this.categoryRepository.find(
+      { _id: { $in: category.ancestors } },
+      { session }
+    );
+
+    const byId = new Map(ancestors.map(ancestor => [ancestor._id.toString(), ancestor]));
+    return [
+      ...category.ancestors.flatMap(id => byId.get(id.toString())?.attributes || []),
+      ...(category.attributes || []),
+    ];
+  }
+
+  // Every attribute defined on an active category, by key
+  async getAttributeDefinitionsByKey(): Promise<Map<string, IAttributeDefinition>> {
+    const definitions = new Map<string, IAttributeDefinition>();
+    for (const category of await this.categoryRepository.findActive()) {
+      for (const definition of category.attributes || []) {
+        if (!definitions.has(definition.key)) {
+          definitions.set(definition.key, definition);
+        }
+      }
+    }
+    return definitions;
+  }
+
+  // The category (by id, slug or name) and all of its descendants, or null when
+  // no such category exists
+  async resolveCategoryIds(value: string): Promise<string[] | null> {
+    const category = await this.findByIdOrName(value);
+    if (!category || !category.isActive) {
+      return null;
+    }
+
+    return await this.categoryRepository.getSubtreeIds(category._id.toString());
+  }
+
+  // Category fields for a product given by id or by name; an unknown name becomes
+  // a new top-level category
+  async resolveForProduct(
+    category?: string,
+    categoryId?: string,
+    session?: ClientSession
+  ): Promise<{ category: string; categoryId: Types.ObjectId }> {
+    if (categoryId) {
+      const existing = await this.getActiveCategory(categoryId, session);
+      return { category: existing.name, categoryId: existing._id as Types.ObjectId };
+    }
+
+    if (!category || !CategoryService.normalizeName(category)) {
+      throw new Error('Category is required');
+    }
+
+    const resolved = await this.findOrCreateByName(category, session);
+    return { category: resolved.name, categoryId: resolved._id as Types.ObjectId };
+  }
+
+  // Links products that still only carry a category string. Strings that differ
+  // only in case, spacing or punctuation share a slug and end up in one category.
+  async migrateProductCategories(): Promise<CategoryMigrationResult> {
+    const result: CategoryMigrationResult = { categoriesCreated: 0, productsLinked: 0 };
+
+    for (const legacyName of await this.productRepository.findUnlinkedCategories()) {
+      if (!legacyName || !CategoryService.slugify(legacyName)) {
+        continue;
+      }
+
+      await database.withTransaction(async session => {
+        const existing = await this.categoryRepository.findBySlug(
+          CategoryService.slugify(legacyName),
+          session
+        );
+        const category = await this.findOrCreateByName(legacyName, session);
+        if (!existing) {
+          result.categoriesCreated++;
+        }
+
+        result.productsLinked += await this.productRepository.linkCategory(
+          legacyName,
+          category._id.toString(),
+          category.name,
+          session
+        );
+      });
+    }
+
+    return result;
+  }
+
+  // Category by id, slug or name, whether active or not
+  async findByIdOrName(value: string): Promise<ICategoryDocument | null> {
+    if (Types.ObjectId.isValid(value)) {
+      const category = await this.categoryRepository.findById(value);
+      if (category) {
+        return category;
+      }
+    }
+
+    return await this.categoryRepository.findBySlug(CategoryService.slugify(value));
+  }
+
+  private async findOrCreateByName(
+    name: string,
+    session?: ClientSession
+  ): Promise<ICategoryDocument> {
+    const existing = await this.categoryRepository.findBySlug(
+      CategoryService.slugify(name),
+      session
+    );
+    if (!existing) {
+      return await this.createCategory({ name }, session);
+    }
+
+    // A retired category comes back rather than clashing on its slug
+    if (!existing.isActive) {
+      return (await this.categoryRepository.update(
+        existing._id.toString(),
+        { isActive: true },
+        session
+      )) as ICategoryDocument;
+    }
+
+    return existing;
+  }
+
+  private async getActiveCategory(
+    categoryId: string,
+    session?: ClientSession
+  ): Promise<ICategoryDocument> {
+    const category = Types.ObjectId.isValid(categoryId)
+      ? await this.categoryRepository.findById(categoryId, session)
+      : null;
+    if (!category || !category.isActive) {
+      throw new Error('Category not found');
+    }
+
+    return category;
+  }
+
+  // A category cannot end up below itself
+  private assertNotWithin(category: ICategoryDocument, parent: ICategoryDocument | null): void {
+    if (!parent) {
+      return;
+    }
+
+    const categoryId = category._id.toString();
+    if (
+      parent._id.toString() === categoryId ||
+      parent.ancestors.some(ancestor => ancestor.toString() === categoryId)
+    ) {
+      throw new Error('Cannot move a category under itself or one of its subcategories');
+    }
+  }
+
+  // Re-parents a category and rewrites the ancestor path of everything below it
+  private async relocate(
+    category: ICategoryDocument,
+    parent: ICategoryDocument | null,
+    session: ClientSession
+  ): Promise<ICategoryDocument> {
+    const categoryId = category._id.toString();
+    const parentId = parent ? (parent._id as Types.ObjectId) : null;
+    const ancestors = parentId ? [...(parent as ICategoryDocument).ancestors, parentId] : [];
+    const depth = category.ancestors.length;
+
+    for (const descendant of await this.categoryRepository.findDescendants(categoryId, session)) {
+      await this.categoryRepository.setAncestors(
+        descendant._id.toString(),
+        descendant.parentId || null,
+        [...ancestors, category._id as Types.ObjectId, ...descendant.ancestors.slice(depth + 1)],
+        session
+      );
+    }
+
+    return (await this.categoryRepository.setAncestors(
+      categoryId,
+      parentId,
+      ancestors,
+      session
+    )) as ICategoryDocument;
+  }
+}
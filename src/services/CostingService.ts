@@ -0,0 +1,230 @@
+import { ClientSession } from 'mongoose';
+import database from '../config/database';
+import { CostLayerRepository } from '../repositories/CostLayerRepository';
+import { ProductRepository } from '../repositories/ProductRepository';
+import { StockMovementRepository } from '../repositories/StockMovementRepository';
+import { CostChangeResult, IProductDocument, StockMovementReason, ValuationMethod } from '../types';
+
+interface OpenLayer {
+  _id: any;
+  quantityRemaining: number;
+  unitCost: number;
+}
+
+interface LayerConsumption {
+  layerId: any;
+  quantity: number;
+  unitCost: number;
+}
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+const roundUnitCost = (value: number): number => Math.round(value * 10000) / 10000;
+
+export class CostingService {
+  private costLayerRepository: CostLayerRepository;
+  private productRepository: ProductRepository;
+  private stockMovementRepository: StockMovementRepository;
+  private method: ValuationMethod;
+
+  constructor() {
+    this.costLayerRepository = new CostLayerRepository();
+    this.productRepository = new ProductRepository();
+    this.stockMovementRepository = new StockMovementRepository();
+    this.method = CostingService.resolveMethod(process.env.VALUATION_METHOD);
+  }
+
+  static resolveMethod(value?: string): ValuationMethod {
+    if (!value) {
+      return ValuationMethod.FIFO;
+    }
+    if (!Object.values(ValuationMethod).includes(value as ValuationMethod)) {
+      throw new Error(`Unknown valuation method: ${value}`);
+    }
+    return value as ValuationMethod;
+  }
+
+  // Takes quantity from cost layers in the order given (callers pass them oldest first)
+  // and reports the cost of what was taken and how much the layers could not cover
+  static consumeFifo(
+    layers: OpenLayer[],
+    quantity: number
+  ): { consumptions: LayerConsumption[]; cost: number; shortfall: number } {
+    const consumptions: LayerConsumption[] = [];
+    let remaining = quantity;
+    let cost = 0;
+
+    for (const layer of layers) {
+      if (remaining <= 0) break;
+      if (layer.quantityRemaining <= 0) continue;
+
+      const taken = Math.min(layer.quantityRemaining, remaining);
+      consumptions.push({ layerId: layer._id, quantity: taken, unitCost: layer.unitCost });
+      cost += taken * layer.unitCost;
+      remaining -= taken;
+    }
+
+    return { consumptions, cost, shortfall: remaining };
+  }
+
+  // Moving weighted average after receiving quantity units at unitCost
+  static nextAverageCost(
+    averageCost: number,
+    quantityOnBooks: number,
+    quantity: number,
+    unitCost: number
+  ): number {
+    const onBooks = Math.max(0, quantityOnBooks);
+    if (onBooks + quantity <= 0) {
+      return unitCost;
+    }
+    return roundUnitCost((averageCost * onBooks + quantity * unitCost) / (onBooks + quantity));
+  }
+
+  getMethod(): ValuationMethod {
+    return this.method;
+  }
+
+  // Startup migration for stock booked before costing was recorded: gives each such
+  // product one opening layer for its quantity at its average (or standard) cost, books
+  // the matching inventory value and records it on the ledger so valuation reports
+  // replaying the ledger include it
+  async seedOpeningLayers(): Promise<number> {
+    let seeded = 0;
+
+    for (const productId of await this.productRepository.findWithoutCostLayers()) {
+      await database.withTransaction(async session => {
+        const product = await this.productRepository.findById(productId, session);
+        if (!product || product.quantity <= 0) {
+          return;
+        }
+
+        const standardCost =
+          product.standardCost !== null && product.standardCost !== undefined
+            ? product.standardCost
+            : null;
+        const cost = product.averageCost || standardCost || 0;
+        const bookCost =
+          this.method === ValuationMethod.STANDARD && standardCost !== null ? standardCost : cost;
+        const valueChange = roundMoney(product.quantity * bookCost) - (product.inventoryValue || 0);
+        // Stock booked before the ledger existed has no movement to continue from
+        const latest = await this.stockMovementRepository.findLatestByProduct(productId, session);
+        const quantityBefore = latest ? latest.quantityAfter : 0;
+
+        await this.costLayerRepository.create(
+          {
+            productId,
+            quantityReceived: product.quantity,
+            quantityRemaining: product.quantity,
+            unitCost: cost,
+            reason: StockMovementReason.INITIAL,
+            reference: 'opening balance',
+          },
+          session
+        );
+        await this.productRepository.updateCosting(productId, cost, valueChange, session);
+        await this.stockMovementRepository.create(
+          {
+            productId,
+            quantityChange: product.quantity - quantityBefore,
+            quantityBefore,
+            quantityAfter: product.quantity,
+            reason: StockMovementReason.INITIAL,
+            reference: 'opening balance',
+            unitCost: cost,
+            valueChange,
+          },
+          session
+        );
+        seeded++;
+      });
+    }
+
+    return seeded;
+  }
+
+  // Values a stock change under the configured method. Increases open a cost layer at the
+  // given unit cost (defaulting to the current cost); decreases always consume layers FIFO
+  // so they stay in step with the units on the books, and their cost of goods follows the
+  // configured method. Units without a layer (stock booked before costing) are costed at
+  // the average cost.
+  async applyChange(
+    product: IProductDocument,
+    quantityChange: number,
+    unitCost: number | undefined,
+    context: { reason: StockMovementReason; reference?: string },
+    session: ClientSession
+  ): Promise<CostChangeResult> {
+    const productId = product._id.toString();
+    const averageCost = product.averageCost || 0;
+    const standardCost =
+      product.standardCost !== null && product.standardCost !== undefined
+        ? product.standardCost
+        : null;
+
+    if (quantityChange > 0) {
+      const cost =
+        unitCost !== undefined && unitCost !== null
+          ? unitCost
+          : this.method === ValuationMethod.STANDARD && standardCost !== null
+            ? standardCost
+            : averageCost || standardCost || 0;
+
+      if (cost < 0) {
+        throw new Error('Unit cost cannot be negative');
+      }
+
+      const onBooks = await this.costLayerRepository.getRemainingQuantity(productId, session);
+      await this.costLayerRepository.create(
+        {
+          productId,
+          quantityReceived: quantityChange,
+          quantityRemaining: quantityChange,
+          unitCost: cost,
+          reason: context.reason,
+          reference: context.reference,
+        },
+        session
+      );
+
+      const nextAverage = CostingService.nextAverageCost(
+        averageCost,
+        onBooks,
+        quantityChange,
+        cost
+      );
+      const bookCost =
+        this.method === ValuationMethod.STANDARD && standardCost !== null ? standardCost : cost;
+      const valueChange = roundMoney(quantityChange * bookCost);
+
+      await this.productRepository.updateCosting(productId, nextAverage, valueChange, session);
+
+      return { unitCost: cost, valueChange, averageCost: nextAverage };
+    }
+
+    const quantity = -quantityChange;
+    const layers = await this.costLayerRepository.findOpenLayers(productId, session);
+    const { consumptions, cost, shortfall } = CostingService.consumeFifo(layers, quantity);
+
+    for (const consumption of consumptions) {
+      await this.costLayerRepository.consume(
+        consumption.layerId.toString(),
+        consumption.quantity,
+        session
+      );
+    }
+
+    let costOfGoods: number;
+    if (this.method === ValuationMethod.WEIGHTED_AVERAGE) {
+      costOfGoods = quantity * averageCost;
+    } else if (this.method === ValuationMethod.STANDARD) {
+      costOfGoods = quantity * (standardCost !== null ? standardCost : averageCost);
+    } else {
+      costOfGoods = cost + shortfall * averageCost;
+    }
+    costOfGoods = roundMoney(costOfGoods);
+
+    await this.productRepository.updateCosting(productId, averageCost, -costOfGoods, session);
+
+    return { costOfGoods, valueChange: -costOfGoods, averageCost };
+  }
+}
@@ -0,0 +1,327 @@
+import { ClientSession, Types } from 'mongoose';
+import database from '../config/database';
+import { CountSessionRepository } from '../repositories/CountSessionRepository';
+import { CounterRepository } from '../repositories/CounterRepository';
+import { ProductRepository } from '../repositories/ProductRepository';
+import { StockLevelRepository } from '../repositories/StockLevelRepository';
+import { LocationRepository } from '../repositories/LocationRepository';
+import { ProductService } from './ProductService';
+import { AuditService } from './AuditService';
+import { SerialService } from './SerialService';
+import { CategoryService } from './CategoryService';
+import {
+  AuditContext,
+  CreateCountSessionRequest,
+  SubmitCountsRequest,
+  CountSessionQuery,
+  CountSessionStatus,
+  CountVariance,
+  ICountLine,
+  ICountSessionDocument,
+  IProductDocument,
+  PaginatedResponse,
+  StockMovementReason,
+  UserRole,
+} from '../types';
+
+export class CountSessionService {
+  private countSessionRepository: CountSessionRepository;
+  private counterRepository: CounterRepository;
+  private productRepository: ProductRepository;
+  private stockLevelRepository: StockLevelRepository;
+  private locationRepository: LocationRepository;
+  private productService: ProductService;
+  private categoryService: CategoryService;
+  private auditService: AuditService;
+
+  constructor() {
+    this.countSessionRepository = new CountSessionRepository();
+    this.counterRepository = new CounterRepository();
+    this.productRepository = new ProductRepository();
+    this.stockLevelRepository = new StockLevelRepository();
+    this.locationRepository = new LocationRepository();
+    this.productService = new ProductService();
+    this.categoryService = new CategoryService();
+    this.auditService = new AuditService();
+  }
+
+  // Opens a count over a category or a list of products and snapshots the book
+  // quantities (at the location when one is given)
+  async createCountSession(
+    userId: string,
+    sessionData: CreateCountSessionRequest
+  ): Promise<ICountSessionDocument> {
+    const { category, productIds = [], locationId, blind = false, note } = sessionData;
+
+    if (!category && productIds.length === 0) {
+      throw new Error('A category or a list of products is required');
+    }
+
+    if (locationId) {
+      const location = await this.locationRepository.findById(locationId);
+      if (!location || !location.isActive) {
+        throw new Error('Location not found or inactive');
+      }
+    }
+
+    // Variant parents hold no stock of their own; a category count covers its subcategories
+    const filter: any = { isActive: true, hasVariants: { $ne: true } };
+    if (category) {
+      const categoryIds = await this.categoryService.resolveCategoryIds(category);
+      filter.categoryId = { $in: categoryIds || [] };
+    }
+    if (productIds.length > 0) filter._id = { $in: productIds };
+
+    const products = await this.productRepository.find(filter, { sort: { sku: 1 } });
+    if (products.length === 0) {
+      throw new Error('No active products match the count scope');
+    }
+
+    const ids = products.map(product => product._id.toString());
+    const overlapping = await this.countSessionRepository.findOpenForProducts(ids, locationId);
+    if (overlapping) {
+      throw new Error(
+        `Some of these products are already being counted in ${overlapping.countNumber}`
+      );
+    }
+
+    return await database.withTransaction(async session => {
+      const lines = [];
+      for (const product of products) {
+        lines.push({
+          productId: product._id,
+          sku: product.sku,
+          name: product.name,
+          expectedQuantity: await this.getBookQuantity(product, locationId, session),
+        });
+      }
+
+      const countNumber = await this.counterRepository.nextNumber('count', 'CNT', session);
+
+      return await this.countSessionRepository.create(
+        {
+          countNumber,
+          category,
+          locationId,
+          blind,
+          lines,
+          note,
+          userId,
+        },
+        session
+      );
+    });
+  }
+
+  async getCountSessions(
+    query: CountSessionQuery
+  ): Promise<PaginatedResponse<ICountSessionDocument>> {
+    return await this.countSessionRepository.searchCountSessions(query);
+  }
+
+  async getCountSessionById(countSessionId: string): Promise<ICountSessionDocument | null> {
+    return await this.countSessionRepository.findById(countSessionId);
+  }
+
+  // Records physical counts. Counting a product again replaces the earlier count.
+  async submitCounts(
+    countSessionId: string,
+    userId: string,
+    countData: SubmitCountsRequest
+  ): Promise<ICountSessionDocument> {
+    const entries = countData.counts || [];
+    if (entries.length === 0) {
+      throw new Error('At least one count is required');
+    }
+
+    return await database.withTransaction(async session => {
+      const countSession = await this.getCountSessionForUpdate(countSessionId, session);
+
+      if (countSession.status !== CountSessionStatus.OPEN) {
+        throw new Error('Only open count sessions accept counts');
+      }
+
+      const locationId = countSession.locationId?.toString();
+
+      for (const entry of entries) {
+        const line = this.findLine(countSession, entry.productId);
+
+        if (!Number.isInteger(entry.countedQuantity) || entry.countedQuantity < 0) {
+          throw new Error('Counted quantities must be non-negative whole numbers');
+        }
+
+        const product = await this.productRepository.findById(entry.productId, session);
+        if (!product) {
+          throw new Error('Product not found');
+        }
+
+        line.countedQuantity = entry.countedQuantity;
+        line.quantityAtCount = await this.getBookQuantity(product, locationId, session);
+        line.lot = entry.lot;
+        line.serials = SerialService.normalizeSerials(entry.serials);
+        line.note = entry.note;
+        line.countedBy = new Types.ObjectId(userId);
+        line.countedAt = new Date();
+      }
+
+      return await countSession.save({ session });
+    });
+  }
+
+  async getVariances(countSessionId: string): Promise<CountVariance[]> {
+    const countSession = await this.countSessionRepository.findById(countSessionId);
+    if (!countSession) {
+      throw new Error('Count session not found');
+    }
+
+    const products = await this.productRepository.find({
+      _id: { $in: countSession.lines.map(line => line.productId) },
+    });
+    const averageCosts = new Map(
+      products.map(product => [product._id.toString(), product.averageCost || 0])
+    );
+
+    return countSession.lines.map(line => {
+      const variance = CountSessionService.computeVariance(line);
+      const averageCost = averageCosts.get(line.productId.toString()) || 0;
+
+      return {
+        productId: line.productId.toString(),
+        sku: line.sku,
+        name: line.name,
+        expectedQuantity: line.expectedQuantity,
+        quantityAtCount: line.quantityAtCount,
+        countedQuantity: line.countedQuantity,
+        variance,
+        valueChange: variance === null ? null : Math.round(variance * averageCost * 100) / 100,
+      };
+    });
+  }
+
+  // Books every variance as a single all-or-nothing change. Adjustments are applied as
+  // deltas against the quantity at count time, so stock moved since then is kept.
+  async approveCountSession(
+    countSessionId: string,
+    userId: string,
+    audit?: AuditContext
+  ): Promise<ICountSessionDocument> {
+    const approved = await database.withTransaction(async session => {
+      const countSession = await this.getCountSessionForUpdate(countSessionId, session);
+
+      if (countSession.status !== CountSessionStatus.OPEN) {
+        throw new Error('Only open count sessions can be approved');
+      }
+
+      if (countSession.lines.some(line => CountSessionService.computeVariance(line) === null)) {
+        throw new Error('Every product must be counted before the session can be approved');
+      }
+
+      const locationId = countSession.locationId?.toString();
+
+      for (const line of countSession.lines) {
+        const variance = CountSessionService.computeVariance(line) as number;
+        if (variance === 0) continue;
+
+        await this.productService.adjustStock(line.productId.toString(), variance, undefined, {
+          reason: StockMovementReason.COUNT_VARIANCE,
+          reference: countSession.countNumber,
+          note: line.note,
+          locationId,
+          lot: line.lot && line.lot.lotNumber ? line.lot : undefined,
+          serials: line.serials && line.serials.length > 0 ? line.serials : undefined,
+          performedBy: userId,
+          session,
+        });
+      }
+
+      countSession.status = CountSessionStatus.APPROVED;
+      countSession.approvedBy = new Types.ObjectId(userId);
+      countSession.approvedAt = new Date();
+
+      return await countSession.save({ session });
+    });
+
+    await this.auditService.recordAdminOperation(
+      audit,
+      approved.lines
+        .filter(line => CountSessionService.computeVariance(line) !== 0)
+        .map(line => line.productId.toString()),
+      { operation: 'count_approval', reference: approved.countNumber }
+    );
+    return approved;
+  }
+
+  async cancelCountSession(countSessionId: string): Promise<ICountSessionDocument> {
+    return await database.withTransaction(async session => {
+      const countSession = await this.getCountSessionForUpdate(countSessionId, session);
+
+      if (countSession.status !== CountSessionStatus.OPEN) {
+        throw new Error('Only open count sessions can be cancelled');
+      }
+
+      countSession.status = CountSessionStatus.CANCELLED;
+      countSession.cancelledAt = new Date();
+
+      return await countSession.save({ session });
+    });
+  }
+
+  // Blind counts hide the book quantities from counters so they count what is on the
+  // shelf; managers and admins always see them
+  static presentForRole(countSession: ICountSessionDocument, role?: UserRole): any {
+    if (!countSession.blind || role === UserRole.MANAGER || role === UserRole.ADMIN) {
+      return countSession;
+    }
+
+    const { lines, ...json } = countSession.toJSON();
+    return {
+      ...json,
+      lines: lines.map(({ expectedQuantity, quantityAtCount, variance, ...rest }) => rest),
+    };
+  }
+
+  static computeVariance(
+    line: Pick<ICountLine, 'countedQuantity' | 'quantityAtCount'>
+  ): number | null {
+    if (line.countedQuantity === null || line.countedQuantity === undefined) {
+      return null;
+    }
+    return line.countedQuantity - (line.quantityAtCount || 0);
+  }
+
+  private async getBookQuantity(
+    product: IProductDocument,
+    locationId: string | undefined,
+    session: ClientSession
+  ): Promise<number> {
+    // Units in transit are in the total but on no shelf
+    if (!locationId) {
+      return product.quantity - (product.inTransitQuantity || 0);
+    }
+    const level = await this.stockLevelRepository.findByProductAndLocation(
+      product._id.toString(),
+      locationId,
+      session
+    );
+    return level ? level.quantity : 0;
+  }
+
+  private findLine(countSession: ICountSessionDocument, productId: string): ICountLine {
+    const line = countSession.lines.find(l => l.productId.toString() === productId);
+    if (!line) {
+      throw new Error('Product is not part of this count session');
+    }
+    return line;
+  }
+
+  private async getCountSessionForUpdate(
+    countSessionId: string,
+    session: ClientSession
+  ): Promise<ICountSessionDocument> {
+    const countSession = await this.countSessionRepository.findById(countSessionId, session);
+    if (!countSession) {
+      throw new Error('Count session not found');
+    }
+    return countSession;
+  }
+}
@@ -0,0 +1,159 @@
+import { Writable } from 'stream';
+import ExcelJS from 'exceljs';
+import { ExportFormat, ExportRecord } from '../types';
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  [ExportFormat.CSV]: 'text/csv; charset=utf-8',
+  [ExportFormat.XLSX]: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  [ExportFormat.NDJSON]: 'application/x-ndjson',
+};
+
+// Columns named attributes.<key> export a custom attribute
+const ATTRIBUTE_COLUMN = /^attributes\.[a-zA-Z][a-zA-Z0-9_]*$/;
+
+// Writes rows to a response as they are produced, so exports of any size are never
+// held in memory as a whole
+export class ExportService {
+  static parseFormat(value: unknown): ExportFormat | null {
+    const format = value === undefined ? ExportFormat.CSV : String(value).toLowerCase();
+    return Object.values(ExportFormat).includes(format as ExportFormat)
+      ? (format as ExportFormat)
+      : null;
+  }
+
+  static contentType(format: ExportFormat): string {
+    return CONTENT_TYPES[format];
+  }
+
+  // Comma separated column list, checked against the columns the export offers.
+  // Without a list the defaults are used.
+  static selectColumns(
+    requested: unknown,
+    available: string[],
+    defaults: string[] = available,
+    allowAttributes: boolean = false
+  ): { columns: string[]; unknown: string[] } {
+    if (typeof requested !== 'string' || requested.trim() === '') {
+      return { columns: defaults, unknown: [] };
+    }
+
+    const names = [
+      ...new Set(
+        requested
+          .split(',')
+          .map(name => name.trim())
+          .filter(name => name.length > 0)
+      ),
+    ];
+    const isKnown = (name: string) =>
+      available.includes(name) || (allowAttributes && ATTRIBUTE_COLUMN.test(name));
+
+    return {
+      columns: names.filter(isKnown),
+      unknown: names.filter(name => !isKnown(name)),
+    };
+  }
+
+  // Value at a column name; attributes.<key> reads into the nested attributes
+  static getValue(record: ExportRecord, column: string): unknown {
+    if (column.startsWith('attributes.')) {
+      const attributes = record.attributes as Record<string, unknown> | undefined;
+      return attributes ? attributes[column.slice('attributes.'.length)] : undefined;
+    }
+    return record[column];
+  }
+
+  // Flattens a value into one spreadsheet cell; lists are joined with "|"
+  static toCell(value: unknown): string | number | boolean | null {
+    if (value === undefined || value === null) return null;
+    if (value instanceof Date) return value.toISOString();
+    if (Array.isArray(value)) {
+      return value.map(item => ExportService.toCell(item) ?? '').join('|');
+    }
+    if (typeof value === 'object') {
+      const text = String(value);
+      return text === '[object Object]' ? JSON.stringify(value) : text;
+    }
+    return value as string | number | boolean;
+  }
+
+  static toCsvLine(values: unknown[]): string {
+    return values
+      .map(value => {
+        const cell = ExportService.toCell(value);
+        if (cell === null) return '';
+        const text = String(cell);
+        return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      })
+      .join(',');
+  }
+
+  // Writes the header and every record, waiting whenever the client falls behind.
+  // Stops early when the client disconnects; for async generators that also stops
+  // whatever is producing the records.
+  static async write(
+    stream: Writable,
+    format: ExportFormat,
+    columns: string[],
+    records: Iterable<ExportRecord> | AsyncIterable<ExportRecord>,
+    sheetName: string = 'Export'
+  ): Promise<void> {
+    if (format === ExportFormat.XLSX) {
+      const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+        stream,
+        useStyles: false,
+        useSharedStrings: false,
+      });
+      const sheet = workbook.addWorksheet(sheetName);
+      sheet.addRow(columns).commit();
+
+      for await (const record of records) {
+        if (stream.destroyed) return;
+        sheet
+          .addRow(
+            columns.map(column => ExportService.toCell(ExportService.getValue(record, column)))
+          )
+          .commit();
+      }
+
+      sheet.commit();
+      // Ends the stream once the workbook is written
+      await workbook.commit();
+      return;
+    }
+
+    if (format === ExportFormat.CSV) {
+      await ExportService.writeChunk(stream, `${ExportService.toCsvLine(columns)}\n`);
+    }
+
+    for await (const record of records) {
+      if (stream.destroyed) return;
+      const values = columns.map(column => ExportService.getValue(record, column));
+      const line =
+        format === ExportFormat.CSV
+          ? ExportService.toCsvLine(values)
+          : JSON.stringify(
+              Object.fromEntries(columns.map((column, i) => [column, values[i] ?? null]))
+            );
+      await ExportService.writeChunk(stream, `${line}\n`);
+    }
+
+    stream.end();
+  }
+
+  private static async writeChunk(stream: Writable, chunk: string): Promise<void> {
+    if (stream.write(chunk)) {
+      return;
+    }
+
+    await new Promise<void>(resolve => {
+      const done = () => {
+        stream.off('drain', done);
+        stream.off('close', done);
+        resolve();
+      };
+      stream.on('drain', done);
+      stream.on('close', done);
+    });
+  }
+}
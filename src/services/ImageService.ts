@@ -0,0 +1,127 @@
+import { randomUUID } from 'crypto';
+import sharp from 'sharp';
+import { getStorageAdapter } from '../config/storage';
+import { StorageAdapter } from '../storage/StorageAdapter';
+import { ImageUpload, IStoredImage } from '../types';
+
+// Accepted image types and the extension they are stored with
+const IMAGE_TYPES: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+export const MAX_IMAGE_SIZE = Number(process.env.MAX_IMAGE_SIZE_MB || 5) * 1024 * 1024;
+
+// Thumbnails fit within a square of this many pixels
+const THUMBNAIL_SIZE = 300;
+
+export class ImageService {
+  private storage: StorageAdapter;
+
+  constructor(storage?: StorageAdapter) {
+    this.storage = storage || getStorageAdapter();
+  }
+
+  // Image type from the file's leading bytes, regardless of its name or declared type
+  static detectImageType(buffer: Buffer): string | null {
+    if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+      return 'image/jpeg';
+    }
+    if (
+      buffer.length >= 8 &&
+      buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))
+    ) {
+      return 'image/png';
+    }
+    if (
+      buffer.length >= 12 &&
+      buffer.toString('ascii', 0, 4) === 'RIFF' &&
+      buffer.toString('ascii', 8, 12) === 'WEBP'
+    ) {
+      return 'image/webp';
+    }
+    if (buffer.length >= 6 && /^GIF8[79]a$/.test(buffer.toString('ascii', 0, 6))) {
+      return 'image/gif';
+    }
+    return null;
+  }
+
+  // Checks size and type, returning the detected content type
+  static validateUpload(file: ImageUpload): string {
+    if (!file.buffer || file.size === 0) {
+      throw new Error(`${file.originalname || 'Image'} is empty`);
+    }
+    if (file.size > MAX_IMAGE_SIZE) {
+      throw new Error(
+        `${file.originalname} exceeds the ${Math.round(MAX_IMAGE_SIZE / 1024 / 1024)} MB limit`
+      );
+    }
+    if (!IMAGE_TYPES[file.mimetype]) {
+      throw new Error('Only JPEG, PNG, WebP and GIF images are allowed');
+    }
+
+    const detectedType = ImageService.detectImageType(file.buffer);
+    if (detectedType !== file.mimetype) {
+      throw new Error(`${file.originalname} is not a valid ${IMAGE_TYPES[file.mimetype]} image`);
+    }
+
+    return detectedType;
+  }
+
+  // Stores the image and a generated thumbnail under the given folder
+  async storeImage(file: ImageUpload, folder: string): Promise<IStoredImage> {
+    const contentType = ImageService.validateUpload(file);
+
+    let thumbnail: Buffer;
+    try {
+      thumbnail = await sharp(file.buffer)
+        .rotate()
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .webp({ quality: 80 })
+        .toBuffer();
+    } catch {
+      throw new Error(`${file.originalname} could not be processed as an image`);
+    }
+
+    const name = randomUUID();
+    const original = await this.storage.save(
+      `${folder}/${name}.${IMAGE_TYPES[contentType]}`,
+      file.buffer
+    );
+
+    try {
+      const stored = await this.storage.save(`${folder}/${name}-thumb.webp`, thumbnail);
+      return {
+        url: original.url,
+        thumbnailUrl: stored.url,
+        key: original.key,
+        thumbnailKey: stored.key,
+        provider: this.storage.provider,
+        contentType,
+        size: file.size,
+      };
+    } catch (error) {
+      await this.storage.remove(original.key).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  // Deletes the files of an uploaded image; images hosted elsewhere are left alone.
+  // Storage failures are logged rather than failing the request that removed the image.
+  async removeImage(image: IStoredImage | null | undefined): Promise<void> {
+    if (!image || !image.key || image.provider !== this.storage.provider) {
+      return;
+    }
+
+    for (const key of [image.key, image.thumbnailKey]) {
+      if (!key) continue;
+      try {
+        await this.storage.remove(key);
+      } catch (error) {
+        console.error(`Failed to remove stored image ${key}:`, error);
+      }
+    }
+  }
+}
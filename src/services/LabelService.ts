@@ -0,0 +1,326 @@
+import PDFDocument from 'pdfkit';
+import { ProductRepository } from '../repositories/ProductRepository';
+import { BarcodeService } from './BarcodeService';
+import { IProductDocument, LabelSheetRequest, LabelTemplate } from '../types';
+
+const inches = (value: number) => value * 72;
+const millimetres = (value: number) => (value * 72) / 25.4;
+
+const LETTER = { pageWidth: inches(8.5), pageHeight: inches(11) };
+const A4 = { pageWidth: millimetres(210), pageHeight: millimetres(297) };
+
+// Built-in sheet layouts, from the label makers' published dimensions
+export const LABEL_TEMPLATES: LabelTemplate[] = [
+  {
+    id: 'avery-5160',
+    name: 'Avery 5160 / 8160 (Letter, 30 per sheet, 1" x 2 5/8")',
+    ...LETTER,
+    columns: 3,
+    rows: 10,
+    labelWidth: inches(2.625),
+    labelHeight: inches(1),
+    marginTop: inches(0.5),
+    marginLeft: inches(0.1875),
+    horizontalPitch: inches(2.75),
+    verticalPitch: inches(1),
+  },
+  {
+    id: 'avery-5163',
+    name: 'Avery 5163 / 8163 (Letter, 10 per sheet, 2" x 4")',
+    ...LETTER,
+    columns: 2,
+    rows: 5,
+    labelWidth: inches(4),
+    labelHeight: inches(2),
+    marginTop: inches(0.5),
+    marginLeft: inches(0.15625),
+    horizontalPitch: inches(4.1875),
+    verticalPitch: inches(2),
+  },
+  {
+    id: 'avery-5167',
+    name: 'Avery 5167 / 8167 (Letter, 80 per sheet, 1/2" x 1 3/4")',
+    ...LETTER,
+    columns: 4,
+    rows: 20,
+    labelWidth: inches(1.75),
+    labelHeight: inches(0.5),
+    marginTop: inches(0.5),
+    marginLeft: inches(0.3),
+    horizontalPitch: inches(2.05),
+    verticalPitch: inches(0.5),
+  },
+  {
+    id: 'avery-l7160',
+    name: 'Avery L7160 (A4, 21 per sheet, 63.5 x 38.1 mm)',
+    ...A4,
+    columns: 3,
+    rows: 7,
+    labelWidth: millimetres(63.5),
+    labelHeight: millimetres(38.1),
+    marginTop: millimetres(15.15),
+    marginLeft: millimetres(7.25),
+    horizontalPitch: millimetres(66.04),
+    verticalPitch: millimetres(38.1),
+  },
+  {
+    id: 'avery-l7651',
+    name: 'Avery L7651 (A4, 65 per sheet, 38.1 x 21.2 mm)',
+    ...A4,
+    columns: 5,
+    rows: 13,
+    labelWidth: millimetres(38.1),
+    labelHeight: millimetres(21.2),
+    marginTop: millimetres(10.7),
+    marginLeft: millimetres(4.75),
+    horizontalPitch: millimetres(40.64),
+    verticalPitch: millimetres(21.2),
+  },
+];
+
+const DEFAULT_TEMPLATE = 'avery-5160';
+
+// Most labels rendered in one request
+const MAX_LABELS = 2000;
+
+const MAX_COPIES = 100;
+
+// Layout fields a custom template must give, in points
+const TEMPLATE_DIMENSIONS: (keyof Omit<LabelTemplate, 'id' | 'name'>)[] = [
+  'pageWidth',
+  'pageHeight',
+  'columns',
+  'rows',
+  'labelWidth',
+  'labelHeight',
+  'marginTop',
+  'marginLeft',
+  'horizontalPitch',
+  'verticalPitch',
+];
+
+export class LabelService {
+  private productRepository: ProductRepository;
+
+  constructor() {
+    this.productRepository = new ProductRepository();
+  }
+
+  // A built-in template by id, or a custom layout checked to fit on its page
+  static resolveTemplate(
+    template: LabelSheetRequest['template'] = DEFAULT_TEMPLATE
+  ): LabelTemplate {
+    if (typeof template === 'string') {
+      const found = LABEL_TEMPLATES.find(candidate => candidate.id === template.toLowerCase());
+      if (!found) {
+        throw new Error(`Unknown label template "${template}"`);
+      }
+      return found;
+    }
+
+    const layout = {} as LabelTemplate;
+    for (const field of TEMPLATE_DIMENSIONS) {
+      const value = Number(template ? template[field] : undefined);
+      const isMargin = field.startsWith('margin');
+      if (!isFinite(value) || value < 0 || (!isMargin && value === 0)) {
+        throw new Error(
+          `Label template ${field} must be ${isMargin ? 'zero or more' : 'a positive number of'} points`
+        );
+      }
+      layout[field] = value;
+    }
+
+    if (!Number.isInteger(layout.columns) || !Number.isInteger(layout.rows)) {
+      throw new Error('Label template columns and rows must be whole numbers');
+    }
+    if (layout.horizontalPitch < layout.labelWidth || layout.verticalPitch < layout.labelHeight) {
+      throw new Error('Labels in a template cannot overlap');
+    }
+
+    // Half a point of slack absorbs rounding in dimensions converted from mm
+    const right =
+      layout.marginLeft + (layout.columns - 1) * layout.horizontalPitch + layout.labelWidth;
+    const bottom = layout.marginTop + (layout.rows - 1) * layout.verticalPitch + layout.labelHeight;
+    if (right > layout.pageWidth + 0.5 || bottom > layout.pageHeight + 0.5) {
+      throw new Error('Labels in the template do not fit on the page');
+    }
+
+    return { ...layout, id: 'custom', name: 'Custom' };
+  }
+
+  // Page and top-left corner of each label, filling rows left to right from the
+  // given position on the first sheet
+  static labelPositions(
+    template: LabelTemplate,
+    count: number,
+    startPosition: number = 1
+  ): Array<{ page: number; x: number; y: number }> {
+    const perPage = template.columns * template.rows;
+
+    return Array.from({ length: count }, (_, index) => {
+      const slot = index + startPosition - 1;
+      const onPage = slot % perPage;
+      return {
+        page: Math.floor(slot / perPage),
+        x: template.marginLeft + (onPage % template.columns) * template.horizontalPitch,
+        y: template.marginTop + Math.floor(onPage / template.columns) * template.verticalPitch,
+      };
+    });
+  }
+
+  static formatPrice(price: number, currency: string): string {
+    try {
+      return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(price);
+    } catch {
+      throw new Error(`Invalid currency "${currency}"`);
+    }
+  }
+
+  // PDF sheet with name, SKU, price and code for the selected products, each repeated
+  // `copies` times in the order given
+  async renderLabelSheet(request: LabelSheetRequest, ownerUserId?: string): Promise<Buffer> {
+    const template = LabelService.resolveTemplate(request.template);
+    const perPage = template.columns * template.rows;
+    const { copies = 1, startPosition = 1, code = 'barcode', showPrice = true } = request;
+    const currency = (request.currency || 'USD').toUpperCase();
+
+    const productIds = Array.isArray(request.productIds)
+      ? [...new Set(request.productIds.map(String))]
+      : [];
+    if (productIds.length === 0) {
+      throw new Error('Select at least one product');
+    }
+    if (!Number.isInteger(copies) || copies < 1 || copies > MAX_COPIES) {
+      throw new Error(`Copies must be a whole number from 1 to ${MAX_COPIES}`);
+    }
+    if (!Number.isInteger(startPosition) || startPosition < 1 || startPosition > perPage) {
+      throw new Error(`Start position must be from 1 to ${perPage} on this template`);
+    }
+    if (code !== 'barcode' && code !== 'qr') {
+      throw new Error('Code must be barcode or qr');
+    }
+    if (productIds.length * copies > MAX_LABELS) {
+      throw new Error(`A sheet request can hold at most ${MAX_LABELS} labels`);
+    }
+    LabelService.formatPrice(0, currency);
+
+    const products = (
+      await this.productRepository.find({ _id: { $in: productIds }, isActive: true })
+    ).filter(product => !ownerUserId || product.userId.toString() === ownerUserId);
+    const byId = new Map(products.map(product => [product._id.toString(), product]));
+    const missing = productIds.filter(productId => !byId.has(productId));
+    if (missing.length > 0) {
+      throw new Error(`Products not found or access denied: ${missing.join(', ')}`);
+    }
+
+    // Each product's code is rendered once, however many copies are printed
+    const codes = new Map<string, Buffer>();
+    for (const product of products) {
+      const { barcode, barcodeType } = BarcodeService.productCode(product);
+      codes.set(
+        product._id.toString(),
+        code === 'qr'
+          ? await BarcodeService.renderQrCode(product.sku)
+          : await BarcodeService.renderBarcode(barcode, barcodeType)
+      );
+    }
+
+    const labels = productIds.flatMap(productId =>
+      Array.from({ length: copies }, () => byId.get(productId) as IProductDocument)
+    );
+    const positions = LabelService.labelPositions(template, labels.length, startPosition);
+
+    const document = new PDFDocument({
+      size: [template.pageWidth, template.pageHeight],
+      margin: 0,
+      autoFirstPage: false,
+      info: { Title: 'Product labels' },
+    });
+    const chunks: Buffer[] = [];
+    document.on('data', chunk => chunks.push(chunk));
+    const finished = new Promise<void>((resolve, reject) => {
+      document.on('end', resolve);
+      document.on('error', reject);
+    });
+
+    let page = -1;
+    labels.forEach((product, index) => {
+      const position = positions[index];
+      while (page < position.page) {
+        document.addPage();
+        page++;
+      }
+
+      LabelService.drawLabel(document, product, codes.get(product._id.toString()) as Buffer, {
+        x: position.x,
+        y: position.y,
+        width: template.labelWidth,
+        height: template.labelHeight,
+        qr: code === 'qr',
+        price: showPrice ? LabelService.formatPrice(product.price, currency) : undefined,
+      });
+    });
+
+    document.end();
+    await finished;
+    return Buffer.concat(chunks);
+  }
+
+  private static drawLabel(
+    document: PDFKit.PDFDocument,
+    product: IProductDocument,
+    code: Buffer,
+    label: { x: number; y: number; width: number; height: number; qr: boolean; price?: string }
+  ): void {
+    // Text and padding scale with the label so small labels stay legible
+    const padding = Math.min(6, label.height * 0.08);
+    const fontSize = Math.max(5, Math.min(11, label.height / 7));
+    const lineHeight = fontSize * 1.2;
+    const x = label.x + padding;
+    const y = label.y + padding;
+    const width = label.width - padding * 2;
+    const height = label.height - padding * 2;
+    const details = [product.sku, label.price].filter(Boolean).join('   ');
+
+    if (label.qr) {
+      // Square code on the left, text beside it
+      const size = Math.min(height, width * 0.45);
+      document.image(code, x, y, { fit: [size, size], valign: 'center' });
+
+      const textX = x + size + padding;
+      const textWidth = width - size - padding;
+      document
+        .font('Helvetica-Bold')
+        .fontSize(fontSize)
+        .text(product.name, textX, y, { width: textWidth, height: lineHeight * 2, ellipsis: true });
+      document
+        .font('Helvetica')
+        .fontSize(fontSize - 1)
+        .text(product.sku, textX, y + lineHeight * 2, { width: textWidth, lineBreak: false });
+      if (label.price) {
+        document.text(label.price, textX, y + lineHeight * 3, {
+          width: textWidth,
+          lineBreak: false,
+        });
+      }
+      return;
+    }
+
+    // Name and details on top, the barcode filling the rest of the label
+    document
+      .font('Helvetica-Bold')
+      .fontSize(fontSize)
+      .text(product.name, x, y, { width, height: lineHeight, ellipsis: true });
+    document
+      .font('Helvetica')
+      .fontSize(fontSize - 1)
+      .text(details, x, y + lineHeight, { width, height: lineHeight, ellipsis: true });
+
+    const codeTop = y + lineHeight * 2 + padding / 2;
+    document.image(code, x, codeTop, {
+      fit: [width, Math.max(1, y + height - codeTop)],
+      align: 'center',
+      valign: 'center',
+    });
+  }
+}
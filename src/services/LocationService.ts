@@ -0,0 +1,104 @@
+import { LocationRepository } from '../repositories/LocationRepository';
+import { StockLevelRepository } from '../repositories/StockLevelRepository';
+import {
+  CreateLocationRequest,
+  UpdateLocationRequest,
+  ILocationDocument,
+  IStockLevelDocument,
+} from '../types';
+
+// Location fields a request may change. Owner and active flag are left to the service, so a
+// location is only retired through deleteLocation, which checks it holds no stock.
+const EDITABLE_FIELDS = ['name', 'code', 'type', 'address'] as const;
+
+export class LocationService {
+  private locationRepository: LocationRepository;
+  private stockLevelRepository: StockLevelRepository;
+
+  constructor() {
+    this.locationRepository = new LocationRepository();
+    this.stockLevelRepository = new StockLevelRepository();
+  }
+
+  async createLocation(
+    userId: string,
+    locationData: CreateLocationRequest
+  ): Promise<ILocationDocument> {
+    // Check if code already exists
+    const existingLocation = await this.locationRepository.findByCode(locationData.code);
+    if (existingLocation) {
+      throw new Error('Location with this code already exists');
+    }
+
+    return await this.locationRepository.create({
+      ...locationData,
+      userId,
+    });
+  }
+
+  async getLocations(): Promise<ILocationDocument[]> {
+    return await this.locationRepository.findActive();
+  }
+
+  async getLocationById(locationId: string): Promise<ILocationDocument | null> {
+    const location = await this.locationRepository.findById(locationId);
+
+    if (!location || !location.isActive) {
+      return null;
+    }
+
+    return location;
+  }
+
+  async updateLocation(
+    locationId: string,
+    updateData: UpdateLocationRequest
+  ): Promise<ILocationDocument | null> {
+    const existingLocation = await this.getLocationById(locationId);
+    if (!existingLocation) {
+      throw new Error('Location not found');
+    }
+
+    // If code is being updated, check for duplicates
+    if (updateData.code && updateData.code.toUpperCase() !== existingLocation.code) {
+      const codeExists = await this.locationRepository.findByCode(updateData.code);
+      if (codeExists) {
+        throw new Error('Location with this code already exists');
+      }
+    }
+
+    const fields = Object.fromEntries(
+      EDITABLE_FIELDS.filter(field => updateData[field] !== undefined).map(field => [
+        field,
+        updateData[field],
+      ])
+    );
+    return await this.locationRepository.update(locationId, fields);
+  }
+
+  async deleteLocation(locationId: string): Promise<boolean> {
+    const existingLocation = await this.getLocationById(locationId);
+    if (!existingLocation) {
+      throw new Error('Location not found');
+    }
+
+    // Stock must be moved out before a location can be retired
+    const quantityOnHand = await this.stockLevelRepository.getLocationQuantity(locationId);
+    if (quantityOnHand > 0) {
+      throw new Error('Cannot delete a location that still holds stock');
+    }
+
+    // Soft delete by setting isActive to false
+    const result = await this.locationRepository.update(locationId, { isActive: false });
+    return result !== null;
+  }
+
+  async getLocationStock(locationId: string): Promise<IStockLevelDocument[]> {
+    const location = await this.getLocationById(locationId);
+    if (!location) {
+      throw new Error('Location not found');
+    }
+
+    return await this.stockLevelRepository.findByLocation(locationId);
+  }
+}
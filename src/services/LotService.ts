@@ -0,0 +1,194 @@
+import { ClientSession, Types } from 'mongoose';
+import database from '../config/database';
+import { LotRepository } from '../repositories/LotRepository';
+import { ProductRepository } from '../repositories/ProductRepository';
+import { ILotDocument, IProductDocument, LotAllocation, LotInput } from '../types';
+
+export interface LotChangeResult {
+  allocations: LotAllocation[];
+  // Change in units held by expired lots, to be applied to Product.expiredQuantity
+  expiredChange: number;
+}
+
+interface ConsumableLot {
+  _id: any;
+  lotNumber: string;
+  quantity: number;
+}
+
+export class LotService {
+  private lotRepository: LotRepository;
+  private productRepository: ProductRepository;
+
+  constructor() {
+    this.lotRepository = new LotRepository();
+    this.productRepository = new ProductRepository();
+  }
+
+  // Takes quantity from lots in the order given (callers pass them FEFO-sorted) and
+  // reports how much could not be covered by the lots
+  static allocateFefo(
+    lots: ConsumableLot[],
+    quantity: number
+  ): { allocations: LotAllocation[]; shortfall: number } {
+    const allocations: LotAllocation[] = [];
+    let remaining = quantity;
+
+    for (const lot of lots) {
+      if (remaining <= 0) break;
+      if (lot.quantity <= 0) continue;
+
+      const taken = Math.min(lot.quantity, remaining);
+      allocations.push({ lotId: lot._id, lotNumber: lot.lotNumber, quantity: -taken });
+      remaining -= taken;
+    }
+
+    return { allocations, shortfall: remaining };
+  }
+
+  // Applies a product quantity change to its lots: increases are received into the
+  // given lot, decreases come out of the given lot or, without one, FEFO from the
+  // unexpired lots. Stock that predates lot tracking is consumed after all lots.
+  async applyChange(
+    product: IProductDocument,
+    quantityChange: number,
+    lotInput: LotInput | undefined,
+    session: ClientSession
+  ): Promise<LotChangeResult> {
+    const productId = product._id.toString();
+
+    if (quantityChange > 0) {
+      return await this.receiveIntoLot(productId, quantityChange, lotInput, session);
+    }
+
+    const quantity = -quantityChange;
+    if (lotInput?.lotNumber) {
+      return await this.takeFromLot(productId, quantity, lotInput.lotNumber, session);
+    }
+
+    const lots = await this.lotRepository.findConsumable(productId, new Date(), session);
+    const { allocations, shortfall } = LotService.allocateFefo(lots, quantity);
+
+    if (shortfall > 0) {
+      const lotted = await this.lotRepository.getTotalQuantity(productId, session);
+      const unlotted = product.quantity - lotted;
+      if (shortfall > unlotted) {
+        throw new Error('Insufficient unexpired stock for this change');
+      }
+    }
+
+    for (const allocation of allocations) {
+      await this.lotRepository.changeQuantity(
+        allocation.lotId.toString(),
+        allocation.quantity,
+        session
+      );
+    }
+
+    return { allocations, expiredChange: 0 };
+  }
+
+  async getProductLots(productId: string): Promise<ILotDocument[]> {
+    return await this.lotRepository.findByProduct(productId);
+  }
+
+  async getExpiringLots(withinDays: number, productIds?: string[]): Promise<ILotDocument[]> {
+    const cutoff = new Date(Date.now() + withinDays * 24 * 60 * 60 * 1000);
+    return await this.lotRepository.findExpiring(cutoff, productIds);
+  }
+
+  // Flags lots whose expiry date has passed and moves their stock out of availability;
+  // returns how many lots were expired
+  async expireLots(asOf: Date = new Date()): Promise<number> {
+    const candidates = await this.lotRepository.findNewlyExpired(asOf);
+    let expiredCount = 0;
+
+    for (const candidate of candidates) {
+      const expired = await database.withTransaction(async session => {
+        const lot = await this.lotRepository.markExpired(candidate._id.toString(), session);
+        if (!lot) {
+          return false;
+        }
+
+        if (lot.quantity > 0) {
+          await this.productRepository.updateExpiredQuantity(
+            lot.productId.toString(),
+            lot.quantity,
+            session
+          );
+        }
+        return true;
+      });
+
+      if (expired) {
+        expiredCount++;
+      }
+    }
+
+    return expiredCount;
+  }
+
+  private async receiveIntoLot(
+    productId: string,
+    quantity: number,
+    lotInput: LotInput | undefined,
+    session: ClientSession
+  ): Promise<LotChangeResult> {
+    if (!lotInput?.lotNumber) {
+      throw new Error('Lot number is required when receiving stock for lot-tracked products');
+    }
+
+    const expiryDate = lotInput.expiryDate ? new Date(lotInput.expiryDate) : undefined;
+    let lot = await this.lotRepository.findByLotNumber(productId, lotInput.lotNumber, session);
+
+    if (lot) {
+      if (expiryDate && lot.expiryDate && lot.expiryDate.getTime() !== expiryDate.getTime()) {
+        throw new Error('Lot already exists with a different expiry date');
+      }
+      lot = await this.lotRepository.changeQuantity(lot._id.toString(), quantity, session);
+    } else {
+      const isExpired = expiryDate ? expiryDate <= new Date() : false;
+      lot = await this.lotRepository.create(
+        {
+          productId,
+          lotNumber: lotInput.lotNumber,
+          manufactureDate: lotInput.manufactureDate
+            ? new Date(lotInput.manufactureDate)
+            : undefined,
+          expiryDate,
+          quantity,
+          receivedQuantity: quantity,
+          isExpired,
+        },
+        session
+      );
+    }
+
+    return {
+      allocations: [{ lotId: lot._id, lotNumber: lot.lotNumber, quantity }],
+      expiredChange: lot.isExpired ? quantity : 0,
+    };
+  }
+
+  private async takeFromLot(
+    productId: string,
+    quantity: number,
+    lotNumber: string,
+    session: ClientSession
+  ): Promise<LotChangeResult> {
+    const lot = await this.lotRepository.findByLotNumber(productId, lotNumber, session);
+    if (!lot) {
+      throw new Error('Lot not found');
+    }
+
+    const updated = await this.lotRepository.changeQuantity(lot._id.toString(), -quantity, session);
+    if (!updated) {
+      throw new Error('Insufficient stock in this lot');
+    }
+
+    return {
+      allocations: [{ lotId: lot._id, lotNumber: lot.lotNumber, quantity: -quantity }],
+      expiredChange: lot.isExpired ? -quantity : 0,
+    };
+  }
+}
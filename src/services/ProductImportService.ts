@@ -0,0 +1,582 @@
+import ExcelJS from 'exceljs';
+import { ImportJobRepository } from '../repositories/ImportJobRepository';
+import { CounterRepository } from '../repositories/CounterRepository';
+import { ProductRepository } from '../repositories/ProductRepository';
+import { ProductService } from './ProductService';
+import { AuditService } from './AuditService';
+import { CategoryService } from './CategoryService';
+import { BarcodeService } from './BarcodeService';
+import {
+  AuditContext,
+  CreateProductRequest,
+  IAttributeDefinition,
+  IImportJobDocument,
+  ImportFile,
+  ImportJobStatus,
+  ImportMode,
+  ImportOptions,
+  ImportPreview,
+  ImportRow,
+  ImportRowError,
+  PaginatedResponse,
+} from '../types';
+
+// Product fields that can be imported, by type
+const STRING_FIELDS = [
+  'name',
+  'description',
+  'sku',
+  'barcode',
+  'barcodeType',
+  'category',
+  'baseUnit',
+  'unit',
+];
+const NUMBER_FIELDS = [
+  'price',
+  'quantity',
+  'minStockLevel',
+  'reorderPoint',
+  'maxStockLevel',
+  'leadTimeDays',
+  'packSize',
+  'standardCost',
+  'unitCost',
+];
+const BOOLEAN_FIELDS = ['trackLots', 'trackSerials', 'fractionalQuantities'];
+// Several values in one cell, separated by "|"
+const LIST_FIELDS = ['images', 'alternateCodes'];
+
+// Other headers commonly found in client spreadsheets
+const HEADER_ALIASES: Record<string, string> = {
+  productname: 'name',
+  title: 'name',
+  qty: 'quantity',
+  stock: 'quantity',
+  cost: 'unitCost',
+  minstock: 'minStockLevel',
+};
+
+// Columns named attr:<key> or attributes.<key> hold custom attribute values
+const ATTRIBUTE_COLUMN = /^(?:attr:|attributes\.)([a-zA-Z][a-zA-Z0-9_]*)$/;
+
+// Most data rows accepted in one file
+const MAX_IMPORT_ROWS = 5000;
+
+// Job progress is saved after this many rows
+const PROGRESS_INTERVAL = 25;
+
+const XLSX_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+export interface ImportColumn {
+  header: string;
+  field?: string;
+  attribute?: string;
+}
+
+interface ValidatedImport {
+  rows: ImportRow[];
+  errors: ImportRowError[];
+  totalRows: number;
+  ignoredColumns: string[];
+}
+
+export class ProductImportService {
+  private importJobRepository: ImportJobRepository;
+  private counterRepository: CounterRepository;
+  private productRepository: ProductRepository;
+  private productService: ProductService;
+  private categoryService: CategoryService;
+  private auditService: AuditService;
+
+  constructor() {
+    this.importJobRepository = new ImportJobRepository();
+    this.counterRepository = new CounterRepository();
+    this.productRepository = new ProductRepository();
+    this.productService = new ProductService();
+    this.categoryService = new CategoryService();
+    this.auditService = new AuditService();
+  }
+
+  // RFC 4180 CSV: quoted fields may hold delimiters, quotes ("") and line breaks.
+  // Semicolon-separated files (common in European Excel exports) are detected from
+  // the header line.
+  static parseCsv(text: string): string[][] {
+    const input = text.replace(/^\uFEFF/, '');
+    const headerLine = input.split(/\r?\n/, 1)[0] || '';
+    const delimiter =
+      (headerLine.match(/;/g) || []).length > (headerLine.match(/,/g) || []).length ? ';' : ',';
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i];
+
+      if (quoted) {
+        if (char === '"' && input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"' && field === '') {
+        quoted = true;
+      } else if (char === delimiter) {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && input[i + 1] === '\n') i++;
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (quoted) {
+      throw new Error('The file has an unterminated quoted field');
+    }
+    if (field !== '' || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    return rows;
+  }
+
+  // Rows of the file (first sheet of a workbook) as text cells
+  static async readSpreadsheet(file: ImportFile): Promise<string[][]> {
+    const name = (file.originalname || '').toLowerCase();
+
+    if (name.endsWith('.xlsx') || file.mimetype === XLSX_TYPE) {
+      const workbook = new ExcelJS.Workbook();
+      try {
+        await workbook.xlsx.load(file.buffer);
+      } catch {
+        throw new Error('The file is not a valid XLSX workbook');
+      }
+
+      const sheet = workbook.worksheets[0];
+      if (!sheet) {
+        throw new Error('The workbook has no sheets');
+      }
+
+      const rows: string[][] = [];
+      sheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+        const cells: string[] = [];
+        for (let column = 1; column <= sheet.columnCount; column++) {
+          cells.push(ProductImportService.cellText(row.getCell(column).value));
+        }
+        rows[rowNumber - 1] = cells;
+      });
+      return Array.from(rows, row => row || []);
+    }
+
+    if (name.endsWith('.csv') || /^text\/(csv|plain)$/.test(file.mimetype)) {
+      return ProductImportService.parseCsv(file.buffer.toString('utf8'));
+    }
+
+    throw new Error('Only CSV and XLSX files can be imported');
+  }
+
+  // Matches headers to product fields, ignoring case, spaces and punctuation
+  // ("Min Stock Level" -> minStockLevel). An explicit mapping takes precedence.
+  static mapColumns(
+    headers: string[],
+    mapping: Record<string, string> = {}
+  ): { columns: ImportColumn[]; ignoredColumns: string[] } {
+    const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+    const fields = new Map<string, string>();
+    for (const field of [...STRING_FIELDS, ...NUMBER_FIELDS, ...BOOLEAN_FIELDS, ...LIST_FIELDS]) {
+      fields.set(normalize(field), field);
+    }
+    for (const [alias, field] of Object.entries(HEADER_ALIASES)) {
+      fields.set(alias, field);
+    }
+
+    const resolveTarget = (target: string): ImportColumn | null => {
+      const attribute = target.match(ATTRIBUTE_COLUMN);
+      if (attribute) {
+        return { header: target, attribute: attribute[1] };
+      }
+      const field = fields.get(normalize(target));
+      return field ? { header: target, field } : null;
+    };
+
+    const columns: ImportColumn[] = [];
+    const ignoredColumns: string[] = [];
+    const used = new Map<string, string>();
+
+    headers.forEach(rawHeader => {
+      const header = (rawHeader || '').trim();
+      const mapped = mapping[header];
+      const column = mapped !== undefined ? resolveTarget(mapped) : resolveTarget(header);
+      if (mapped !== undefined && !column) {
+        throw new Error(`Unknown product field "${mapped}" in the column mapping`);
+      }
+
+      if (!column) {
+        if (header) ignoredColumns.push(header);
+        columns.push({ header });
+        return;
+      }
+
+      const target = column.field || `attributes.${column.attribute}`;
+      if (used.has(target)) {
+        throw new Error(`Columns "${used.get(target)}" and "${header}" both map to ${target}`);
+      }
+      used.set(target, header);
+      columns.push({ ...column, header });
+    });
+
+    return { columns, ignoredColumns };
+  }
+
+  // Converts a row of text cells into product fields; blank cells are left out
+  static parseRow(
+    cells: string[],
+    columns: ImportColumn[]
+  ): { data: Partial<CreateProductRequest>; errors: Array<{ field: string; message: string }> } {
+    const data: any = {};
+    const errors: Array<{ field: string; message: string }> = [];
+
+    columns.forEach((column, index) => {
+      const value = (cells[index] || '').trim();
+      if (value === '' || (!column.field && !column.attribute)) {
+        return;
+      }
+
+      if (column.attribute) {
+        data.attributes = { ...(data.attributes || {}), [column.attribute]: value };
+      } else if (NUMBER_FIELDS.includes(column.field as string)) {
+        const number = Number(value);
+        if (!isFinite(number)) {
+          errors.push({
+            field: column.field as string,
+            message: `${column.header} must be a number`,
+          });
+        } else {
+          data[column.field as string] = number;
+        }
+      } else if (BOOLEAN_FIELDS.includes(column.field as string)) {
+        const flag = value.toLowerCase();
+        if (['true', 'yes', 'y', '1'].includes(flag)) {
+          data[column.field as string] = true;
+        } else if (['false', 'no', 'n', '0'].includes(flag)) {
+          data[column.field as string] = false;
+        } else {
+          errors.push({
+            field: column.field as string,
+            message: `${column.header} must be yes or no`,
+          });
+        }
+      } else if (LIST_FIELDS.includes(column.field as string)) {
+        data[column.field as string] = value
+          .split('|')
+          .map(item => item.trim())
+          .filter(item => item.length > 0);
+      } else {
+        data[column.field as string] = value;
+      }
+    });
+
+    return { data, errors };
+  }
+
+  // Validates a file without changing anything
+  async previewImport(
+    file: ImportFile,
+    ownerUserId: string | undefined,
+    options: ImportOptions = {}
+  ): Promise<ImportPreview> {
+    const validated = await this.validateFile(file, ownerUserId, options);
+
+    return {
+      totalRows: validated.totalRows,
+      validRows: validated.rows.length,
+      createCount: validated.rows.filter(row => row.action === 'create').length,
+      updateCount: validated.rows.filter(row => row.action === 'update').length,
+      ignoredColumns: validated.ignoredColumns,
+      errors: validated.errors,
+    };
+  }
+
+  // Validates the file and applies its valid rows in the background. Rows that
+  // failed validation are reported on the job; its progress can be polled.
+  async startImport(
+    file: ImportFile,
+    userId: string,
+    ownerUserId: string | undefined,
+    options: ImportOptions = {},
+    audit?: AuditContext
+  ): Promise<IImportJobDocument> {
+    const validated = await this.validateFile(file, ownerUserId, options);
+    if (validated.rows.length === 0) {
+      throw new Error('The file has no valid rows to import');
+    }
+
+    const failedRows = new Set(validated.errors.map(error => error.row)).size;
+    const job = await this.importJobRepository.create({
+      importNumber: await this.counterRepository.nextNumber('import', 'IMP'),
+      status: ImportJobStatus.PENDING,
+      mode: options.mode || ImportMode.UPSERT,
+      fileName: file.originalname,
+      totalRows: validated.totalRows,
+      processedRows: failedRows,
+      failedCount: failedRows,
+      rowErrors: validated.errors,
+      rows: validated.rows,
+      userId,
+    });
+
+    this.runImport(job._id.toString(), userId, ownerUserId, audit).catch(error => {
+      console.error(`Import ${job.importNumber} failed:`, error);
+      this.importJobRepository.finish(job._id.toString(), ImportJobStatus.FAILED).catch(() => {});
+    });
+
+    return job;
+  }
+
+  async getImportJob(
+    importJobId: string,
+    ownerUserId?: string
+  ): Promise<IImportJobDocument | null> {
+    const job = await this.importJobRepository.findById(importJobId);
+    if (!job || (ownerUserId && job.userId.toString() !== ownerUserId)) {
+      return null;
+    }
+    return job;
+  }
+
+  async getImportJobs(
+    ownerUserId: string | undefined,
+    page: number,
+    limit: number
+  ): Promise<PaginatedResponse<IImportJobDocument>> {
+    return await this.importJobRepository.findForUser(ownerUserId, page, limit);
+  }
+
+  async failInterruptedImports(): Promise<number> {
+    return await this.importJobRepository.failInterrupted();
+  }
+
+  // Upserts the rows by SKU. A SKU created or deleted since validation is looked up
+  // again, so each row still ends up as the right create or update.
+  private async runImport(
+    importJobId: string,
+    userId: string,
+    ownerUserId: string | undefined,
+    audit?: AuditContext
+  ): Promise<void> {
+    const job = await this.importJobRepository.findWithRows(importJobId);
+    if (!job) {
+      return;
+    }
+
+    await this.importJobRepository.update(importJobId, {
+      status: ImportJobStatus.RUNNING,
+      startedAt: new Date(),
+    });
+
+    const counts = {
+      processedRows: job.processedRows,
+      createdCount: 0,
+      updatedCount: 0,
+      failedCount: job.failedCount,
+    };
+    let pendingErrors: ImportRowError[] = [];
+    const updatedProductIds: string[] = [];
+
+    for (const [index, row] of job.rows.entries()) {
+      try {
+        const existing = await this.productRepository.findBySku(row.data.sku as string);
+        if (existing && existing.isActive && job.mode === ImportMode.UPSERT) {
+          const { sku, ...changes } = row.data;
+          await this.productService.updateProduct(
+            existing._id.toString(),
+            ownerUserId as string,
+            changes,
+            { reference: job.importNumber, performedBy: userId }
+          );
+          counts.updatedCount++;
+          updatedProductIds.push(existing._id.toString());
+        } else {
+          await this.productService.createProduct(userId, row.data as CreateProductRequest);
+          counts.createdCount++;
+        }
+      } catch (error: any) {
+        counts.failedCount++;
+        pendingErrors.push({ row: row.row, sku: row.data.sku, message: error.message });
+      }
+      counts.processedRows++;
+
+      if ((index + 1) % PROGRESS_INTERVAL === 0 || index === job.rows.length - 1) {
+        await this.importJobRepository.recordProgress(importJobId, counts, pendingErrors);
+        pendingErrors = [];
+      }
+    }
+
+    await this.importJobRepository.finish(importJobId, ImportJobStatus.COMPLETED);
+    await this.auditService.recordAdminOperation(audit, updatedProductIds, {
+      operation: 'product_import',
+      reference: job.importNumber,
+    });
+  }
+
+  private async validateFile(
+    file: ImportFile | undefined,
+    ownerUserId: string | undefined,
+    options: ImportOptions
+  ): Promise<ValidatedImport> {
+    if (!file || !file.buffer || file.buffer.length === 0) {
+      throw new Error('An import file is required');
+    }
+
+    const [headers = [], ...records] = await ProductImportService.readSpreadsheet(file);
+    const { columns, ignoredColumns } = ProductImportService.mapColumns(headers, options.mapping);
+    if (!columns.some(column => column.field === 'sku')) {
+      throw new Error('The file needs a SKU column');
+    }
+
+    // Header is row 1; blank lines are skipped but keep their row number
+    const dataRows = records
+      .map((cells, index) => ({ row: index + 2, cells }))
+      .filter(({ cells }) => cells.some(cell => (cell || '').trim() !== ''));
+    if (dataRows.length > MAX_IMPORT_ROWS) {
+      throw new Error(`A file can hold at most ${MAX_IMPORT_ROWS} products`);
+    }
+
+    const mode = options.mode || ImportMode.UPSERT;
+    const rows: ImportRow[] = [];
+    const errors: ImportRowError[] = [];
+    const seenSkus = new Map<string, number>();
+    const seenBarcodes = new Map<string, number>();
+    const definitionsByCategory = new Map<string, IAttributeDefinition[]>();
+
+    for (const { row, cells } of dataRows) {
+      const { data, errors: parseErrors } = ProductImportService.parseRow(cells, columns);
+      const sku = data.sku ? data.sku.toUpperCase() : undefined;
+      const rowErrors: ImportRowError[] = parseErrors.map(error => ({ row, sku, ...error }));
+      const fail = (message: string, field?: string) =>
+        rowErrors.push({ row, sku, field, message });
+
+      if (!sku) {
+        fail('SKU is required', 'sku');
+      } else if (seenSkus.has(sku)) {
+        fail(`SKU is repeated from row ${seenSkus.get(sku)}`, 'sku');
+      } else {
+        seenSkus.set(sku, row);
+      }
+
+      const existing = sku ? await this.productRepository.findBySku(sku) : null;
+      const action: 'create' | 'update' = existing && existing.isActive ? 'update' : 'create';
+
+      if (existing && !existing.isActive) {
+        fail('SKU belongs to a deleted product', 'sku');
+      } else if (existing && mode === ImportMode.CREATE) {
+        fail('A product with this SKU already exists', 'sku');
+      } else if (existing && ownerUserId && existing.userId.toString() !== ownerUserId) {
+        fail("SKU belongs to another user's product", 'sku');
+      }
+
+      if (data.barcode) {
+        try {
+          const { barcode } = BarcodeService.normalizeBarcode(data.barcode, data.barcodeType);
+          // Checked like product saves do: another product already scanning as it,
+          // by barcode or alternate code, deleted or not
+          const holder = (await this.productRepository.findByCodes([barcode])).find(
+            product =>
+              (!existing || product._id.toString() !== existing._id.toString()) &&
+              (product.barcode === barcode || (product.alternateCodes || []).includes(barcode))
+          );
+          if (seenBarcodes.has(barcode)) {
+            fail(`Barcode is repeated from row ${seenBarcodes.get(barcode)}`, 'barcode');
+          } else if (holder) {
+            fail(`Barcode is already used by product ${holder.sku}`, 'barcode');
+          }
+          seenBarcodes.set(barcode, seenBarcodes.get(barcode) || row);
+        } catch (error: any) {
+          fail(error.message, 'barcode');
+        }
+      }
+
+      if (action === 'create') {
+        for (const field of ['name', 'category', 'price'] as const) {
+          if (data[field] === undefined) fail(`${field} is required`, field);
+        }
+      }
+      for (const field of NUMBER_FIELDS) {
+        if (Number(data[field as keyof CreateProductRequest]) < 0)
+          fail(`${field} cannot be negative`, field);
+      }
+
+      // Attribute values are checked against the category the product will be in
+      const category = data.category || (action === 'update' ? existing?.category : undefined);
+      if (data.attributes && category) {
+        const key = category.toLowerCase();
+        if (!definitionsByCategory.has(key)) {
+          const found = await this.categoryService.findByIdOrName(category);
+          definitionsByCategory.set(
+            key,
+            found && found.isActive
+              ? await this.categoryService.getAttributeDefinitions(found._id.toString())
+              : []
+          );
+        }
+        try {
+          ProductService.validateAttributes(
+            definitionsByCategory.get(key) as IAttributeDefinition[],
+            {
+              ...(action === 'update' ? existing?.attributes || {} : {}),
+              ...data.attributes,
+            }
+          );
+        } catch (error: any) {
+          fail(error.message, 'attributes');
+        }
+      }
+
+      if (rowErrors.length > 0) {
+        errors.push(...rowErrors);
+      } else {
+        rows.push({
+          row,
+          action,
+          productId: action === 'update' ? existing?._id.toString() : undefined,
+          data: { ...data, sku },
+        });
+      }
+    }
+
+    return { rows, errors, totalRows: dataRows.length, ignoredColumns };
+  }
+
+  private static cellText(value: ExcelJS.CellValue): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    if (typeof value !== 'object') {
+      return String(value);
+    }
+    if ('richText' in value) {
+      return value.richText.map(part => part.text).join('');
+    }
+    if ('result' in value) {
+      return ProductImportService.cellText(value.result as ExcelJS.CellValue);
+    }
+    if ('text' in value) {
+      return String(value.text);
+    }
+    return '';
+  }
+}
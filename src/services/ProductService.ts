@@ -1,17 +1,193 @@
+import { ClientSession } from 'mongoose';
+import database from '../config/database';
 import { ProductRepository } from '../repositories/ProductRepository';
+import { StockMovementRepository } from '../repositories/StockMovementRepository';
+import { StockLevelRepository } from '../repositories/StockLevelRepository';
+import { ProductVersionRepository } from '../repositories/ProductVersionRepository';
+import { LocationRepository } from '../repositories/LocationRepository';
+import { LotService } from './LotService';
+import { SerialService } from './SerialService';
+import { CostingService } from './CostingService';
+import { CategoryService } from './CategoryService';
+import { ImageService } from './ImageService';
+import { BarcodeService } from './BarcodeService';
 import {
+  CostChangeResult,
   CreateProductRequest,
   UpdateProductRequest,
   ProductQuery,
   IProductDocument,
+  IStockMovementDocument,
+  IStockLevelDocument,
+  ILotDocument,
+  ISerialNumberDocument,
+  SerialStatus,
+  LotAllocation,
   PaginatedResponse,
+  PaginationOptions,
+  StockChangeOptions,
+  StockMovementReason,
+  IVariantOption,
+  IVariantAttribute,
+  CreateVariantsRequest,
+  VariantRequest,
+  VariantSummary,
+  IKitComponent,
+  KitComponentRequest,
+  KitComponentStock,
+  KitAvailability,
+  AssembleKitRequest,
+  UnitsOfMeasure,
+  AttributeType,
+  AttributeValue,
+  AttributeQuery,
+  AttributeFilter,
+  IAttributeDefinition,
+  ImageUpload,
+  IProductImage,
+  IStoredImage,
+  ExportRecord,
+  BarcodeType,
+  IProductVersionDocument,
+  ProductFieldChange,
+  ProductSnapshot,
+  ProductVersionAction,
+  ProductVersionDetails,
 } from '../types';
 
+// Upper bound on the variants generated from a parent's option axes in one request
+const MAX_GENERATED_VARIANTS = 200;
+
+// Upper bound on the images in a product's gallery
+const MAX_PRODUCT_IMAGES = 20;
+
+// Product columns that can be exported, besides attributes.<key>
+export const PRODUCT_EXPORT_COLUMNS = [
+  'id',
+  'sku',
+  'barcode',
+  'barcodeType',
+  'alternateCodes',
+  'name',
+  'description',
+  'category',
+  'price',
+  'quantity',
+  'availableQuantity',
+  'reservedQuantity',
+  'quarantinedQuantity',
+  'inTransitQuantity',
+  'minStockLevel',
+  'reorderPoint',
+  'maxStockLevel',
+  'leadTimeDays',
+  'packSize',
+  'stockStatus',
+  'averageCost',
+  'standardCost',
+  'inventoryValue',
+  'baseUnit',
+  'trackLots',
+  'trackSerials',
+  'hasVariants',
+  'parentId',
+  'images',
+  'createdAt',
+  'updatedAt',
+];
+
+// Default export columns; their headers are the ones the product import reads
+export const DEFAULT_PRODUCT_EXPORT_COLUMNS = [
+  'sku',
+  'barcode',
+  'name',
+  'description',
+  'category',
+  'price',
+  'quantity',
+  'minStockLevel',
+  'reorderPoint',
+  'maxStockLevel',
+  'availableQuantity',
+  'stockStatus',
+];
+
+// Products exported per batch; kit availability is looked up once per batch
+const EXPORT_BATCH_SIZE = 200;
+
+// Product fields kept in each version. Stock figures are recorded by the stock ledger,
+// and images are left out because their files are removed along with them.
+const VERSIONED_FIELDS = [
+  'name',
+  'description',
+  'sku',
+  'barcode',
+  'barcodeType',
+  'alternateCodes',
+  'category',
+  'categoryId',
+  'price',
+  'minStockLevel',
+  'reorderPoint',
+  'maxStockLevel',
+  'leadTimeDays',
+  'packSize',
+  'standardCost',
+  'trackLots',
+  'trackSerials',
+  'variantOptions',
+  'components',
+  'baseUnit',
+  'fractionalQuantities',
+  'units',
+  'attributes',
+  'isActive',
+];
+
+// Product fields stored as given on create and update. Everything else is either resolved
+// by the service (category, barcode, units, variants, components, images) or maintained
+// by stock changes, so request bodies cannot set it directly.
+const EDITABLE_FIELDS = [
+  'name',
+  'description',
+  'sku',
+  'price',
+  'minStockLevel',
+  'reorderPoint',
+  'maxStockLevel',
+  'leadTimeDays',
+  'packSize',
+  'standardCost',
+  'trackLots',
+  'trackSerials',
+] as const;
+
+// Transfers only move units between locations: the product total and its value stay put
+const LOCATION_MOVE_REASONS = [StockMovementReason.TRANSFER_OUT, StockMovementReason.TRANSFER_IN];
+
 export class ProductService {
   private productRepository: ProductRepository;
+  private stockMovementRepository: StockMovementRepository;
+  private stockLevelRepository: StockLevelRepository;
+  private productVersionRepository: ProductVersionRepository;
+  private locationRepository: LocationRepository;
+  private lotService: LotService;
+  private serialService: SerialService;
+  private costingService: CostingService;
+  private categoryService: CategoryService;
+  private imageService: ImageService;
 
   constructor() {
     this.productRepository = new ProductRepository();
+    this.stockMovementRepository = new StockMovementRepository();
+    this.stockLevelRepository = new StockLevelRepository();
+    this.productVersionRepository = new ProductVersionRepository();
+    this.locationRepository = new LocationRepository();
+    this.lotService = new LotService();
+    this.serialService = new SerialService();
+    this.costingService = new CostingService();
+    this.categoryService = new CategoryService();
+    this.imageService = new ImageService();
   }
 
   async createProduct(
@@ -24,14 +200,94 @@ export class ProductService {
       throw new Error('Product with this SKU already exists');
     }
 
-    // Create product
-    const product = await this.productRepository.create({
-      ...productData,
-      userId,
-      images: productData.images || [],
+    const {
+      quantity = 0,
+      lot,
+      serials,
+      unitCost,
+      variantOptions,
+      components: componentData,
+      unit,
+      baseUnit,
+      fractionalQuantities,
+      units,
+      barcode,
+      barcodeType,
+      alternateCodes = [],
+      ...fields
+    } = productData;
+    if (quantity < 0) {
+      throw new Error('Quantity cannot be negative');
+    }
+
+    const barcodeFields = await this.resolveBarcode(null, barcode, barcodeType);
+    const codes = await this.resolveAlternateCodes(null, alternateCodes);
+
+    const unitsOfMeasure = this.resolveUnitsOfMeasure(null, {
+      baseUnit,
+      fractionalQuantities,
+      units,
+      trackSerials: fields.trackSerials,
     });
+    const opening = ProductService.convertToBaseUnit(unitsOfMeasure, quantity, unit);
 
-    return product;
+    const options = ProductService.normalizeVariantOptions(variantOptions);
+    if (options.length > 0 && opening.quantity > 0) {
+      throw new Error('Products with variants hold no stock; add stock to their variants');
+    }
+
+    const components = await this.resolveKitComponents(null, componentData);
+    if (components.length > 0 && options.length > 0) {
+      throw new Error('Kits cannot have variant options');
+    }
+
+    // Create the product empty and book the opening quantity through the ledger,
+    // so lots and serials are handled like any other receipt
+    return await database.withTransaction(async session => {
+      const { category, categoryId, attributes, ...productFields } = fields;
+      const categoryFields = await this.categoryService.resolveForProduct(
+        category,
+        categoryId,
+        session
+      );
+      const definitions = await this.categoryService.getAttributeDefinitions(
+        categoryFields.categoryId.toString(),
+        session
+      );
+      const product = await this.productRepository.create(
+        {
+          ...ProductService.editableFields(productFields),
+          ...categoryFields,
+          ...barcodeFields,
+          alternateCodes: codes,
+          attributes: ProductService.validateAttributes(definitions, attributes),
+          quantity: 0,
+          parentId: null,
+          hasVariants: options.length > 0,
+          variantOptions: options,
+          variantAttributes: [],
+          components,
+          ...unitsOfMeasure,
+          userId,
+          images: (productData.images || []).map(url => ({ url })),
+        },
+        session
+      );
+      await this.recordVersion(null, product, userId, session);
+
+      if (opening.quantity === 0) {
+        return product;
+      }
+
+      return await this.commitStockChange(product._id.toString(), () => opening.quantity, {
+        reason: StockMovementReason.INITIAL,
+        lot,
+        serials,
+        unitCost: ProductService.convertUnitCost(unitCost, opening.factor),
+        performedBy: userId,
+        session,
+      });
+    });
   }
 
   async getProductById(productId: string, userId?: string): Promise<IProductDocument | null> {
@@ -46,21 +302,28 @@ export class ProductService {
       return null;
     }
 
+    await this.applyKitAvailability([product]);
     return product;
   }
 
   async getUserProducts(userId: string): Promise<IProductDocument[]> {
-    return await this.productRepository.findByUserId(userId);
+    const products = await this.productRepository.findByUserId(userId);
+    await this.applyKitAvailability(products);
+    return products;
   }
 
   async getAllProducts(query: ProductQuery): Promise<PaginatedResponse<IProductDocument>> {
-    return await this.productRepository.searchProducts(query);
+    const result = await this.productRepository.searchProducts(await this.resolveQuery(query));
+    await this.applyKitAvailability(result.data);
+    return result;
   }
 
   async updateProduct(
     productId: string,
     userId: string,
-    updateData: UpdateProductRequest
+    updateData: UpdateProductRequest,
+    options: StockChangeOptions = {},
+    versionDetails: ProductVersionDetails = {}
   ): Promise<IProductDocument | null> {
     // Check if product exists and belongs to user
     const existingProduct = await this.getProductById(productId, userId);
@@ -76,25 +339,474 @@ export class ProductService {
       }
     }
 
-    return await this.productRepository.update(productId, updateData);
+    // Quantity edits go through the stock ledger like any other stock change
+    const {
+      quantity,
+      unitCost,
+      variantOptions,
+      components,
+      unit,
+      category,
+      categoryId,
+      attributes,
+      images,
+      barcode,
+      barcodeType,
+      alternateCodes,
+      ...fields
+    } = updateData;
+    const performedBy = options.performedBy || userId || undefined;
+    const unitsOfMeasure = this.resolveUnitsOfMeasure(existingProduct, fields);
+    const barcodeFields =
+      barcode !== undefined || barcodeType !== undefined
+        ? await this.resolveBarcode(existingProduct, barcode, barcodeType)
+        : {};
+    const alternateCodeFields =
+      alternateCodes !== undefined
+        ? { alternateCodes: await this.resolveAlternateCodes(existingProduct, alternateCodes) }
+        : {};
+    const categoryFields =
+      category !== undefined || categoryId !== undefined
+        ? await this.categoryService.resolveForProduct(category, categoryId)
+        : undefined;
+
+    // Attribute changes are merged into the current values, and all of them are
+    // checked again when the product moves to another category
+    const attributeChanges =
+      attributes !== undefined || categoryFields
+        ? {
+            attributes: ProductService.validateAttributes(
+              await this.categoryService.getAttributeDefinitions(
+                (categoryFields?.categoryId || existingProduct.categoryId || '').toString()
+              ),
+              { ...(existingProduct.attributes || {}), ...(attributes || {}) }
+            ),
+          }
+        : {};
+
+    // Variants are always filed under their parent's category
+    const variants =
+      categoryFields && existingProduct.hasVariants
+        ? await this.productRepository.findVariants(productId)
+        : [];
+
+    const changes = {
+      ...ProductService.editableFields(fields),
+      ...categoryFields,
+      ...barcodeFields,
+      ...alternateCodeFields,
+      ...attributeChanges,
+      ...unitsOfMeasure,
+      ...(variantOptions !== undefined
+        ? await this.resolveVariantOptionsUpdate(existingProduct, variantOptions)
+        : {}),
+      ...(components !== undefined
+        ? { components: await this.resolveKitComponents(existingProduct, components) }
+        : {}),
+      ...(images !== undefined ? { images: this.resolveImageUrls(existingProduct, images) } : {}),
+    };
+    const saveChanges = async (session: ClientSession) => {
+      const updated = await this.productRepository.update(productId, changes, session);
+      await this.recordVersion(existingProduct, updated, performedBy, session, versionDetails);
+      for (const variant of variants) {
+        const updatedVariant = await this.productRepository.update(
+          variant._id.toString(),
+          { ...categoryFields },
+          session
+        );
+        await this.recordVersion(variant, updatedVariant, performedBy, session, {
+          viaParent: true,
+        });
+      }
+      return updated;
+    };
+    const converted =
+      quantity === undefined
+        ? undefined
+        : ProductService.convertToBaseUnit(unitsOfMeasure, quantity, unit);
+    if (converted === undefined || converted.quantity === existingProduct.quantity) {
+      const product = await database.withTransaction(saveChanges, options.session);
+      await this.removeDroppedImages(existingProduct, changes.images);
+      return product;
+    }
+
+    if (converted.quantity < 0) {
+      throw new Error('Quantity cannot be negative');
+    }
+
+    const product = await database.withTransaction(async session => {
+      await saveChanges(session);
+      return await this.commitStockChange(
+        productId,
+        () => converted.quantity,
+        {
+          reason: StockMovementReason.MANUAL_SET,
+          unitCost: ProductService.convertUnitCost(unitCost, converted.factor),
+          ...options,
+          session,
+        },
+        true
+      );
+    }, options.session);
+    await this.removeDroppedImages(existingProduct, changes.images);
+    return product;
   }
 
-  async deleteProduct(productId: string, userId: string): Promise<boolean> {
+  async deleteProduct(productId: string, userId: string, performedBy?: string): Promise<boolean> {
     // Check if product exists and belongs to user
     const existingProduct = await this.getProductById(productId, userId);
     if (!existingProduct) {
       throw new Error('Product not found or access denied');
     }
 
-    // Soft delete by setting isActive to false
-    const result = await this.productRepository.update(productId, { isActive: false });
-    return result !== null;
+    const actor = performedBy || userId || undefined;
+    const variants = existingProduct.hasVariants
+      ? await this.productRepository.findVariants(productId)
+      : [];
+
+    // Soft delete by setting isActive to false; a parent takes its variants with it
+    return await database.withTransaction(async session => {
+      for (const variant of variants) {
+        const deleted = await this.productRepository.update(
+          variant._id.toString(),
+          { isActive: false },
+          session
+        );
+        await this.recordVersion(variant, deleted, actor, session, {
+          action: ProductVersionAction.DELETE,
+          viaParent: true,
+        });
+      }
+
+      const result = await this.productRepository.update(productId, { isActive: false }, session);
+      await this.recordVersion(existingProduct, result, actor, session, {
+        action: ProductVersionAction.DELETE,
+      });
+      return result !== null;
+    });
+  }
+
+  // Versions of a product, deleted or not, newest first
+  async getProductHistory(
+    productId: string,
+    userId: string | undefined,
+    paginationOptions: PaginationOptions
+  ): Promise<PaginatedResponse<IProductVersionDocument>> {
+    const product = await this.findOwnedProduct(productId, userId);
+    if (!product) {
+      throw new Error('Product not found or access denied');
+    }
+
+    return await this.productVersionRepository.findByProduct(productId, paginationOptions);
+  }
+
+  // One version, with the product's fields as they were right after it
+  async getProductVersion(
+    productId: string,
+    version: number,
+    userId?: string
+  ): Promise<IProductVersionDocument | null> {
+    const product = await this.findOwnedProduct(productId, userId);
+    if (!product) {
+      throw new Error('Product not found or access denied');
+    }
+
+    return await this.productVersionRepository.findVersion(productId, version);
+  }
+
+  // Sets the product's fields back to those of an earlier version. The change goes
+  // through the same checks as any update and is recorded as a new version; stock
+  // and images are left as they are.
+  async restoreProductVersion(
+    productId: string,
+    version: number,
+    userId: string,
+    performedBy?: string
+  ): Promise<IProductDocument | null> {
+    const product = await this.getProductById(productId, userId);
+    if (!product) {
+      throw new Error('Product not found or access denied');
+    }
+
+    const target = await this.productVersionRepository.findVersion(productId, version);
+    if (!target) {
+      throw new Error(`Version ${version} of this product not found`);
+    }
+
+    const changes = ProductService.restoreChanges(
+      ProductService.versionSnapshot(product),
+      target.snapshot
+    );
+    if (Object.keys(changes).length === 0) {
+      return product;
+    }
+
+    return await this.updateProduct(
+      productId,
+      userId,
+      changes,
+      { performedBy },
+      { action: ProductVersionAction.RESTORE, restoredFrom: version }
+    );
+  }
+
+  // Soft-deleted products, most recently changed first
+  async getDeletedProducts(
+    userId: string | undefined,
+    paginationOptions: PaginationOptions
+  ): Promise<PaginatedResponse<IProductDocument>> {
+    return await this.productRepository.findDeleted(userId, paginationOptions);
+  }
+
+  // Takes a product out of the trash. A parent brings back the variants that were
+  // deleted along with it; a variant needs its parent restored first.
+  async restoreDeletedProduct(
+    productId: string,
+    userId: string,
+    performedBy?: string
+  ): Promise<IProductDocument | null> {
+    const product = await this.findOwnedProduct(productId, userId);
+    if (!product) {
+      throw new Error('Product not found or access denied');
+    }
+    if (product.isActive) {
+      throw new Error('Product is not deleted');
+    }
+
+    if (product.parentId) {
+      const parent = await this.productRepository.findById(product.parentId.toString());
+      if (!parent || !parent.isActive) {
+        throw new Error('Restore the parent product first');
+      }
+    }
+
+    const variants: IProductDocument[] = [];
+    if (product.hasVariants) {
+      for (const variant of await this.productRepository.findDeletedVariants(productId)) {
+        const latest = await this.productVersionRepository.findLatest(variant._id.toString());
+        if (latest && latest.action === ProductVersionAction.DELETE && latest.viaParent) {
+          variants.push(variant);
+        }
+      }
+    }
+
+    const actor = performedBy || userId || undefined;
+    const restored = await database.withTransaction(async session => {
+      for (const variant of variants) {
+        const updated = await this.productRepository.update(
+          variant._id.toString(),
+          { isActive: true },
+          session
+        );
+        await this.recordVersion(variant, updated, actor, session, {
+          action: ProductVersionAction.RESTORE,
+          viaParent: true,
+        });
+      }
+
+      const result = await this.productRepository.update(productId, { isActive: true }, session);
+      await this.recordVersion(product, result, actor, session, {
+        action: ProductVersionAction.RESTORE,
+      });
+      return result;
+    });
+
+    if (restored) {
+      await this.applyKitAvailability([restored]);
+    }
+    return restored;
+  }
+
+  // The versioned fields as plain JSON, with ids as strings and object keys sorted,
+  // so snapshots can be compared and stored as they are
+  static versionSnapshot(product: IProductDocument | Record<string, any>): ProductSnapshot {
+    const source =
+      typeof product.toObject === 'function'
+        ? product.toObject()
+        : (product as Record<string, any>);
+    const normalize = (value: unknown): unknown => {
+      if (Array.isArray(value)) {
+        return value.map(normalize);
+      }
+      if (value && typeof value === 'object') {
+        const object = value as Record<string, unknown>;
+        return Object.fromEntries(
+          Object.keys(object)
+            .filter(key => key !== '_id')
+            .sort()
+            .map(key => [key, normalize(object[key])])
+        );
+      }
+      return value;
+    };
+
+    return Object.fromEntries(
+      VERSIONED_FIELDS.map(field => {
+        const value = source[field];
+        return [
+          field,
+          value === undefined || value === null
+            ? null
+            : normalize(JSON.parse(JSON.stringify(value))),
+        ];
+      })
+    );
+  }
+
+  // Versioned fields whose value differs; without an earlier snapshot every field
+  // that has a value counts as changed
+  static diffVersions(
+    before: ProductSnapshot | null,
+    after: ProductSnapshot
+  ): ProductFieldChange[] {
+    return VERSIONED_FIELDS.flatMap(field => {
+      const from = before ? (before[field] ?? null) : null;
+      const to = after[field] ?? null;
+      return JSON.stringify(from) === JSON.stringify(to) ? [] : [{ field, from, to }];
+    });
+  }
+
+  // The editable fields present in a create or update request
+  static editableFields(
+    data: UpdateProductRequest
+  ): Pick<UpdateProductRequest, (typeof EDITABLE_FIELDS)[number]> {
+    return Object.fromEntries(
+      EDITABLE_FIELDS.filter(field => data[field] !== undefined).map(field => [field, data[field]])
+    );
+  }
+
+  // Update that takes a product from its current snapshot back to an earlier one. Only
+  // changed fields are sent, a barcode goes together with its type, and attributes
+  // missing from the earlier snapshot are removed.
+  static restoreChanges(current: ProductSnapshot, target: ProductSnapshot): UpdateProductRequest {
+    const request: Record<string, unknown> = {};
+
+    for (const { field, to } of ProductService.diffVersions(current, target)) {
+      // A category id wins over the name; older products only have the name
+      if (
+        field === 'isActive' ||
+        (field === 'category' && target.categoryId) ||
+        (field === 'categoryId' && !target.categoryId)
+      ) {
+        continue;
+      }
+
+      if (field === 'attributes') {
+        const removed = Object.keys((current.attributes as Record<string, unknown>) || {});
+        request.attributes = {
+          ...Object.fromEntries(removed.map(key => [key, null])),
+          ...((to as Record<string, unknown>) || {}),
+        };
+      } else if (field === 'barcode') {
+        request.barcode = to;
+        request.barcodeType = to ? target.barcodeType || undefined : undefined;
+      } else if (field === 'barcodeType') {
+        if (target.barcode) request.barcodeType = to;
+      } else if (['alternateCodes', 'variantOptions', 'components', 'units'].includes(field)) {
+        request[field] = to || [];
+      } else {
+        request[field] = to;
+      }
+    }
+
+    return request as UpdateProductRequest;
+  }
+
+  // Adds uploaded images (with generated thumbnails) to the end of the gallery
+  async addProductImages(
+    productId: string,
+    userId: string | undefined,
+    files: ImageUpload[]
+  ): Promise<IProductDocument | null> {
+    const product = await this.getProductById(productId, userId);
+    if (!product) {
+      throw new Error('Product not found or access denied');
+    }
+
+    if (files.length === 0) {
+      throw new Error('No images were uploaded');
+    }
+    if (product.images.length + files.length > MAX_PRODUCT_IMAGES) {
+      throw new Error(`A product can have at most ${MAX_PRODUCT_IMAGES} images`);
+    }
+
+    // Reject the whole upload before anything is stored
+    files.forEach(file => ImageService.validateUpload(file));
+
+    const stored: IStoredImage[] = [];
+    try {
+      for (const file of files) {
+        stored.push(await this.imageService.storeImage(file, `products/${productId}`));
+      }
+      return await this.productRepository.update(productId, {
+        $push: { images: { $each: stored } },
+      });
+    } catch (error) {
+      for (const image of stored) {
+        await this.imageService.removeImage(image);
+      }
+      throw error;
+    }
+  }
+
+  // Startup migration for products whose images are still plain URL strings
+  async convertLegacyImages(): Promise<number> {
+    return await this.productRepository.convertLegacyImages();
+  }
+
+  // Puts the gallery in the given order; every image must be listed exactly once
+  async reorderProductImages(
+    productId: string,
+    userId: string | undefined,
+    imageIds: string[]
+  ): Promise<IProductDocument | null> {
+    const product = await this.getProductById(productId, userId);
+    if (!product) {
+      throw new Error('Product not found or access denied');
+    }
+
+    const byId = new Map(product.images.map(image => [image._id?.toString(), image]));
+    if (
+      !Array.isArray(imageIds) ||
+      imageIds.length !== product.images.length ||
+      new Set(imageIds).size !== imageIds.length ||
+      imageIds.some(id => !byId.has(id))
+    ) {
+      throw new Error('Image order must list every image of the product exactly once');
+    }
+
+    return await this.productRepository.update(productId, {
+      images: imageIds.map(id => byId.get(id)),
+    });
+  }
+
+  async deleteProductImage(
+    productId: string,
+    userId: string | undefined,
+    imageId: string
+  ): Promise<IProductDocument | null> {
+    const product = await this.getProductById(productId, userId);
+    if (!product) {
+      throw new Error('Product not found or access denied');
+    }
+
+    const image = product.images.find(candidate => candidate._id?.toString() === imageId);
+    if (!image) {
+      throw new Error('Image not found');
+    }
+
+    const updated = await this.productRepository.update(productId, {
+      $pull: { images: { _id: image._id } },
+    });
+    await this.imageService.removeImage(image);
+    return updated;
   }
 
   async updateStock(
     productId: string,
     quantity: number,
-    userId?: string
+    userId?: string,
+    options: StockChangeOptions = {}
   ): Promise<IProductDocument | null> {
     // Validate quantity
     if (quantity < 0) {
@@ -107,60 +819,167 @@ export class ProductService {
       throw new Error('Product not found or access denied');
     }
 
-    return await this.productRepository.updateStock(productId, quantity);
+    const { unit, ...changeOptions } = options;
+    const converted = ProductService.convertToBaseUnit(existingProduct, quantity, unit);
+
+    // Like adjustments, setting the quantity cannot take back units held by reservations
+    return await this.commitStockChange(
+      productId,
+      () => converted.quantity,
+      {
+        reason: StockMovementReason.MANUAL_SET,
+        ...changeOptions,
+        unitCost: ProductService.convertUnitCost(changeOptions.unitCost, converted.factor),
+      },
+      true
+    );
   }
 
+  // Products in the category (by id, slug or name) and all of its subcategories
   async getProductsByCategory(category: string): Promise<IProductDocument[]> {
-    return await this.productRepository.findByCategory(category);
+    const categoryIds = await this.categoryService.resolveCategoryIds(category);
+    if (!categoryIds) {
+      return [];
+    }
+
+    const products = await this.productRepository.findByCategoryIds(categoryIds);
+    await this.applyKitAvailability(products);
+    return products;
   }
 
-  async getLowStockProducts(userId?: string): Promise<IProductDocument[]> {
-    return await this.productRepository.findLowStock(userId);
+  async getLowStockProducts(
+    userId?: string,
+    locationId?: string,
+    category?: string
+  ): Promise<IProductDocument[]> {
+    const categoryIds = category
+      ? (await this.categoryService.resolveCategoryIds(category)) || []
+      : undefined;
+    return await this.productRepository.findLowStock(userId, locationId, categoryIds);
   }
 
   async getCategories(): Promise<string[]> {
-    return await this.productRepository.getCategories();
+    const categories = await this.categoryService.getCategories();
+    return [...new Set(categories.map(category => category.name))];
   }
 
-  async getInventoryStats(userId?: string): Promise<{
+  // Stats for one category cover the category and all of its subcategories
+  async getInventoryStats(
+    userId?: string,
+    locationId?: string,
+    category?: string
+  ): Promise<{
     totalProducts: number;
     totalValue: number;
     lowStockCount: number;
     outOfStockCount: number;
+    quarantinedQuantity: number;
   }> {
-    const filter: any = { isActive: true };
+    // Variant parents hold no stock; their variants are counted instead
+    const filter: any = { isActive: true, hasVariants: { $ne: true } };
     if (userId) filter.userId = userId;
 
-    const [totalProducts, totalValue, lowStockProducts] = await Promise.all([
-      this.productRepository.count(filter),
-      this.productRepository.getTotalValue(userId),
-      this.productRepository.findLowStock(userId),
+    const categoryIds = category
+      ? (await this.categoryService.resolveCategoryIds(category)) || []
+      : undefined;
+    if (categoryIds) filter.categoryId = { $in: categoryIds };
+
+    // Per-location stats only count products stocked at that location
+    const [totalProducts, totalValue, lowStockProducts, quarantinedQuantity] = await Promise.all([
+      locationId
+        ? this.productRepository.countStocked(userId, locationId, false, categoryIds)
+        : this.productRepository.count(filter),
+      this.productRepository.getTotalValue(userId, locationId, categoryIds),
+      this.productRepository.findLowStock(userId, locationId, categoryIds),
+      // Quarantined units are not held at a location and never count as stock
+      this.productRepository.getQuarantinedQuantity(userId, categoryIds),
     ]);
 
-    const outOfStockCount = await this.productRepository.count({
-      ...filter,
-      quantity: 0,
-    });
+    // Out of stock means nothing available, matching the product's availableQuantity
+    const outOfStockCount = await this.productRepository.countStocked(
+      userId,
+      locationId,
+      true,
+      categoryIds
+    );
 
     return {
       totalProducts,
       totalValue,
       lowStockCount: lowStockProducts.length,
       outOfStockCount,
+      quarantinedQuantity,
     };
   }
 
   async searchProducts(query: ProductQuery): Promise<PaginatedResponse<IProductDocument>> {
-    return await this.productRepository.searchProducts(query);
+    const result = await this.productRepository.searchProducts(await this.resolveQuery(query));
+    await this.applyKitAvailability(result.data);
+    return result;
   }
 
+  // Flat copy of a product for exports, with image URLs in place of image records
+  static toExportRecord(product: IProductDocument | Record<string, any>): ExportRecord {
+    const record =
+      typeof product.toJSON === 'function' ? product.toJSON() : (product as Record<string, any>);
+    return {
+      ...record,
+      id: String(record._id),
+      images: (record.images || []).map((image: IProductImage | string) =>
+        typeof image === 'string' ? image : image.url
+      ),
+    };
+  }
+
+  // Every product matching the query, without pagination. The filters are checked
+  // before anything is returned; products are then read from a cursor as they are
+  // consumed.
+  async exportProducts(query: ProductQuery): Promise<AsyncIterable<ExportRecord>> {
+    const cursor = await this.productRepository.streamProducts(await this.resolveQuery(query));
+    return this.readExportBatches(cursor);
+  }
+
+  // Widens a category filter to the category's whole subtree (an unknown category
+  // matches nothing) and types the attribute filters
+  private async resolveQuery(query: ProductQuery): Promise<ProductQuery> {
+    const resolved: ProductQuery = { ...query };
+
+    if (query.category) {
+      const categoryIds = await this.categoryService.resolveCategoryIds(query.category);
+      resolved.categoryIds = categoryIds || [];
+    }
+
+    const sortAttribute = query.sortBy?.startsWith('attributes.')
+      ? query.sortBy.slice('attributes.'.length)
+      : undefined;
+    if ((query.attributes && Object.keys(query.attributes).length > 0) || sortAttribute) {
+      const definitions = await this.categoryService.getAttributeDefinitionsByKey();
+      resolved.attributeFilters = ProductService.buildAttributeFilters(
+        definitions,
+        query.attributes
+      );
+      if (sortAttribute && !definitions.has(sortAttribute)) {
+        throw new Error(`Unknown attribute "${sortAttribute}"`);
+      }
+    }
+
+    return resolved;
+  }
+
+  // Sets the stock of several products at once; if any update fails none are applied
   async bulkUpdateStock(
     updates: Array<{ productId: string; quantity: number }>,
-    userId?: string
+    userId?: string,
+    options: StockChangeOptions = {}
   ): Promise<void> {
-    for (const update of updates) {
-      await this.updateStock(update.productId, update.quantity, userId);
-    }
+    await database.withTransaction(async session => {
+      for (const update of updates) {
+        await this.updateStock(update.productId, update.quantity, userId, {
+          ...options,
+          session,
+        });
+      }
+    }, options.session);
   }
 
   async getProductBySku(sku: string): Promise<IProductDocument | null> {
@@ -170,18 +989,1219 @@ export class ProductService {
   async adjustStock(
     productId: string,
     adjustment: number,
-    userId?: string
+    userId?: string,
+    options: StockChangeOptions = {}
   ): Promise<IProductDocument | null> {
     const product = await this.getProductById(productId, userId);
     if (!product) {
       throw new Error('Product not found or access denied');
     }
 
-    const newQuantity = product.quantity + adjustment;
-    if (newQuantity < 0) {
-      throw new Error('Insufficient stock for this adjustment');
+    const { unit, ...changeOptions } = options;
+    const converted = ProductService.convertToBaseUnit(product, adjustment, unit);
+    changeOptions.unitCost = ProductService.convertUnitCost(
+      changeOptions.unitCost,
+      converted.factor
+    );
+
+    if (product.components && product.components.length > 0 && converted.quantity < 0) {
+      return await this.takeKitStock(product, -converted.quantity, changeOptions);
+    }
+
+    return await this.commitStockChange(
+      productId,
+      current => {
+        const newQuantity = current + converted.quantity;
+        if (newQuantity < 0) {
+          throw new Error('Insufficient stock for this adjustment');
+        }
+        return newQuantity;
+      },
+      { reason: StockMovementReason.ADJUSTMENT, ...changeOptions },
+      true
+    );
+  }
+
+  async getStockMovements(
+    productId: string,
+    paginationOptions: PaginationOptions,
+    userId?: string
+  ): Promise<PaginatedResponse<IStockMovementDocument>> {
+    const product = await this.getProductById(productId, userId);
+    if (!product) {
+      throw new Error('Product not found or access denied');
+    }
+
+    return await this.stockMovementRepository.findByProduct(productId, paginationOptions);
+  }
+
+  async getStockLevels(productId: string, userId?: string): Promise<IStockLevelDocument[]> {
+    const product = await this.getProductById(productId, userId);
+    if (!product) {
+      throw new Error('Product not found or access denied');
+    }
+
+    return await this.stockLevelRepository.findByProduct(productId);
+  }
+
+  async setLocationMinStockLevel(
+    productId: string,
+    locationId: string,
+    minStockLevel: number | null,
+    userId?: string
+  ): Promise<IStockLevelDocument | null> {
+    if (minStockLevel !== null && minStockLevel < 0) {
+      throw new Error('Minimum stock level cannot be negative');
+    }
+
+    const product = await this.getProductById(productId, userId);
+    if (!product) {
+      throw new Error('Product not found or access denied');
+    }
+
+    await this.getActiveLocation(locationId);
+
+    return await this.stockLevelRepository.setMinStockLevel(productId, locationId, minStockLevel);
+  }
+
+  async getProductLots(productId: string, userId?: string): Promise<ILotDocument[]> {
+    const product = await this.getProductById(productId, userId);
+    if (!product) {
+      throw new Error('Product not found or access denied');
+    }
+
+    return await this.lotService.getProductLots(productId);
+  }
+
+  async getExpiringLots(withinDays: number, userId?: string): Promise<ILotDocument[]> {
+    if (!Number.isFinite(withinDays) || withinDays < 0) {
+      throw new Error('withinDays must be a non-negative number');
+    }
+
+    // Users only see lots of their own products
+    const productIds = userId
+      ? (await this.productRepository.findByUserId(userId)).map(product => product._id.toString())
+      : undefined;
+
+    return await this.lotService.getExpiringLots(withinDays, productIds);
+  }
+
+  async getProductSerials(
+    productId: string,
+    status?: SerialStatus,
+    userId?: string
+  ): Promise<ISerialNumberDocument[]> {
+    const product = await this.getProductById(productId, userId);
+    if (!product) {
+      throw new Error('Product not found or access denied');
+    }
+
+    return await this.serialService.getProductSerials(productId, status);
+  }
+
+  // Attach serial numbers to units that were on hand before serial tracking was enabled
+  async registerSerials(
+    productId: string,
+    serials: string[],
+    performedBy: string,
+    userId?: string
+  ): Promise<ISerialNumberDocument[]> {
+    const product = await this.getProductById(productId, userId);
+    if (!product) {
+      throw new Error('Product not found or access denied');
+    }
+
+    if (!product.trackSerials) {
+      throw new Error('Serial tracking is not enabled for this product');
+    }
+
+    return await database.withTransaction(async session => {
+      const current = await this.productRepository.findById(productId, session);
+      return await this.serialService.registerExisting(current, serials, performedBy, session);
+    });
+  }
+
+  async lookupSerial(serial: string, userId?: string): Promise<ISerialNumberDocument[]> {
+    const units = await this.serialService.lookupSerial(serial);
+
+    // Users only see units of their own products
+    if (!userId) {
+      return units;
+    }
+    return units.filter(unit => {
+      const product: any = unit.productId;
+      return product && product.userId && product.userId.toString() === userId;
+    });
+  }
+
+  async getVariants(
+    parentId: string,
+    userId?: string
+  ): Promise<{ summary: VariantSummary; variants: IProductDocument[] }> {
+    const parent = await this.getProductById(parentId, userId);
+    if (!parent) {
+      throw new Error('Product not found or access denied');
     }
 
-    return await this.updateStock(productId, newQuantity, userId);
+    const [summary, variants] = await Promise.all([
+      this.productRepository.getVariantSummary(parentId),
+      this.productRepository.findVariants(parentId),
+    ]);
+
+    return { summary, variants };
+  }
+
+  async getVariantSummary(parentId: string): Promise<VariantSummary> {
+    return await this.productRepository.getVariantSummary(parentId);
+  }
+
+  // Creates variants of a parent product. Without an explicit list every combination of
+  // the option values that does not exist yet is generated. Variants copy the parent's
+  // details and get a SKU built from the parent SKU and their option values.
+  async createVariants(
+    parentId: string,
+    userId: string | undefined,
+    performedBy: string,
+    variantsData: CreateVariantsRequest
+  ): Promise<IProductDocument[]> {
+    const parent = await this.getProductById(parentId, userId);
+    if (!parent) {
+      throw new Error('Product not found or access denied');
+    }
+
+    if (!parent.hasVariants) {
+      throw new Error('Product has no variant options');
+    }
+
+    const existing = await this.productRepository.findVariants(parentId);
+    const taken = new Set(
+      existing.map(variant => ProductService.variantKey(variant.variantAttributes))
+    );
+
+    const requests: Array<
+      Omit<VariantRequest, 'attributes'> & { attributes: IVariantAttribute[] }
+    > =
+      variantsData.variants && variantsData.variants.length > 0
+        ? variantsData.variants.map(variant => ({
+            ...variant,
+            attributes: ProductService.resolveVariantAttributes(
+              parent.variantOptions,
+              variant.attributes
+            ),
+          }))
+        : ProductService.expandVariantCombinations(parent.variantOptions)
+            .filter(attributes => !taken.has(ProductService.variantKey(attributes)))
+            .map(attributes => ({ attributes }));
+
+    if (requests.length === 0) {
+      throw new Error('All variant combinations already exist');
+    }
+
+    if (requests.length > MAX_GENERATED_VARIANTS) {
+      throw new Error(`Cannot create more than ${MAX_GENERATED_VARIANTS} variants at once`);
+    }
+
+    const skus = new Set<string>();
+    const barcodes = new Set<string>();
+    for (const request of requests) {
+      const key = ProductService.variantKey(request.attributes);
+      if (taken.has(key)) {
+        throw new Error(
+          `Variant ${request.attributes.map(attribute => attribute.value).join(' / ')} already exists`
+        );
+      }
+      taken.add(key);
+
+      request.sku = (
+        request.sku ||
+        ProductService.buildVariantSku(
+          parent.sku,
+          request.attributes.map(attribute => attribute.value)
+        )
+      ).toUpperCase();
+      if (skus.has(request.sku) || (await this.productRepository.findBySku(request.sku))) {
+        throw new Error(`Product with SKU ${request.sku} already exists`);
+      }
+      skus.add(request.sku);
+
+      if (request.barcode) {
+        const { barcode, barcodeType } = await this.resolveBarcode(
+          null,
+          request.barcode,
+          request.barcodeType
+        );
+        if (barcodes.has(barcode as string)) {
+          throw new Error(`Barcode ${barcode} is given to more than one variant`);
+        }
+        barcodes.add(barcode as string);
+        request.barcode = barcode as string;
+        request.barcodeType = barcodeType as BarcodeType;
+      }
+
+      if (request.quantity !== undefined && request.quantity < 0) {
+        throw new Error('Quantity cannot be negative');
+      }
+    }
+
+    return await database.withTransaction(async session => {
+      const variants: IProductDocument[] = [];
+
+      for (const request of requests) {
+        const values = request.attributes.map(attribute => attribute.value);
+        const variant = await this.productRepository.create(
+          {
+            name: `${parent.name} - ${values.join(' / ')}`.slice(0, 100),
+            description: parent.description,
+            sku: request.sku,
+            barcode: request.barcode || null,
+            barcodeType: request.barcodeType || null,
+            category: parent.category,
+            categoryId: parent.categoryId,
+            attributes: parent.attributes,
+            price: request.price !== undefined ? request.price : parent.price,
+            quantity: 0,
+            minStockLevel:
+              request.minStockLevel !== undefined ? request.minStockLevel : parent.minStockLevel,
+            reorderPoint: parent.reorderPoint,
+            maxStockLevel: parent.maxStockLevel,
+            leadTimeDays: parent.leadTimeDays,
+            packSize: parent.packSize,
+            standardCost: parent.standardCost,
+            trackLots: parent.trackLots,
+            trackSerials: parent.trackSerials,
+            // Variants show the parent's images without taking over their files
+            images: parent.images.map(({ url, thumbnailUrl }) => ({ url, thumbnailUrl })),
+            parentId: parent._id,
+            variantAttributes: request.attributes,
+            userId: parent.userId,
+          },
+          session
+        );
+        await this.recordVersion(null, variant, performedBy, session);
+
+        if (!request.quantity) {
+          variants.push(variant);
+          continue;
+        }
+
+        const quantity = request.quantity;
+        const stocked = await this.commitStockChange(variant._id.toString(), () => quantity, {
+          reason: StockMovementReason.INITIAL,
+          lot: request.lot,
+          serials: request.serials,
+          unitCost: request.unitCost,
+          performedBy,
+          session,
+        });
+        variants.push(stocked as IProductDocument);
+      }
+
+      return variants;
+    });
+  }
+
+  // Trims option names and values, dropping duplicate values; names must be unique
+  static normalizeVariantOptions(options?: IVariantOption[]): IVariantOption[] {
+    if (!options || options.length === 0) {
+      return [];
+    }
+
+    const names = new Set<string>();
+    return options.map(option => {
+      const name = (option.name || '').trim();
+      if (!name) {
+        throw new Error('Variant options must have a name');
+      }
+      if (names.has(name.toLowerCase())) {
+        throw new Error(`Duplicate variant option: ${name}`);
+      }
+      names.add(name.toLowerCase());
+
+      const values: string[] = [];
+      for (const raw of option.values || []) {
+        const value = String(raw).trim();
+        if (value && !values.some(existing => existing.toLowerCase() === value.toLowerCase())) {
+          values.push(value);
+        }
+      }
+      if (values.length === 0) {
+        throw new Error(`Variant option ${name} must have at least one value`);
+      }
+
+      return { name, values };
+    });
+  }
+
+  // Every combination of option values, in option order
+  static expandVariantCombinations(options: IVariantOption[]): IVariantAttribute[][] {
+    return options.reduce<IVariantAttribute[][]>(
+      (combinations, option) =>
+        combinations.flatMap(combination =>
+          option.values.map(value => [...combination, { name: option.name, value }])
+        ),
+      [[]]
+    );
+  }
+
+  // Maps a variant's requested values onto the parent's option axes; every axis needs a
+  // value and names and values are matched case-insensitively
+  static resolveVariantAttributes(
+    options: IVariantOption[],
+    attributes: Record<string, string> = {}
+  ): IVariantAttribute[] {
+    const entries = Object.entries(attributes);
+    if (entries.length !== options.length) {
+      throw new Error(
+        `Variants must set a value for every option: ${options.map(option => option.name).join(', ')}`
+      );
+    }
+
+    return options.map(option => {
+      const entry = entries.find(([name]) => name.toLowerCase() === option.name.toLowerCase());
+      if (!entry) {
+        throw new Error(`Missing value for variant option ${option.name}`);
+      }
+
+      const value = option.values.find(
+        candidate => candidate.toLowerCase() === String(entry[1]).trim().toLowerCase()
+      );
+      if (!value) {
+        throw new Error(`Invalid value "${entry[1]}" for variant option ${option.name}`);
+      }
+
+      return { name: option.name, value };
+    });
+  }
+
+  // Parent SKU followed by the option values, e.g. TSHIRT-RED-M
+  static buildVariantSku(parentSku: string, values: string[]): string {
+    return [parentSku, ...values]
+      .map(part =>
+        part
+          .toUpperCase()
+          .replace(/[^A-Z0-9]+/g, '-')
+          .replace(/^-+|-+$/g, '')
+      )
+      .filter(part => part.length > 0)
+      .join('-');
+  }
+
+  private static variantKey(attributes: IVariantAttribute[]): string {
+    return attributes.map(attribute => attribute.value.toLowerCase()).join('|');
+  }
+
+  // Option axes can be added to or extended as long as every existing variant still fits
+  private async resolveVariantOptionsUpdate(
+    product: IProductDocument,
+    variantOptions: IVariantOption[]
+  ): Promise<{ variantOptions: IVariantOption[]; hasVariants: boolean }> {
+    if (product.parentId) {
+      throw new Error('Variants cannot have variant options of their own');
+    }
+
+    const options = ProductService.normalizeVariantOptions(variantOptions);
+
+    if (!product.hasVariants && options.length > 0 && product.quantity > 0) {
+      throw new Error('Only products without stock can be given variant options');
+    }
+
+    const variants = await this.productRepository.findVariants(product._id.toString());
+    if (variants.length > 0 && options.length === 0) {
+      throw new Error('Variant options cannot be removed while the product has variants');
+    }
+
+    for (const variant of variants) {
+      ProductService.resolveVariantAttributes(
+        options,
+        Object.fromEntries(
+          variant.variantAttributes.map(attribute => [attribute.name, attribute.value])
+        )
+      );
+    }
+
+    return { variantOptions: options, hasVariants: options.length > 0 };
+  }
+
+  // Converts a quantity given in one of the product's units to its base unit. Products
+  // without fractional quantities only accept whole numbers of the base unit.
+  static convertToBaseUnit(
+    unitsOfMeasure: UnitsOfMeasure,
+    quantity: number,
+    unit?: string
+  ): { quantity: number; factor: number } {
+    if (typeof quantity !== 'number' || !isFinite(quantity)) {
+      throw new Error('Quantity must be a number');
+    }
+
+    const baseUnit = unitsOfMeasure.baseUnit || 'each';
+    let factor = 1;
+    if (unit && unit.trim().toLowerCase() !== baseUnit) {
+      const match = (unitsOfMeasure.units || []).find(
+        candidate => candidate.name === unit.trim().toLowerCase()
+      );
+      if (!match) {
+        const names = [baseUnit, ...(unitsOfMeasure.units || []).map(candidate => candidate.name)];
+        throw new Error(`Unknown unit "${unit}"; use one of: ${names.join(', ')}`);
+      }
+      factor = match.factor;
+    }
+
+    // Rounded to absorb floating point noise from the conversion
+    const converted = Math.round(quantity * factor * 1000000) / 1000000;
+    if (!unitsOfMeasure.fractionalQuantities && !Number.isInteger(converted)) {
+      throw new Error(`Quantity must be a whole number of ${baseUnit}`);
+    }
+
+    return { quantity: converted, factor };
+  }
+
+  // Unit costs follow the unit the quantity was given in
+  static convertUnitCost(unitCost: number | undefined, factor: number): number | undefined {
+    if (unitCost === undefined || unitCost === null || factor === 1) {
+      return unitCost;
+    }
+    return Math.round((unitCost / factor) * 10000) / 10000;
+  }
+
+  // Trims and lowercases unit names; alternate units need a unique name and a positive factor
+  static normalizeUnits(unitsOfMeasure: Partial<UnitsOfMeasure>): UnitsOfMeasure {
+    const baseUnit = (unitsOfMeasure.baseUnit || 'each').trim().toLowerCase();
+    if (!baseUnit) {
+      throw new Error('Base unit cannot be empty');
+    }
+
+    const names = new Set<string>([baseUnit]);
+    const units = (unitsOfMeasure.units || []).map(unit => {
+      const name = (unit.name || '').trim().toLowerCase();
+      if (!name) {
+        throw new Error('Units must have a name');
+      }
+      if (names.has(name)) {
+        throw new Error(`Duplicate unit: ${name}`);
+      }
+      names.add(name);
+
+      const factor = Number(unit.factor);
+      if (!isFinite(factor) || factor <= 0) {
+        throw new Error(`Conversion factor for ${name} must be greater than zero`);
+      }
+
+      return { name, factor };
+    });
+
+    return { baseUnit, fractionalQuantities: !!unitsOfMeasure.fractionalQuantities, units };
+  }
+
+  // Converts a submitted or query-string value to the attribute's type
+  static coerceAttributeValue(definition: IAttributeDefinition, value: unknown): AttributeValue {
+    const invalid = (expected: string) =>
+      new Error(`Attribute "${definition.key}" must be ${expected}`);
+
+    switch (definition.type) {
+      case AttributeType.NUMBER: {
+        const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+        if (typeof number !== 'number' || !isFinite(number)) {
+          throw invalid('a number');
+        }
+        return number;
+      }
+      case AttributeType.BOOLEAN:
+        if (value === true || value === 'true') return true;
+        if (value === false || value === 'false') return false;
+        throw invalid('true or false');
+      case AttributeType.DATE: {
+        const date =
+          value instanceof Date || typeof value === 'string' || typeof value === 'number'
+            ? new Date(value)
+            : null;
+        if (!date || isNaN(date.getTime())) {
+          throw invalid('a date');
+        }
+        return date;
+      }
+      case AttributeType.ENUM: {
+        // Options match case-insensitively and are stored as defined
+        const option = (definition.options || []).find(
+          candidate => candidate.toLowerCase() === String(value).trim().toLowerCase()
+        );
+        if (typeof value !== 'string' || !option) {
+          throw invalid(`one of: ${(definition.options || []).join(', ')}`);
+        }
+        return option;
+      }
+      default: {
+        if (typeof value !== 'string' && typeof value !== 'number') {
+          throw invalid('text');
+        }
+        const text = String(value).trim();
+        if (text.length > 500) {
+          throw new Error(`Attribute "${definition.key}" cannot exceed 500 characters`);
+        }
+        return text;
+      }
+    }
+  }
+
+  // Checks attribute values against the definitions that apply to the product's
+  // category. Empty values (null, undefined, '') are dropped.
+  static validateAttributes(
+    definitions: IAttributeDefinition[],
+    values: Record<string, unknown> = {}
+  ): Record<string, AttributeValue> {
+    for (const key of Object.keys(values)) {
+      if (!definitions.some(definition => definition.key === key)) {
+        throw new Error(`Unknown attribute "${key}" for this category`);
+      }
+    }
+
+    const attributes: Record<string, AttributeValue> = {};
+    for (const definition of definitions) {
+      const value = values[definition.key];
+      if (value === undefined || value === null || value === '') {
+        if (definition.required) {
+          throw new Error(`Attribute "${definition.key}" is required`);
+        }
+        continue;
+      }
+      attributes[definition.key] = ProductService.coerceAttributeValue(definition, value);
+    }
+
+    return attributes;
+  }
+
+  // Turns query-string attribute filters into typed filters. Ranges are only
+  // supported on number and date attributes.
+  static buildAttributeFilters(
+    definitions: Map<string, IAttributeDefinition>,
+    query: AttributeQuery = {}
+  ): AttributeFilter[] {
+    return Object.entries(query).map(([key, condition]) => {
+      const definition = definitions.get(key);
+      if (!definition) {
+        throw new Error(`Unknown attribute "${key}"`);
+      }
+
+      if (typeof condition === 'string' || Array.isArray(condition)) {
+        const values = Array.isArray(condition) ? condition : [condition];
+        return {
+          key,
+          values: values.map(value => ProductService.coerceAttributeValue(definition, value)),
+        };
+      }
+
+      if (definition.type !== AttributeType.NUMBER && definition.type !== AttributeType.DATE) {
+        throw new Error(`Attribute "${key}" cannot be filtered by range`);
+      }
+
+      if (condition.min === undefined && condition.max === undefined) {
+        throw new Error(`Attribute "${key}" needs a value, min or max`);
+      }
+
+      const filter: AttributeFilter = { key };
+      if (condition.min !== undefined) {
+        filter.min = ProductService.coerceAttributeValue(definition, condition.min) as
+          | number
+          | Date;
+      }
+      if (condition.max !== undefined) {
+        filter.max = ProductService.coerceAttributeValue(definition, condition.max) as
+          | number
+          | Date;
+      }
+      return filter;
+    });
+  }
+
+  // Builds kits from component stock: the components are taken out and the kits booked
+  // in at the components' average cost, all in one transaction
+  async assembleKit(
+    kitId: string,
+    userId: string | undefined,
+    performedBy: string,
+    assembleData: AssembleKitRequest
+  ): Promise<IProductDocument | null> {
+    const { quantity, locationId, lot, note } = assembleData;
+
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      throw new Error('Assembly quantity must be a positive whole number');
+    }
+
+    const kit = await this.getProductById(kitId, userId);
+    if (!kit) {
+      throw new Error('Product not found or access denied');
+    }
+
+    if (!kit.components || kit.components.length === 0) {
+      throw new Error('Product is not a kit');
+    }
+
+    const reference = assembleData.reference || kit.sku;
+
+    return await database.withTransaction(async session => {
+      const components = await this.productRepository.find(
+        { _id: { $in: kit.components.map(component => component.productId) } },
+        { session }
+      );
+      const averageCosts = new Map(
+        components.map(component => [component._id.toString(), component.averageCost || 0])
+      );
+
+      let unitCost = 0;
+      for (const component of kit.components) {
+        const componentId = component.productId.toString();
+        unitCost += (averageCosts.get(componentId) || 0) * component.quantity;
+
+        await this.adjustStock(componentId, -quantity * component.quantity, undefined, {
+          reason: StockMovementReason.KIT_ASSEMBLY,
+          reference,
+          note,
+          locationId,
+          performedBy,
+          session,
+        });
+      }
+
+      return await this.commitStockChange(kitId, current => current + quantity, {
+        reason: StockMovementReason.KIT_ASSEMBLY,
+        reference,
+        note,
+        locationId,
+        lot,
+        unitCost: Math.round(unitCost * 10000) / 10000,
+        performedBy,
+        session,
+      });
+    });
+  }
+
+  // Kits buildable from component stock: the smallest number of whole kits any component
+  // can supply, with that component as the limiting one
+  static computeKitAvailability(components: KitComponentStock[]): KitAvailability {
+    let limiting: KitComponentStock | null = null;
+    let buildable = 0;
+
+    for (const component of components) {
+      const kits = Math.floor(Math.max(0, component.availableQuantity) / component.quantityPerKit);
+      if (limiting === null || kits < buildable) {
+        limiting = component;
+        buildable = kits;
+      }
+    }
+
+    return { buildableQuantity: buildable, limitingComponent: limiting };
+  }
+
+  // Works out kit availability from current component stock for the kits among the products
+  private async applyKitAvailability(products: IProductDocument[]): Promise<void> {
+    const kits = products.filter(product => product.components && product.components.length > 0);
+    if (kits.length === 0) {
+      return;
+    }
+
+    const componentIds = kits.flatMap(kit => kit.components.map(component => component.productId));
+    const components = await this.productRepository.find({ _id: { $in: componentIds } });
+    const byId = new Map(components.map(component => [component._id.toString(), component]));
+
+    for (const kit of kits) {
+      kit.$locals.kitAvailability = ProductService.computeKitAvailability(
+        kit.components.map(component => {
+          const stock = byId.get(component.productId.toString());
+          return {
+            productId: component.productId.toString(),
+            sku: stock ? stock.sku : '',
+            quantityPerKit: component.quantity,
+            availableQuantity: stock && stock.isActive ? stock.availableQuantity : 0,
+          };
+        })
+      );
+    }
+  }
+
+  // Validates a barcode (keeping the current one when only the type changes) and
+  // checks that no other product, deleted or not, carries it as its barcode or as
+  // an alternate code
+  private async resolveBarcode(
+    existingProduct: IProductDocument | null,
+    barcode: string | null | undefined,
+    barcodeType?: BarcodeType
+  ): Promise<{ barcode: string | null; barcodeType: BarcodeType | null }> {
+    const code = barcode === undefined ? existingProduct?.barcode : barcode;
+    if (!code) {
+      if (barcodeType) {
+        throw new Error('A barcode type needs a barcode');
+      }
+      return { barcode: null, barcodeType: null };
+    }
+
+    const normalized = BarcodeService.normalizeBarcode(code, barcodeType);
+    const holder = (await this.productRepository.findByCodes([normalized.barcode])).find(
+      product =>
+        (!existingProduct || product._id.toString() !== existingProduct._id.toString()) &&
+        (product.barcode === normalized.barcode ||
+          (product.alternateCodes || []).includes(normalized.barcode))
+    );
+    if (holder) {
+      throw new Error(`Barcode ${normalized.barcode} is already used by product ${holder.sku}`);
+    }
+
+    return normalized;
+  }
+
+  // A product whether deleted or not, if the user may see it
+  private async findOwnedProduct(
+    productId: string,
+    userId?: string
+  ): Promise<IProductDocument | null> {
+    const product = await this.productRepository.findById(productId);
+    if (!product || (userId && product.userId.toString() !== userId)) {
+      return null;
+    }
+    return product;
+  }
+
+  // Appends a version listing the fields that changed. Updates that change none of
+  // the versioned fields, such as quantity edits, are not recorded.
+  private async recordVersion(
+    before: IProductDocument | null,
+    after: IProductDocument | null,
+    performedBy: string | undefined,
+    session?: ClientSession,
+    details: ProductVersionDetails = {}
+  ): Promise<void> {
+    if (!after) {
+      return;
+    }
+
+    const {
+      action = before ? ProductVersionAction.UPDATE : ProductVersionAction.CREATE,
+      ...versionFields
+    } = details;
+    const snapshot = ProductService.versionSnapshot(after);
+    const changes = ProductService.diffVersions(
+      before ? ProductService.versionSnapshot(before) : null,
+      snapshot
+    );
+    if (changes.length === 0 && action === ProductVersionAction.UPDATE) {
+      return;
+    }
+
+    const latest = await this.productVersionRepository.findLatest(after._id.toString(), session);
+    await this.productVersionRepository.create(
+      {
+        productId: after._id,
+        version: (latest ? latest.version : 0) + 1,
+        action,
+        changes,
+        snapshot,
+        ...versionFields,
+        performedBy,
+      },
+      session
+    );
+  }
+
+  // Normalizes alternate codes and checks that no other product, deleted or not,
+  // already scans as one of them, whether by barcode, SKU or alternate code
+  private async resolveAlternateCodes(
+    existingProduct: IProductDocument | null,
+    alternateCodes: unknown
+  ): Promise<string[]> {
+    const codes = BarcodeService.normalizeAlternateCodes(alternateCodes);
+    const holders = (await this.productRepository.findByCodes(codes)).filter(
+      product => !existingProduct || product._id.toString() !== existingProduct._id.toString()
+    );
+
+    for (const code of codes) {
+      const holder = holders.find(
+        product =>
+          product.barcode === code ||
+          product.sku === code.toUpperCase() ||
+          (product.alternateCodes || []).includes(code)
+      );
+      if (holder) {
+        throw new Error(`Code ${code} is already used by product ${holder.sku}`);
+      }
+    }
+
+    return codes;
+  }
+
+  private async *readExportBatches(
+    cursor: AsyncIterable<IProductDocument> & { close(): Promise<void> }
+  ): AsyncGenerator<ExportRecord> {
+    let batch: IProductDocument[] = [];
+    const flush = async () => {
+      await this.applyKitAvailability(batch);
+      const records = batch.map(product => ProductService.toExportRecord(product));
+      batch = [];
+      return records;
+    };
+
+    try {
+      for await (const product of cursor) {
+        batch.push(product);
+        if (batch.length === EXPORT_BATCH_SIZE) {
+          yield* await flush();
+        }
+      }
+      yield* await flush();
+    } finally {
+      await cursor.close();
+    }
+  }
+
+  // Sells or removes kits, taking prebuilt kit stock first and the rest from the components
+  private async takeKitStock(
+    kit: IProductDocument,
+    quantity: number,
+    options: StockChangeOptions
+  ): Promise<IProductDocument | null> {
+    const kitId = kit._id.toString();
+    const { locationId } = options;
+
+    return await database.withTransaction(async session => {
+      const current = await this.productRepository.findById(kitId, session);
+      if (!current) {
+        throw new Error('Product not found or access denied');
+      }
+
+      let prebuilt = Math.max(
+        0,
+        current.quantity -
+          (current.reservedQuantity || 0) -
+          (current.expiredQuantity || 0) -
+          (current.inTransitQuantity || 0)
+      );
+      if (locationId) {
+        const level = await this.stockLevelRepository.findByProductAndLocation(
+          kitId,
+          locationId,
+          session
+        );
+        prebuilt = Math.min(prebuilt, level ? level.quantity : 0);
+      }
+
+      const fromKitStock = Math.min(quantity, prebuilt);
+      const fromComponents = quantity - fromKitStock;
+
+      if (fromComponents > 0) {
+        for (const component of current.components) {
+          await this.adjustStock(
+            component.productId.toString(),
+            -fromComponents * component.quantity,
+            undefined,
+            {
+              ...options,
+              lot: undefined,
+              serials: undefined,
+              unitCost: undefined,
+              note: options.note || `Kit ${current.sku}`,
+              session,
+            }
+          );
+        }
+      }
+
+      if (fromKitStock === 0) {
+        return current;
+      }
+
+      return await this.commitStockChange(
+        kitId,
+        currentQuantity => currentQuantity - fromKitStock,
+        { reason: StockMovementReason.ADJUSTMENT, ...options, session },
+        true
+      );
+    }, options.session);
+  }
+
+  // Merges unit changes into the product's current units. The base unit cannot change
+  // while stock is held in it, and fractional quantities cannot be switched off while the
+  // product holds a fraction.
+  private resolveUnitsOfMeasure(
+    product: IProductDocument | null,
+    changes: Partial<UnitsOfMeasure> & { trackSerials?: boolean }
+  ): UnitsOfMeasure {
+    const unitsOfMeasure = ProductService.normalizeUnits({
+      baseUnit: changes.baseUnit !== undefined ? changes.baseUnit : product?.baseUnit,
+      fractionalQuantities:
+        changes.fractionalQuantities !== undefined
+          ? changes.fractionalQuantities
+          : product?.fractionalQuantities,
+      units: changes.units !== undefined ? changes.units : product?.units,
+    });
+
+    const trackSerials =
+      changes.trackSerials !== undefined ? changes.trackSerials : product?.trackSerials;
+    if (trackSerials && unitsOfMeasure.fractionalQuantities) {
+      throw new Error('Serial-tracked products cannot have fractional quantities');
+    }
+
+    if (product && product.quantity > 0) {
+      if (unitsOfMeasure.baseUnit !== (product.baseUnit || 'each')) {
+        throw new Error('The base unit cannot be changed while the product holds stock');
+      }
+      if (!unitsOfMeasure.fractionalQuantities && !Number.isInteger(product.quantity)) {
+        throw new Error('Fractional quantities cannot be turned off while stock is fractional');
+      }
+    }
+
+    return unitsOfMeasure;
+  }
+
+  // Images given as URLs on update. URLs already in the gallery keep their entry
+  // (and stored files); others are added as externally hosted images.
+  private resolveImageUrls(product: IProductDocument, urls: string[]): IProductImage[] {
+    return urls.map(url => product.images.find(image => image.url === url) || { url });
+  }
+
+  // Deletes the files of uploaded images that an update took out of the gallery
+  private async removeDroppedImages(
+    product: IProductDocument,
+    images: IProductImage[] | undefined
+  ): Promise<void> {
+    if (!images) {
+      return;
+    }
+
+    const kept = new Set(images.map(image => image.url));
+    for (const image of product.images) {
+      if (!kept.has(image.url)) {
+        await this.imageService.removeImage(image);
+      }
+    }
+  }
+
+  // Validates a bill of materials. Components must be active, untracked by serial number
+  // and not kits themselves, and a kit cannot be a component of another kit.
+  private async resolveKitComponents(
+    product: IProductDocument | null,
+    components?: KitComponentRequest[]
+  ): Promise<IKitComponent[]> {
+    if (!components || components.length === 0) {
+      return [];
+    }
+
+    if (product) {
+      if (product.hasVariants) {
+        throw new Error('Kits cannot have variant options');
+      }
+
+      const usedInKit = await this.productRepository.exists({
+        isActive: true,
+        'components.productId': product._id,
+      });
+      if (usedInKit) {
+        throw new Error('Components of a kit cannot be kits themselves');
+      }
+    }
+
+    const seen = new Set<string>();
+    const resolved: IKitComponent[] = [];
+    for (const component of components) {
+      if (!Number.isInteger(component.quantity) || component.quantity <= 0) {
+        throw new Error('Component quantities must be positive whole numbers');
+      }
+
+      if (seen.has(component.productId)) {
+        throw new Error('Each component can only appear once per kit');
+      }
+      seen.add(component.productId);
+
+      if (product && product._id.toString() === component.productId) {
+        throw new Error('A kit cannot contain itself');
+      }
+
+      const stock = await this.productRepository.findById(component.productId);
+      if (!stock || !stock.isActive) {
+        throw new Error('Component product not found');
+      }
+
+      if (stock.hasVariants) {
+        throw new Error(`${stock.sku} has variants; use one of its variants as the component`);
+      }
+
+      if (stock.components && stock.components.length > 0) {
+        throw new Error('Components of a kit cannot be kits themselves');
+      }
+
+      if (stock.trackSerials) {
+        throw new Error(`${stock.sku} is serial-tracked and cannot be a kit component`);
+      }
+
+      resolved.push({ productId: stock._id, quantity: component.quantity });
+    }
+
+    return resolved;
+  }
+
+  private async getActiveLocation(locationId: string) {
+    const location = await this.locationRepository.findById(locationId);
+    if (!location || !location.isActive) {
+      throw new Error('Location not found or inactive');
+    }
+    return location;
+  }
+
+  // Write the new quantity and its ledger entry in a single transaction. The current
+  // quantity is re-read inside the transaction so the recorded before/after values
+  // always match what was actually stored. With a locationId the resolver works on
+  // the quantity held at that location and the product total follows the change,
+  // except for transfers: their units stay in the total as in transit until received.
+  // With guardReserved set, decreases may not eat into reserved stock.
+  private async commitStockChange(
+    productId: string,
+    resolveQuantity: (current: number) => number,
+    options: StockChangeOptions,
+    guardReserved: boolean = false
+  ): Promise<IProductDocument | null> {
+    const {
+      reason = StockMovementReason.ADJUSTMENT,
+      reference,
+      note,
+      performedBy,
+      locationId,
+      lot,
+      serials,
+      unitCost,
+    } = options;
+
+    if (locationId) {
+      await this.getActiveLocation(locationId);
+    }
+
+    return await database.withTransaction(async txSession => {
+      const product = await this.productRepository.findById(productId, txSession);
+      if (!product) {
+        throw new Error('Product not found or access denied');
+      }
+
+      if (product.hasVariants) {
+        throw new Error('Stock of a product with variants is held by its variants');
+      }
+
+      let current = product.quantity;
+      if (locationId) {
+        const level = await this.stockLevelRepository.findByProductAndLocation(
+          productId,
+          locationId,
+          txSession
+        );
+        current = level ? level.quantity : 0;
+      }
+
+      const newQuantity = resolveQuantity(current);
+      const quantityChange = newQuantity - current;
+      if (quantityChange === 0) {
+        return product;
+      }
+
+      // Shipped units join the in-transit pool and received units leave it. Units shipped
+      // before the pool existed already left the total, so receiving them adds them back.
+      const isLocationMove = LOCATION_MOVE_REASONS.includes(reason);
+      if (isLocationMove && (product.trackLots || product.trackSerials)) {
+        throw new Error('Lot- and serial-tracked products cannot be transferred between locations');
+      }
+      const inTransitBefore = product.inTransitQuantity || 0;
+      const inTransitChange = isLocationMove ? Math.max(-quantityChange, -inTransitBefore) : 0;
+      const inTransitAfter = inTransitBefore + inTransitChange;
+
+      const quantityAfter = product.quantity + quantityChange + inTransitChange;
+      if (locationId) {
+        await this.stockLevelRepository.setQuantity(productId, locationId, newQuantity, txSession);
+      } else {
+        // Changes without a location may only touch stock not assigned to a location
+        const allocated = await this.stockLevelRepository.getAllocatedQuantity(
+          productId,
+          txSession
+        );
+        if (quantityAfter < allocated + inTransitAfter) {
+          throw new Error(
+            'Quantity cannot drop below the stock assigned to locations; specify a locationId'
+          );
+        }
+      }
+
+      let lots: LotAllocation[] = [];
+      let expiredAfter = product.expiredQuantity || 0;
+      if (product.trackLots) {
+        const lotChange = await this.lotService.applyChange(
+          product,
+          quantityChange,
+          lot,
+          txSession
+        );
+        lots = lotChange.allocations;
+        if (lotChange.expiredChange !== 0) {
+          expiredAfter += lotChange.expiredChange;
+          await this.productRepository.updateExpiredQuantity(
+            productId,
+            lotChange.expiredChange,
+            txSession
+          );
+        }
+      }
+
+      let movedSerials: string[] = [];
+      if (product.trackSerials) {
+        movedSerials = await this.serialService.applyChange(
+          product,
+          quantityChange,
+          serials,
+          { reason, reference, locationId, performedBy },
+          txSession
+        );
+      }
+
+      let costChange: CostChangeResult | undefined;
+      if (!isLocationMove) {
+        costChange = await this.costingService.applyChange(
+          product,
+          quantityChange,
+          unitCost,
+          { reason, reference },
+          txSession
+        );
+      }
+
+      if (
+        guardReserved &&
+        quantityChange < 0 &&
+        quantityAfter - expiredAfter - inTransitAfter < (product.reservedQuantity || 0)
+      ) {
+        throw new Error('Insufficient available stock: remaining units are reserved');
+      }
+
+      let updated = await this.productRepository.updateStock(productId, quantityAfter, txSession);
+      if (inTransitChange !== 0) {
+        updated = await this.productRepository.updateInTransitQuantity(
+          productId,
+          inTransitChange,
+          txSession
+        );
+      }
+
+      await this.stockMovementRepository.create(
+        {
+          productId: product._id,
+          locationId: locationId || undefined,
+          quantityChange,
+          quantityBefore: product.quantity,
+          quantityAfter,
+          reason,
+          reference,
+          note,
+          lots,
+          serials: movedSerials,
+          unitCost: costChange?.unitCost,
+          costOfGoods: costChange?.costOfGoods,
+          valueChange: costChange ? costChange.valueChange : 0,
+          userId: performedBy || undefined,
+        },
+        txSession
+      );
+
+      return updated;
+    }, options.session);
   }
 }
@@ -0,0 +1,390 @@
+import { ClientSession, Types } from 'mongoose';
+import database from '../config/database';
+import { PurchaseOrderRepository } from '../repositories/PurchaseOrderRepository';
+import { CounterRepository } from '../repositories/CounterRepository';
+import { LocationRepository } from '../repositories/LocationRepository';
+import { SupplierRepository } from '../repositories/SupplierRepository';
+import { ProductSupplierRepository } from '../repositories/ProductSupplierRepository';
+import { ProductService } from './ProductService';
+import { SerialService } from './SerialService';
+import {
+  CreatePurchaseOrderRequest,
+  UpdatePurchaseOrderRequest,
+  ReceivePurchaseOrderRequest,
+  PurchaseOrderLineRequest,
+  PurchaseOrderReceiptLineRequest,
+  PurchaseOrderQuery,
+  PurchaseOrderStatus,
+  IPurchaseOrderDocument,
+  IPurchaseOrderLine,
+  IVendorReference,
+  PaginatedResponse,
+  StockMovementReason,
+} from '../types';
+
+export class PurchaseOrderService {
+  private purchaseOrderRepository: PurchaseOrderRepository;
+  private counterRepository: CounterRepository;
+  private locationRepository: LocationRepository;
+  private supplierRepository: SupplierRepository;
+  private productSupplierRepository: ProductSupplierRepository;
+  private productService: ProductService;
+
+  constructor() {
+    this.purchaseOrderRepository = new PurchaseOrderRepository();
+    this.counterRepository = new CounterRepository();
+    this.locationRepository = new LocationRepository();
+    this.supplierRepository = new SupplierRepository();
+    this.productSupplierRepository = new ProductSupplierRepository();
+    this.productService = new ProductService();
+  }
+
+  async createPurchaseOrder(
+    userId: string,
+    orderData: CreatePurchaseOrderRequest
+  ): Promise<IPurchaseOrderDocument> {
+    const { supplierId, locationId, lines = [], expectedDate, note } = orderData;
+
+    const { vendor, currency } = await this.resolveVendor(
+      supplierId,
+      orderData.vendor,
+      orderData.currency
+    );
+
+    if (locationId) {
+      await this.getActiveLocation(locationId);
+    }
+
+    const orderLines = await this.buildLines(lines, supplierId);
+
+    return await database.withTransaction(async session => {
+      const poNumber = await this.counterRepository.nextNumber('purchase_order', 'PO', session);
+
+      return await this.purchaseOrderRepository.create(
+        {
+          poNumber,
+          supplierId,
+          vendor,
+          locationId,
+          lines: orderLines,
+          currency,
+          expectedDate,
+          note,
+          userId,
+        },
+        session
+      );
+    });
+  }
+
+  async getPurchaseOrders(
+    query: PurchaseOrderQuery
+  ): Promise<PaginatedResponse<IPurchaseOrderDocument>> {
+    return await this.purchaseOrderRepository.searchPurchaseOrders(query);
+  }
+
+  async getPurchaseOrderById(purchaseOrderId: string): Promise<IPurchaseOrderDocument | null> {
+    return await this.purchaseOrderRepository.findById(purchaseOrderId);
+  }
+
+  // Only drafts can be edited; submitted orders are a commitment to the vendor
+  async updatePurchaseOrder(
+    purchaseOrderId: string,
+    updateData: UpdatePurchaseOrderRequest
+  ): Promise<IPurchaseOrderDocument> {
+    const order = await this.purchaseOrderRepository.findById(purchaseOrderId);
+    if (!order) {
+      throw new Error('Purchase order not found');
+    }
+
+    if (order.status !== PurchaseOrderStatus.DRAFT) {
+      throw new Error('Only draft purchase orders can be edited');
+    }
+
+    const supplierId =
+      updateData.supplierId !== undefined ? updateData.supplierId : order.supplierId?.toString();
+
+    if (
+      updateData.supplierId !== undefined ||
+      updateData.vendor !== undefined ||
+      updateData.currency !== undefined
+    ) {
+      const { vendor, currency } = await this.resolveVendor(
+        supplierId,
+        updateData.vendor || (updateData.supplierId ? undefined : order.vendor),
+        updateData.currency || (updateData.supplierId ? undefined : order.currency)
+      );
+      order.supplierId = supplierId ? new Types.ObjectId(supplierId) : undefined;
+      order.vendor = vendor;
+      order.currency = currency;
+    }
+
+    if (updateData.locationId !== undefined) {
+      if (updateData.locationId) {
+        await this.getActiveLocation(updateData.locationId);
+      }
+      order.locationId = updateData.locationId
+        ? new Types.ObjectId(updateData.locationId)
+        : undefined;
+    }
+
+    if (updateData.lines !== undefined) {
+      order.lines = await this.buildLines(updateData.lines, supplierId);
+    }
+
+    if (updateData.expectedDate !== undefined) {
+      order.expectedDate = updateData.expectedDate ? new Date(updateData.expectedDate) : undefined;
+    }
+
+    if (updateData.note !== undefined) {
+      order.note = updateData.note;
+    }
+
+    return await order.save();
+  }
+
+  async submitPurchaseOrder(purchaseOrderId: string): Promise<IPurchaseOrderDocument> {
+    return await database.withTransaction(async session => {
+      const order = await this.getPurchaseOrderForUpdate(purchaseOrderId, session);
+
+      if (order.status !== PurchaseOrderStatus.DRAFT) {
+        throw new Error('Only draft purchase orders can be submitted');
+      }
+
+      order.status = PurchaseOrderStatus.SUBMITTED;
+      order.submittedAt = new Date();
+
+      return await order.save({ session });
+    });
+  }
+
+  // Books received goods into stock, or everything still outstanding when no lines are
+  // passed. Receiving more than ordered is allowed and shows up as an over-receipt.
+  async receivePurchaseOrder(
+    purchaseOrderId: string,
+    userId: string,
+    receiveData: ReceivePurchaseOrderRequest = {}
+  ): Promise<IPurchaseOrderDocument> {
+    return await database.withTransaction(async session => {
+      const order = await this.getPurchaseOrderForUpdate(purchaseOrderId, session);
+
+      if (
+        order.status !== PurchaseOrderStatus.SUBMITTED &&
+        order.status !== PurchaseOrderStatus.PARTIALLY_RECEIVED
+      ) {
+        throw new Error('Only submitted purchase orders can be received');
+      }
+
+      const locationId = receiveData.locationId || order.locationId?.toString();
+      if (receiveData.locationId) {
+        await this.getActiveLocation(receiveData.locationId);
+      }
+
+      const receipts: PurchaseOrderReceiptLineRequest[] =
+        receiveData.lines && receiveData.lines.length > 0
+          ? receiveData.lines
+          : order.lines.map(line => ({
+              productId: line.productId.toString(),
+              quantity: Math.max(0, line.quantityOrdered - line.quantityReceived),
+            }));
+
+      const receiptLines = [];
+      for (const receipt of receipts) {
+        const line = order.lines.find(l => l.productId.toString() === receipt.productId);
+        if (!line) {
+          throw new Error('Product is not part of this purchase order');
+        }
+
+        if (receipt.quantity === 0) {
+          continue;
+        }
+
+        if (!Number.isInteger(receipt.quantity) || receipt.quantity < 0) {
+          throw new Error('Received quantities must be positive whole numbers');
+        }
+
+        const { lot, serials } = receipt;
+
+        await this.productService.adjustStock(receipt.productId, receipt.quantity, undefined, {
+          reason: StockMovementReason.PURCHASE_RECEIPT,
+          reference: order.poNumber,
+          note: receiveData.note,
+          locationId,
+          lot,
+          serials,
+          unitCost: line.unitCost,
+          performedBy: userId,
+          session,
+        });
+
+        line.quantityReceived += receipt.quantity;
+        receiptLines.push({
+          productId: line.productId,
+          quantity: receipt.quantity,
+          lotNumber: lot?.lotNumber,
+          serials: SerialService.normalizeSerials(serials),
+        });
+      }
+
+      if (receiptLines.length === 0) {
+        throw new Error('Nothing to receive');
+      }
+
+      order.receipts.push({
+        lines: receiptLines,
+        locationId: locationId ? new Types.ObjectId(locationId) : undefined,
+        note: receiveData.note,
+        receivedBy: new Types.ObjectId(userId),
+        receivedAt: new Date(),
+      });
+
+      const fullyReceived = order.lines.every(
+        line => line.quantityReceived >= line.quantityOrdered
+      );
+      if (fullyReceived) {
+        order.status = PurchaseOrderStatus.RECEIVED;
+        order.receivedAt = new Date();
+      } else {
+        order.status = PurchaseOrderStatus.PARTIALLY_RECEIVED;
+      }
+
+      return await order.save({ session });
+    });
+  }
+
+  // Closing a partially received order accepts the outstanding units as an under-receipt
+  async closePurchaseOrder(purchaseOrderId: string): Promise<IPurchaseOrderDocument> {
+    return await database.withTransaction(async session => {
+      const order = await this.getPurchaseOrderForUpdate(purchaseOrderId, session);
+
+      if (
+        order.status !== PurchaseOrderStatus.RECEIVED &&
+        order.status !== PurchaseOrderStatus.PARTIALLY_RECEIVED
+      ) {
+        throw new Error('Only received purchase orders can be closed');
+      }
+
+      order.status = PurchaseOrderStatus.CLOSED;
+      order.closedAt = new Date();
+
+      return await order.save({ session });
+    });
+  }
+
+  // Orders with receipts are closed instead, so the stock they brought in stays traceable
+  async cancelPurchaseOrder(purchaseOrderId: string): Promise<IPurchaseOrderDocument> {
+    return await database.withTransaction(async session => {
+      const order = await this.getPurchaseOrderForUpdate(purchaseOrderId, session);
+
+      if (
+        order.status !== PurchaseOrderStatus.DRAFT &&
+        order.status !== PurchaseOrderStatus.SUBMITTED
+      ) {
+        throw new Error(`Cannot cancel a ${order.status} purchase order`);
+      }
+
+      order.status = PurchaseOrderStatus.CANCELLED;
+      order.cancelledAt = new Date();
+
+      return await order.save({ session });
+    });
+  }
+
+  // Vendor details default to the linked supplier's, so the order keeps them even if
+  // the supplier record changes later
+  private async resolveVendor(
+    supplierId: string | undefined,
+    vendor: IVendorReference | undefined,
+    currency: string | undefined
+  ): Promise<{ vendor: IVendorReference; currency: string }> {
+    if (supplierId) {
+      const supplier = await this.supplierRepository.findById(supplierId);
+      if (!supplier || !supplier.isActive) {
+        throw new Error('Supplier not found or inactive');
+      }
+
+      return {
+        vendor: vendor || {
+          name: supplier.name,
+          contactName: supplier.contact?.name,
+          email: supplier.contact?.email,
+          phone: supplier.contact?.phone,
+        },
+        currency: currency || supplier.currency,
+      };
+    }
+
+    if (!vendor || !vendor.name) {
+      throw new Error('Vendor name is required when no supplier is given');
+    }
+
+    return { vendor, currency: currency || 'USD' };
+  }
+
+  // Unit costs default to the supplier's terms for the product
+  private async buildLines(
+    lines: PurchaseOrderLineRequest[],
+    supplierId?: string
+  ): Promise<IPurchaseOrderLine[]> {
+    if (lines.length === 0) {
+      throw new Error('Purchase order must contain at least one line');
+    }
+
+    const productIds = new Set<string>();
+    const orderLines: IPurchaseOrderLine[] = [];
+
+    for (const line of lines) {
+      if (productIds.has(line.productId)) {
+        throw new Error('Each product can only appear once per purchase order');
+      }
+      productIds.add(line.productId);
+
+      if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+        throw new Error('Ordered quantities must be positive whole numbers');
+      }
+
+      const product = await this.productService.getProductById(line.productId);
+      if (!product) {
+        throw new Error('Product not found');
+      }
+
+      const terms = supplierId
+        ? await this.productSupplierRepository.findLink(line.productId, supplierId)
+        : null;
+
+      const unitCost = line.unitCost !== undefined ? line.unitCost : terms?.unitCost;
+      if (unitCost === undefined || unitCost < 0) {
+        throw new Error('Each line needs a unit cost of zero or greater');
+      }
+
+      orderLines.push({
+        productId: product._id,
+        supplierSku: terms?.supplierSku,
+        quantityOrdered: line.quantity,
+        quantityReceived: 0,
+        unitCost,
+      });
+    }
+
+    return orderLines;
+  }
+
+  private async getActiveLocation(locationId: string) {
+    const location = await this.locationRepository.findById(locationId);
+    if (!location || !location.isActive) {
+      throw new Error('Location not found or inactive');
+    }
+    return location;
+  }
+
+  private async getPurchaseOrderForUpdate(
+    purchaseOrderId: string,
+    session: ClientSession
+  ): Promise<IPurchaseOrderDocument> {
+    const order = await this.purchaseOrderRepository.findById(purchaseOrderId, session);
+    if (!order) {
+      throw new Error('Purchase order not found');
+    }
+    return order;
+  }
+}
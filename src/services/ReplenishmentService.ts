@@ -0,0 +1,237 @@
+import { ProductRepository } from '../repositories/ProductRepository';
+import { StockMovementRepository } from '../repositories/StockMovementRepository';
+import { PurchaseOrderRepository } from '../repositories/PurchaseOrderRepository';
+import { ProductSupplierRepository } from '../repositories/ProductSupplierRepository';
+import { PurchaseOrderService } from './PurchaseOrderService';
+import {
+  AcceptRestockPlanRequest,
+  IPurchaseOrderDocument,
+  ReorderInput,
+  ReorderSuggestion,
+  ReplenishmentQuery,
+  RestockPlanGroup,
+  StockMovementReason,
+} from '../types';
+
+// Movements that represent demand; transfers and corrections are not consumption
+const CONSUMPTION_REASONS = [StockMovementReason.SALE, StockMovementReason.RESERVATION_COMMIT];
+
+const CSV_COLUMNS: (keyof ReorderSuggestion)[] = [
+  'sku',
+  'name',
+  'availableQuantity',
+  'onOrderQuantity',
+  'reorderPoint',
+  'maxStockLevel',
+  'dailyUsage',
+  'leadTimeDays',
+  'minimumOrderQuantity',
+  'packSize',
+  'suggestedQuantity',
+  'supplierName',
+  'unitCost',
+];
+
+export class ReplenishmentService {
+  private productRepository: ProductRepository;
+  private stockMovementRepository: StockMovementRepository;
+  private purchaseOrderRepository: PurchaseOrderRepository;
+  private productSupplierRepository: ProductSupplierRepository;
+  private purchaseOrderService: PurchaseOrderService;
+  private lookbackDays: number;
+
+  constructor() {
+    this.productRepository = new ProductRepository();
+    this.stockMovementRepository = new StockMovementRepository();
+    this.purchaseOrderRepository = new PurchaseOrderRepository();
+    this.productSupplierRepository = new ProductSupplierRepository();
+    this.purchaseOrderService = new PurchaseOrderService();
+    this.lookbackDays = parseInt(process.env.REPLENISHMENT_LOOKBACK_DAYS || '30', 10);
+  }
+
+  // Quantity to order so stock recovers from the reorder level. The reorder level is the
+  // product's reorder point, raised to the demand expected during the lead time; stock
+  // on order counts as available. Orders fill up to the max stock level (or one lead
+  // time of demand above the reorder level), respecting the MOQ and whole packs.
+  static computeSuggestedQuantity(input: ReorderInput): number {
+    const leadTimeDemand = Math.ceil(input.dailyUsage * input.leadTimeDays);
+    const reorderLevel = Math.max(input.reorderPoint, leadTimeDemand);
+    const projected = input.availableQuantity + input.onOrderQuantity;
+
+    if (projected > reorderLevel) {
+      return 0;
+    }
+
+    const target = Math.max(
+      input.maxStockLevel || 0,
+      reorderLevel + leadTimeDemand,
+      reorderLevel + 1
+    );
+    const quantity = Math.max(target - projected, input.minimumOrderQuantity, 1);
+    const packSize = Math.max(1, input.packSize);
+
+    return Math.ceil(quantity / packSize) * packSize;
+  }
+
+  static toCsv(suggestions: ReorderSuggestion[]): string {
+    const escape = (value: unknown): string => {
+      if (value === undefined || value === null) return '';
+      const text = String(value);
+      return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const rows = suggestions.map(suggestion =>
+      CSV_COLUMNS.map(column => escape(suggestion[column])).join(',')
+    );
+    return [CSV_COLUMNS.join(','), ...rows].join('\n');
+  }
+
+  async getSuggestions(query: ReplenishmentQuery = {}): Promise<ReorderSuggestion[]> {
+    // Variant parents hold no stock of their own and kits are replenished through
+    // their components
+    const filter: any = {
+      isActive: true,
+      hasVariants: { $ne: true },
+      'components.0': { $exists: false },
+    };
+    if (query.userId) {
+      filter.userId = query.userId;
+    }
+
+    const products = await this.productRepository.find(filter);
+    if (products.length === 0) {
+      return [];
+    }
+
+    const productIds = products.map(product => product._id.toString());
+    const since = new Date(Date.now() - this.lookbackDays * 24 * 60 * 60 * 1000);
+
+    const [consumption, onOrder, preferredLinks] = await Promise.all([
+      this.stockMovementRepository.getConsumption(productIds, since, CONSUMPTION_REASONS),
+      this.purchaseOrderRepository.getOnOrderQuantities(productIds),
+      this.productSupplierRepository.findPreferredForProducts(productIds),
+    ]);
+
+    const linksByProduct = new Map(preferredLinks.map(link => [link.productId.toString(), link]));
+
+    const suggestions: ReorderSuggestion[] = [];
+    for (const product of products) {
+      const productId = product._id.toString();
+      const link = linksByProduct.get(productId);
+      const supplier: any = link && link.supplierId;
+      const activeSupplier = supplier && supplier.isActive ? supplier : null;
+
+      if (
+        query.supplierId &&
+        (!activeSupplier || activeSupplier._id.toString() !== query.supplierId)
+      ) {
+        continue;
+      }
+
+      const input: ReorderInput = {
+        availableQuantity: product.availableQuantity,
+        onOrderQuantity: onOrder.get(productId) || 0,
+        reorderPoint:
+          product.reorderPoint !== null && product.reorderPoint !== undefined
+            ? product.reorderPoint
+            : product.minStockLevel,
+        maxStockLevel: product.maxStockLevel,
+        dailyUsage: Math.round(((consumption.get(productId) || 0) / this.lookbackDays) * 100) / 100,
+        leadTimeDays:
+          product.leadTimeDays !== null && product.leadTimeDays !== undefined
+            ? product.leadTimeDays
+            : activeSupplier
+              ? activeSupplier.leadTimeDays
+              : 0,
+        minimumOrderQuantity: activeSupplier ? link!.minimumOrderQuantity : 1,
+        packSize: product.packSize || 1,
+      };
+
+      const suggestedQuantity = ReplenishmentService.computeSuggestedQuantity(input);
+      if (suggestedQuantity === 0) {
+        continue;
+      }
+
+      suggestions.push({
+        productId,
+        sku: product.sku,
+        name: product.name,
+        ...input,
+        suggestedQuantity,
+        supplierId: activeSupplier ? activeSupplier._id.toString() : undefined,
+        supplierName: activeSupplier ? activeSupplier.name : undefined,
+        unitCost: activeSupplier ? link!.unitCost : undefined,
+        currency: activeSupplier ? activeSupplier.currency : undefined,
+      });
+    }
+
+    return suggestions;
+  }
+
+  // Suggestions grouped by preferred supplier; products without one are grouped under null
+  async getRestockPlan(query: ReplenishmentQuery = {}): Promise<RestockPlanGroup[]> {
+    const suggestions = await this.getSuggestions(query);
+
+    const groups = new Map<string, RestockPlanGroup>();
+    for (const suggestion of suggestions) {
+      const key = suggestion.supplierId || '';
+      let group = groups.get(key);
+      if (!group) {
+        group = {
+          supplierId: suggestion.supplierId || null,
+          supplierName: suggestion.supplierName || null,
+          currency: suggestion.currency || null,
+          lines: [],
+          totalCost: 0,
+        };
+        groups.set(key, group);
+      }
+
+      group.lines.push(suggestion);
+      group.totalCost += suggestion.suggestedQuantity * (suggestion.unitCost || 0);
+    }
+
+    return Array.from(groups.values());
+  }
+
+  // Turns the plan into one draft purchase order per supplier. Products without a
+  // preferred supplier cannot be ordered automatically and are returned as skipped.
+  async acceptRestockPlan(
+    userId: string,
+    request: AcceptRestockPlanRequest = {},
+    ownerUserId?: string
+  ): Promise<{ purchaseOrders: IPurchaseOrderDocument[]; skipped: ReorderSuggestion[] }> {
+    const plan = await this.getRestockPlan({ userId: ownerUserId, supplierId: request.supplierId });
+    const selected =
+      request.productIds && request.productIds.length > 0 ? new Set(request.productIds) : null;
+
+    const purchaseOrders: IPurchaseOrderDocument[] = [];
+    const skipped: ReorderSuggestion[] = [];
+
+    for (const group of plan) {
+      const lines = group.lines.filter(line => !selected || selected.has(line.productId));
+      if (lines.length === 0) {
+        continue;
+      }
+
+      if (!group.supplierId) {
+        skipped.push(...lines);
+        continue;
+      }
+
+      const purchaseOrder = await this.purchaseOrderService.createPurchaseOrder(userId, {
+        supplierId: group.supplierId,
+        locationId: request.locationId,
+        lines: lines.map(line => ({
+          productId: line.productId,
+          quantity: line.suggestedQuantity,
+          unitCost: line.unitCost,
+        })),
+        note: 'Generated from reorder suggestions',
+      });
+      purchaseOrders.push(purchaseOrder);
+    }
+
+    return { purchaseOrders, skipped };
+  }
+}
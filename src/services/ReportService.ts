@@ -0,0 +1,65 @@
+import { StockMovementRepository } from '../repositories/StockMovementRepository';
+import { CostingService } from './CostingService';
+import { CogsReport, StockMovementReason, ValuationReport } from '../types';
+
+// Decrements that count as cost of goods sold; the rest are write-offs
+const SALES_REASONS = [StockMovementReason.SALE, StockMovementReason.RESERVATION_COMMIT];
+
+// Decrements that convert stock into other stock rather than consume it
+const CONVERSION_REASONS = [StockMovementReason.KIT_ASSEMBLY];
+
+export class ReportService {
+  private stockMovementRepository: StockMovementRepository;
+  private costingService: CostingService;
+
+  constructor() {
+    this.stockMovementRepository = new StockMovementRepository();
+    this.costingService = new CostingService();
+  }
+
+  async getValuation(asOf: Date = new Date()): Promise<ValuationReport> {
+    if (isNaN(asOf.getTime())) {
+      throw new Error('asOf must be a valid date');
+    }
+
+    const categories = await this.stockMovementRepository.getValuationByCategory(asOf);
+
+    return {
+      asOf,
+      method: this.costingService.getMethod(),
+      totalQuantity: categories.reduce((sum, category) => sum + category.quantity, 0),
+      totalValue:
+        Math.round(categories.reduce((sum, category) => sum + category.value, 0) * 100) / 100,
+      categories,
+    };
+  }
+
+  async getCostOfGoodsSold(from: Date, to: Date = new Date()): Promise<CogsReport> {
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      throw new Error('from and to must be valid dates');
+    }
+
+    if (from > to) {
+      throw new Error('from must be before to');
+    }
+
+    const categories = await this.stockMovementRepository.getCogsByCategory(
+      from,
+      to,
+      SALES_REASONS,
+      CONVERSION_REASONS
+    );
+
+    return {
+      from,
+      to,
+      method: this.costingService.getMethod(),
+      totalCostOfGoods:
+        Math.round(categories.reduce((sum, category) => sum + category.costOfGoods, 0) * 100) / 100,
+      totalWriteOffCost:
+        Math.round(categories.reduce((sum, category) => sum + category.writeOffCost, 0) * 100) /
+        100,
+      categories,
+    };
+  }
+}
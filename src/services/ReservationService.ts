@@ -0,0 +1,237 @@
+import { ClientSession } from 'mongoose';
+import database from '../config/database';
+import { ProductRepository } from '../repositories/ProductRepository';
+import { ReservationRepository } from '../repositories/ReservationRepository';
+import { ProductService } from './ProductService';
+import { SerialService } from './SerialService';
+import {
+  CreateReservationRequest,
+  IReservationDocument,
+  ReservationStatus,
+  StockMovementReason,
+} from '../types';
+
+const MAX_RESERVATION_MINUTES = 7 * 24 * 60;
+
+export class ReservationService {
+  private reservationRepository: ReservationRepository;
+  private productRepository: ProductRepository;
+  private productService: ProductService;
+  private serialService: SerialService;
+  private defaultTtlMinutes: number;
+
+  constructor() {
+    this.reservationRepository = new ReservationRepository();
+    this.productRepository = new ProductRepository();
+    this.productService = new ProductService();
+    this.serialService = new SerialService();
+    this.defaultTtlMinutes = parseInt(process.env.RESERVATION_TTL_MINUTES || '30', 10);
+  }
+
+  async createReservation(
+    productId: string,
+    actorId: string,
+    reservationData: CreateReservationRequest,
+    userId?: string
+  ): Promise<IReservationDocument> {
+    const { quantity, reference, expiresInMinutes = this.defaultTtlMinutes } = reservationData;
+    const serials = SerialService.normalizeSerials(reservationData.serials);
+
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      throw new Error('Reservation quantity must be a positive whole number');
+    }
+
+    if (typeof expiresInMinutes !== 'number' || !Number.isFinite(expiresInMinutes)) {
+      throw new Error('Reservation expiry must be a number of minutes');
+    }
+
+    if (expiresInMinutes <= 0 || expiresInMinutes > MAX_RESERVATION_MINUTES) {
+      throw new Error(`Reservations must expire within ${MAX_RESERVATION_MINUTES} minutes`);
+    }
+
+    const product = await this.productService.getProductById(productId, userId);
+    if (!product) {
+      throw new Error('Product not found or access denied');
+    }
+
+    // Specific units can be held for serialized products
+    if (serials.length > 0 && (!product.trackSerials || serials.length !== quantity)) {
+      throw new Error('Serial numbers must match the reserved quantity of a serialized product');
+    }
+
+    return await database.withTransaction(async session => {
+      const updated = await this.productRepository.updateReservedQuantity(
+        productId,
+        quantity,
+        session
+      );
+      if (!updated) {
+        throw new Error('Insufficient available stock to reserve');
+      }
+
+      if (serials.length > 0) {
+        await this.serialService.setReserved(
+          productId,
+          serials,
+          true,
+          { reason: 'reservation', reference, performedBy: actorId },
+          session
+        );
+      }
+
+      return await this.reservationRepository.create(
+        {
+          productId,
+          quantity,
+          reference,
+          serials,
+          expiresAt: new Date(Date.now() + expiresInMinutes * 60 * 1000),
+          userId: actorId,
+        },
+        session
+      );
+    });
+  }
+
+  async getActiveReservations(productId: string, userId?: string): Promise<IReservationDocument[]> {
+    const product = await this.productService.getProductById(productId, userId);
+    if (!product) {
+      throw new Error('Product not found or access denied');
+    }
+
+    return await this.reservationRepository.findActiveByProduct(productId);
+  }
+
+  // Gives the held units back to available stock
+  async releaseReservation(
+    productId: string,
+    reservationId: string,
+    userId?: string
+  ): Promise<IReservationDocument> {
+    const product = await this.productService.getProductById(productId, userId);
+    if (!product) {
+      throw new Error('Product not found or access denied');
+    }
+
+    return await database.withTransaction(async session => {
+      const reservation = await this.reservationRepository.transitionStatus(
+        reservationId,
+        ReservationStatus.ACTIVE,
+        ReservationStatus.RELEASED,
+        { productId },
+        session
+      );
+      if (!reservation) {
+        throw new Error('Reservation not found or no longer active');
+      }
+
+      await this.productRepository.updateReservedQuantity(
+        productId,
+        -reservation.quantity,
+        session
+      );
+      await this.unreserveSerials(reservation, session);
+
+      return reservation;
+    });
+  }
+
+  // Turns the hold into an actual stock decrement. Serialized products need the
+  // units being sold, either held by the reservation or passed in.
+  async commitReservation(
+    productId: string,
+    reservationId: string,
+    actorId: string,
+    userId?: string,
+    serials?: string[]
+  ): Promise<IReservationDocument> {
+    const product = await this.productService.getProductById(productId, userId);
+    if (!product) {
+      throw new Error('Product not found or access denied');
+    }
+
+    return await database.withTransaction(async session => {
+      const reservation = await this.reservationRepository.transitionStatus(
+        reservationId,
+        ReservationStatus.ACTIVE,
+        ReservationStatus.COMMITTED,
+        { productId },
+        session
+      );
+      if (!reservation) {
+        throw new Error('Reservation not found or no longer active');
+      }
+
+      // Release the hold first so the decrement is not blocked by its own reservation
+      await this.productRepository.updateReservedQuantity(
+        productId,
+        -reservation.quantity,
+        session
+      );
+
+      await this.productService.adjustStock(productId, -reservation.quantity, undefined, {
+        reason: StockMovementReason.RESERVATION_COMMIT,
+        reference: reservation.reference || reservation._id.toString(),
+        serials:
+          reservation.serials && reservation.serials.length > 0 ? reservation.serials : serials,
+        performedBy: actorId,
+        session,
+      });
+
+      return reservation;
+    });
+  }
+
+  // Expires active reservations past their expiry date; returns how many were expired
+  async expireStaleReservations(asOf: Date = new Date()): Promise<number> {
+    const stale = await this.reservationRepository.findExpired(asOf);
+    let expiredCount = 0;
+
+    for (const candidate of stale) {
+      const expired = await database.withTransaction(async session => {
+        const reservation = await this.reservationRepository.transitionStatus(
+          candidate._id.toString(),
+          ReservationStatus.ACTIVE,
+          ReservationStatus.EXPIRED,
+          {},
+          session
+        );
+        if (!reservation) {
+          // Released or committed since it was read
+          return false;
+        }
+
+        await this.productRepository.updateReservedQuantity(
+          reservation.productId.toString(),
+          -reservation.quantity,
+          session
+        );
+        await this.unreserveSerials(reservation, session);
+        return true;
+      });
+
+      if (expired) {
+        expiredCount++;
+      }
+    }
+
+    return expiredCount;
+  }
+
+  private async unreserveSerials(
+    reservation: IReservationDocument,
+    session: ClientSession
+  ): Promise<void> {
+    if (!reservation.serials || reservation.serials.length === 0) {
+      return;
+    }
+
+    await this.serialService.setReserved(
+      reservation.productId.toString(),
+      reservation.serials,
+      false,
+      { reason: `reservation_${reservation.status}`, reference: reservation.reference },
+      session
+    );
+  }
+}
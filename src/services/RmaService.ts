@@ -0,0 +1,303 @@
+import { ClientSession, Types } from 'mongoose';
+import database from '../config/database';
+import { RmaRepository } from '../repositories/RmaRepository';
+import { CounterRepository } from '../repositories/CounterRepository';
+import { ProductRepository } from '../repositories/ProductRepository';
+import { ProductService } from './ProductService';
+import { SerialService } from './SerialService';
+import {
+  CreateRmaRequest,
+  ReceiveRmaRequest,
+  InspectRmaRequest,
+  ReleaseQuarantineRequest,
+  RmaQuery,
+  RmaStatus,
+  ReturnReason,
+  ReturnDisposition,
+  IRmaDocument,
+  IRmaLine,
+  IProductDocument,
+  PaginatedResponse,
+  StockMovementReason,
+} from '../types';
+
+export class RmaService {
+  private rmaRepository: RmaRepository;
+  private counterRepository: CounterRepository;
+  private productRepository: ProductRepository;
+  private productService: ProductService;
+
+  constructor() {
+    this.rmaRepository = new RmaRepository();
+    this.counterRepository = new CounterRepository();
+    this.productRepository = new ProductRepository();
+    this.productService = new ProductService();
+  }
+
+  // Returns can only be authorised for products the owner can access; admins pass no owner
+  async createRma(
+    userId: string,
+    rmaData: CreateRmaRequest,
+    ownerUserId?: string
+  ): Promise<IRmaDocument> {
+    const { orderNumber, customer, lines = [], note } = rmaData;
+
+    if (!orderNumber) {
+      throw new Error('Order number is required');
+    }
+
+    if (lines.length === 0) {
+      throw new Error('RMA must contain at least one line');
+    }
+
+    const productIds = new Set<string>();
+    for (const line of lines) {
+      if (productIds.has(line.productId)) {
+        throw new Error('Each product can only appear once per RMA');
+      }
+      productIds.add(line.productId);
+
+      if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+        throw new Error('Return quantities must be positive whole numbers');
+      }
+
+      if (!Object.values(ReturnReason).includes(line.reason)) {
+        throw new Error('Invalid return reason');
+      }
+
+      const product = await this.productService.getProductById(line.productId, ownerUserId);
+      if (!product) {
+        throw new Error('Product not found or access denied');
+      }
+    }
+
+    return await database.withTransaction(async session => {
+      const rmaNumber = await this.counterRepository.nextNumber('rma', 'RMA', session);
+
+      return await this.rmaRepository.create(
+        {
+          rmaNumber,
+          orderNumber,
+          customer,
+          lines: lines.map(line => ({
+            productId: line.productId,
+            quantity: line.quantity,
+            reason: line.reason,
+            reasonNote: line.reasonNote,
+          })),
+          note,
+          userId,
+        },
+        session
+      );
+    });
+  }
+
+  async getRmas(query: RmaQuery): Promise<PaginatedResponse<IRmaDocument>> {
+    return await this.rmaRepository.searchRmas(query);
+  }
+
+  async getRmaById(rmaId: string): Promise<IRmaDocument | null> {
+    return await this.rmaRepository.findById(rmaId);
+  }
+
+  // Records the units that actually came back, everything authorised when no lines are passed.
+  // Received units wait for inspection and do not touch stock yet.
+  async receiveRma(rmaId: string, receiveData: ReceiveRmaRequest = {}): Promise<IRmaDocument> {
+    return await database.withTransaction(async session => {
+      const rma = await this.getRmaForUpdate(rmaId, session);
+
+      if (rma.status !== RmaStatus.OPEN) {
+        throw new Error('Only open RMAs can be received');
+      }
+
+      const receipts =
+        receiveData.lines && receiveData.lines.length > 0
+          ? receiveData.lines
+          : rma.lines.map(line => ({
+              productId: line.productId.toString(),
+              quantity: line.quantity,
+            }));
+
+      for (const receipt of receipts) {
+        const line = this.findLine(rma, receipt.productId);
+
+        if (!Number.isInteger(receipt.quantity) || receipt.quantity < 0) {
+          throw new Error('Received quantities must be positive whole numbers');
+        }
+
+        if (receipt.quantity > line.quantity) {
+          throw new Error('Cannot receive more than the authorised return quantity');
+        }
+
+        line.quantityReceived = receipt.quantity;
+      }
+
+      if (rma.lines.every(line => line.quantityReceived === 0)) {
+        throw new Error('Nothing to receive');
+      }
+
+      rma.status = RmaStatus.RECEIVED;
+      rma.receivedAt = new Date();
+
+      return await rma.save({ session });
+    });
+  }
+
+  // Applies the inspector's decision per unit. Only restocked units go back into the
+  // product quantity; quarantined units are counted separately until released.
+  async inspectRma(
+    rmaId: string,
+    userId: string,
+    inspectData: InspectRmaRequest
+  ): Promise<IRmaDocument> {
+    const entries = inspectData.lines || [];
+    if (entries.length === 0) {
+      throw new Error('At least one disposition is required');
+    }
+
+    return await database.withTransaction(async session => {
+      const rma = await this.getRmaForUpdate(rmaId, session);
+
+      if (rma.status !== RmaStatus.RECEIVED) {
+        throw new Error('Only received RMAs can be inspected');
+      }
+
+      for (const entry of entries) {
+        const line = this.findLine(rma, entry.productId);
+
+        if (!Object.values(ReturnDisposition).includes(entry.disposition)) {
+          throw new Error('Invalid disposition');
+        }
+
+        if (!Number.isInteger(entry.quantity) || entry.quantity <= 0) {
+          throw new Error('Disposition quantities must be positive whole numbers');
+        }
+
+        if (entry.quantity > RmaService.pendingInspection(line)) {
+          throw new Error('Cannot disposition more units than are awaiting inspection');
+        }
+
+        if (entry.disposition === ReturnDisposition.RESTOCK) {
+          await this.productService.adjustStock(entry.productId, entry.quantity, undefined, {
+            reason: StockMovementReason.RETURN,
+            reference: rma.rmaNumber,
+            note: entry.note,
+            locationId: entry.locationId,
+            lot: entry.lot,
+            serials: entry.serials,
+            performedBy: userId,
+            session,
+          });
+        } else if (entry.disposition === ReturnDisposition.QUARANTINE) {
+          await this.productRepository.updateQuarantinedQuantity(
+            entry.productId,
+            entry.quantity,
+            session
+          );
+        }
+
+        line.dispositions.push({
+          disposition: entry.disposition,
+          quantity: entry.quantity,
+          serials: SerialService.normalizeSerials(entry.serials),
+          locationId: entry.locationId ? new Types.ObjectId(entry.locationId) : undefined,
+          note: entry.note,
+          inspectedBy: new Types.ObjectId(userId),
+          inspectedAt: new Date(),
+        });
+      }
+
+      if (rma.lines.every(line => RmaService.pendingInspection(line) === 0)) {
+        rma.status = RmaStatus.COMPLETED;
+        rma.completedAt = new Date();
+      }
+
+      return await rma.save({ session });
+    });
+  }
+
+  async cancelRma(rmaId: string): Promise<IRmaDocument> {
+    return await database.withTransaction(async session => {
+      const rma = await this.getRmaForUpdate(rmaId, session);
+
+      if (rma.status !== RmaStatus.OPEN) {
+        throw new Error('Only open RMAs can be cancelled');
+      }
+
+      rma.status = RmaStatus.CANCELLED;
+      rma.cancelledAt = new Date();
+
+      return await rma.save({ session });
+    });
+  }
+
+  // Takes units out of quarantine, either back into stock or written off
+  async releaseQuarantine(
+    productId: string,
+    userId: string,
+    releaseData: ReleaseQuarantineRequest,
+    ownerUserId?: string
+  ): Promise<IProductDocument | null> {
+    const { quantity, disposition } = releaseData;
+
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      throw new Error('Release quantity must be a positive whole number');
+    }
+
+    if (disposition !== ReturnDisposition.RESTOCK && disposition !== ReturnDisposition.SCRAP) {
+      throw new Error('Quarantined units can only be restocked or scrapped');
+    }
+
+    const product = await this.productService.getProductById(productId, ownerUserId);
+    if (!product) {
+      throw new Error('Product not found or access denied');
+    }
+
+    return await database.withTransaction(async session => {
+      const released = await this.productRepository.updateQuarantinedQuantity(
+        productId,
+        -quantity,
+        session
+      );
+      if (!released) {
+        throw new Error('Not enough quarantined stock to release');
+      }
+
+      if (disposition === ReturnDisposition.SCRAP) {
+        return released;
+      }
+
+      return await this.productService.adjustStock(productId, quantity, undefined, {
+        reason: StockMovementReason.RETURN,
+        note: releaseData.note || 'Released from quarantine',
+        locationId: releaseData.locationId,
+        lot: releaseData.lot,
+        serials: releaseData.serials,
+        performedBy: userId,
+        session,
+      });
+    });
+  }
+
+  static pendingInspection(line: IRmaLine): number {
+    const inspected = line.dispositions.reduce((sum, entry) => sum + entry.quantity, 0);
+    return Math.max(0, line.quantityReceived - inspected);
+  }
+
+  private findLine(rma: IRmaDocument, productId: string): IRmaLine {
+    const line = rma.lines.find(l => l.productId.toString() === productId);
+    if (!line) {
+      throw new Error('Product is not part of this RMA');
+    }
+    return line;
+  }
+
+  private async getRmaForUpdate(rmaId: string, session: ClientSession): Promise<IRmaDocument> {
+    const rma = await this.rmaRepository.findById(rmaId, session);
+    if (!rma) {
+      throw new Error('RMA not found');
+    }
+    return rma;
+  }
+}
@@ -0,0 +1,488 @@
+import { ClientSession, Types } from 'mongoose';
+import database from '../config/database';
+import { SalesOrderRepository } from '../repositories/SalesOrderRepository';
+import { CounterRepository } from '../repositories/CounterRepository';
+import { ProductRepository } from '../repositories/ProductRepository';
+import { StockLevelRepository } from '../repositories/StockLevelRepository';
+import { ProductService } from './ProductService';
+import { AuditService } from './AuditService';
+import { SerialService } from './SerialService';
+import {
+  AuditContext,
+  CreateSalesOrderRequest,
+  UpdateSalesOrderRequest,
+  ShipSalesOrderRequest,
+  SalesOrderLineRequest,
+  SalesOrderQuery,
+  SalesOrderStatus,
+  ISalesOrderDocument,
+  ISalesOrderLine,
+  IPickListEntry,
+  IProductDocument,
+  PickSource,
+  PaginatedResponse,
+  StockMovementReason,
+} from '../types';
+
+// Allowed status changes; anything else is rejected
+const SALES_ORDER_TRANSITIONS: Record<SalesOrderStatus, SalesOrderStatus[]> = {
+  [SalesOrderStatus.DRAFT]: [SalesOrderStatus.CONFIRMED, SalesOrderStatus.CANCELLED],
+  [SalesOrderStatus.CONFIRMED]: [SalesOrderStatus.PICKING, SalesOrderStatus.CANCELLED],
+  [SalesOrderStatus.PICKING]: [SalesOrderStatus.SHIPPED, SalesOrderStatus.CANCELLED],
+  [SalesOrderStatus.SHIPPED]: [],
+  [SalesOrderStatus.CANCELLED]: [],
+};
+
+export class SalesOrderService {
+  private salesOrderRepository: SalesOrderRepository;
+  private counterRepository: CounterRepository;
+  private productRepository: ProductRepository;
+  private stockLevelRepository: StockLevelRepository;
+  private productService: ProductService;
+  private auditService: AuditService;
+
+  constructor() {
+    this.salesOrderRepository = new SalesOrderRepository();
+    this.counterRepository = new CounterRepository();
+    this.productRepository = new ProductRepository();
+    this.stockLevelRepository = new StockLevelRepository();
+    this.productService = new ProductService();
+    this.auditService = new AuditService();
+  }
+
+  static canTransition(from: SalesOrderStatus, to: SalesOrderStatus): boolean {
+    return (SALES_ORDER_TRANSITIONS[from] || []).includes(to);
+  }
+
+  // Spreads a quantity over the given sources in order and reports what they could not cover
+  static planPicks(
+    sources: PickSource[],
+    quantity: number
+  ): { picks: PickSource[]; shortfall: number } {
+    const picks: PickSource[] = [];
+    let remaining = quantity;
+
+    for (const source of sources) {
+      if (remaining <= 0) break;
+      if (source.quantity <= 0) continue;
+
+      const taken = Math.min(source.quantity, remaining);
+      picks.push({ locationId: source.locationId, quantity: taken });
+      remaining -= taken;
+    }
+
+    return { picks, shortfall: remaining };
+  }
+
+  // Orders can only be placed for products the owner can access; admins pass no owner
+  async createSalesOrder(
+    userId: string,
+    orderData: CreateSalesOrderRequest,
+    ownerUserId?: string
+  ): Promise<ISalesOrderDocument> {
+    const { customer, shippingAddress, lines = [], note } = orderData;
+
+    if (!customer || !customer.name) {
+      throw new Error('Customer name is required');
+    }
+
+    const orderLines = await this.buildLines(lines, ownerUserId);
+
+    return await database.withTransaction(async session => {
+      const orderNumber = await this.counterRepository.nextNumber('sales_order', 'SO', session);
+
+      return await this.salesOrderRepository.create(
+        {
+          orderNumber,
+          customer,
+          shippingAddress,
+          lines: orderLines,
+          note,
+          userId,
+        },
+        session
+      );
+    });
+  }
+
+  async getSalesOrders(query: SalesOrderQuery): Promise<PaginatedResponse<ISalesOrderDocument>> {
+    return await this.salesOrderRepository.searchSalesOrders(query);
+  }
+
+  async getSalesOrderById(
+    salesOrderId: string,
+    ownerUserId?: string
+  ): Promise<ISalesOrderDocument | null> {
+    const order = await this.salesOrderRepository.findById(salesOrderId);
+
+    // If ownerUserId is provided, ensure the order belongs to the user (for user role)
+    if (!order || (ownerUserId && order.userId.toString() !== ownerUserId)) {
+      return null;
+    }
+
+    return order;
+  }
+
+  async updateSalesOrder(
+    salesOrderId: string,
+    updateData: UpdateSalesOrderRequest,
+    ownerUserId?: string
+  ): Promise<ISalesOrderDocument> {
+    const order = await this.getSalesOrderById(salesOrderId, ownerUserId);
+    if (!order) {
+      throw new Error('Sales order not found or access denied');
+    }
+
+    if (order.status !== SalesOrderStatus.DRAFT) {
+      throw new Error('Only draft sales orders can be edited');
+    }
+
+    if (updateData.customer !== undefined) {
+      if (!updateData.customer || !updateData.customer.name) {
+        throw new Error('Customer name is required');
+      }
+      order.customer = updateData.customer;
+    }
+
+    if (updateData.lines !== undefined) {
+      order.lines = await this.buildLines(updateData.lines, ownerUserId);
+    }
+
+    if (updateData.shippingAddress !== undefined) {
+      order.shippingAddress = updateData.shippingAddress;
+    }
+
+    if (updateData.note !== undefined) {
+      order.note = updateData.note;
+    }
+
+    return await order.save();
+  }
+
+  // Confirming allocates the ordered stock so it cannot be sold twice. Kits are allocated
+  // from prebuilt kit stock first and the rest from their components, the way they are
+  // taken from stock when shipped.
+  async confirmSalesOrder(
+    salesOrderId: string,
+    ownerUserId?: string
+  ): Promise<ISalesOrderDocument> {
+    return await database.withTransaction(async session => {
+      const order = await this.getSalesOrderForTransition(
+        salesOrderId,
+        SalesOrderStatus.CONFIRMED,
+        session,
+        ownerUserId
+      );
+
+      for (const line of order.lines) {
+        const product = await this.getLineProduct(line, session);
+        const fromComponents =
+          product.components.length > 0
+            ? Math.max(0, line.quantity - product.availableQuantity)
+            : 0;
+
+        await this.allocate(product._id.toString(), line.quantity - fromComponents, session);
+        for (const component of product.components) {
+          await this.allocate(
+            component.productId.toString(),
+            fromComponents * component.quantity,
+            session
+          );
+        }
+
+        line.quantityAllocated = line.quantity;
+        line.quantityFromComponents = fromComponents;
+      }
+
+      order.status = SalesOrderStatus.CONFIRMED;
+      order.confirmedAt = new Date();
+
+      return await order.save({ session });
+    });
+  }
+
+  // Builds the pick list: each line is picked from the locations holding the most stock
+  // first, then from stock not assigned to a location. Kits allocated from components are
+  // assembled from component stock not assigned to a location.
+  async startPicking(salesOrderId: string): Promise<ISalesOrderDocument> {
+    return await database.withTransaction(async session => {
+      const order = await this.getSalesOrderForTransition(
+        salesOrderId,
+        SalesOrderStatus.PICKING,
+        session
+      );
+
+      const pickList: IPickListEntry[] = [];
+      for (const line of order.lines) {
+        const product = await this.getLineProduct(line, session);
+        const fromComponents = line.quantityFromComponents || 0;
+
+        const { picks, shortfall } = SalesOrderService.planPicks(
+          await this.getPickSources(product),
+          line.quantityAllocated - fromComponents
+        );
+        if (shortfall > 0) {
+          throw new Error(`Not enough stock on hand to pick product ${product.sku}`);
+        }
+
+        pickList.push(
+          ...picks.map(pick => ({
+            productId: line.productId,
+            locationId: pick.locationId ? new Types.ObjectId(pick.locationId) : null,
+            quantity: pick.quantity,
+          }))
+        );
+
+        if (fromComponents > 0) {
+          for (const component of product.components) {
+            const componentId = component.productId.toString();
+            const stock = await this.productRepository.findById(componentId, session);
+            const unassigned = stock
+              ? SalesOrderService.onHand(stock) -
+                (await this.stockLevelRepository.getAllocatedQuantity(componentId, session))
+              : 0;
+            if (!stock || unassigned < fromComponents * component.quantity) {
+              throw new Error(
+                `Not enough stock on hand to pick product ${stock ? stock.sku : componentId}`
+              );
+            }
+          }
+          pickList.push({ productId: line.productId, locationId: null, quantity: fromComponents });
+        }
+      }
+
+      order.pickList = pickList;
+      order.status = SalesOrderStatus.PICKING;
+      order.pickingAt = new Date();
+
+      return await order.save({ session });
+    });
+  }
+
+  // Shipping releases the allocation and deducts the picked stock from each pick location.
+  // Serialized products need the serials of the units shipped.
+  async shipSalesOrder(
+    salesOrderId: string,
+    userId: string,
+    shipData: ShipSalesOrderRequest = {},
+    audit?: AuditContext
+  ): Promise<ISalesOrderDocument> {
+    const shipped = await database.withTransaction(async session => {
+      const order = await this.getSalesOrderForTransition(
+        salesOrderId,
+        SalesOrderStatus.SHIPPED,
+        session
+      );
+
+      const serialsByProduct = new Map(
+        (shipData.serials || []).map(entry => [
+          entry.productId,
+          SerialService.normalizeSerials(entry.serials),
+        ])
+      );
+
+      // Kits are taken through the product service, which uses prebuilt kits first and
+      // the components for the rest
+      for (const line of order.lines) {
+        await this.releaseAllocation(line, session);
+      }
+
+      for (const pick of order.pickList) {
+        const productId = pick.productId.toString();
+        const serials = serialsByProduct.get(productId);
+
+        await this.productService.adjustStock(productId, -pick.quantity, undefined, {
+          reason: StockMovementReason.SALE,
+          reference: order.orderNumber,
+          locationId: pick.locationId ? pick.locationId.toString() : undefined,
+          serials: serials ? serials.splice(0, pick.quantity) : undefined,
+          performedBy: userId,
+          session,
+        });
+
+        const line = order.lines.find(l => l.productId.toString() === productId);
+        if (line) {
+          line.quantityShipped += pick.quantity;
+        }
+      }
+
+      order.status = SalesOrderStatus.SHIPPED;
+      order.carrier = shipData.carrier;
+      order.trackingNumber = shipData.trackingNumber;
+      order.shippedAt = new Date();
+      order.shippedBy = new Types.ObjectId(userId);
+
+      return await order.save({ session });
+    });
+
+    await this.auditService.recordAdminOperation(
+      audit,
+      shipped.pickList.map(pick => pick.productId.toString()),
+      { operation: 'sales_order_ship', reference: shipped.orderNumber }
+    );
+    return shipped;
+  }
+
+  // Cancelling returns any allocated stock to the available pool
+  async cancelSalesOrder(salesOrderId: string, ownerUserId?: string): Promise<ISalesOrderDocument> {
+    return await database.withTransaction(async session => {
+      const order = await this.getSalesOrderForTransition(
+        salesOrderId,
+        SalesOrderStatus.CANCELLED,
+        session,
+        ownerUserId
+      );
+
+      for (const line of order.lines) {
+        await this.releaseAllocation(line, session);
+      }
+
+      order.status = SalesOrderStatus.CANCELLED;
+      order.cancelledAt = new Date();
+
+      return await order.save({ session });
+    });
+  }
+
+  // Unit prices default to the product's current price
+  private async buildLines(
+    lines: SalesOrderLineRequest[],
+    ownerUserId?: string
+  ): Promise<ISalesOrderLine[]> {
+    if (lines.length === 0) {
+      throw new Error('Sales order must contain at least one line');
+    }
+
+    const productIds = new Set<string>();
+    const orderLines: ISalesOrderLine[] = [];
+
+    for (const line of lines) {
+      if (productIds.has(line.productId)) {
+        throw new Error('Each product can only appear once per sales order');
+      }
+      productIds.add(line.productId);
+
+      if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+        throw new Error('Order quantities must be positive whole numbers');
+      }
+
+      const product = await this.productService.getProductById(line.productId, ownerUserId);
+      if (!product) {
+        throw new Error('Product not found or access denied');
+      }
+
+      const unitPrice = line.unitPrice !== undefined ? line.unitPrice : product.price;
+      if (unitPrice < 0) {
+        throw new Error('Unit price cannot be negative');
+      }
+
+      orderLines.push({
+        productId: product._id,
+        quantity: line.quantity,
+        unitPrice,
+        quantityAllocated: 0,
+        quantityFromComponents: 0,
+        quantityShipped: 0,
+      });
+    }
+
+    return orderLines;
+  }
+
+  // Reserves units of a product for an order
+  private async allocate(productId: string, quantity: number, session: ClientSession) {
+    if (quantity <= 0) {
+      return;
+    }
+
+    const allocated = await this.productRepository.updateReservedQuantity(
+      productId,
+      quantity,
+      session
+    );
+    if (!allocated) {
+      throw new Error(`Insufficient available stock for product ${productId}`);
+    }
+  }
+
+  // Gives a line's allocation back, on the kit and on the components it was taken from
+  private async releaseAllocation(line: ISalesOrderLine, session: ClientSession) {
+    if (line.quantityAllocated <= 0) {
+      return;
+    }
+
+    const fromComponents = line.quantityFromComponents || 0;
+    const productId = line.productId.toString();
+    if (line.quantityAllocated > fromComponents) {
+      await this.productRepository.updateReservedQuantity(
+        productId,
+        fromComponents - line.quantityAllocated,
+        session
+      );
+    }
+
+    if (fromComponents > 0) {
+      const product = await this.getLineProduct(line, session);
+      for (const component of product.components) {
+        await this.productRepository.updateReservedQuantity(
+          component.productId.toString(),
+          -fromComponents * component.quantity,
+          session
+        );
+      }
+    }
+
+    line.quantityAllocated = 0;
+  }
+
+  private async getLineProduct(
+    line: ISalesOrderLine,
+    session: ClientSession
+  ): Promise<IProductDocument> {
+    const product = await this.productRepository.findById(line.productId.toString(), session);
+    if (!product) {
+      throw new Error('Product not found');
+    }
+    return product;
+  }
+
+  // Locations holding the product, most stock first, then stock not assigned to a location
+  private async getPickSources(product: IProductDocument): Promise<PickSource[]> {
+    const levels = await this.stockLevelRepository.find({
+      productId: product._id,
+      quantity: { $gt: 0 },
+    });
+    const allocatedToLocations = levels.reduce((sum, level) => sum + level.quantity, 0);
+
+    return [
+      ...levels
+        .sort((a, b) => b.quantity - a.quantity)
+        .map(level => ({ locationId: level.locationId.toString(), quantity: level.quantity })),
+      { locationId: null, quantity: SalesOrderService.onHand(product) - allocatedToLocations },
+    ];
+  }
+
+  // Units physically held: the product total still counts stock in transit between
+  // locations, which cannot be picked
+  private static onHand(product: IProductDocument): number {
+    return product.quantity - (product.inTransitQuantity || 0);
+  }
+
+  private async getSalesOrderForTransition(
+    salesOrderId: string,
+    to: SalesOrderStatus,
+    session: ClientSession,
+    ownerUserId?: string
+  ): Promise<ISalesOrderDocument> {
+    const order = await this.salesOrderRepository.findById(salesOrderId, session);
+    if (!order || (ownerUserId && order.userId.toString() !== ownerUserId)) {
+      throw new Error('Sales order not found or access denied');
+    }
+
+    if (!SalesOrderService.canTransition(order.status, to)) {
+      throw new Error(`Cannot move a ${order.status} sales order to ${to}`);
+    }
+
+    return order;
+  }
+}
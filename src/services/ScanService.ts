@@ -0,0 +1,327 @@
+import database from '../config/database';
+import { ScanSessionRepository } from '../repositories/ScanSessionRepository';
+import { CounterRepository } from '../repositories/CounterRepository';
+import { ProductRepository } from '../repositories/ProductRepository';
+import { LocationRepository } from '../repositories/LocationRepository';
+import { ProductService } from './ProductService';
+import { AuditService } from './AuditService';
+import {
+  AuditContext,
+  IProductDocument,
+  IScanEvent,
+  IScanLine,
+  IScanSessionDocument,
+  PaginatedResponse,
+  ScanEventStatus,
+  ScanLookup,
+  ScanMatch,
+  ScanSessionQuery,
+  ScanSessionRequest,
+  StockMovementReason,
+} from '../types';
+
+// Most scan events accepted in one session
+export const MAX_SCAN_EVENTS = 1000;
+
+// Reasons a scan session can book its changes under
+const SCAN_REASONS = [
+  StockMovementReason.ADJUSTMENT,
+  StockMovementReason.RESTOCK,
+  StockMovementReason.SALE,
+  StockMovementReason.RETURN,
+  StockMovementReason.DAMAGE,
+  StockMovementReason.CORRECTION,
+];
+
+// Net change to one product from all the events that matched it, in its base unit
+export interface ScanChange {
+  product: IProductDocument;
+  delta: number;
+  eventIndexes: number[];
+}
+
+export class ScanService {
+  private scanSessionRepository: ScanSessionRepository;
+  private counterRepository: CounterRepository;
+  private productRepository: ProductRepository;
+  private locationRepository: LocationRepository;
+  private productService: ProductService;
+  private auditService: AuditService;
+
+  constructor() {
+    this.scanSessionRepository = new ScanSessionRepository();
+    this.counterRepository = new CounterRepository();
+    this.productRepository = new ProductRepository();
+    this.locationRepository = new LocationRepository();
+    this.productService = new ProductService();
+    this.auditService = new AuditService();
+  }
+
+  // Barcodes are tried first, then SKUs, then alternate codes, so a code that is one
+  // product's barcode and another's SKU finds the former
+  static matchCode(
+    code: string,
+    products: IProductDocument[]
+  ): { product: IProductDocument; matchedBy: ScanMatch } | null {
+    const byBarcode = products.find(product => product.barcode === code);
+    if (byBarcode) {
+      return { product: byBarcode, matchedBy: ScanMatch.BARCODE };
+    }
+
+    const bySku = products.find(product => product.sku === code.toUpperCase());
+    if (bySku) {
+      return { product: bySku, matchedBy: ScanMatch.SKU };
+    }
+
+    const byAlternateCode = products.find(product => (product.alternateCodes || []).includes(code));
+    return byAlternateCode
+      ? { product: byAlternateCode, matchedBy: ScanMatch.ALTERNATE_CODE }
+      : null;
+  }
+
+  // Adds up the matched events into one change per product, in the order the products
+  // were first scanned. Events whose quantity cannot be converted to the product's
+  // base unit are left out and returned with the reason, keyed by event index.
+  static netChanges(
+    events: Array<{ product: IProductDocument | null; delta: number; unit?: string }>
+  ): { changes: ScanChange[]; errors: Map<number, string> } {
+    const changes = new Map<string, ScanChange>();
+    const errors = new Map<number, string>();
+
+    events.forEach((event, index) => {
+      if (!event.product) return;
+
+      let quantity: number;
+      try {
+        quantity = ProductService.convertToBaseUnit(
+          event.product,
+          event.delta,
+          event.unit
+        ).quantity;
+      } catch (error: any) {
+        errors.set(index, error.message);
+        return;
+      }
+
+      const productId = event.product._id.toString();
+      const change = changes.get(productId) || {
+        product: event.product,
+        delta: 0,
+        eventIndexes: [],
+      };
+      // Rounded to absorb floating point noise from fractional quantities
+      change.delta = Math.round((change.delta + quantity) * 1000000) / 1000000;
+      change.eventIndexes.push(index);
+      changes.set(productId, change);
+    });
+
+    return { changes: [...changes.values()], errors };
+  }
+
+  // Why a product's stock cannot be changed by scanning, if it cannot
+  static scanConflict(product: IProductDocument): string | null {
+    if (product.hasVariants) {
+      return 'Stock of a product with variants is held by its variants';
+    }
+    if (product.trackSerials) {
+      return 'Serialized products need serial numbers; adjust their stock directly';
+    }
+    return null;
+  }
+
+  // Active product a scanned code stands for
+  async lookup(code: string, ownerUserId?: string): Promise<ScanLookup | null> {
+    const trimmed = code.trim();
+    const products = await this.findScannable([trimmed], ownerUserId);
+    const match = ScanService.matchCode(trimmed, products);
+    if (!match) {
+      return null;
+    }
+
+    const product = await this.productService.getProductById(
+      match.product._id.toString(),
+      ownerUserId
+    );
+    return product ? { code: trimmed, matchedBy: match.matchedBy, product } : null;
+  }
+
+  // Books a batch of scans as one stock transaction. Unknown codes and products whose
+  // change is refused (not enough stock, serial tracking, ...) are reported on the
+  // session instead of failing it; the remaining changes are still applied together.
+  async createScanSession(
+    userId: string,
+    ownerUserId: string | undefined,
+    request: ScanSessionRequest,
+    audit?: AuditContext
+  ): Promise<IScanSessionDocument> {
+    const {
+      events = [],
+      locationId,
+      reason = StockMovementReason.ADJUSTMENT,
+      reference,
+      note,
+    } = request;
+
+    if (events.length === 0) {
+      throw new Error('At least one scan is required');
+    }
+    if (events.length > MAX_SCAN_EVENTS) {
+      throw new Error(`A scan session can hold at most ${MAX_SCAN_EVENTS} scans`);
+    }
+    if (!SCAN_REASONS.includes(reason)) {
+      throw new Error(`Reason must be one of: ${SCAN_REASONS.join(', ')}`);
+    }
+    if (locationId) {
+      const location = await this.locationRepository.findById(locationId);
+      if (!location || !location.isActive) {
+        throw new Error('Location not found or inactive');
+      }
+    }
+
+    const codes = events.map(event => String(event.code ?? '').trim());
+    const products = await this.findScannable([...new Set(codes)], ownerUserId);
+    const matches = codes.map(code => ScanService.matchCode(code, products));
+
+    const scanEvents: IScanEvent[] = events.map((event, index) => ({
+      code: codes[index],
+      delta: event.delta,
+      unit: event.unit,
+      scannedAt: event.scannedAt ? new Date(event.scannedAt) : undefined,
+      productId: matches[index]?.product._id ?? null,
+      matchedBy: matches[index]?.matchedBy ?? null,
+      status: matches[index] ? ScanEventStatus.APPLIED : ScanEventStatus.UNKNOWN,
+      message: matches[index] ? undefined : 'No product matches this code',
+    }));
+
+    const { changes, errors } = ScanService.netChanges(
+      events.map((event, index) => ({
+        product: matches[index]?.product || null,
+        delta: event.delta,
+        unit: event.unit,
+      }))
+    );
+    for (const [index, message] of errors) {
+      scanEvents[index].status = ScanEventStatus.CONFLICT;
+      scanEvents[index].message = message;
+    }
+
+    // Products refused up front never reach the transaction; the rest are retried
+    // without any product whose change is refused while booking
+    const refused = new Map<ScanChange, string>();
+    let pending: ScanChange[] = [];
+    for (const change of changes) {
+      const conflict = ScanService.scanConflict(change.product);
+      if (conflict) {
+        refused.set(change, conflict);
+      } else if (change.delta !== 0) {
+        pending.push(change);
+      }
+    }
+
+    for (;;) {
+      const failures: { change: ScanChange; error: Error }[] = [];
+      try {
+        const scanSession = await database.withTransaction(async session => {
+          const sessionNumber = await this.counterRepository.nextNumber(
+            'scan_session',
+            'SCN',
+            session
+          );
+
+          const lines: IScanLine[] = [];
+          for (const change of pending) {
+            try {
+              const product = await this.productService.adjustStock(
+                change.product._id.toString(),
+                change.delta,
+                ownerUserId,
+                {
+                  reason,
+                  reference: reference || sessionNumber,
+                  note,
+                  locationId,
+                  performedBy: userId,
+                  session,
+                }
+              );
+              lines.push({
+                productId: change.product._id,
+                sku: change.product.sku,
+                name: change.product.name,
+                delta: change.delta,
+                quantityAfter: product?.quantity ?? 0,
+              });
+            } catch (error: any) {
+              failures.push({ change, error });
+              throw error;
+            }
+          }
+
+          const recorded = scanEvents.map(event => ({ ...event }));
+          for (const [change, message] of refused) {
+            for (const index of change.eventIndexes) {
+              recorded[index].status = ScanEventStatus.CONFLICT;
+              recorded[index].message = message;
+            }
+          }
+          const count = (status: ScanEventStatus) =>
+            recorded.filter(event => event.status === status).length;
+
+          return await this.scanSessionRepository.create(
+            {
+              sessionNumber,
+              locationId,
+              reason,
+              reference,
+              note,
+              events: recorded,
+              lines,
+              appliedCount: count(ScanEventStatus.APPLIED),
+              unknownCount: count(ScanEventStatus.UNKNOWN),
+              conflictCount: count(ScanEventStatus.CONFLICT),
+              userId,
+            },
+            session
+          );
+        });
+
+        await this.auditService.recordAdminOperation(
+          audit,
+          scanSession.lines.map(line => line.productId.toString()),
+          { operation: 'scan_session', reference: scanSession.sessionNumber }
+        );
+        return scanSession;
+      } catch (error: any) {
+        // Rule violations are plain errors; database failures fail the whole session
+        const failure = failures.pop();
+        if (!failure || failure.error !== error || error.name !== 'Error') {
+          throw error;
+        }
+        refused.set(failure.change, error.message);
+        pending = pending.filter(change => change !== failure.change);
+      }
+    }
+  }
+
+  async getScanSessions(query: ScanSessionQuery): Promise<PaginatedResponse<IScanSessionDocument>> {
+    return await this.scanSessionRepository.searchScanSessions(query);
+  }
+
+  async getScanSessionById(
+    scanSessionId: string,
+    ownerUserId?: string
+  ): Promise<IScanSessionDocument | null> {
+    const scanSession = await this.scanSessionRepository.findById(scanSessionId);
+    if (!scanSession || (ownerUserId && scanSession.userId.toString() !== ownerUserId)) {
+      return null;
+    }
+    return scanSession;
+  }
+
+  // Active products the user may change that carry any of the codes
+  private async findScannable(codes: string[], ownerUserId?: string): Promise<IProductDocument[]> {
+    return (await this.productRepository.findByCodes(codes.filter(code => code.length > 0))).filter(
+      product => product.isActive && (!ownerUserId || product.userId.toString() === ownerUserId)
+    );
+  }
+}
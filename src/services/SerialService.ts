@@ -0,0 +1,248 @@
+import { ClientSession, Types } from 'mongoose';
+import { SerialNumberRepository } from '../repositories/SerialNumberRepository';
+import {
+  IProductDocument,
+  ISerialEvent,
+  ISerialNumberDocument,
+  SerialStatus,
+  StockMovementReason,
+} from '../types';
+
+// Statuses of units that are physically on hand
+export const ON_HAND_SERIAL_STATUSES = [
+  SerialStatus.IN_STOCK,
+  SerialStatus.RETURNED,
+  SerialStatus.RESERVED,
+];
+
+export interface SerialChangeContext {
+  reason: StockMovementReason | string;
+  reference?: string;
+  locationId?: string;
+  performedBy?: string;
+}
+
+export class SerialService {
+  private serialNumberRepository: SerialNumberRepository;
+
+  constructor() {
+    this.serialNumberRepository = new SerialNumberRepository();
+  }
+
+  // Trims and upper-cases serial numbers, rejecting blanks and duplicates
+  static normalizeSerials(serials: string[] = []): string[] {
+    const normalized = serials.map(serial => String(serial).trim().toUpperCase());
+
+    if (normalized.some(serial => serial.length === 0)) {
+      throw new Error('Serial numbers cannot be blank');
+    }
+
+    if (new Set(normalized).size !== normalized.length) {
+      throw new Error('Serial numbers must be unique');
+    }
+
+    return normalized;
+  }
+
+  // Status a unit ends up in when it leaves stock for the given reason
+  static outboundStatus(reason: StockMovementReason | string): SerialStatus {
+    if (reason === StockMovementReason.SALE || reason === StockMovementReason.RESERVATION_COMMIT) {
+      return SerialStatus.SOLD;
+    }
+    return SerialStatus.SCRAPPED;
+  }
+
+  // Applies a stock change to the product's serialized units: increases receive the
+  // given serials (new units, or sold units coming back), decreases move the given
+  // on-hand units out. Returns the normalized serials that were moved.
+  async applyChange(
+    product: IProductDocument,
+    quantityChange: number,
+    serials: string[] | undefined,
+    context: SerialChangeContext,
+    session: ClientSession
+  ): Promise<string[]> {
+    const productId = product._id.toString();
+    const normalized = SerialService.normalizeSerials(serials);
+    const quantity = Math.abs(quantityChange);
+
+    if (normalized.length !== quantity) {
+      throw new Error(
+        `Serialized products need exactly ${quantity} serial number(s) for this change`
+      );
+    }
+
+    const existing = await this.serialNumberRepository.findByProductAndSerials(
+      productId,
+      normalized,
+      session
+    );
+    const units = new Map(existing.map(unit => [unit.serial, unit]));
+
+    for (const serial of normalized) {
+      const unit = units.get(serial);
+
+      if (quantityChange > 0) {
+        if (unit && unit.status !== SerialStatus.SOLD) {
+          throw new Error(
+            unit.status === SerialStatus.SCRAPPED
+              ? `Serial ${serial} has been scrapped`
+              : `Serial ${serial} is already in stock`
+          );
+        }
+
+        const status =
+          unit || context.reason === StockMovementReason.RETURN
+            ? SerialStatus.RETURNED
+            : SerialStatus.IN_STOCK;
+        const event = this.buildEvent(status, context);
+
+        if (unit) {
+          await this.serialNumberRepository.transitionStatus(
+            unit._id.toString(),
+            [SerialStatus.SOLD],
+            event,
+            session
+          );
+        } else {
+          await this.serialNumberRepository.create(
+            {
+              productId,
+              serial,
+              status,
+              locationId: context.locationId,
+              history: [event],
+            },
+            session
+          );
+        }
+      } else {
+        if (!unit || !ON_HAND_SERIAL_STATUSES.includes(unit.status)) {
+          throw new Error(`Serial ${serial} is not in stock`);
+        }
+
+        await this.serialNumberRepository.transitionStatus(
+          unit._id.toString(),
+          ON_HAND_SERIAL_STATUSES,
+          this.buildEvent(SerialService.outboundStatus(context.reason), context),
+          session
+        );
+      }
+    }
+
+    return normalized;
+  }
+
+  // Registers serials for stock that was on hand before the product was serialized
+  async registerExisting(
+    product: IProductDocument,
+    serials: string[],
+    performedBy: string,
+    session: ClientSession
+  ): Promise<ISerialNumberDocument[]> {
+    const productId = product._id.toString();
+    const normalized = SerialService.normalizeSerials(serials);
+
+    if (normalized.length === 0) {
+      throw new Error('At least one serial number is required');
+    }
+
+    const onHand = await this.serialNumberRepository.countByStatus(
+      productId,
+      ON_HAND_SERIAL_STATUSES,
+      session
+    );
+    if (onHand + normalized.length > product.quantity) {
+      throw new Error('Cannot register more serial numbers than units on hand');
+    }
+
+    const existing = await this.serialNumberRepository.findByProductAndSerials(
+      productId,
+      normalized,
+      session
+    );
+    if (existing.length > 0) {
+      throw new Error(`Serial ${existing[0].serial} is already registered`);
+    }
+
+    const created: ISerialNumberDocument[] = [];
+    for (const serial of normalized) {
+      created.push(
+        await this.serialNumberRepository.create(
+          {
+            productId,
+            serial,
+            status: SerialStatus.IN_STOCK,
+            history: [
+              this.buildEvent(SerialStatus.IN_STOCK, {
+                reason: StockMovementReason.CORRECTION,
+                reference: 'Registered existing stock',
+                performedBy,
+              }),
+            ],
+          },
+          session
+        )
+      );
+    }
+
+    return created;
+  }
+
+  // Holds specific units for a reservation, or gives them back
+  async setReserved(
+    productId: string,
+    serials: string[],
+    reserved: boolean,
+    context: SerialChangeContext,
+    session: ClientSession
+  ): Promise<void> {
+    const from = reserved
+      ? [SerialStatus.IN_STOCK, SerialStatus.RETURNED]
+      : [SerialStatus.RESERVED];
+    const status = reserved ? SerialStatus.RESERVED : SerialStatus.IN_STOCK;
+    const units = await this.serialNumberRepository.findByProductAndSerials(
+      productId,
+      serials,
+      session
+    );
+
+    for (const serial of serials) {
+      const unit = units.find(candidate => candidate.serial === serial);
+      const updated = unit
+        ? await this.serialNumberRepository.transitionStatus(
+            unit._id.toString(),
+            from,
+            this.buildEvent(status, context),
+            session
+          )
+        : null;
+
+      if (!updated) {
+        throw new Error(`Serial ${serial} is not available`);
+      }
+    }
+  }
+
+  async lookupSerial(serial: string): Promise<ISerialNumberDocument[]> {
+    return await this.serialNumberRepository.findBySerial(serial);
+  }
+
+  async getProductSerials(
+    productId: string,
+    status?: SerialStatus
+  ): Promise<ISerialNumberDocument[]> {
+    return await this.serialNumberRepository.findByProduct(productId, status);
+  }
+
+  private buildEvent(status: SerialStatus, context: SerialChangeContext): ISerialEvent {
+    return {
+      status,
+      reason: context.reason,
+      reference: context.reference,
+      locationId: context.locationId ? new Types.ObjectId(context.locationId) : undefined,
+      userId: context.performedBy ? new Types.ObjectId(context.performedBy) : undefined,
+      at: new Date(),
+    };
+  }
+}
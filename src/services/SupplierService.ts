@@ -0,0 +1,167 @@
+import database from '../config/database';
+import { SupplierRepository } from '../repositories/SupplierRepository';
+import { ProductSupplierRepository } from '../repositories/ProductSupplierRepository';
+import { ProductService } from './ProductService';
+import {
+  CreateSupplierRequest,
+  UpdateSupplierRequest,
+  SupplierQuery,
+  ProductSupplierRequest,
+  ISupplierDocument,
+  IProductSupplierDocument,
+  PaginatedResponse,
+} from '../types';
+
+export class SupplierService {
+  private supplierRepository: SupplierRepository;
+  private productSupplierRepository: ProductSupplierRepository;
+  private productService: ProductService;
+
+  constructor() {
+    this.supplierRepository = new SupplierRepository();
+    this.productSupplierRepository = new ProductSupplierRepository();
+    this.productService = new ProductService();
+  }
+
+  async createSupplier(
+    userId: string,
+    supplierData: CreateSupplierRequest
+  ): Promise<ISupplierDocument> {
+    // Check if code already exists
+    const existingSupplier = await this.supplierRepository.findByCode(supplierData.code);
+    if (existingSupplier) {
+      throw new Error('Supplier with this code already exists');
+    }
+
+    return await this.supplierRepository.create({
+      ...supplierData,
+      userId,
+    });
+  }
+
+  async getSuppliers(query: SupplierQuery): Promise<PaginatedResponse<ISupplierDocument>> {
+    return await this.supplierRepository.searchSuppliers(query);
+  }
+
+  async getSupplierById(supplierId: string, userId?: string): Promise<ISupplierDocument | null> {
+    const supplier = await this.supplierRepository.findById(supplierId);
+
+    if (!supplier || !supplier.isActive) {
+      return null;
+    }
+
+    // If userId is provided, ensure the supplier belongs to the user (for user role)
+    if (userId && supplier.userId.toString() !== userId) {
+      return null;
+    }
+
+    return supplier;
+  }
+
+  async updateSupplier(
+    supplierId: string,
+    userId: string | undefined,
+    updateData: UpdateSupplierRequest
+  ): Promise<ISupplierDocument | null> {
+    // Check if supplier exists and belongs to user
+    const existingSupplier = await this.getSupplierById(supplierId, userId);
+    if (!existingSupplier) {
+      throw new Error('Supplier not found or access denied');
+    }
+
+    // If code is being updated, check for duplicates
+    if (updateData.code && updateData.code.toUpperCase() !== existingSupplier.code) {
+      const codeExists = await this.supplierRepository.findByCode(updateData.code);
+      if (codeExists) {
+        throw new Error('Supplier with this code already exists');
+      }
+    }
+
+    return await this.supplierRepository.update(supplierId, updateData);
+  }
+
+  async deleteSupplier(supplierId: string, userId?: string): Promise<boolean> {
+    // Check if supplier exists and belongs to user
+    const existingSupplier = await this.getSupplierById(supplierId, userId);
+    if (!existingSupplier) {
+      throw new Error('Supplier not found or access denied');
+    }
+
+    // Soft delete by setting isActive to false
+    const result = await this.supplierRepository.update(supplierId, { isActive: false });
+    return result !== null;
+  }
+
+  async getSupplierProducts(
+    supplierId: string,
+    userId?: string
+  ): Promise<IProductSupplierDocument[]> {
+    const supplier = await this.getSupplierById(supplierId, userId);
+    if (!supplier) {
+      throw new Error('Supplier not found or access denied');
+    }
+
+    return await this.productSupplierRepository.findBySupplier(supplierId);
+  }
+
+  async getProductSuppliers(
+    productId: string,
+    userId?: string
+  ): Promise<IProductSupplierDocument[]> {
+    const product = await this.productService.getProductById(productId, userId);
+    if (!product) {
+      throw new Error('Product not found or access denied');
+    }
+
+    return await this.productSupplierRepository.findByProduct(productId);
+  }
+
+  // Creates or updates the terms under which a supplier provides a product
+  async linkProduct(
+    productId: string,
+    supplierId: string,
+    terms: ProductSupplierRequest,
+    userId?: string
+  ): Promise<IProductSupplierDocument | null> {
+    const product = await this.productService.getProductById(productId, userId);
+    if (!product) {
+      throw new Error('Product not found or access denied');
+    }
+
+    const supplier = await this.getSupplierById(supplierId, userId);
+    if (!supplier) {
+      throw new Error('Supplier not found or access denied');
+    }
+
+    if (terms.unitCost === undefined || terms.unitCost < 0) {
+      throw new Error('Unit cost must be zero or greater');
+    }
+
+    return await database.withTransaction(async session => {
+      if (terms.isPreferred) {
+        await this.productSupplierRepository.clearPreferred(productId, supplierId, session);
+      }
+
+      return await this.productSupplierRepository.upsertLink(
+        productId,
+        supplierId,
+        {
+          supplierSku: terms.supplierSku,
+          unitCost: terms.unitCost,
+          minimumOrderQuantity: terms.minimumOrderQuantity,
+          isPreferred: terms.isPreferred,
+        },
+        session
+      );
+    });
+  }
+
+  async unlinkProduct(productId: string, supplierId: string, userId?: string): Promise<boolean> {
+    const product = await this.productService.getProductById(productId, userId);
+    if (!product) {
+      throw new Error('Product not found or access denied');
+    }
+
+    return await this.productSupplierRepository.removeLink(productId, supplierId);
+  }
+}
@@ -0,0 +1,283 @@
+import { ClientSession, Types } from 'mongoose';
+import database from '../config/database';
+import { TransferRepository } from '../repositories/TransferRepository';
+import { CounterRepository } from '../repositories/CounterRepository';
+import { LocationRepository } from '../repositories/LocationRepository';
+import { ProductService } from './ProductService';
+import { AuditService } from './AuditService';
+import {
+  AuditContext,
+  CreateTransferRequest,
+  ReceiveTransferRequest,
+  TransferQuery,
+  TransferStatus,
+  ITransferDocument,
+  PaginatedResponse,
+  StockMovementReason,
+} from '../types';
+
+export class TransferService {
+  private transferRepository: TransferRepository;
+  private counterRepository: CounterRepository;
+  private locationRepository: LocationRepository;
+  private productService: ProductService;
+  private auditService: AuditService;
+
+  constructor() {
+    this.transferRepository = new TransferRepository();
+    this.counterRepository = new CounterRepository();
+    this.locationRepository = new LocationRepository();
+    this.productService = new ProductService();
+    this.auditService = new AuditService();
+  }
+
+  async createTransfer(
+    userId: string,
+    transferData: CreateTransferRequest
+  ): Promise<ITransferDocument> {
+    const { fromLocationId, toLocationId, lines = [], note } = transferData;
+
+    if (fromLocationId === toLocationId) {
+      throw new Error('Source and destination locations must differ');
+    }
+
+    for (const locationId of [fromLocationId, toLocationId]) {
+      const location = await this.locationRepository.findById(locationId);
+      if (!location || !location.isActive) {
+        throw new Error('Location not found or inactive');
+      }
+    }
+
+    if (lines.length === 0) {
+      throw new Error('Transfer must contain at least one line');
+    }
+
+    const productIds = new Set<string>();
+    for (const line of lines) {
+      if (productIds.has(line.productId)) {
+        throw new Error('Each product can only appear once per transfer');
+      }
+      productIds.add(line.productId);
+
+      if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+        throw new Error('Transfer quantities must be positive whole numbers');
+      }
+
+      const product = await this.productService.getProductById(line.productId);
+      if (!product) {
+        throw new Error('Product not found');
+      }
+      // Lots and serial numbers do not record a location, so they cannot follow a transfer
+      if (product.trackLots || product.trackSerials) {
+        throw new Error('Lot- and serial-tracked products cannot be transferred between locations');
+      }
+    }
+
+    return await database.withTransaction(async session => {
+      const transferNumber = await this.counterRepository.nextNumber('transfer', 'TRF', session);
+
+      return await this.transferRepository.create(
+        {
+          transferNumber,
+          fromLocationId,
+          toLocationId,
+          lines: lines.map(line => ({ productId: line.productId, quantity: line.quantity })),
+          note,
+          userId,
+        },
+        session
+      );
+    });
+  }
+
+  async getTransfers(query: TransferQuery): Promise<PaginatedResponse<ITransferDocument>> {
+    return await this.transferRepository.searchTransfers(query);
+  }
+
+  async getTransferById(transferId: string): Promise<ITransferDocument | null> {
+    return await this.transferRepository.findById(transferId);
+  }
+
+  // Stock leaves the source location and is held on the transfer until received; the
+  // product total keeps it as in transit
+  async shipTransfer(
+    transferId: string,
+    userId: string,
+    audit?: AuditContext
+  ): Promise<ITransferDocument> {
+    const shipped = await database.withTransaction(async session => {
+      const transfer = await this.getTransferForUpdate(transferId, session);
+
+      if (transfer.status !== TransferStatus.PENDING) {
+        throw new Error('Only pending transfers can be shipped');
+      }
+
+      for (const line of transfer.lines) {
+        await this.productService.adjustStock(
+          line.productId.toString(),
+          -line.quantity,
+          undefined,
+          {
+            reason: StockMovementReason.TRANSFER_OUT,
+            reference: transfer.transferNumber,
+            locationId: transfer.fromLocationId.toString(),
+            performedBy: userId,
+            session,
+          }
+        );
+      }
+
+      transfer.status = TransferStatus.IN_TRANSIT;
+      transfer.shippedAt = new Date();
+      transfer.shippedBy = new Types.ObjectId(userId);
+
+      return await transfer.save({ session });
+    });
+
+    await this.auditService.recordAdminOperation(
+      audit,
+      shipped.lines.map(line => line.productId.toString()),
+      { operation: 'transfer_ship', reference: shipped.transferNumber }
+    );
+    return shipped;
+  }
+
+  // Receives the given lines, or everything still in transit when no lines are passed
+  async receiveTransfer(
+    transferId: string,
+    userId: string,
+    receiveData: ReceiveTransferRequest = {},
+    audit?: AuditContext
+  ): Promise<ITransferDocument> {
+    const received = await database.withTransaction(async session => {
+      const transfer = await this.getTransferForUpdate(transferId, session);
+
+      if (
+        transfer.status !== TransferStatus.IN_TRANSIT &&
+        transfer.status !== TransferStatus.PARTIALLY_RECEIVED
+      ) {
+        throw new Error('Only shipped transfers can be received');
+      }
+
+      const receipts =
+        receiveData.lines && receiveData.lines.length > 0
+          ? receiveData.lines
+          : transfer.lines.map(line => ({
+              productId: line.productId.toString(),
+              quantity: line.quantity - line.quantityReceived,
+            }));
+
+      for (const receipt of receipts) {
+        const line = transfer.lines.find(l => l.productId.toString() === receipt.productId);
+        if (!line) {
+          throw new Error('Product is not part of this transfer');
+        }
+
+        if (receipt.quantity === 0) {
+          continue;
+        }
+
+        if (!Number.isInteger(receipt.quantity) || receipt.quantity < 0) {
+          throw new Error('Received quantities must be positive whole numbers');
+        }
+
+        if (receipt.quantity > line.quantity - line.quantityReceived) {
+          throw new Error('Cannot receive more than the quantity in transit');
+        }
+
+        await this.productService.adjustStock(receipt.productId, receipt.quantity, undefined, {
+          reason: StockMovementReason.TRANSFER_IN,
+          reference: transfer.transferNumber,
+          locationId: transfer.toLocationId.toString(),
+          performedBy: userId,
+          session,
+        });
+
+        line.quantityReceived += receipt.quantity;
+      }
+
+      const fullyReceived = transfer.lines.every(line => line.quantityReceived >= line.quantity);
+      if (fullyReceived) {
+        transfer.status = TransferStatus.RECEIVED;
+        transfer.receivedAt = new Date();
+      } else {
+        transfer.status = TransferStatus.PARTIALLY_RECEIVED;
+      }
+
+      return await transfer.save({ session });
+    });
+
+    await this.auditService.recordAdminOperation(
+      audit,
+      receiveData.lines && receiveData.lines.length > 0
+        ? receiveData.lines.filter(line => line.quantity > 0).map(line => line.productId)
+        : received.lines.map(line => line.productId.toString()),
+      { operation: 'transfer_receive', reference: received.transferNumber }
+    );
+    return received;
+  }
+
+  // Cancelling a shipped transfer returns whatever is still in transit to the source
+  async cancelTransfer(
+    transferId: string,
+    userId: string,
+    audit?: AuditContext
+  ): Promise<ITransferDocument> {
+    const cancelled = await database.withTransaction(async session => {
+      const transfer = await this.getTransferForUpdate(transferId, session);
+
+      if (
+        transfer.status === TransferStatus.RECEIVED ||
+        transfer.status === TransferStatus.CANCELLED
+      ) {
+        throw new Error(`Cannot cancel a ${transfer.status} transfer`);
+      }
+
+      if (transfer.status !== TransferStatus.PENDING) {
+        for (const line of transfer.lines) {
+          const outstanding = line.quantity - line.quantityReceived;
+          if (outstanding <= 0) {
+            continue;
+          }
+
+          await this.productService.adjustStock(line.productId.toString(), outstanding, undefined, {
+            reason: StockMovementReason.TRANSFER_IN,
+            reference: transfer.transferNumber,
+            note: 'Returned to source on transfer cancellation',
+            locationId: transfer.fromLocationId.toString(),
+            performedBy: userId,
+            session,
+          });
+        }
+      }
+
+      transfer.status = TransferStatus.CANCELLED;
+      transfer.cancelledAt = new Date();
+
+      return await transfer.save({ session });
+    });
+
+    // Pending transfers never moved any stock
+    if (cancelled.shippedAt) {
+      await this.auditService.recordAdminOperation(
+        audit,
+        cancelled.lines
+          .filter(line => line.quantityReceived < line.quantity)
+          .map(line => line.productId.toString()),
+        { operation: 'transfer_cancel', reference: cancelled.transferNumber }
+      );
+    }
+    return cancelled;
+  }
+
+  private async getTransferForUpdate(
+    transferId: string,
+    session: ClientSession
+  ): Promise<ITransferDocument> {
+    const transfer = await this.transferRepository.findById(transferId, session);
+    if (!transfer) {
+      throw new Error('Transfer not found');
+    }
+    return transfer;
+  }
+}
@@ -0,0 +1,53 @@
+import { v2 as cloudinary, UploadApiResponse } from 'cloudinary';
+import { StorageAdapter, StoredFile } from './StorageAdapter';
+
+export interface CloudinaryConfig {
+  cloudName: string;
+  apiKey: string;
+  apiSecret: string;
+}
+
+// Stores files in Cloudinary. The public id is the key without its extension,
+// and that public id is the key returned to callers.
+export class CloudinaryStorageAdapter implements StorageAdapter {
+  readonly provider = 'cloudinary';
+
+  constructor(config: CloudinaryConfig) {
+    if (!config.cloudName || !config.apiKey || !config.apiSecret) {
+      throw new Error(
+        'CLOUDINARY_CLOUD_NAME, CLOUDINARY_API_KEY and CLOUDINARY_API_SECRET are required'
+      );
+    }
+
+    cloudinary.config({
+      cloud_name: config.cloudName,
+      api_key: config.apiKey,
+      api_secret: config.apiSecret,
+      secure: true,
+    });
+  }
+
+  async save(key: string, data: Buffer): Promise<StoredFile> {
+    const publicId = key.replace(/\.[^./]+$/, '');
+
+    const result = await new Promise<UploadApiResponse>((resolve, reject) => {
+      const stream = cloudinary.uploader.upload_stream(
+        { public_id: publicId, resource_type: 'image', overwrite: false },
+        (error, response) => {
+          if (error || !response) {
+            reject(new Error(error?.message || 'Upload to Cloudinary failed'));
+            return;
+          }
+          resolve(response);
+        }
+      );
+      stream.end(data);
+    });
+
+    return { key: result.public_id, url: result.secure_url };
+  }
+
+  async remove(key: string): Promise<void> {
+    await cloudinary.uploader.destroy(key, { resource_type: 'image' });
+  }
+}
@@ -0,0 +1,44 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { StorageAdapter, StoredFile } from './StorageAdapter';
+
+// Keeps files on the local disk, served by the app under /uploads. Meant for
+// development and tests.
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly provider = 'local';
+  private rootDir: string;
+  private baseUrl: string;
+
+  constructor(rootDir: string, baseUrl: string) {
+    this.rootDir = path.resolve(rootDir);
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  async save(key: string, data: Buffer): Promise<StoredFile> {
+    const filePath = this.resolvePath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+
+    return { key, url: `${this.baseUrl}/${key}` };
+  }
+
+  async remove(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.resolvePath(key));
+    } catch (error: any) {
+      // Already gone
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  // Keys never leave the upload directory
+  private resolvePath(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error('Invalid storage key');
+    }
+    return filePath;
+  }
+}
@@ -0,0 +1,12 @@
+export interface StoredFile {
+  key: string;
+  url: string;
+}
+
+// Where uploaded files live. Keys look like "products/<id>/<uuid>.png"; adapters may
+// return a different key (e.g. without the extension) which is what remove() expects.
+export interface StorageAdapter {
+  readonly provider: string;
+  save(key: string, data: Buffer): Promise<StoredFile>;
+  remove(key: string): Promise<void>;
+}
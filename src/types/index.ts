@@ -1,4 +1,4 @@
-import { Document, Types } from 'mongoose';
+import { ClientSession, Document, Types } from 'mongoose';
 import { Request } from 'express';
 
 // Base interface for all entities
@@ -17,6 +17,9 @@ export interface IUser extends BaseEntity {
   role: UserRole;
   isActive: boolean;
   profileImage?: string;
+  profileThumbnail?: string;
+  // Set when the profile image was uploaded rather than linked
+  profileImageFile?: IStoredImage | null;
 }
 
 export interface IUserDocument extends Omit<IUser, '_id'>, Document {
@@ -34,16 +37,1337 @@ export interface IProduct extends BaseEntity {
   name: string;
   description?: string;
   sku: string;
+  // Scannable code printed on the product; unique across products
+  barcode?: string | null;
+  barcodeType?: BarcodeType | null;
+  // Other codes a scan resolves to the product, e.g. legacy or supplier labels
+  alternateCodes: string[];
+  // Name of the category, kept in step with categoryId
   category: string;
+  categoryId?: Types.ObjectId | null;
   price: number;
   quantity: number;
+  reservedQuantity: number;
+  expiredQuantity: number;
+  quarantinedQuantity: number;
+  // Units shipped on a transfer and not yet received; part of quantity, but at no location
+  inTransitQuantity: number;
+  standardCost?: number | null;
+  averageCost: number;
+  inventoryValue: number;
+  trackLots: boolean;
+  trackSerials: boolean;
   minStockLevel: number;
-  images: string[];
+  reorderPoint?: number | null;
+  maxStockLevel?: number | null;
+  leadTimeDays?: number | null;
+  packSize: number;
+  // In display order; the first image is the main one
+  images: IProductImage[];
+  // Set on variants: the parent product they belong to
+  parentId?: Types.ObjectId | null;
+  // Set on parents: stock is held by the variants, never by the parent itself
+  hasVariants: boolean;
+  variantOptions: IVariantOption[];
+  variantAttributes: IVariantAttribute[];
+  // Bill of materials; products with components are kits
+  components: IKitComponent[];
+  // Unit quantity is kept in, with alternate units converted into it
+  baseUnit: string;
+  fractionalQuantities: boolean;
+  units: IUnitOfMeasure[];
+  // Values of the custom attributes defined on the product's category and its ancestors
+  attributes: Record<string, AttributeValue>;
   isActive: boolean;
   userId: Types.ObjectId;
 }
 
-export interface IProductDocument extends Omit<IProduct, '_id'>, Document {}
+export interface IProductDocument extends Omit<IProduct, '_id'>, Document<Types.ObjectId> {
+  // Virtuals
+  availableQuantity: number;
+  isLowStock: boolean;
+}
+
+// Unit of measure related types
+// An alternate unit and how many base units it holds, e.g. a case of 24
+export interface IUnitOfMeasure {
+  name: string;
+  factor: number;
+}
+
+export interface UnitsOfMeasure {
+  baseUnit: string;
+  fractionalQuantities: boolean;
+  units: IUnitOfMeasure[];
+}
+
+// Kit (bill of materials) related types
+export interface IKitComponent {
+  productId: Types.ObjectId;
+  // Units of the component in one kit
+  quantity: number;
+}
+
+export interface KitComponentRequest {
+  productId: string;
+  quantity: number;
+}
+
+export interface KitComponentStock {
+  productId: string;
+  sku: string;
+  quantityPerKit: number;
+  availableQuantity: number;
+}
+
+// How many more kits the components can build and which component runs out first
+export interface KitAvailability {
+  buildableQuantity: number;
+  limitingComponent: KitComponentStock | null;
+}
+
+export interface AssembleKitRequest {
+  quantity: number;
+  locationId?: string;
+  lot?: LotInput;
+  reference?: string;
+  note?: string;
+}
+
+// Product variant related types
+// An option axis of a parent product, e.g. Size with S, M and L
+export interface IVariantOption {
+  name: string;
+  values: string[];
+}
+
+// The value a variant takes on one option axis
+export interface IVariantAttribute {
+  name: string;
+  value: string;
+}
+
+export interface VariantRequest {
+  attributes: Record<string, string>;
+  sku?: string;
+  barcode?: string;
+  barcodeType?: BarcodeType;
+  price?: number;
+  quantity?: number;
+  minStockLevel?: number;
+  unitCost?: number;
+  lot?: LotInput;
+  serials?: string[];
+}
+
+export interface CreateVariantsRequest {
+  // When omitted, every missing combination of the option values is generated
+  variants?: VariantRequest[];
+}
+
+// Stock and price figures of a parent rolled up from its active variants
+export interface VariantSummary {
+  variantCount: number;
+  quantity: number;
+  reservedQuantity: number;
+  availableQuantity: number;
+  inventoryValue: number;
+  minPrice: number | null;
+  maxPrice: number | null;
+  lowStockCount: number;
+  outOfStockCount: number;
+}
+
+// Stock movement ledger types
+export enum StockMovementReason {
+  INITIAL = 'initial',
+  MANUAL_SET = 'manual_set',
+  ADJUSTMENT = 'adjustment',
+  RESTOCK = 'restock',
+  SALE = 'sale',
+  RETURN = 'return',
+  DAMAGE = 'damage',
+  CORRECTION = 'correction',
+  TRANSFER_OUT = 'transfer_out',
+  TRANSFER_IN = 'transfer_in',
+  RESERVATION_COMMIT = 'reservation_commit',
+  PURCHASE_RECEIPT = 'purchase_receipt',
+  COUNT_VARIANCE = 'count_variance',
+  KIT_ASSEMBLY = 'kit_assembly',
+}
+
+export interface IStockMovement extends BaseEntity {
+  productId: Types.ObjectId;
+  locationId?: Types.ObjectId;
+  quantityChange: number;
+  quantityBefore: number;
+  quantityAfter: number;
+  reason: StockMovementReason;
+  reference?: string;
+  note?: string;
+  lots?: LotAllocation[];
+  serials?: string[];
+  unitCost?: number;
+  costOfGoods?: number;
+  valueChange?: number;
+  userId?: Types.ObjectId;
+}
+
+export interface IStockMovementDocument extends Omit<IStockMovement, '_id'>, Document {}
+
+// Context recorded alongside every stock change
+export interface StockChangeOptions {
+  reason?: StockMovementReason;
+  reference?: string;
+  note?: string;
+  performedBy?: string;
+  locationId?: string;
+  lot?: LotInput;
+  serials?: string[];
+  unitCost?: number;
+  // Unit the quantity (and unit cost) is given in; converted to the product's base unit
+  unit?: string;
+  session?: ClientSession;
+}
+
+// Product history related types
+export enum ProductVersionAction {
+  CREATE = 'create',
+  UPDATE = 'update',
+  DELETE = 'delete',
+  // Undeleted from the trash, or set back to the fields of an earlier version
+  RESTORE = 'restore',
+}
+
+export interface ProductFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+// Editable fields of a product as JSON; stock figures and images are not versioned
+export type ProductSnapshot = Record<string, unknown>;
+
+export interface IProductVersion extends BaseEntity {
+  productId: Types.ObjectId;
+  // Counted from 1 for each product
+  version: number;
+  action: ProductVersionAction;
+  changes: ProductFieldChange[];
+  // The product's fields after this version
+  snapshot: ProductSnapshot;
+  // Version whose fields were put back by a restore
+  restoredFrom?: number;
+  // Set on variants deleted or restored along with their parent
+  viaParent?: boolean;
+  performedBy?: Types.ObjectId;
+}
+
+export interface IProductVersionDocument extends Omit<IProductVersion, '_id'>, Document {}
+
+export interface ProductVersionDetails {
+  action?: ProductVersionAction;
+  restoredFrom?: number;
+  viaParent?: boolean;
+}
+
+// Inventory valuation related types
+export enum ValuationMethod {
+  FIFO = 'fifo',
+  WEIGHTED_AVERAGE = 'weighted_average',
+  STANDARD = 'standard',
+}
+
+// Units received at one cost; FIFO consumes the oldest open layers first
+export interface ICostLayer extends BaseEntity {
+  productId: Types.ObjectId;
+  quantityReceived: number;
+  quantityRemaining: number;
+  unitCost: number;
+  reason: StockMovementReason;
+  reference?: string;
+}
+
+export interface ICostLayerDocument extends Omit<ICostLayer, '_id'>, Document {}
+
+export interface CostChangeResult {
+  unitCost?: number;
+  costOfGoods?: number;
+  valueChange: number;
+  averageCost: number;
+}
+
+export interface ValuationCategory {
+  category: string;
+  quantity: number;
+  value: number;
+  productCount: number;
+}
+
+export interface ValuationReport {
+  asOf: Date;
+  method: ValuationMethod;
+  totalQuantity: number;
+  totalValue: number;
+  categories: ValuationCategory[];
+}
+
+export interface CogsCategory {
+  category: string;
+  quantitySold: number;
+  costOfGoods: number;
+  writeOffCost: number;
+}
+
+export interface CogsReport {
+  from: Date;
+  to: Date;
+  method: ValuationMethod;
+  totalCostOfGoods: number;
+  totalWriteOffCost: number;
+  categories: CogsCategory[];
+}
+
+// Serial number related types
+export enum SerialStatus {
+  IN_STOCK = 'in_stock',
+  RESERVED = 'reserved',
+  SOLD = 'sold',
+  RETURNED = 'returned',
+  SCRAPPED = 'scrapped',
+}
+
+export interface ISerialEvent {
+  status: SerialStatus;
+  reason?: StockMovementReason | string;
+  reference?: string;
+  locationId?: Types.ObjectId;
+  userId?: Types.ObjectId;
+  at: Date;
+}
+
+export interface ISerialNumber extends BaseEntity {
+  productId: Types.ObjectId;
+  serial: string;
+  status: SerialStatus;
+  locationId?: Types.ObjectId;
+  history: ISerialEvent[];
+}
+
+export interface ISerialNumberDocument extends Omit<ISerialNumber, '_id'>, Document {}
+
+// Lot/batch related types
+export interface ILot extends BaseEntity {
+  productId: Types.ObjectId;
+  lotNumber: string;
+  manufactureDate?: Date;
+  expiryDate?: Date;
+  quantity: number;
+  receivedQuantity: number;
+  isExpired: boolean;
+}
+
+export interface ILotDocument extends Omit<ILot, '_id'>, Document<Types.ObjectId> {}
+
+// Identifies the lot being received into, or the lot to take stock from
+export interface LotInput {
+  lotNumber: string;
+  manufactureDate?: Date | string;
+  expiryDate?: Date | string;
+}
+
+// Quantity taken from (negative) or added to (positive) a lot by a stock change
+export interface LotAllocation {
+  lotId: Types.ObjectId;
+  lotNumber: string;
+  quantity: number;
+}
+
+// Category tree related types
+export interface ICategory extends BaseEntity {
+  name: string;
+  slug: string;
+  parentId?: Types.ObjectId | null;
+  // Root first, parent last; lets a subtree be found with a single query
+  ancestors: Types.ObjectId[];
+  description?: string;
+  // Custom product fields; they also apply to every subcategory
+  attributes: IAttributeDefinition[];
+  isActive: boolean;
+}
+
+export interface ICategoryDocument extends Omit<ICategory, '_id'>, Document {}
+
+export interface CreateCategoryRequest {
+  name: string;
+  slug?: string;
+  parentId?: string | null;
+  description?: string;
+}
+
+export interface UpdateCategoryRequest {
+  name?: string;
+  slug?: string;
+  description?: string;
+}
+
+// Products and stock in a category and all of its descendants
+export interface CategoryStats {
+  productCount: number;
+  totalQuantity: number;
+  totalValue: number;
+}
+
+export interface CategoryTreeNode {
+  _id: string;
+  name: string;
+  slug: string;
+  parentId: string | null;
+  stats?: CategoryStats;
+  children: CategoryTreeNode[];
+}
+
+export interface CategoryMigrationResult {
+  categoriesCreated: number;
+  productsLinked: number;
+}
+
+// Image related types
+export interface IStoredImage {
+  url: string;
+  thumbnailUrl?: string;
+  // Storage keys, absent for images hosted elsewhere
+  key?: string;
+  thumbnailKey?: string;
+  provider?: string;
+  contentType?: string;
+  size?: number;
+}
+
+export interface IProductImage extends IStoredImage {
+  _id?: Types.ObjectId;
+}
+
+// An uploaded file as received from multer
+export interface ImageUpload {
+  buffer: Buffer;
+  mimetype: string;
+  originalname: string;
+  size: number;
+}
+
+// Barcode and label related types
+export enum BarcodeType {
+  EAN13 = 'ean13',
+  UPCA = 'upca',
+  CODE128 = 'code128',
+}
+
+export enum CodeImageFormat {
+  PNG = 'png',
+  SVG = 'svg',
+}
+
+// Positions of the labels on a sheet, in points (1/72 inch)
+export interface LabelTemplate {
+  id: string;
+  name: string;
+  pageWidth: number;
+  pageHeight: number;
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  marginTop: number;
+  marginLeft: number;
+  // Distance from the start of one label to the start of the next
+  horizontalPitch: number;
+  verticalPitch: number;
+}
+
+export interface LabelSheetRequest {
+  productIds: string[];
+  // Id of a built-in template, or a custom layout
+  template?: string | Omit<LabelTemplate, 'id' | 'name'>;
+  // Labels printed for each product
+  copies?: number;
+  // First free label on a partly used sheet, counted from 1
+  startPosition?: number;
+  // Code printed on each label; products without a barcode get a Code 128 of their SKU
+  code?: 'barcode' | 'qr';
+  showPrice?: boolean;
+  currency?: string;
+}
+
+// Custom attribute related types
+export enum AttributeType {
+  STRING = 'string',
+  NUMBER = 'number',
+  ENUM = 'enum',
+  BOOLEAN = 'boolean',
+  DATE = 'date',
+}
+
+export type AttributeValue = string | number | boolean | Date;
+
+export interface IAttributeDefinition {
+  key: string;
+  label: string;
+  type: AttributeType;
+  required: boolean;
+  unit?: string;
+  // Allowed values of an enum attribute
+  options?: string[];
+}
+
+export interface AttributeDefinitionRequest {
+  key: string;
+  label?: string;
+  type: AttributeType;
+  required?: boolean;
+  unit?: string;
+  options?: string[];
+}
+
+// Query-string attribute filters: attr[color]=red, attr[color]=red&attr[color]=blue,
+// attr[voltage][min]=100&attr[voltage][max]=240
+export type AttributeQuery = Record<string, string | string[] | { min?: string; max?: string }>;
+
+export interface AttributeFilter {
+  key: string;
+  values?: AttributeValue[];
+  min?: number | Date;
+  max?: number | Date;
+}
+
+// Location (warehouse/store) related types
+export enum LocationType {
+  WAREHOUSE = 'warehouse',
+  STORE = 'store',
+  BACKROOM = 'backroom',
+}
+
+export interface ILocation extends BaseEntity {
+  name: string;
+  code: string;
+  type: LocationType;
+  address?: string;
+  isActive: boolean;
+  userId: Types.ObjectId;
+}
+
+export interface ILocationDocument extends Omit<ILocation, '_id'>, Document {}
+
+export interface CreateLocationRequest {
+  name: string;
+  code: string;
+  type?: LocationType;
+  address?: string;
+}
+
+export interface UpdateLocationRequest extends Partial<CreateLocationRequest> {}
+
+// Quantity of a product held at a single location
+export interface IStockLevel extends BaseEntity {
+  productId: Types.ObjectId;
+  locationId: Types.ObjectId;
+  quantity: number;
+  minStockLevel?: number | null;
+}
+
+export interface IStockLevelDocument extends Omit<IStockLevel, '_id'>, Document {}
+
+// Stock transfer related types
+export enum TransferStatus {
+  PENDING = 'pending',
+  IN_TRANSIT = 'in_transit',
+  PARTIALLY_RECEIVED = 'partially_received',
+  RECEIVED = 'received',
+  CANCELLED = 'cancelled',
+}
+
+export interface ITransferLine {
+  productId: Types.ObjectId;
+  quantity: number;
+  quantityReceived: number;
+}
+
+export interface ITransfer extends BaseEntity {
+  transferNumber: string;
+  fromLocationId: Types.ObjectId;
+  toLocationId: Types.ObjectId;
+  lines: ITransferLine[];
+  status: TransferStatus;
+  note?: string;
+  userId: Types.ObjectId;
+  shippedAt?: Date;
+  shippedBy?: Types.ObjectId;
+  receivedAt?: Date;
+  cancelledAt?: Date;
+}
+
+export interface ITransferDocument extends Omit<ITransfer, '_id'>, Document {}
+
+export interface TransferLineRequest {
+  productId: string;
+  quantity: number;
+}
+
+export interface CreateTransferRequest {
+  fromLocationId: string;
+  toLocationId: string;
+  lines: TransferLineRequest[];
+  note?: string;
+}
+
+export interface ReceiveTransferRequest {
+  lines?: TransferLineRequest[];
+}
+
+export interface TransferQuery {
+  status?: TransferStatus;
+  locationId?: string;
+  productId?: string;
+  page?: number;
+  limit?: number;
+}
+
+// Stock reservation related types
+export enum ReservationStatus {
+  ACTIVE = 'active',
+  RELEASED = 'released',
+  COMMITTED = 'committed',
+  EXPIRED = 'expired',
+}
+
+export interface IReservation extends BaseEntity {
+  productId: Types.ObjectId;
+  quantity: number;
+  status: ReservationStatus;
+  reference?: string;
+  expiresAt: Date;
+  serials?: string[];
+  userId: Types.ObjectId;
+  releasedAt?: Date;
+  committedAt?: Date;
+}
+
+export interface IReservationDocument extends Omit<IReservation, '_id'>, Document {}
+
+export interface CreateReservationRequest {
+  quantity: number;
+  reference?: string;
+  expiresInMinutes?: number;
+  serials?: string[];
+}
+
+// Supplier related types
+export interface ISupplierContact {
+  name?: string;
+  email?: string;
+  phone?: string;
+}
+
+export interface ISupplier extends BaseEntity {
+  name: string;
+  code: string;
+  contact?: ISupplierContact;
+  address?: string;
+  leadTimeDays: number;
+  paymentTerms?: string;
+  currency: string;
+  notes?: string;
+  isActive: boolean;
+  userId: Types.ObjectId;
+}
+
+export interface ISupplierDocument extends Omit<ISupplier, '_id'>, Document {}
+
+export interface CreateSupplierRequest {
+  name: string;
+  code: string;
+  contact?: ISupplierContact;
+  address?: string;
+  leadTimeDays?: number;
+  paymentTerms?: string;
+  currency?: string;
+  notes?: string;
+}
+
+export interface UpdateSupplierRequest extends Partial<CreateSupplierRequest> {}
+
+export interface SupplierQuery {
+  search?: string;
+  userId?: string;
+  page?: number;
+  limit?: number;
+}
+
+// Terms under which a supplier provides a product
+export interface IProductSupplier extends BaseEntity {
+  productId: Types.ObjectId;
+  supplierId: Types.ObjectId;
+  supplierSku?: string;
+  unitCost: number;
+  minimumOrderQuantity: number;
+  isPreferred: boolean;
+}
+
+export interface IProductSupplierDocument extends Omit<IProductSupplier, '_id'>, Document {}
+
+export interface ProductSupplierRequest {
+  supplierSku?: string;
+  unitCost: number;
+  minimumOrderQuantity?: number;
+  isPreferred?: boolean;
+}
+
+// Purchase order related types
+export enum PurchaseOrderStatus {
+  DRAFT = 'draft',
+  SUBMITTED = 'submitted',
+  PARTIALLY_RECEIVED = 'partially_received',
+  RECEIVED = 'received',
+  CLOSED = 'closed',
+  CANCELLED = 'cancelled',
+}
+
+// Vendor details captured on the purchase order itself
+export interface IVendorReference {
+  name: string;
+  contactName?: string;
+  email?: string;
+  phone?: string;
+}
+
+export interface IPurchaseOrderLine {
+  productId: Types.ObjectId;
+  supplierSku?: string;
+  quantityOrdered: number;
+  quantityReceived: number;
+  unitCost: number;
+}
+
+export interface IPurchaseOrderReceiptLine {
+  productId: Types.ObjectId;
+  quantity: number;
+  lotNumber?: string;
+  serials?: string[];
+}
+
+export interface IPurchaseOrderReceipt {
+  lines: IPurchaseOrderReceiptLine[];
+  locationId?: Types.ObjectId;
+  note?: string;
+  receivedBy: Types.ObjectId;
+  receivedAt: Date;
+}
+
+export interface IPurchaseOrder extends BaseEntity {
+  poNumber: string;
+  supplierId?: Types.ObjectId;
+  vendor: IVendorReference;
+  locationId?: Types.ObjectId;
+  lines: IPurchaseOrderLine[];
+  receipts: IPurchaseOrderReceipt[];
+  status: PurchaseOrderStatus;
+  currency: string;
+  expectedDate?: Date;
+  note?: string;
+  userId: Types.ObjectId;
+  submittedAt?: Date;
+  receivedAt?: Date;
+  closedAt?: Date;
+  cancelledAt?: Date;
+}
+
+export interface IPurchaseOrderDocument extends Omit<IPurchaseOrder, '_id'>, Document {}
+
+export interface PurchaseOrderLineRequest {
+  productId: string;
+  quantity: number;
+  unitCost?: number;
+}
+
+export interface CreatePurchaseOrderRequest {
+  supplierId?: string;
+  vendor?: IVendorReference;
+  locationId?: string;
+  lines: PurchaseOrderLineRequest[];
+  currency?: string;
+  expectedDate?: Date | string;
+  note?: string;
+}
+
+export interface UpdatePurchaseOrderRequest extends Partial<CreatePurchaseOrderRequest> {}
+
+export interface PurchaseOrderReceiptLineRequest {
+  productId: string;
+  quantity: number;
+  lot?: LotInput;
+  serials?: string[];
+}
+
+export interface ReceivePurchaseOrderRequest {
+  lines?: PurchaseOrderReceiptLineRequest[];
+  locationId?: string;
+  note?: string;
+}
+
+export interface PurchaseOrderQuery {
+  status?: PurchaseOrderStatus;
+  supplierId?: string;
+  productId?: string;
+  page?: number;
+  limit?: number;
+}
+
+// Sales order related types
+export enum SalesOrderStatus {
+  DRAFT = 'draft',
+  CONFIRMED = 'confirmed',
+  PICKING = 'picking',
+  SHIPPED = 'shipped',
+  CANCELLED = 'cancelled',
+}
+
+export interface ICustomerReference {
+  name: string;
+  email?: string;
+  phone?: string;
+  externalId?: string;
+}
+
+export interface ISalesOrderLine {
+  productId: Types.ObjectId;
+  quantity: number;
+  unitPrice: number;
+  quantityAllocated: number;
+  // Kit units allocated from component stock; they are assembled when shipped
+  quantityFromComponents: number;
+  quantityShipped: number;
+}
+
+// Where to pick a line's units from; no location means stock not assigned to one
+export interface IPickListEntry {
+  productId: Types.ObjectId;
+  locationId?: Types.ObjectId | null;
+  quantity: number;
+}
+
+export interface ISalesOrder extends BaseEntity {
+  orderNumber: string;
+  customer: ICustomerReference;
+  shippingAddress?: string;
+  lines: ISalesOrderLine[];
+  pickList: IPickListEntry[];
+  status: SalesOrderStatus;
+  note?: string;
+  carrier?: string;
+  trackingNumber?: string;
+  userId: Types.ObjectId;
+  confirmedAt?: Date;
+  pickingAt?: Date;
+  shippedAt?: Date;
+  shippedBy?: Types.ObjectId;
+  cancelledAt?: Date;
+}
+
+export interface ISalesOrderDocument extends Omit<ISalesOrder, '_id'>, Document {}
+
+export interface SalesOrderLineRequest {
+  productId: string;
+  quantity: number;
+  unitPrice?: number;
+}
+
+export interface CreateSalesOrderRequest {
+  customer: ICustomerReference;
+  shippingAddress?: string;
+  lines: SalesOrderLineRequest[];
+  note?: string;
+}
+
+export interface UpdateSalesOrderRequest extends Partial<CreateSalesOrderRequest> {}
+
+export interface ShipSalesOrderRequest {
+  carrier?: string;
+  trackingNumber?: string;
+  serials?: { productId: string; serials: string[] }[];
+}
+
+export interface SalesOrderQuery {
+  // Only orders of this user; unset for admins
+  userId?: string;
+  status?: SalesOrderStatus;
+  customer?: string;
+  productId?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface PickSource {
+  locationId: string | null;
+  quantity: number;
+}
+
+// Customer return (RMA) related types
+export enum RmaStatus {
+  OPEN = 'open',
+  RECEIVED = 'received',
+  COMPLETED = 'completed',
+  CANCELLED = 'cancelled',
+}
+
+export enum ReturnReason {
+  DEFECTIVE = 'defective',
+  DAMAGED_IN_TRANSIT = 'damaged_in_transit',
+  WRONG_ITEM = 'wrong_item',
+  NOT_AS_DESCRIBED = 'not_as_described',
+  NO_LONGER_NEEDED = 'no_longer_needed',
+  OTHER = 'other',
+}
+
+export enum ReturnDisposition {
+  RESTOCK = 'restock',
+  REFURBISH = 'refurbish',
+  QUARANTINE = 'quarantine',
+  SCRAP = 'scrap',
+}
+
+export interface IRmaDisposition {
+  disposition: ReturnDisposition;
+  quantity: number;
+  serials?: string[];
+  locationId?: Types.ObjectId;
+  note?: string;
+  inspectedBy: Types.ObjectId;
+  inspectedAt: Date;
+}
+
+export interface IRmaLine {
+  productId: Types.ObjectId;
+  quantity: number;
+  reason: ReturnReason;
+  reasonNote?: string;
+  quantityReceived: number;
+  dispositions: IRmaDisposition[];
+}
+
+export interface IRma extends BaseEntity {
+  rmaNumber: string;
+  orderNumber: string;
+  customer?: ICustomerReference;
+  lines: IRmaLine[];
+  status: RmaStatus;
+  note?: string;
+  userId: Types.ObjectId;
+  receivedAt?: Date;
+  completedAt?: Date;
+  cancelledAt?: Date;
+}
+
+export interface IRmaDocument extends Omit<IRma, '_id'>, Document {}
+
+export interface RmaLineRequest {
+  productId: string;
+  quantity: number;
+  reason: ReturnReason;
+  reasonNote?: string;
+}
+
+export interface CreateRmaRequest {
+  orderNumber: string;
+  customer?: ICustomerReference;
+  lines: RmaLineRequest[];
+  note?: string;
+}
+
+export interface ReceiveRmaRequest {
+  lines?: { productId: string; quantity: number }[];
+}
+
+export interface InspectRmaRequest {
+  lines: {
+    productId: string;
+    disposition: ReturnDisposition;
+    quantity: number;
+    lot?: LotInput;
+    serials?: string[];
+    locationId?: string;
+    note?: string;
+  }[];
+}
+
+export interface ReleaseQuarantineRequest {
+  quantity: number;
+  disposition: ReturnDisposition.RESTOCK | ReturnDisposition.SCRAP;
+  locationId?: string;
+  lot?: LotInput;
+  serials?: string[];
+  note?: string;
+}
+
+export interface RmaQuery {
+  status?: RmaStatus;
+  orderNumber?: string;
+  productId?: string;
+  page?: number;
+  limit?: number;
+}
+
+// Stocktake (count session) related types
+export enum CountSessionStatus {
+  OPEN = 'open',
+  APPROVED = 'approved',
+  CANCELLED = 'cancelled',
+}
+
+export interface ICountLine {
+  productId: Types.ObjectId;
+  sku: string;
+  name: string;
+  // Book quantity snapshotted when the session was opened
+  expectedQuantity: number;
+  countedQuantity: number | null;
+  // Book quantity when the count was submitted; the variance is measured against it
+  quantityAtCount: number | null;
+  lot?: LotInput;
+  serials?: string[];
+  note?: string;
+  countedBy?: Types.ObjectId;
+  countedAt?: Date;
+}
+
+export interface ICountSession extends BaseEntity {
+  countNumber: string;
+  category?: string;
+  locationId?: Types.ObjectId;
+  blind: boolean;
+  lines: ICountLine[];
+  status: CountSessionStatus;
+  note?: string;
+  userId: Types.ObjectId;
+  approvedBy?: Types.ObjectId;
+  approvedAt?: Date;
+  cancelledAt?: Date;
+}
+
+export interface ICountSessionDocument extends Omit<ICountSession, '_id'>, Document {}
+
+export interface CreateCountSessionRequest {
+  category?: string;
+  productIds?: string[];
+  locationId?: string;
+  blind?: boolean;
+  note?: string;
+}
+
+export interface SubmitCountsRequest {
+  counts: {
+    productId: string;
+    countedQuantity: number;
+    lot?: LotInput;
+    serials?: string[];
+    note?: string;
+  }[];
+}
+
+export interface CountVariance {
+  productId: string;
+  sku: string;
+  name: string;
+  expectedQuantity: number;
+  quantityAtCount: number | null;
+  countedQuantity: number | null;
+  variance: number | null;
+  valueChange: number | null;
+}
+
+export interface CountSessionQuery {
+  status?: CountSessionStatus;
+  locationId?: string;
+  productId?: string;
+  page?: number;
+  limit?: number;
+}
+
+// Scanning related types
+// What a scanned code was matched against, in the order they are tried
+export enum ScanMatch {
+  BARCODE = 'barcode',
+  SKU = 'sku',
+  ALTERNATE_CODE = 'alternate_code',
+}
+
+export enum ScanEventStatus {
+  APPLIED = 'applied',
+  UNKNOWN = 'unknown',
+  CONFLICT = 'conflict',
+}
+
+export interface ScanLookup {
+  code: string;
+  matchedBy: ScanMatch;
+  product: IProductDocument;
+}
+
+// One scan in a session and what became of it
+export interface IScanEvent {
+  code: string;
+  // Change in the unit scanned, e.g. -1 for one item picked
+  delta: number;
+  unit?: string;
+  scannedAt?: Date;
+  productId?: Types.ObjectId | null;
+  matchedBy?: ScanMatch | null;
+  status: ScanEventStatus;
+  message?: string;
+}
+
+// Net change booked to one product, in its base unit
+export interface IScanLine {
+  productId: Types.ObjectId;
+  sku: string;
+  name: string;
+  delta: number;
+  quantityAfter: number;
+}
+
+export interface IScanSession extends BaseEntity {
+  sessionNumber: string;
+  locationId?: Types.ObjectId;
+  reason: StockMovementReason;
+  reference?: string;
+  note?: string;
+  events: IScanEvent[];
+  lines: IScanLine[];
+  appliedCount: number;
+  unknownCount: number;
+  conflictCount: number;
+  userId: Types.ObjectId;
+}
+
+export interface IScanSessionDocument extends Omit<IScanSession, '_id'>, Document {}
+
+export interface ScanSessionRequest {
+  events: {
+    code: string;
+    delta: number;
+    unit?: string;
+    scannedAt?: string;
+  }[];
+  locationId?: string;
+  reason?: StockMovementReason;
+  // Defaults to the session number
+  reference?: string;
+  note?: string;
+}
+
+export interface ScanSessionQuery {
+  userId?: string;
+  locationId?: string;
+  page?: number;
+  limit?: number;
+}
+
+// Product import related types
+export enum ImportJobStatus {
+  PENDING = 'pending',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+// upsert updates products whose SKU already exists; create reports them as errors
+export enum ImportMode {
+  UPSERT = 'upsert',
+  CREATE = 'create',
+}
+
+export interface ImportRowError {
+  // Spreadsheet row number, counting the header as row 1
+  row: number;
+  sku?: string;
+  field?: string;
+  message: string;
+}
+
+export interface ImportRow {
+  row: number;
+  action: 'create' | 'update';
+  productId?: string;
+  data: Partial<CreateProductRequest>;
+}
+
+export interface ImportOptions {
+  mode?: ImportMode;
+  // Spreadsheet column -> product field, for headers that are not recognised
+  mapping?: Record<string, string>;
+}
+
+// An uploaded CSV or XLSX file
+export type ImportFile = Pick<ImageUpload, 'buffer' | 'originalname' | 'mimetype'>;
+
+export interface ImportPreview {
+  totalRows: number;
+  validRows: number;
+  createCount: number;
+  updateCount: number;
+  // Columns that matched no product field and were ignored
+  ignoredColumns: string[];
+  errors: ImportRowError[];
+}
+
+export interface IImportJob extends BaseEntity {
+  importNumber: string;
+  status: ImportJobStatus;
+  mode: ImportMode;
+  fileName: string;
+  totalRows: number;
+  processedRows: number;
+  createdCount: number;
+  updatedCount: number;
+  failedCount: number;
+  rowErrors: ImportRowError[];
+  // Validated rows waiting to be applied
+  rows: ImportRow[];
+  startedAt?: Date;
+  completedAt?: Date;
+  userId: Types.ObjectId;
+}
+
+export interface IImportJobDocument extends Omit<IImportJob, '_id'>, Document {}
+
+// Export related types
+export enum ExportFormat {
+  CSV = 'csv',
+  XLSX = 'xlsx',
+  NDJSON = 'ndjson',
+}
+
+// One exported row, keyed by column name
+export type ExportRecord = Record<string, unknown>;
+
+// Audit log related types
+export enum AuditAction {
+  LOGIN = 'login',
+  REGISTER = 'register',
+  PASSWORD_CHANGE = 'password_change',
+  PROFILE_UPDATE = 'profile_update',
+  ROLE_CHANGE = 'role_change',
+  // A change an admin made to a product owned by another user
+  ADMIN_PRODUCT_ACTION = 'admin_product_action',
+}
+
+export enum AuditOutcome {
+  SUCCESS = 'success',
+  FAILURE = 'failure',
+}
+
+// What an audited action was taken on
+export interface AuditTarget {
+  type: 'user' | 'product';
+  id?: string;
+  label?: string;
+  // Owner of a product target
+  ownerId?: string;
+}
+
+// Who made a request and from where
+export interface AuditContext {
+  actorId?: string;
+  actorEmail?: string;
+  actorRole?: UserRole;
+  ip?: string;
+  userAgent?: string;
+}
+
+export interface AuditEventInput extends AuditContext {
+  action: AuditAction;
+  outcome: AuditOutcome;
+  target?: AuditTarget;
+  // Why the action failed
+  message?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface IAuditEvent extends Omit<AuditEventInput, 'actorId'> {
+  _id?: Types.ObjectId;
+  actorId?: Types.ObjectId;
+  createdAt?: Date;
+}
+
+export interface IAuditEventDocument extends Omit<IAuditEvent, '_id'>, Document {}
+
+export interface AuditQuery {
+  action?: AuditAction;
+  outcome?: AuditOutcome;
+  actorId?: string;
+  actorEmail?: string;
+  targetType?: string;
+  targetId?: string;
+  ip?: string;
+  from?: Date;
+  to?: Date;
+  page?: number;
+  limit?: number;
+}
+
+// Replenishment related types
+export interface ReorderInput {
+  availableQuantity: number;
+  onOrderQuantity: number;
+  reorderPoint: number;
+  maxStockLevel?: number | null;
+  dailyUsage: number;
+  leadTimeDays: number;
+  minimumOrderQuantity: number;
+  packSize: number;
+}
+
+export interface ReorderSuggestion {
+  productId: string;
+  sku: string;
+  name: string;
+  availableQuantity: number;
+  onOrderQuantity: number;
+  reorderPoint: number;
+  maxStockLevel?: number | null;
+  dailyUsage: number;
+  leadTimeDays: number;
+  minimumOrderQuantity: number;
+  packSize: number;
+  suggestedQuantity: number;
+  supplierId?: string;
+  supplierName?: string;
+  unitCost?: number;
+  currency?: string;
+}
+
+export interface RestockPlanGroup {
+  supplierId: string | null;
+  supplierName: string | null;
+  currency: string | null;
+  lines: ReorderSuggestion[];
+  totalCost: number;
+}
+
+export interface ReplenishmentQuery {
+  userId?: string;
+  supplierId?: string;
+}
+
+export interface AcceptRestockPlanRequest {
+  productIds?: string[];
+  supplierId?: string;
+  locationId?: string;
+}
+
+// Named sequence used to number documents (transfers, orders, ...)
+export interface ICounterDocument extends Document {
+  seq: number;
+}
 
 // API Response types
 export interface ApiResponse<T = any> {
@@ -83,11 +1407,36 @@ export interface CreateProductRequest {
   name: string;
   description?: string;
   sku: string;
-  category: string;
+  // Null removes the barcode on update; the type is inferred from the code when omitted
+  barcode?: string | null;
+  barcodeType?: BarcodeType;
+  alternateCodes?: string[];
+  // Name or slug of a category; unknown names create a top-level category
+  category?: string;
+  categoryId?: string;
   price: number;
   quantity: number;
   minStockLevel: number;
+  reorderPoint?: number | null;
+  maxStockLevel?: number | null;
+  leadTimeDays?: number | null;
+  packSize?: number;
+  standardCost?: number | null;
+  unitCost?: number;
   images?: string[];
+  trackLots?: boolean;
+  lot?: LotInput;
+  trackSerials?: boolean;
+  serials?: string[];
+  variantOptions?: IVariantOption[];
+  components?: KitComponentRequest[];
+  // Values keyed by attribute key; null removes a value on update
+  attributes?: Record<string, unknown>;
+  baseUnit?: string;
+  fractionalQuantities?: boolean;
+  units?: IUnitOfMeasure[];
+  // Unit the opening quantity and unit cost are given in
+  unit?: string;
 }
 
 export interface UpdateProductRequest extends Partial<CreateProductRequest> {}
@@ -95,11 +1444,23 @@ export interface UpdateProductRequest extends Partial<CreateProductRequest> {}
 export interface ProductQuery {
   search?: string;
   category?: string;
+  // Category and its descendants, resolved from category by the service
+  categoryIds?: string[];
   minPrice?: number;
   maxPrice?: number;
   inStock?: boolean;
+  locationId?: string;
+  supplierId?: string;
+  // parents (default) lists standalone products and variant parents; variants lists
+  // standalone products and individual variants
+  variantView?: 'parents' | 'variants';
+  parentId?: string;
+  attributes?: AttributeQuery;
+  // Typed attribute filters, built from attributes by the service
+  attributeFilters?: AttributeFilter[];
   page?: number;
   limit?: number;
+  // Also accepts attributes.<key>
   sortBy?: string;
   sortOrder?: 'asc' | 'desc';
 }